@@ -6,6 +6,10 @@ import KundaliView from './components/KundaliView';
 import MatchmakingView from './components/MatchmakingView';
 import NumerologyView from './components/NumerologyView';
 import PalmistryView from './components/PalmistryView';
+import PanchangView from './components/PanchangView';
+import MuhurtaView from './components/MuhurtaView';
+import CalendarView from './components/CalendarView';
+import BabyNameView from './components/BabyNameView';
 import { Language } from './types';
 import { StorageService } from './services/storageService';
 import { getHoroscope } from './services/geminiService';
@@ -20,7 +24,7 @@ const App: React.FC = () => {
     const syncData = async () => {
       const prefSign = StorageService.getUserSign() || ZODIAC_SIGNS[0].name;
       try {
-        await getHoroscope(prefSign, 'daily', language);
+        await getHoroscope(prefSign, 'daily', language, StorageService.getNatalAshtakavarga(prefSign));
       } catch (e) {
         console.warn("Background sync failed", e);
       }
@@ -35,10 +39,18 @@ const App: React.FC = () => {
         return <HoroscopeView language={language} />;
       case 'kundali':
         return <KundaliView language={language} />;
+      case 'panchang':
+        return <PanchangView language={language} />;
+      case 'muhurta':
+        return <MuhurtaView language={language} />;
+      case 'calendar':
+        return <CalendarView language={language} />;
       case 'palmistry':
         return <PalmistryView language={language} />;
       case 'numerology':
         return <NumerologyView language={language} />;
+      case 'naming':
+        return <BabyNameView language={language} />;
       case 'matchmaking':
         return <MatchmakingView language={language} />;
       default:
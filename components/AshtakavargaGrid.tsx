@@ -0,0 +1,65 @@
+import React from 'react';
+import { AshtakavargaResult } from '../types';
+import { ZODIAC_SIGNS } from '../constants';
+import { ASHTAKAVARGA_PLANETS } from '../services/ashtakavargaService';
+
+interface AshtakavargaGridProps {
+  ashtakavarga: AshtakavargaResult;
+  lagnaSign: number;
+}
+
+const binduColor = (bindus: number, strong: number, weak: number) =>
+  bindus >= strong ? 'text-emerald-300' : bindus <= weak ? 'text-rose-300' : 'text-slate-300';
+
+const AshtakavargaGrid: React.FC<AshtakavargaGridProps> = ({ ashtakavarga, lagnaSign }) => {
+  const total = ashtakavarga.sarva.reduce((sum, b) => sum + b, 0);
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-5">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">▦</span> Ashtakavarga
+        </h4>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">SAV {total}</span>
+      </div>
+
+      <div className="overflow-x-auto no-scrollbar">
+        <table className="w-full text-center text-[11px] font-mono">
+          <thead>
+            <tr className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+              <th className="text-left py-1 pr-2">Graha</th>
+              {ZODIAC_SIGNS.map((z, i) => (
+                <th key={z.name} title={z.name} className={`py-1 ${i + 1 === lagnaSign ? 'text-amber-400' : ''}`}>{z.name.slice(0, 2)}</th>
+              ))}
+              <th className="py-1 pl-2">Σ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ASHTAKAVARGA_PLANETS.map(planet => (
+              <tr key={planet} className="border-t border-white/5">
+                <td className="text-left py-1.5 pr-2 font-sans font-bold text-slate-300">{planet.slice(0, 2)}</td>
+                {ashtakavarga.bhinna[planet].map((b, i) => (
+                  <td key={i} className={`py-1.5 ${binduColor(b, 4, 2)}`}>{b}</td>
+                ))}
+                <td className="py-1.5 pl-2 text-slate-500">{ashtakavarga.bhinna[planet].reduce((sum, b) => sum + b, 0)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-amber-500/30 font-black">
+              <td className="text-left py-2 pr-2 font-sans text-amber-400">SAV</td>
+              {ashtakavarga.sarva.map((b, i) => (
+                <td key={i} className={`py-2 ${binduColor(b, 28, 24)}`}>{b}</td>
+              ))}
+              <td className="py-2 pl-2 text-amber-400">{total}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        Bindus per sign, Aries to Pisces. Transits through signs with 28+ SAV bindus, with 4+ in the transiting planet's own row, tend to give good results.
+      </p>
+    </div>
+  );
+};
+
+export default AshtakavargaGrid;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { AshtakootResult } from '../types';
+
+interface AshtakootCardProps {
+  result: AshtakootResult;
+  boyName: string;
+  girlName: string;
+}
+
+const scoreColor = (fraction: number) =>
+  fraction >= 0.7 ? '#10b981' : fraction >= 0.5 ? '#f59e0b' : '#f43f5e';
+
+// Semicircle gauge: the arc sweeps from the left (0) to the right (maxTotal)
+const Gauge: React.FC<{ total: number; max: number }> = ({ total, max }) => {
+  const fraction = total / max;
+  const angle = Math.PI * (1 - fraction);
+  const end = { x: 100 + 80 * Math.cos(angle), y: 100 - 80 * Math.sin(angle) };
+  return (
+    <svg viewBox="0 0 200 115" className="w-full max-w-[260px]">
+      <path d="M 20 100 A 80 80 0 0 1 180 100" fill="none" stroke="rgba(255,255,255,0.08)" strokeWidth="14" strokeLinecap="round" />
+      <path
+        d={`M 20 100 A 80 80 0 0 1 ${end.x.toFixed(2)} ${end.y.toFixed(2)}`}
+        fill="none"
+        stroke={scoreColor(fraction)}
+        strokeWidth="14"
+        strokeLinecap="round"
+      />
+      <text x="100" y="88" textAnchor="middle" fill="white" fontSize="30" fontWeight="900">{total}</text>
+      <text x="100" y="108" textAnchor="middle" fill="#94a3b8" fontSize="10" fontWeight="700">OUT OF {max} GUNAS</text>
+    </svg>
+  );
+};
+
+const AshtakootCard: React.FC<AshtakootCardProps> = ({ result, boyName, girlName }) => (
+  <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+    <div className="flex flex-col md:flex-row items-center gap-8">
+      <div className="flex flex-col items-center gap-2">
+        <Gauge total={result.total} max={result.maxTotal} />
+        <span className="text-[10px] font-black uppercase tracking-[0.3em]" style={{ color: scoreColor(result.total / result.maxTotal) }}>
+          {result.verdict}
+        </span>
+        <div className="flex gap-2">
+          {result.nadiDosha && <span className="text-[9px] font-black uppercase tracking-widest bg-rose-500/20 text-rose-300 px-2 py-1 rounded-full">Nadi Dosha</span>}
+          {result.bhakootDosha && <span className="text-[9px] font-black uppercase tracking-widest bg-rose-500/20 text-rose-300 px-2 py-1 rounded-full">Bhakoot Dosha</span>}
+        </div>
+      </div>
+
+      <div className="flex-1 w-full overflow-x-auto">
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-[9px] font-black uppercase tracking-widest text-slate-500 text-left">
+              <th className="py-2 pr-3">Koota</th>
+              <th className="py-2 pr-3 text-blue-400">{boyName || 'Boy'}</th>
+              <th className="py-2 pr-3 text-pink-400">{girlName || 'Girl'}</th>
+              <th className="py-2 text-right">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.kootas.map(k => (
+              <tr key={k.koota} className="border-t border-white/5">
+                <td className="py-2 pr-3 font-bold text-slate-200">{k.koota}</td>
+                <td className="py-2 pr-3 text-slate-400">{k.boy}</td>
+                <td className="py-2 pr-3 text-slate-400">{k.girl}</td>
+                <td className="py-2 text-right font-mono">
+                  <span style={{ color: scoreColor(k.score / k.maxScore) }}>{k.score}</span>
+                  <span className="text-slate-600"> / {k.maxScore}</span>
+                </td>
+              </tr>
+            ))}
+            <tr className="border-t border-white/20 font-black">
+              <td className="py-2 text-amber-400 uppercase tracking-widest text-[10px]" colSpan={3}>Total</td>
+              <td className="py-2 text-right font-mono text-amber-400">{result.total} / {result.maxTotal}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  </div>
+);
+
+export default AshtakootCard;
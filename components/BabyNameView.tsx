@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { BirthDetails, Language, NameGender, NameOrigin } from '../types';
+import { NAKSHATRAS, NAMAKSHAR, NAME_ORIGINS } from '../constants';
+import { getSiderealLongitude, toJulianDay } from '../services/ephemerisService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { resolveTimeZone } from '../services/timezoneService';
+import { getNamakshar, suggestNames } from '../services/namingService';
+import { calculateBhagyank, calculateMulank } from '../services/numerologyService';
+import { localizeTerm } from '../services/scriptService';
+import PlaceInput from './PlaceInput';
+
+interface BabyNameViewProps {
+  language: Language;
+}
+
+interface NamaksharResult {
+  nakshatraIndex: number;
+  pada: number;
+  syllables: string[];
+  mulank: number;
+  bhagyank: number;
+}
+
+const GENDERS: { value: NameGender | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'boy', label: 'Boy' },
+  { value: 'girl', label: 'Girl' },
+];
+
+const SCORE_LABELS = ['Discordant', 'Weak', 'Fair', 'Fair', 'Good', 'Strong', 'Ideal'];
+
+const LABEL_CLASS = "text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1";
+const INPUT_CLASS = "w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all placeholder-slate-800 font-medium";
+const CHIP_CLASS = "px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all";
+
+const BabyNameView: React.FC<BabyNameViewProps> = ({ language }) => {
+  const [baby, setBaby] = useState<BirthDetails>({ name: '', dob: '', tob: '', location: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<NamaksharResult | null>(null);
+  const [gender, setGender] = useState<NameGender | null>(null);
+  const [origin, setOrigin] = useState<NameOrigin | null>(null);
+  const [wholeNakshatra, setWholeNakshatra] = useState(false);
+
+  const term = (latin: string) => localizeTerm(latin, language);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const geoData = await getBirthCoordinates(baby);
+      const tz = resolveTimeZone(geoData.lat, geoData.lng, baby.dob, baby.tob, geoData.formattedAddress);
+      setBaby({ ...baby, location: geoData.formattedAddress, latitude: geoData.lat, longitude: geoData.lng });
+      const moon = getSiderealLongitude('Moon', toJulianDay(baby.dob, baby.tob, tz.utcOffset));
+      setResult({ ...getNamakshar(moon), mulank: calculateMulank(baby.dob), bhagyank: calculateBhagyank(baby.dob) });
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not find the Namakshar.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const nakshatraSyllables = result ? NAMAKSHAR[result.nakshatraIndex].flatMap(s => s.split('/')) : [];
+  const suggestions = result
+    ? suggestNames(wholeNakshatra ? nakshatraSyllables : result.syllables, result.mulank, result.bhagyank, gender ?? undefined, origin ?? undefined)
+    : [];
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto pb-20 px-2 md:px-0">
+      <section className="mirror-card p-6 md:p-10 rounded-3xl animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <div className="mb-8 text-center">
+          <h2 className="text-3xl md:text-5xl font-cinzel text-amber-100 mb-4 tracking-tight">{term('Namakshar')}</h2>
+          <p className="text-slate-400 max-w-xl mx-auto text-sm md:text-base">
+            The starting syllable of the Moon's nakshatra pada at birth, with names that begin on it and sit well with the child's Mulank and Bhagyank.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6 max-w-3xl mx-auto">
+          {error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-2xl text-red-200 text-xs text-center">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>Birth date</label>
+              <input required type="date" className={INPUT_CLASS} value={baby.dob} onChange={(e) => setBaby({ ...baby, dob: e.target.value })} />
+            </div>
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>Birth time</label>
+              <input required type="time" className={INPUT_CLASS} value={baby.tob} onChange={(e) => setBaby({ ...baby, tob: e.target.value })} />
+            </div>
+            <PlaceInput label="Birth place" details={baby} onChange={setBaby} labelClassName={LABEL_CLASS} inputClassName={INPUT_CLASS} />
+          </div>
+
+          <button disabled={loading} className="w-full glossy-button text-white font-bold py-4 rounded-2xl text-lg tracking-widest uppercase font-cinzel shadow-2xl">
+            {loading ? 'Reading the Moon...' : 'Find Namakshar'}
+          </button>
+        </form>
+      </section>
+
+      {result && (
+        <div className="space-y-6 animate-in fade-in duration-700">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+            <div className="px-3 py-4 rounded-2xl bg-white/[0.02] border border-white/5">
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">Nakshatra</p>
+              <p className="text-sm font-bold text-slate-200">{term(NAKSHATRAS[result.nakshatraIndex])} · Pada {result.pada}</p>
+            </div>
+            <div className="px-3 py-4 rounded-2xl bg-amber-500/10 border border-amber-500/30">
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">{term('Namakshar')}</p>
+              <p className="text-2xl font-cinzel font-bold text-amber-200">{result.syllables.join(' / ')}</p>
+            </div>
+            <div className="px-3 py-4 rounded-2xl bg-white/[0.02] border border-white/5">
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">Mulank</p>
+              <p className="text-2xl font-bold text-slate-200">{result.mulank}</p>
+            </div>
+            <div className="px-3 py-4 rounded-2xl bg-white/[0.02] border border-white/5">
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">Bhagyank</p>
+              <p className="text-2xl font-bold text-slate-200">{result.bhagyank}</p>
+            </div>
+          </div>
+          <p className="text-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+            Syllables of {NAKSHATRAS[result.nakshatraIndex]}: {NAMAKSHAR[result.nakshatraIndex].join(' · ')} · 📍 {baby.location}
+          </p>
+
+          <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-3">
+              <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+                <span className="text-lg">👶</span> Suggested Names
+              </h4>
+              <div className="flex flex-wrap gap-2 items-center">
+                {GENDERS.map(g => (
+                  <button
+                    key={g.label}
+                    type="button"
+                    onClick={() => setGender(g.value)}
+                    className={`${CHIP_CLASS} ${gender === g.value ? 'bg-amber-500 text-slate-900' : 'bg-white/5 text-slate-400 hover:text-white'}`}
+                  >
+                    {g.label}
+                  </button>
+                ))}
+                <select
+                  value={origin ?? ''}
+                  onChange={e => setOrigin((e.target.value || null) as NameOrigin | null)}
+                  className="bg-slate-950/50 border border-white/10 rounded-lg px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-300 outline-none focus:border-amber-500/50"
+                >
+                  <option value="">Any language</option>
+                  {NAME_ORIGINS.map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+                <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                  <input type="checkbox" checked={wholeNakshatra} onChange={e => setWholeNakshatra(e.target.checked)} className="accent-amber-500" />
+                  Whole nakshatra
+                </label>
+              </div>
+            </div>
+
+            {suggestions.length === 0 ? (
+              <p className="text-xs text-slate-500 text-center py-6">No names start with these syllables under the chosen filters.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {suggestions.map(s => (
+                  <div key={s.name.name} className="flex justify-between items-center gap-3 px-4 py-3 rounded-2xl bg-white/[0.02] border border-white/5">
+                    <div>
+                      <p className="font-bold text-slate-100">
+                        {s.name.name}
+                        <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-slate-500">{s.name.gender} · {s.name.origin}</span>
+                      </p>
+                      <p className="text-[11px] text-slate-400">{s.name.meaning}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-lg font-bold text-amber-200">{s.nameNumber}</p>
+                      <p className={`text-[9px] font-black uppercase tracking-widest ${s.score >= 4 ? 'text-emerald-300' : s.score >= 2 ? 'text-slate-400' : 'text-rose-300'}`}>
+                        {SCORE_LABELS[s.score]}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BabyNameView;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { BirthDetails, CalendarEvent, CalendarEventKind, Language } from '../types';
+import { NAKSHATRAS } from '../constants';
+import { computeCalendar, buildIcs } from '../services/calendarService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { resolveTimeZone } from '../services/timezoneService';
+import { localizeTerm } from '../services/scriptService';
+import { StorageService } from '../services/storageService';
+import PlaceInput from './PlaceInput';
+
+interface CalendarViewProps {
+  language: Language;
+}
+
+const KINDS: { value: CalendarEventKind; label: string; icon: string }[] = [
+  { value: 'festival', label: 'Festivals', icon: '🪔' },
+  { value: 'eclipse', label: 'Eclipses', icon: '🌑' },
+  { value: 'ekadashi', label: 'Ekadashi', icon: '🙏' },
+  { value: 'purnima', label: 'Purnima', icon: '🌕' },
+  { value: 'amavasya', label: 'Amavasya', icon: '🌚' },
+  { value: 'sankranti', label: 'Sankranti', icon: '☀️' },
+];
+
+const KIND_ICONS = Object.fromEntries(KINDS.map(k => [k.value, k.icon])) as { [key in CalendarEventKind]: string };
+
+// Clock time at the place
+const formatLocalTime = (iso: string, utcOffset: number) =>
+  new Date(new Date(iso).getTime() + utcOffset * 3600000).toISOString().slice(11, 16);
+
+const formatLocalMoment = (iso: string, utcOffset: number) =>
+  new Date(new Date(iso).getTime() + utcOffset * 3600000).toLocaleString('en-GB', {
+    day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: 'UTC',
+  });
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const LABEL_CLASS = "text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1";
+const INPUT_CLASS = "w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all placeholder-slate-800 font-medium";
+
+const CalendarView: React.FC<CalendarViewProps> = ({ language }) => {
+  const [place, setPlace] = useState<BirthDetails>({ name: '', dob: '', tob: '', location: '' });
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [useProfile, setUseProfile] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [events, setEvents] = useState<CalendarEvent[] | null>(null);
+  const [zoneLabel, setZoneLabel] = useState('');
+  const [kinds, setKinds] = useState<CalendarEventKind[]>(KINDS.map(k => k.value));
+
+  const profile = StorageService.getNatalProfile();
+  const term = (latin: string) => localizeTerm(latin, language);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const placeData = await getBirthCoordinates(place);
+      const offsetOn = (date: string) => resolveTimeZone(placeData.lat, placeData.lng, date, '12:00', placeData.formattedAddress).utcOffset;
+      setPlace({ ...place, location: placeData.formattedAddress, latitude: placeData.lat, longitude: placeData.lng });
+      setZoneLabel(resolveTimeZone(placeData.lat, placeData.lng, `${year}-01-01`, '12:00', placeData.formattedAddress).label);
+      setEvents(computeCalendar(year, placeData.lat, placeData.lng, offsetOn, useProfile ? profile : null));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not compute the calendar.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleKind = (kind: CalendarEventKind) =>
+    setKinds(kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind]);
+
+  const shown = events ? events.filter(ev => kinds.includes(ev.kind)) : [];
+
+  const handleExport = () => {
+    const blob = new Blob([buildIcs(shown, place.location)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vedic-calendar-${year}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto pb-20 px-2 md:px-0">
+      <section className="mirror-card p-6 md:p-10 rounded-3xl animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <div className="mb-8 text-center">
+          <h2 className="text-3xl md:text-5xl font-cinzel text-amber-100 mb-4 tracking-tight">{term('Utsav')}</h2>
+          <p className="text-slate-400 max-w-xl mx-auto text-sm md:text-base">
+            Festivals, Ekadashis, Purnimas, Amavasyas, Sankrantis and eclipses for a year, with eclipse timings and visibility at your place.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6 max-w-3xl mx-auto">
+          {error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-2xl text-red-200 text-xs text-center">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2">
+              <PlaceInput label="Place" details={place} onChange={setPlace} labelClassName={LABEL_CLASS} inputClassName={INPUT_CLASS} />
+            </div>
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>Year</label>
+              <input required type="number" min={1900} max={2100} className={INPUT_CLASS} value={year} onChange={(e) => setYear(parseInt(e.target.value) || year)} />
+            </div>
+          </div>
+
+          {profile && (
+            <label className="flex items-center justify-center gap-2 text-xs text-slate-400">
+              <input type="checkbox" checked={useProfile} onChange={e => setUseProfile(e.target.checked)} className="accent-amber-500" />
+              Flag eclipses on {profile.name || 'the last Kundali'}'s natal Moon ({NAKSHATRAS[profile.moonNakshatra]}) and Lagna ({NAKSHATRAS[profile.lagnaNakshatra]}) nakshatras
+            </label>
+          )}
+
+          <button disabled={loading} className="w-full glossy-button text-white font-bold py-4 rounded-2xl text-lg tracking-widest uppercase font-cinzel shadow-2xl">
+            {loading ? 'Computing...' : 'Show Calendar'}
+          </button>
+        </form>
+      </section>
+
+      {events && (
+        <div className="space-y-4 animate-in fade-in duration-700">
+          <div className="flex flex-wrap justify-between items-center gap-3">
+            <div className="flex flex-wrap gap-2">
+              {KINDS.map(k => (
+                <button
+                  key={k.value}
+                  type="button"
+                  onClick={() => toggleKind(k.value)}
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                    kinds.includes(k.value) ? 'bg-amber-500/20 border border-amber-500/50 text-amber-100' : 'bg-white/5 border border-white/10 text-slate-500'
+                  }`}
+                >
+                  {k.icon} {k.label}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={shown.length === 0}
+              className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white/10 hover:bg-white/20 text-white border border-white/10 disabled:opacity-30"
+            >
+              Export .ics
+            </button>
+          </div>
+          <p className="text-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+            {shown.length} events · 📍 {place.location} · {zoneLabel}
+          </p>
+
+          {shown.map((ev, idx) => {
+            const newMonth = idx === 0 || shown[idx - 1].date.slice(0, 7) !== ev.date.slice(0, 7);
+            const eclipse = ev.eclipse;
+            const flagged = eclipse !== undefined && eclipse.natalHits.length > 0;
+            return (
+              <React.Fragment key={`${ev.date}-${ev.kind}-${ev.name}`}>
+                {newMonth && (
+                  <h3 className="pt-4 text-xs font-black text-amber-500 uppercase tracking-[0.3em]">{formatMonth(ev.date)}</h3>
+                )}
+                <div
+                  className={`p-4 rounded-[20px] border space-y-2 ${
+                    flagged ? 'bg-rose-500/5 border-rose-500/30' : ev.kind === 'eclipse' ? 'bg-slate-900/60 border-amber-500/20' : 'bg-slate-900/40 border-white/5'
+                  }`}
+                >
+                  <div className="flex flex-wrap justify-between items-baseline gap-2">
+                    <p className="font-bold text-slate-100">
+                      <span className="mr-2">{KIND_ICONS[ev.kind]}</span>{ev.name}
+                      {ev.month && <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">{ev.month}</span>}
+                    </p>
+                    <p className="text-xs text-slate-400 whitespace-nowrap">{formatDay(ev.date)}</p>
+                  </div>
+
+                  {!eclipse && (
+                    <p className="text-[11px] font-mono text-slate-500">
+                      {ev.kind === 'sankranti'
+                        ? `Ingress ${formatLocalTime(ev.start, ev.utcOffset)}`
+                        : `Tithi ${formatLocalMoment(ev.start, ev.utcOffset)} → ${formatLocalMoment(ev.end!, ev.utcOffset)}`}
+                    </p>
+                  )}
+
+                  {eclipse && (
+                    <div className="space-y-2">
+                      <p className={`text-[10px] font-black uppercase tracking-widest ${eclipse.localType ? 'text-emerald-300' : 'text-slate-500'}`}>
+                        {!eclipse.localType
+                          ? 'Not visible from this place'
+                          : eclipse.body === 'solar'
+                            ? `Visible here · magnitude about ${eclipse.magnitude.toFixed(2)}${eclipse.type !== 'partial' ? ` · ${eclipse.type} only along its central path` : ''}`
+                            : `Visible here as ${eclipse.localType} · magnitude ${eclipse.magnitude.toFixed(2)}`}
+                        <span className="text-slate-500"> · in {term(NAKSHATRAS[eclipse.nakshatra])}</span>
+                      </p>
+                      {flagged && (
+                        <p className="text-[11px] font-bold text-rose-300">
+                          ⚠ Falls on the natal {eclipse.natalHits.join(' and ')} nakshatra
+                        </p>
+                      )}
+                      {eclipse.contacts.length > 0 && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1">
+                          {eclipse.contacts.map(c => (
+                            <div key={c.label} className={`flex justify-between text-[11px] ${c.altitude > 0 ? 'text-slate-300' : 'text-slate-600'}`}>
+                              <span>{c.label}</span>
+                              <span className="font-mono">{formatLocalTime(c.time, ev.utcOffset)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarView;
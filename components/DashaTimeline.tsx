@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { DashaPeriod } from '../types';
+import { getActiveDashaChain } from '../services/dashaService';
+
+interface DashaTimelineProps {
+  periods: DashaPeriod[];
+}
+
+const LORD_COLORS: { [key: string]: string } = {
+  Sun: 'bg-orange-500',
+  Moon: 'bg-slate-300',
+  Mars: 'bg-red-500',
+  Mercury: 'bg-emerald-500',
+  Jupiter: 'bg-yellow-400',
+  Venus: 'bg-pink-400',
+  Saturn: 'bg-indigo-500',
+  Rahu: 'bg-slate-600',
+  Ketu: 'bg-amber-800',
+};
+
+const LEVEL_LABELS: { [key: string]: string } = {
+  mahadasha: 'Mahadasha',
+  antardasha: 'Antardasha',
+  pratyantardasha: 'Pratyantardasha',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const DashaTimeline: React.FC<DashaTimelineProps> = ({ periods }) => {
+  const [path, setPath] = useState<DashaPeriod[]>([]);
+  const activeChain = getActiveDashaChain(periods);
+  const isActive = (p: DashaPeriod) => activeChain.includes(p);
+
+  const visible = path.length ? path[path.length - 1].children || [] : periods;
+  const rangeStart = new Date(visible[0].start).getTime();
+  const rangeEnd = new Date(visible[visible.length - 1].end).getTime();
+  const now = Date.now();
+  const nowPct = now > rangeStart && now < rangeEnd ? ((now - rangeStart) / (rangeEnd - rangeStart)) * 100 : null;
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">⏳</span> Vimshottari Dasha
+        </h4>
+        {activeChain.length > 0 && (
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Now: {activeChain.map(p => p.lord.slice(0, 2)).join(' / ')}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest no-print">
+        <button type="button" onClick={() => setPath([])} className={path.length ? 'text-slate-500 hover:text-amber-400' : 'text-amber-400'}>
+          All Mahadashas
+        </button>
+        {path.map((p, idx) => (
+          <React.Fragment key={`${p.level}-${p.start}`}>
+            <span className="text-slate-700">›</span>
+            <button
+              type="button"
+              onClick={() => setPath(path.slice(0, idx + 1))}
+              className={idx === path.length - 1 ? 'text-amber-400' : 'text-slate-500 hover:text-amber-400'}
+            >
+              {p.lord}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="relative">
+        <div className="flex h-8 rounded-xl overflow-hidden border border-white/10">
+          {visible.map(p => {
+            const width = ((new Date(p.end).getTime() - new Date(p.start).getTime()) / (rangeEnd - rangeStart)) * 100;
+            return (
+              <button
+                key={`bar-${p.start}`}
+                type="button"
+                title={`${p.lord}: ${formatDate(p.start)} – ${formatDate(p.end)}`}
+                onClick={() => p.children && setPath([...path, p])}
+                style={{ width: `${width}%` }}
+                className={`${LORD_COLORS[p.lord]} ${isActive(p) ? 'opacity-100' : 'opacity-30 hover:opacity-60'} transition-opacity border-r border-black/40 last:border-r-0 text-[8px] font-black text-black/70 overflow-hidden`}
+              >
+                {width > 6 ? p.lord.slice(0, 2) : ''}
+              </button>
+            );
+          })}
+        </div>
+        {nowPct !== null && (
+          <div className="absolute -top-1 -bottom-1 w-0.5 bg-white shadow-[0_0_6px_white]" style={{ left: `${nowPct}%` }} />
+        )}
+      </div>
+
+      <div className="space-y-1.5 max-h-80 overflow-y-auto no-scrollbar">
+        {visible.map(p => (
+          <button
+            key={`row-${p.start}`}
+            type="button"
+            disabled={!p.children}
+            onClick={() => p.children && setPath([...path, p])}
+            className={`w-full flex items-center justify-between px-4 py-2.5 rounded-xl text-left text-[11px] border transition-all ${
+              isActive(p)
+                ? 'bg-amber-500/15 border-amber-500/40 text-amber-100'
+                : 'bg-white/[0.02] border-white/5 text-slate-400 hover:border-white/15'
+            }`}
+          >
+            <span className="flex items-center gap-3 font-bold">
+              <span className={`w-2 h-2 rounded-full ${LORD_COLORS[p.lord]}`} />
+              {p.lord}
+              <span className="text-[9px] uppercase tracking-widest text-slate-600">{LEVEL_LABELS[p.level]}</span>
+              {isActive(p) && <span className="text-[8px] uppercase tracking-widest bg-amber-500 text-slate-900 px-2 py-0.5 rounded-full">Running</span>}
+            </span>
+            <span className="font-mono text-[10px]">
+              {formatDate(p.start)} – {formatDate(p.end)} {p.children && <span className="text-slate-600 ml-1">›</span>}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DashaTimeline;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { GrahaPosition, KundaliChartData, TransitContact } from '../types';
+import { formatDegree, getSignName } from '../services/ephemerisService';
+
+interface GocharPanelProps {
+  date: Date;
+  onDateChange: (date: Date) => void;
+  onNextContact: () => void;
+  transits: GrahaPosition[];
+  transitChart: KundaliChartData;
+  contacts: TransitContact[];
+}
+
+const DAY_MS = 86400000;
+const RANGE_DAYS = 730;
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(12, 0, 0, 0);
+  return d;
+};
+
+const toInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const GocharPanel: React.FC<GocharPanelProps> = ({ date, onDateChange, onNextContact, transits, transitChart, contacts }) => {
+  const today = startOfToday();
+  const offset = Math.round((date.getTime() - today.getTime()) / DAY_MS);
+  const houseOf = (planet: string) => Object.keys(transitChart).find(h => transitChart[parseInt(h)].includes(planet));
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-sky-500/20 rounded-[32px] space-y-5 no-print">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-sky-400 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">🪐</span> Gochar
+        </h4>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {offset === 0 ? 'Today' : `${offset > 0 ? '+' : ''}${offset} days`}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={-RANGE_DAYS}
+        max={RANGE_DAYS}
+        value={Math.max(-RANGE_DAYS, Math.min(RANGE_DAYS, offset))}
+        onChange={e => onDateChange(new Date(today.getTime() + parseInt(e.target.value) * DAY_MS))}
+        className="w-full accent-sky-400"
+      />
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="date"
+          value={toInputValue(date)}
+          onChange={e => e.target.value && onDateChange(new Date(`${e.target.value}T12:00:00`))}
+          className="bg-slate-950/50 border border-white/10 rounded-xl px-3 py-1.5 text-xs text-slate-200 outline-none focus:border-sky-400/50"
+        />
+        <button
+          type="button"
+          onClick={() => onDateChange(today)}
+          className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest bg-white/5 text-slate-300 hover:text-white"
+        >
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={onNextContact}
+          className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest bg-sky-500/20 text-sky-300 hover:bg-sky-500/30"
+        >
+          Next crossing ▸
+        </button>
+      </div>
+
+      {contacts.length > 0 && (
+        <div className="space-y-1.5">
+          {contacts.map(c => (
+            <p key={`${c.planet}-${c.point.label}`} className="text-[11px] text-pink-200 bg-pink-500/10 border border-pink-500/30 rounded-xl px-4 py-2">
+              {c.planet} crossing {c.point.label} <span className="text-pink-300/70 font-mono">({c.orb.toFixed(1)}°)</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {transits.map(t => (
+          <div key={t.planet} className="px-3 py-2 rounded-xl bg-white/[0.02] border border-white/5">
+            <p className="text-[9px] font-black uppercase tracking-widest text-sky-300">
+              {t.planet}{t.speed < 0 ? ' (R)' : ''}
+            </p>
+            <p className="text-[10px] text-slate-300">{getSignName(t.longitude)} {formatDegree(t.longitude)}</p>
+            <p className="text-[9px] text-slate-500">House {houseOf(t.planet)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GocharPanel;
@@ -1,12 +1,19 @@
 
 import React, { useState, useEffect } from 'react';
 import { ZODIAC_SIGNS } from '../constants';
-import { Timeframe, PredictionResult, Language } from '../types';
+import { Timeframe, PredictionResult, Language, KeyTransitKind } from '../types';
 import { getHoroscope } from '../services/geminiService';
 import { StorageService } from '../services/storageService';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 
+const TRANSIT_ICONS: { [key in KeyTransitKind]: string } = {
+  ingress: '➜',
+  retrograde: '℞',
+  direct: '⟳',
+  nakshatra: '☽',
+};
+
 interface HoroscopeViewProps {
   language: Language;
 }
@@ -23,7 +30,7 @@ const HoroscopeView: React.FC<HoroscopeViewProps> = ({ language }) => {
     setLoading(true);
     setError(null);
     try {
-      const data = await getHoroscope(selectedSign, timeframe, language);
+      const data = await getHoroscope(selectedSign, timeframe, language, StorageService.getNatalAshtakavarga(selectedSign));
       setPrediction(data);
     } catch (err: any) {
       console.error(err);
@@ -187,6 +194,24 @@ const HoroscopeView: React.FC<HoroscopeViewProps> = ({ language }) => {
             <ResultCard title="Finance" content={prediction.finance} icon="💰" />
             <ResultCard title="Health" content={prediction.health} icon="🩺" />
             <ResultCard title="Relationships" content={prediction.relationships} icon="💍" />
+
+            <div className="col-span-1 md:col-span-2 mirror-card p-6 rounded-[28px] border-white/5">
+              <div className="flex items-center gap-3 mb-4">
+                <span className="text-xl">🪐</span>
+                <h4 className="text-sm font-black uppercase tracking-widest text-amber-200/80">Key Transits</h4>
+              </div>
+              <div className="space-y-1.5 max-h-72 overflow-y-auto no-scrollbar">
+                {prediction.keyTransits.map(t => (
+                  <div key={`${t.date}-${t.planet}-${t.kind}`} className="flex items-baseline gap-4 text-sm">
+                    <span className="font-mono text-[11px] text-slate-500 whitespace-nowrap w-32">
+                      {new Date(t.date).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="text-amber-400 w-4 text-center">{TRANSIT_ICONS[t.kind]}</span>
+                    <span className={t.planet === 'Moon' ? 'text-slate-400' : 'text-slate-200 font-semibold'}>{t.description}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
 
           <div className="mt-8 pt-8 border-t border-white/10 opacity-60">
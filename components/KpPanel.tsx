@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { ChartStyle, KpPoint, KpResult, Planet } from '../types';
+import { formatDegree, getSignName } from '../services/ephemerisService';
+import { computeRulingPlanets } from '../services/kpService';
+import KundaliChart from './KundaliChart';
+
+interface KpPanelProps {
+  kp: KpResult;
+  latitude: number;
+  longitude: number;
+  chartStyle: ChartStyle;
+}
+
+const ABBR: { [key: string]: string } = {
+  Sun: 'Su', Moon: 'Mo', Mars: 'Ma', Mercury: 'Me', Jupiter: 'Ju', Venus: 'Ve', Saturn: 'Sa', Rahu: 'Ra', Ketu: 'Ke',
+};
+
+const toInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const list = (planets: Planet[]) => (planets.length ? planets.map(p => ABBR[p]).join(' ') : '–');
+
+const LordsTable: React.FC<{ title: string; points: KpPoint[] }> = ({ title, points }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-[11px]">
+      <thead>
+        <tr className="text-[9px] font-black uppercase tracking-widest text-amber-500/60 text-left">
+          <th className="py-1 pr-2">{title}</th>
+          <th className="py-1 pr-2">Position</th>
+          <th className="py-1 pr-2">Sign</th>
+          <th className="py-1 pr-2">Star</th>
+          <th className="py-1 pr-2">Sub</th>
+          <th className="py-1">Sub-sub</th>
+        </tr>
+      </thead>
+      <tbody>
+        {points.map(p => (
+          <tr key={p.label} className="border-t border-white/5 text-slate-300">
+            <td className="py-1 pr-2 font-bold text-slate-200">{p.label.replace('Cusp ', '')}</td>
+            <td className="py-1 pr-2 font-mono whitespace-nowrap">{getSignName(p.longitude).slice(0, 3)} {formatDegree(p.longitude)}</td>
+            <td className="py-1 pr-2">{ABBR[p.lords.sign]}</td>
+            <td className="py-1 pr-2">{ABBR[p.lords.star]}</td>
+            <td className="py-1 pr-2 font-bold text-amber-200">{ABBR[p.lords.sub]}</td>
+            <td className="py-1">{ABBR[p.lords.subSub]}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const KpPanel: React.FC<KpPanelProps> = ({ kp, latitude, longitude, chartStyle }) => {
+  const [moment, setMoment] = useState(() => new Date());
+  const rulingPlanets = useMemo(() => computeRulingPlanets(moment, latitude, longitude), [moment, latitude, longitude]);
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+      <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+        <span className="text-lg">🧭</span> Krishnamurti Paddhati
+      </h4>
+
+      <KundaliChart
+        data={kp.chart}
+        lagnaSign={kp.lagna.lagnaSign}
+        lagnaLongitude={kp.lagna.lagnaLongitude}
+        cusps={kp.lagna.cusps}
+        grahas={kp.planets.map(p => ({ planet: p.label, longitude: p.longitude }))}
+        title="KP Placidus"
+        chartStyle={chartStyle}
+      />
+
+      <LordsTable title="Cusp" points={kp.cusps} />
+      <LordsTable title="Graha" points={kp.planets} />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-[9px] font-black uppercase tracking-widest text-amber-500/60 text-left">
+              <th className="py-1 pr-2">House</th>
+              <th className="py-1 pr-2" title="In the star of an occupant">A</th>
+              <th className="py-1 pr-2" title="Occupants">B</th>
+              <th className="py-1 pr-2" title="In the star of the owner">C</th>
+              <th className="py-1" title="Owner">D</th>
+            </tr>
+          </thead>
+          <tbody>
+            {kp.significators.map(s => (
+              <tr key={s.house} className="border-t border-white/5 text-slate-300">
+                <td className="py-1 pr-2 font-bold text-slate-200">{s.house}</td>
+                <td className="py-1 pr-2">{list(s.a)}</td>
+                <td className="py-1 pr-2">{list(s.b)}</td>
+                <td className="py-1 pr-2">{list(s.c)}</td>
+                <td className="py-1">{list(s.d)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <p className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em]">Ruling Planets <span className="text-slate-500">· at the birth place</span></p>
+          <div className="flex gap-2 items-center no-print">
+            <input
+              type="datetime-local"
+              value={toInputValue(moment)}
+              onChange={e => e.target.value && setMoment(new Date(e.target.value))}
+              className="bg-slate-950/50 border border-white/10 rounded-xl px-3 py-1.5 text-xs text-slate-200 outline-none focus:border-amber-500/50"
+            />
+            <button
+              type="button"
+              onClick={() => setMoment(new Date())}
+              className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest bg-white/5 text-slate-300 hover:text-white"
+            >
+              Now
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+          {rulingPlanets.map(rp => (
+            <div key={rp.role} className="flex justify-between text-[11px] border-b border-white/5 pb-1">
+              <span className="text-slate-400">{rp.role}</span>
+              <span className="text-slate-200 font-bold">{rp.planet}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KpPanel;
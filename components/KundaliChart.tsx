@@ -1,10 +1,24 @@
 
 import React, { useState } from 'react';
-import { KundaliChartData } from '../types';
+import { ChartStyle, GrahaPosition, KundaliChartData, PlanetPosition } from '../types';
+import { ZODIAC_SIGNS } from '../constants';
+import { formatDegree, getSignNumber } from '../services/ephemerisService';
 
 interface KundaliChartProps {
   data: KundaliChartData;
   lagnaSign: number; // The sign (1-12) for the 1st House
+  lagnaLongitude?: number; // Sidereal Ascendant degree
+  cusps?: number[]; // Sidereal bhava cusps; each house shows its cusp's sign when given
+  title?: string; // Divisional chart name, e.g. "D9 Navamsa"
+  highlighted?: string[]; // Planets to mark, e.g. vargottama
+  highlightLabel?: string; // Legend for the marked planets
+  chartStyle?: ChartStyle;
+  signBindus?: number[]; // Sarvashtakavarga bindus per sign (Aries first) to overlay on the cells
+  transits?: KundaliChartData; // Gochar planets by natal house, drawn over the birth chart
+  transitGrahas?: GrahaPosition[]; // Longitudes behind transits, so fixed-sign layouts put each in its own sign
+  transitHighlighted?: string[]; // Transiting planets crossing a natal point
+  positions?: PlanetPosition[]; // When given, each glyph is labelled with its degree and a retrograde marker
+  grahas?: { planet: string; longitude: number }[]; // Longitudes behind data when positions is not given
 }
 
 const PLANET_SYMBOLS: { [key: string]: string } = {
@@ -43,61 +57,124 @@ const HOUSE_NAMES: { [key: number]: string } = {
   12: 'Vyaya (Losses)',
 };
 
-const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign }) => {
-  const [hoveredHouse, setHoveredHouse] = useState<number | null>(null);
+interface ChartCell {
+  path: string; // Outline used for hover and, in fixed-sign layouts, for the grid
+  center: { x: number; y: number }; // Where the planet cluster sits
+  label: { x: number; y: number }; // Where the sign number sits
+  bindu: { x: number; y: number }; // Where the Sarvashtakavarga overlay sits
+}
 
-  // SVG coordinates for house centers in a 400x400 diamond chart
-  const houseCoords: { [key: number]: { x: number; y: number } } = {
-    1: { x: 200, y: 125 },
-    2: { x: 110, y: 65 },
-    3: { x: 65, y: 110 },
-    4: { x: 125, y: 200 },
-    5: { x: 65, y: 290 },
-    6: { x: 110, y: 335 },
-    7: { x: 200, y: 275 },
-    8: { x: 290, y: 335 },
-    9: { x: 335, y: 290 },
-    10: { x: 275, y: 200 },
-    11: { x: 335, y: 110 },
-    12: { x: 290, y: 65 },
-  };
+interface ChartLayout {
+  fixedSigns: boolean; // Cells are keyed by sign (South/East) rather than by house (North)
+  cells: { [key: number]: ChartCell };
+}
 
-  const rashiCoords: { [key: number]: { x: number; y: number } } = {
-    1: { x: 200, y: 185 },
-    2: { x: 175, y: 115 },
-    3: { x: 115, y: 175 },
-    4: { x: 185, y: 200 },
-    5: { x: 115, y: 225 },
-    6: { x: 175, y: 285 },
-    7: { x: 200, y: 215 },
-    8: { x: 225, y: 285 },
-    9: { x: 285, y: 225 },
-    10: { x: 215, y: 200 },
-    11: { x: 285, y: 175 },
-    12: { x: 225, y: 115 },
-  };
+// North Indian diamond on a 400x400 grid, cells keyed by house
+const NORTH_LAYOUT: ChartLayout = {
+  fixedSigns: false,
+  cells: {
+    1: { path: "M 200 0 L 100 100 L 200 200 L 300 100 Z", center: { x: 200, y: 125 }, label: { x: 200, y: 185 }, bindu: { x: 200, y: 45 } },
+    2: { path: "M 0 0 L 200 0 L 100 100 Z", center: { x: 110, y: 65 }, label: { x: 175, y: 115 }, bindu: { x: 100, y: 18 } },
+    3: { path: "M 0 0 L 0 200 L 100 100 Z", center: { x: 65, y: 110 }, label: { x: 115, y: 175 }, bindu: { x: 18, y: 100 } },
+    4: { path: "M 0 200 L 100 100 L 200 200 L 100 300 Z", center: { x: 125, y: 200 }, label: { x: 185, y: 200 }, bindu: { x: 45, y: 200 } },
+    5: { path: "M 0 200 L 0 400 L 100 300 Z", center: { x: 65, y: 290 }, label: { x: 115, y: 225 }, bindu: { x: 18, y: 300 } },
+    6: { path: "M 0 400 L 200 400 L 100 300 Z", center: { x: 110, y: 335 }, label: { x: 175, y: 285 }, bindu: { x: 100, y: 388 } },
+    7: { path: "M 200 400 L 100 300 L 200 200 L 300 300 Z", center: { x: 200, y: 275 }, label: { x: 200, y: 215 }, bindu: { x: 200, y: 355 } },
+    8: { path: "M 200 400 L 400 400 L 300 300 Z", center: { x: 290, y: 335 }, label: { x: 225, y: 285 }, bindu: { x: 300, y: 388 } },
+    9: { path: "M 400 200 L 400 400 L 300 300 Z", center: { x: 335, y: 290 }, label: { x: 285, y: 225 }, bindu: { x: 382, y: 300 } },
+    10: { path: "M 400 200 L 300 300 L 200 200 L 300 100 Z", center: { x: 275, y: 200 }, label: { x: 215, y: 200 }, bindu: { x: 355, y: 200 } },
+    11: { path: "M 400 0 L 400 200 L 300 100 Z", center: { x: 335, y: 110 }, label: { x: 285, y: 175 }, bindu: { x: 382, y: 100 } },
+    12: { path: "M 200 0 L 400 0 L 300 100 Z", center: { x: 290, y: 65 }, label: { x: 225, y: 115 }, bindu: { x: 300, y: 18 } },
+  },
+};
 
-  // SVG Path definitions for interactivity
-  const housePaths: { [key: number]: string } = {
-    1: "M 200 0 L 100 100 L 200 200 L 300 100 Z",
-    2: "M 0 0 L 200 0 L 100 100 Z",
-    3: "M 0 0 L 0 200 L 100 100 Z",
-    4: "M 0 200 L 100 100 L 200 200 L 100 300 Z",
-    5: "M 0 200 L 0 400 L 100 300 Z",
-    6: "M 0 400 L 200 400 L 100 300 Z",
-    7: "M 200 400 L 100 300 L 200 200 L 300 300 Z",
-    8: "M 200 400 L 400 400 L 300 300 Z",
-    9: "M 400 200 L 400 400 L 300 300 Z",
-    10: "M 400 200 L 300 300 L 200 200 L 300 100 Z",
-    11: "M 400 0 L 400 200 L 300 100 Z",
-    12: "M 200 0 L 400 0 L 300 100 Z",
+const squareCell = (col: number, row: number): ChartCell => {
+  const x = col * 100;
+  const y = row * 100;
+  return {
+    path: `M ${x} ${y} L ${x + 100} ${y} L ${x + 100} ${y + 100} L ${x} ${y + 100} Z`,
+    center: { x: x + 50, y: y + 58 },
+    label: { x: x + 14, y: y + 18 },
+    bindu: { x: x + 86, y: y + 18 },
   };
+};
+
+// South Indian 4x4 grid with Pisces top-left and the signs running clockwise
+const SOUTH_LAYOUT: ChartLayout = {
+  fixedSigns: true,
+  cells: {
+    12: squareCell(0, 0), 1: squareCell(1, 0), 2: squareCell(2, 0), 3: squareCell(3, 0),
+    4: squareCell(3, 1), 5: squareCell(3, 2), 6: squareCell(3, 3), 7: squareCell(2, 3),
+    8: squareCell(1, 3), 9: squareCell(0, 3), 10: squareCell(0, 2), 11: squareCell(0, 1),
+  },
+};
+
+// East Indian 3x3 grid with Aries top-centre, the signs running anticlockwise and split corners
+const T = 400 / 3;
+const EAST_LAYOUT: ChartLayout = {
+  fixedSigns: true,
+  cells: {
+    1: { path: `M ${T} 0 L ${2 * T} 0 L ${2 * T} ${T} L ${T} ${T} Z`, center: { x: 200, y: 75 }, label: { x: 200, y: 20 }, bindu: { x: 250, y: 20 } },
+    2: { path: `M 0 0 L ${T} 0 L ${T} ${T} Z`, center: { x: 92, y: 48 }, label: { x: 118, y: 20 }, bindu: { x: 122, y: 75 } },
+    3: { path: `M 0 0 L 0 ${T} L ${T} ${T} Z`, center: { x: 42, y: 95 }, label: { x: 14, y: 122 }, bindu: { x: 75, y: 122 } },
+    4: { path: `M 0 ${T} L ${T} ${T} L ${T} ${2 * T} L 0 ${2 * T} Z`, center: { x: 67, y: 205 }, label: { x: 14, y: 205 }, bindu: { x: 14, y: 160 } },
+    5: { path: `M 0 ${2 * T} L ${T} ${2 * T} L 0 400 Z`, center: { x: 42, y: 315 }, label: { x: 14, y: 285 }, bindu: { x: 75, y: 282 } },
+    6: { path: `M 0 400 L ${T} ${2 * T} L ${T} 400 Z`, center: { x: 92, y: 362 }, label: { x: 118, y: 392 }, bindu: { x: 122, y: 330 } },
+    7: { path: `M ${T} ${2 * T} L ${2 * T} ${2 * T} L ${2 * T} 400 L ${T} 400 Z`, center: { x: 200, y: 335 }, label: { x: 200, y: 392 }, bindu: { x: 250, y: 392 } },
+    8: { path: `M ${2 * T} ${2 * T} L 400 400 L ${2 * T} 400 Z`, center: { x: 308, y: 362 }, label: { x: 282, y: 392 }, bindu: { x: 278, y: 330 } },
+    9: { path: `M ${2 * T} ${2 * T} L 400 ${2 * T} L 400 400 Z`, center: { x: 358, y: 315 }, label: { x: 386, y: 285 }, bindu: { x: 325, y: 282 } },
+    10: { path: `M ${2 * T} ${T} L 400 ${T} L 400 ${2 * T} L ${2 * T} ${2 * T} Z`, center: { x: 333, y: 205 }, label: { x: 386, y: 205 }, bindu: { x: 386, y: 160 } },
+    11: { path: `M ${2 * T} ${T} L 400 0 L 400 ${T} Z`, center: { x: 358, y: 95 }, label: { x: 386, y: 122 }, bindu: { x: 325, y: 122 } },
+    12: { path: `M ${2 * T} 0 L 400 0 L ${2 * T} ${T} Z`, center: { x: 308, y: 48 }, label: { x: 282, y: 20 }, bindu: { x: 278, y: 75 } },
+  },
+};
+
+const LAYOUTS: { [key in ChartStyle]: ChartLayout } = {
+  north: NORTH_LAYOUT,
+  south: SOUTH_LAYOUT,
+  east: EAST_LAYOUT,
+};
+
+const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign, lagnaLongitude, cusps, title, highlighted = [], highlightLabel = 'Vargottama', chartStyle = 'north', signBindus, transits, transitGrahas, transitHighlighted = [], positions, grahas }) => {
+  const [hoveredHouse, setHoveredHouse] = useState<number | null>(null);
+  const layout = LAYOUTS[chartStyle];
 
   const getSignForHouse = (house: number) => {
+    if (cusps && cusps.length === 12) return getSignNumber(cusps[house - 1]);
     let sign = (lagnaSign + house - 1) % 12;
     return sign === 0 ? 12 : sign;
   };
 
+  // House shown in a cell; in fixed-sign layouts a sign skipped by unequal cusps has none
+  const getHouseForCell = (key: number): number | null => {
+    if (!layout.fixedSigns) return key;
+    for (let house = 1; house <= 12; house++) {
+      if (getSignForHouse(house) === key) return house;
+    }
+    return null;
+  };
+
+  const natalSigns: { [planet: string]: number } = Object.fromEntries(
+    positions ? positions.map(p => [p.planet, p.sign]) : (grahas || []).map(g => [g.planet, getSignNumber(g.longitude)])
+  );
+  const transitSigns: { [planet: string]: number } = Object.fromEntries(
+    (transitGrahas || []).map(g => [g.planet, getSignNumber(g.longitude)])
+  );
+
+  // Fixed-sign layouts place each planet in the cell of its own sign, which under unequal cusps
+  // need not be its house's cusp sign; the house's sign is the fallback when no longitude is known
+  const getPlanetsByCell = (chart: KundaliChartData, signs: { [planet: string]: number }) => {
+    const cells: { [key: number]: string[] } = {};
+    Object.entries(chart).forEach(([house, planets]) => {
+      const h = parseInt(house);
+      (planets as string[]).forEach(p => {
+        const key = layout.fixedSigns ? signs[p] ?? getSignForHouse(h) : h;
+        cells[key] = [...(cells[key] || []), p];
+      });
+    });
+    return cells;
+  };
+
   const renderPlanetCluster = (planets: string[], centerX: number, centerY: number) => {
     if (!planets || planets.length === 0) return null;
 
@@ -106,15 +183,18 @@ const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign }) => {
       const row = Math.floor(idx / perRow);
       const col = idx % perRow;
       
-      const offsetX = (col - (Math.min(planets.length, perRow) - 1) / 2) * 28;
-      const offsetY = (row - (Math.ceil(planets.length / perRow) - 1) / 2) * 22;
+      const offsetX = (col - (Math.min(planets.length, perRow) - 1) / 2) * (positions ? 32 : 28);
+      const offsetY = (row - (Math.ceil(planets.length / perRow) - 1) / 2) * (positions ? 28 : 22);
 
       const symbol = PLANET_SYMBOLS[p] || p.slice(0, 2);
+      const isHighlighted = highlighted.includes(p);
+      const position = positions?.find(pos => pos.planet === p);
 
       return (
         <g key={`planet-${p}-${idx}`} transform={`translate(${centerX + offsetX}, ${centerY + offsetY})`}>
+          {isHighlighted && <circle cx="0" cy="-6" r="12" fill="#10b981" fillOpacity="0.15" stroke="#34d399" strokeWidth="1" />}
           <text
-            fill="#fef3c7"
+            fill={isHighlighted ? '#6ee7b7' : '#fef3c7'}
             fontSize="18"
             fontWeight="900"
             textAnchor="middle"
@@ -122,6 +202,14 @@ const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign }) => {
           >
             {symbol}
           </text>
+          {position?.retrograde && (
+            <text x="8" y="-9" fill="#fb7185" fontSize="7" fontWeight="700" className="select-none">(R)</text>
+          )}
+          {position && (
+            <text y="9" fill="#fcd34d" fillOpacity="0.7" fontSize="8" fontWeight="700" textAnchor="middle" className="font-mono select-none">
+              {Math.floor(position.degree)}°
+            </text>
+          )}
         </g>
       );
     });
@@ -139,7 +227,7 @@ const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign }) => {
         <h3 className="text-amber-400 font-cinzel text-2xl tracking-[0.2em] uppercase font-bold drop-shadow-lg mb-1">
           Janma Kundali <span className="text-amber-500/40 text-sm">Vedic</span>
         </h3>
-        <p className="text-[10px] text-amber-500/60 font-black uppercase tracking-[0.4em]">Celestial Blueprint</p>
+        <p className="text-[10px] text-amber-500/60 font-black uppercase tracking-[0.4em]">{title || 'Celestial Blueprint'}</p>
       </div>
       
       <div className="relative w-full max-w-[440px] aspect-square">
@@ -162,55 +250,109 @@ const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign }) => {
           </defs>
 
           {/* House Backgrounds & Interactive Areas */}
-          {Object.entries(housePaths).map(([id, path]) => (
-            <path
-              key={`house-path-${id}`}
-              d={path}
-              className={`transition-all duration-500 cursor-pointer ${hoveredHouse === parseInt(id) ? 'fill-amber-500/20' : 'fill-transparent'}`}
-              onMouseEnter={() => setHoveredHouse(parseInt(id))}
-              onMouseLeave={() => setHoveredHouse(null)}
-            />
-          ))}
+          {Object.entries(layout.cells).map(([key, cell]) => {
+            const house = getHouseForCell(parseInt(key));
+            return (
+              <path
+                key={`house-path-${key}`}
+                d={cell.path}
+                className={`transition-all duration-500 cursor-pointer ${house !== null && hoveredHouse === house ? 'fill-amber-500/20' : 'fill-transparent'}`}
+                stroke={layout.fixedSigns ? '#f59e0b' : 'none'}
+                strokeOpacity="0.5"
+                onMouseEnter={() => setHoveredHouse(house)}
+                onMouseLeave={() => setHoveredHouse(null)}
+              />
+            );
+          })}
 
-          {/* North Indian Grid Structure */}
-          <line x1="0" y1="0" x2="400" y2="400" stroke="#f59e0b" strokeWidth="1" opacity="0.4" />
-          <line x1="400" y1="0" x2="0" y2="400" stroke="#f59e0b" strokeWidth="1" opacity="0.4" />
-          
-          {/* Main Structural Diamonds */}
-          <path d="M 200 0 L 0 200 L 200 400 L 400 200 Z" fill="none" stroke="#f59e0b" strokeWidth="2.5" opacity="0.8" filter="url(#glow)" />
-          <rect x="0" y="0" width="400" height="400" fill="none" stroke="#f59e0b" strokeWidth="1.5" opacity="0.3" />
+          {chartStyle === 'north' ? (
+            <>
+              {/* North Indian Grid Structure */}
+              <line x1="0" y1="0" x2="400" y2="400" stroke="#f59e0b" strokeWidth="1" opacity="0.4" />
+              <line x1="400" y1="0" x2="0" y2="400" stroke="#f59e0b" strokeWidth="1" opacity="0.4" />
+              
+              {/* Main Structural Diamonds */}
+              <path d="M 200 0 L 0 200 L 200 400 L 400 200 Z" fill="none" stroke="#f59e0b" strokeWidth="2.5" opacity="0.8" filter="url(#glow)" />
+            </>
+          ) : (
+            <>
+              {/* Signs are fixed, so the ascendant's cell is shaded instead */}
+              <path d={layout.cells[lagnaSign].path} fill="url(#houseGradient)" stroke="#f59e0b" strokeWidth="2" filter="url(#glow)" pointerEvents="none" />
+              <text x="200" y="205" fill="#f59e0b" fontSize="14" textAnchor="middle" className="font-cinzel uppercase tracking-[0.3em] opacity-60 pointer-events-none">
+                {chartStyle === 'south' ? 'South' : 'East'} Indian
+              </text>
+            </>
+          )}
+          <rect x="0" y="0" width="400" height="400" fill="none" stroke="#f59e0b" strokeWidth={layout.fixedSigns ? 2.5 : 1.5} opacity={layout.fixedSigns ? 0.8 : 0.3} />
 
           {/* Rashi Sign Numbers */}
-          {Object.keys(houseCoords).map((h) => {
-            const houseNum = parseInt(h);
-            const coord = rashiCoords[houseNum];
+          {Object.entries(layout.cells).map(([key, cell]) => (
+            <text
+              key={`rashi-${key}`}
+              x={cell.label.x}
+              y={cell.label.y}
+              fill="#f59e0b"
+              fontSize="12"
+              fontWeight="900"
+              textAnchor="middle"
+              className="opacity-90 font-cinzel pointer-events-none"
+            >
+              {layout.fixedSigns ? key : getSignForHouse(parseInt(key))}
+            </text>
+          ))}
+
+          {/* Sarvashtakavarga Overlay */}
+          {signBindus && Object.entries(layout.cells).map(([key, cell]) => {
+            const bindus = signBindus[(layout.fixedSigns ? parseInt(key) : getSignForHouse(parseInt(key))) - 1];
             return (
               <text
-                key={`rashi-${houseNum}`}
-                x={coord.x}
-                y={coord.y}
-                fill="#f59e0b"
-                fontSize="12"
-                fontWeight="900"
+                key={`bindu-${key}`}
+                x={cell.bindu.x}
+                y={cell.bindu.y}
+                fill={bindus >= 28 ? '#34d399' : bindus < 25 ? '#fb7185' : '#cbd5e1'}
+                fontSize="11"
+                fontWeight="700"
                 textAnchor="middle"
-                className="opacity-90 font-cinzel pointer-events-none"
+                className="font-mono pointer-events-none"
               >
-                {getSignForHouse(houseNum)}
+                {bindus}
               </text>
             );
           })}
 
           {/* Planet Placements */}
-          {Object.entries(data).map(([house, planets]) => {
-            const h = parseInt(house);
-            const coord = houseCoords[h];
-            if (!coord) return null;
+          {Object.entries(getPlanetsByCell(data, natalSigns)).map(([key, planets]) => {
+            const cell = layout.cells[parseInt(key)];
+            if (!cell) return null;
             return (
-              <g key={`house-group-${h}`} className="pointer-events-none">
-                {renderPlanetCluster(planets as string[], coord.x, coord.y)}
+              <g key={`house-group-${key}`} className="pointer-events-none">
+                {renderPlanetCluster(planets, cell.center.x, cell.center.y)}
               </g>
             );
           })}
+
+          {/* Gochar (transit) Placements */}
+          {transits && Object.entries(getPlanetsByCell(transits, transitSigns)).map(([key, planets]) => {
+            const cell = layout.cells[parseInt(key)];
+            if (!cell || planets.length === 0) return null;
+            return (
+              <text
+                key={`transit-group-${key}`}
+                x={cell.center.x}
+                y={cell.center.y + 30}
+                fontSize="12"
+                fontWeight="700"
+                textAnchor="middle"
+                className="pointer-events-none select-none"
+              >
+                {planets.map((p, idx) => (
+                  <tspan key={`transit-${p}`} dx={idx === 0 ? 0 : 3} fill={transitHighlighted.includes(p) ? '#f472b6' : '#38bdf8'}>
+                    {PLANET_SYMBOLS[p] || p.slice(0, 2)}
+                  </tspan>
+                ))}
+              </text>
+            );
+          })}
         </svg>
 
         {/* Hover Information Overlay */}
@@ -237,8 +379,24 @@ const KundaliChart: React.FC<KundaliChartProps> = ({ data, lagnaSign }) => {
           <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
           <p className="text-[10px] text-amber-500 font-black uppercase tracking-[0.4em] whitespace-nowrap">
             Ascendant Sign: {lagnaSign}
+            {lagnaLongitude !== undefined && ` • ${ZODIAC_SIGNS[lagnaSign - 1].name} ${formatDegree(lagnaLongitude)}`}
           </p>
         </div>
+        {highlighted.length > 0 && (
+          <p className="text-[10px] text-emerald-400 font-black uppercase tracking-[0.3em]">
+            {highlightLabel}: {highlighted.map(p => PLANET_SYMBOLS[p] || p).join(' ')}
+          </p>
+        )}
+        {transits && (
+          <p className="text-[10px] text-sky-400 font-black uppercase tracking-[0.3em]">
+            Gochar in blue{transitHighlighted.length > 0 && <span className="text-pink-400"> · crossing natal points</span>}
+          </p>
+        )}
+        {signBindus && (
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.3em]">
+            SAV bindus: <span className="text-emerald-400">28+ strong</span> · <span className="text-rose-400">under 25 weak</span>
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,29 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { BirthDetails, Language, ChatMessage, KundaliResponse } from '../types';
-import { getCoordinates, getKundaliAnalysis, askKundaliQuestion } from '../services/geminiService';
+import { BirthDetails, Language, ChatMessage, KundaliResponse, NodeType, HouseSystem, VargaDivision, ChartStyle } from '../types';
+import { getKundaliAnalysis, askKundaliQuestion } from '../services/geminiService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { formatDegree, getNakshatraIndex, toJulianDay } from '../services/ephemerisService';
+import { resolveTimeZone, manualTimeZone, formatUtcOffset, parseUtcOffset } from '../services/timezoneService';
+import { VARGAS, buildVargaChart, getVargottamaPlanets } from '../services/vargaService';
+import { buildHouseChart } from '../services/lagnaService';
+import { computeKp } from '../services/kpService';
+import { getTransitPositions, getTransitPoints, findTransitContacts, findNextContact } from '../services/gocharService';
+import { ZODIAC_SIGNS, CHART_STYLES, CHART_STYLE_BY_LANGUAGE } from '../constants';
+import { StorageService } from '../services/storageService';
 import KundaliChart from './KundaliChart';
+import PlaceInput from './PlaceInput';
+import DashaTimeline from './DashaTimeline';
+import SadeSatiCard from './SadeSatiCard';
+import ManglikPanel from './ManglikPanel';
+import YogaList from './YogaList';
+import AshtakavargaGrid from './AshtakavargaGrid';
+import ShadbalaChart from './ShadbalaChart';
+import GocharPanel from './GocharPanel';
+import RectificationPanel from './RectificationPanel';
+import VarshaphalPanel from './VarshaphalPanel';
+import KpPanel from './KpPanel';
+import PlanetTable from './PlanetTable';
 import ReactMarkdown from 'react-markdown';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
@@ -18,10 +39,21 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
     tob: '',
     location: '',
   });
+  const [nodeType, setNodeType] = useState<NodeType>('true');
+  const [houseSystem, setHouseSystem] = useState<HouseSystem>('whole-sign');
+  const [offsetOverride, setOffsetOverride] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
   const [analysis, setAnalysis] = useState<KundaliResponse | null>(null);
+  const [varga, setVarga] = useState<VargaDivision>(1);
+  const [showBindus, setShowBindus] = useState(false);
+  const [transitDate, setTransitDate] = useState<Date | null>(null);
+  const [rectifying, setRectifying] = useState(false);
+  const [showKp, setShowKp] = useState(false);
+  const [chartStyle, setChartStyle] = useState<ChartStyle>(
+    () => StorageService.getChartStyle() || CHART_STYLE_BY_LANGUAGE[language] || 'north'
+  );
   
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [userQuery, setUserQuery] = useState('');
@@ -36,19 +68,46 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
     scrollToBottom();
   }, [chatHistory, chatLoading]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Follow the language's customary layout until the user picks one explicitly
+  useEffect(() => {
+    if (!StorageService.getChartStyle()) setChartStyle(CHART_STYLE_BY_LANGUAGE[language] || 'north');
+  }, [language]);
+
+  const handleChartStyle = (style: ChartStyle) => {
+    StorageService.setChartStyle(style);
+    setChartStyle(style);
+  };
+
+  const castKundali = async (birth: BirthDetails) => {
     setLoading(true);
     setError(null);
     setChatHistory([]);
     try {
-      const locationData = await getCoordinates(details.location);
-      const enrichedDetails = {
-        ...details,
+      const manualOffset = offsetOverride.trim() ? parseUtcOffset(offsetOverride) : null;
+      if (offsetOverride.trim() && manualOffset === null) {
+        throw new Error("UTC offset not understood. Use a form like +5:30 or -04:00.");
+      }
+      const locationData = await getBirthCoordinates(birth);
+      const tz = manualOffset !== null
+        ? manualTimeZone(manualOffset)
+        : resolveTimeZone(locationData.lat, locationData.lng, birth.dob, birth.tob, locationData.formattedAddress);
+      const enrichedDetails: BirthDetails = {
+        ...birth,
         latitude: locationData.lat,
         longitude: locationData.lng,
+        utcOffset: tz.utcOffset,
+        timeZone: tz.label,
       };
-      const result = await getKundaliAnalysis(enrichedDetails, language);
+      setDetails(enrichedDetails);
+      const result = await getKundaliAnalysis(enrichedDetails, language, nodeType, houseSystem);
+      StorageService.setNatalAshtakavarga(result.moonSign, result.ashtakavarga);
+      StorageService.setNatalProfile({
+        name: enrichedDetails.name,
+        moonNakshatra: getNakshatraIndex(result.positions.find(p => p.planet === 'Moon')!.longitude),
+        lagnaNakshatra: getNakshatraIndex(result.lagna.lagnaLongitude),
+      });
+      setVarga(1);
+      setTransitDate(null);
       setAnalysis(result);
     } catch (err: any) {
       console.error(err);
@@ -58,6 +117,11 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    castKundali(details);
+  };
+
   const handleAskQuestion = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!userQuery.trim() || !analysis || chatLoading) return;
@@ -68,7 +132,7 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
     setChatLoading(true);
 
     try {
-      const response = await askKundaliQuestion(currentQuery, analysis.report, chatHistory, language);
+      const response = await askKundaliQuestion(currentQuery, analysis.report, chatHistory, language, analysis.dasha, analysis.yogas);
       setChatHistory(prev => [...prev, { role: 'model', text: response }]);
     } catch (error) {
       console.error(error);
@@ -158,6 +222,24 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
     }
   };
 
+  const selectedVarga = VARGAS.find(v => v.division === varga)!;
+  const vargaChart = analysis && varga !== 1 ? buildVargaChart(analysis.positions, analysis.lagna.lagnaLongitude, varga) : null;
+  const transits = analysis && transitDate ? getTransitPositions(transitDate, nodeType) : null;
+  const transitChart = analysis && transits ? buildHouseChart(transits, analysis.lagna) : null;
+  const transitContacts = analysis && transits
+    ? findTransitContacts(transits, getTransitPoints(analysis.positions, analysis.lagna.lagnaLongitude, analysis.dasha, transitDate!))
+    : [];
+  const kp = analysis && showKp
+    ? computeKp(toJulianDay(details.dob, details.tob, details.utcOffset), details.latitude!, details.longitude!, nodeType)
+    : null;
+
+  const handleNextContact = () => {
+    if (!analysis || !transitDate) return;
+    const next = findNextContact(analysis.positions, analysis.lagna.lagnaLongitude, analysis.dasha, transitDate, nodeType);
+    if (next) setTransitDate(next.date);
+    else alert('No transit crosses the natal Moon, Lagna or dasha lords in the next two years.');
+  };
+
   return (
     <div className="space-y-8 max-w-5xl mx-auto pb-20 px-2 md:px-0">
       {!analysis && !loading && (
@@ -175,9 +257,75 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
             )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
               <InputField label="Full Name" value={details.name} onChange={(v: string) => setDetails({ ...details, name: v })} />
-              <InputField label="Birth Place" placeholder="City, State" value={details.location} onChange={(v: string) => setDetails({ ...details, location: v })} />
+              <PlaceInput 
+                label="Birth Place" 
+                details={details} 
+                onChange={setDetails} 
+                labelClassName="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1"
+                inputClassName="w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all placeholder-slate-800 font-medium"
+              />
               <InputField label="Birth Date" type="date" value={details.dob} onChange={(v: string) => setDetails({ ...details, dob: v })} />
               <InputField label="Birth Time" type="time" value={details.tob} onChange={(v: string) => setDetails({ ...details, tob: v })} />
+              <InputField 
+                label="UTC Offset (Optional)" 
+                placeholder={details.utcOffset !== undefined ? `Resolved ${formatUtcOffset(details.utcOffset)}` : 'Auto from place & date, e.g. +5:30'} 
+                value={offsetOverride} 
+                onChange={setOffsetOverride} 
+                required={false} 
+              />
+            </div>
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => setRectifying(!rectifying)}
+                className="text-[10px] font-black uppercase tracking-widest text-amber-500/70 hover:text-amber-400"
+              >
+                {rectifying ? 'Hide rectification' : 'Unsure of the birth time? Rectify it'}
+              </button>
+            </div>
+            {rectifying && (
+              <RectificationPanel
+                details={details}
+                utcOffsetOverride={offsetOverride.trim() ? parseUtcOffset(offsetOverride) : null}
+                nodeType={nodeType}
+                onChoose={(tob) => {
+                  const chosen = { ...details, tob };
+                  setDetails(chosen);
+                  setRectifying(false);
+                  // Re-cast so the chart and the stored natal profile follow the chosen time
+                  castKundali(chosen);
+                }}
+              />
+            )}
+            <div className="flex flex-wrap items-center justify-center gap-4">
+              <div className="flex items-center gap-2 bg-white/5 p-1 rounded-xl border border-white/5">
+                {(['true', 'mean'] as NodeType[]).map((nt) => (
+                  <button
+                    key={nt}
+                    type="button"
+                    onClick={() => setNodeType(nt)}
+                    className={`px-5 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                      nodeType === nt ? 'bg-amber-500 text-slate-900 shadow-lg' : 'text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    {nt} Rahu/Ketu
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 bg-white/5 p-1 rounded-xl border border-white/5">
+                {(['whole-sign', 'placidus', 'sripati'] as HouseSystem[]).map((hs) => (
+                  <button
+                    key={hs}
+                    type="button"
+                    onClick={() => setHouseSystem(hs)}
+                    className={`px-5 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                      houseSystem === hs ? 'bg-amber-500 text-slate-900 shadow-lg' : 'text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    {hs.replace('-', ' ')}
+                  </button>
+                ))}
+              </div>
             </div>
             <button disabled={loading} className="w-full glossy-button text-white font-bold py-4 rounded-2xl text-lg tracking-widest uppercase font-cinzel shadow-2xl">
               Generate Life Map
@@ -206,6 +354,14 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
                   <span className="flex items-center gap-1">📅 {details.dob}</span> 
                   <span className="flex items-center gap-1">⏰ {details.tob}</span> 
                   <span className="flex items-center gap-1">📍 {details.location}</span>
+                  {details.latitude !== undefined && details.longitude !== undefined && (
+                    <span className="flex items-center gap-1">🧭 {details.latitude.toFixed(4)}°, {details.longitude.toFixed(4)}°</span>
+                  )}
+                  {details.utcOffset !== undefined && (
+                    <span className="flex items-center gap-1">🕰️ {formatUtcOffset(details.utcOffset)} ({details.timeZone})</span>
+                  )}
+                  <span className="flex items-center gap-1">⬆️ Lagna {ZODIAC_SIGNS[analysis.lagnaSign - 1].name} {formatDegree(analysis.lagna.lagnaLongitude)}</span>
+                  <span className="flex items-center gap-1">🌌 Lahiri {analysis.ayanamsa.toFixed(4)}°</span>
                 </div>
               </div>
               <button onClick={downloadPDF} disabled={exporting} className="bg-white/10 hover:bg-white/20 text-white text-[10px] px-8 py-3 rounded-full border border-white/10 no-print transition-all font-black uppercase tracking-widest">
@@ -215,7 +371,124 @@ const KundaliView: React.FC<KundaliViewProps> = ({ language }) => {
 
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 p-6 md:p-12">
               <div className="lg:col-span-5 space-y-8">
-                <KundaliChart data={analysis.chart} lagnaSign={analysis.lagnaSign} />
+                <div className="flex flex-wrap justify-center gap-1.5 no-print">
+                  {VARGAS.map(v => (
+                    <button
+                      key={v.division}
+                      type="button"
+                      title={`${v.name}: ${v.signifies}`}
+                      onClick={() => setVarga(v.division)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        varga === v.division ? 'bg-amber-500 text-slate-900 shadow-lg' : 'bg-white/5 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      D{v.division}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex justify-center gap-1.5 no-print">
+                  {CHART_STYLES.map(cs => (
+                    <button
+                      key={cs.value}
+                      type="button"
+                      onClick={() => handleChartStyle(cs.value)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        chartStyle === cs.value ? 'bg-amber-500 text-slate-900 shadow-lg' : 'bg-white/5 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      {cs.label}
+                    </button>
+                  ))}
+                  {varga === 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setShowBindus(!showBindus)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        showBindus ? 'bg-emerald-500 text-slate-900 shadow-lg' : 'bg-white/5 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      SAV
+                    </button>
+                  )}
+                  {varga === 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setTransitDate(transitDate ? null : new Date())}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        transitDate ? 'bg-sky-500 text-slate-900 shadow-lg' : 'bg-white/5 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      Gochar
+                    </button>
+                  )}
+                  {varga === 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setShowKp(!showKp)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        showKp ? 'bg-amber-500 text-slate-900 shadow-lg' : 'bg-white/5 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      KP
+                    </button>
+                  )}
+                </div>
+
+                {varga === 1 ? (
+                  <KundaliChart 
+                    data={analysis.chart} 
+                    lagnaSign={analysis.lagnaSign} 
+                    lagnaLongitude={analysis.lagna.lagnaLongitude}
+                    cusps={analysis.lagna.houseSystem === 'whole-sign' ? undefined : analysis.lagna.cusps}
+                    title="D1 Rasi"
+                    chartStyle={chartStyle}
+                    highlighted={getVargottamaPlanets(analysis.positions, 1)}
+                    signBindus={showBindus ? analysis.ashtakavarga.sarva : undefined}
+                    transits={transitChart || undefined}
+                    transitGrahas={transits || undefined}
+                    transitHighlighted={transitContacts.map(c => c.planet)}
+                    positions={analysis.planets}
+                  />
+                ) : (
+                  <KundaliChart 
+                    data={vargaChart!.chart} 
+                    lagnaSign={vargaChart!.lagnaSign} 
+                    title={`D${varga} ${selectedVarga.name} · ${selectedVarga.signifies}`}
+                    chartStyle={chartStyle}
+                    highlighted={getVargottamaPlanets(analysis.positions, varga)}
+                  />
+                )}
+
+                {varga === 1 && transitDate && transits && transitChart && (
+                  <GocharPanel
+                    date={transitDate}
+                    onDateChange={setTransitDate}
+                    onNextContact={handleNextContact}
+                    transits={transits}
+                    transitChart={transitChart}
+                    contacts={transitContacts}
+                  />
+                )}
+
+                {varga === 1 && kp && (
+                  <KpPanel kp={kp} latitude={details.latitude!} longitude={details.longitude!} chartStyle={chartStyle} />
+                )}
+
+                <PlanetTable planets={analysis.planets} />
+
+                <AshtakavargaGrid ashtakavarga={analysis.ashtakavarga} lagnaSign={analysis.lagnaSign} />
+
+                <ShadbalaChart shadbala={analysis.shadbala} bhavaBala={analysis.bhavaBala} />
+
+                <VarshaphalPanel details={details} analysis={analysis} nodeType={nodeType} chartStyle={chartStyle} language={language} />
+
+                <DashaTimeline periods={analysis.dasha} />
+
+                <SadeSatiCard report={analysis.sadeSati} />
+
+                <ManglikPanel report={analysis.manglik} />
+
+                <YogaList yogas={analysis.yogas} />
                 
                 <div className="grid grid-cols-2 gap-4 p-6 bg-amber-500/5 border border-amber-500/10 rounded-[32px]">
                    <VedicSummaryItem label="Varna" value={analysis.varna} icon="📿" />
@@ -343,11 +616,11 @@ const VedicSummaryItem = ({ label, value, icon }: { label: string; value: string
   </div>
 );
 
-const InputField = ({ label, value, onChange, type = 'text', placeholder }: any) => (
+const InputField = ({ label, value, onChange, type = 'text', placeholder, required = true }: any) => (
   <div className="space-y-3">
     <label className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1">{label}</label>
     <input 
-      required 
+      required={required} 
       type={type} 
       placeholder={placeholder}
       className="w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all placeholder-slate-800 font-medium" 
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ManglikReport, ManglikSeverity } from '../types';
+import { ZODIAC_SIGNS } from '../constants';
+
+interface ManglikPanelProps {
+  report: ManglikReport;
+  title?: string;
+}
+
+const SEVERITY_STYLES: { [key in ManglikSeverity]: string } = {
+  none: 'bg-emerald-500/15 text-emerald-300',
+  mild: 'bg-amber-500/15 text-amber-300',
+  moderate: 'bg-orange-500/20 text-orange-300',
+  high: 'bg-rose-500/20 text-rose-300',
+};
+
+const ManglikPanel: React.FC<ManglikPanelProps> = ({ report, title = 'Manglik Dosha' }) => (
+  <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-5">
+    <div className="flex justify-between items-center">
+      <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+        <span className="text-lg">♂</span> {title}
+      </h4>
+      <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${report.isManglik ? 'bg-rose-500 text-white' : 'bg-emerald-500 text-slate-900'}`}>
+        {report.isManglik ? 'Manglik' : 'Not Manglik'}
+      </span>
+    </div>
+
+    <p className="text-[11px] text-slate-400">
+      Mars in <span className="text-slate-200 font-bold">{ZODIAC_SIGNS[report.marsSign - 1].name}</span>
+      <span className={`ml-3 text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${SEVERITY_STYLES[report.severity]}`}>
+        {report.severity === 'none' ? 'No dosha' : `${report.severity} dosha`}
+      </span>
+    </p>
+
+    <div className="grid grid-cols-3 gap-2">
+      {report.houses.map(h => (
+        <div
+          key={h.from}
+          className={`p-3 rounded-xl border text-center ${h.dosha ? 'bg-rose-500/10 border-rose-500/30' : 'bg-white/[0.02] border-white/5'}`}
+        >
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">From {h.from}</p>
+          <p className={`text-lg font-black ${h.dosha ? 'text-rose-300' : 'text-slate-300'}`}>{h.house}</p>
+        </div>
+      ))}
+    </div>
+
+    {report.cancellation && (
+      <p className="text-[11px] text-emerald-300 bg-emerald-500/5 border border-emerald-500/20 rounded-xl px-4 py-2">
+        ✓ Cancelled: {report.cancellation}
+      </p>
+    )}
+  </div>
+);
+
+export default ManglikPanel;
@@ -1,10 +1,15 @@
 
 import React, { useState } from 'react';
-import { BirthDetails, MatchmakingDetails, Language } from '../types';
-import { getMatchmaking, getCoordinates } from '../services/geminiService';
+import { BirthDetails, MatchmakingDetails, MatchmakingResult, Language } from '../types';
+import { getMatchmaking } from '../services/geminiService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { resolveTimeZone } from '../services/timezoneService';
 import ReactMarkdown from 'react-markdown';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import PlaceInput from './PlaceInput';
+import AshtakootCard from './AshtakootCard';
+import ManglikPanel from './ManglikPanel';
 
 interface MatchmakingViewProps {
   language: Language;
@@ -19,7 +24,7 @@ const MatchmakingView: React.FC<MatchmakingViewProps> = ({ language }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
-  const [result, setResult] = useState<string | null>(null);
+  const [result, setResult] = useState<MatchmakingResult | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,13 +32,18 @@ const MatchmakingView: React.FC<MatchmakingViewProps> = ({ language }) => {
     setError(null);
     try {
       const [boyCoords, girlCoords] = await Promise.all([
-        getCoordinates(details.boy.location),
-        getCoordinates(details.girl.location)
+        getBirthCoordinates(details.boy),
+        getBirthCoordinates(details.girl)
       ]);
 
+      const enrich = (d: BirthDetails, coords: { lat: number; lng: number; formattedAddress: string }): BirthDetails => {
+        const tz = resolveTimeZone(coords.lat, coords.lng, d.dob, d.tob, coords.formattedAddress);
+        return { ...d, latitude: coords.lat, longitude: coords.lng, utcOffset: tz.utcOffset, timeZone: tz.label };
+      };
+
       const enrichedDetails: MatchmakingDetails = {
-        boy: { ...details.boy, latitude: boyCoords.lat, longitude: boyCoords.lng },
-        girl: { ...details.girl, latitude: girlCoords.lat, longitude: girlCoords.lng }
+        boy: enrich(details.boy, boyCoords),
+        girl: enrich(details.girl, girlCoords)
       };
 
       const data = await getMatchmaking(enrichedDetails, language);
@@ -185,7 +195,21 @@ const MatchmakingView: React.FC<MatchmakingViewProps> = ({ language }) => {
                 </button>
               </div>
 
-              <ReactMarkdown>{result}</ReactMarkdown>
+              <div className="not-prose mb-8">
+                <AshtakootCard result={result.ashtakoot} boyName={details.boy.name} girlName={details.girl.name} />
+              </div>
+
+              <div className="not-prose mb-8 space-y-4">
+                <div className={`px-5 py-3 rounded-2xl border text-xs font-bold text-center ${result.manglik.compatible ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-200' : 'bg-rose-500/10 border-rose-500/30 text-rose-200'}`}>
+                  {result.manglik.compatible ? '✓' : '⚠'} {result.manglik.rule}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <ManglikPanel report={result.manglik.boy} title={details.boy.name || 'Groom'} />
+                  <ManglikPanel report={result.manglik.girl} title={details.girl.name || 'Bride'} />
+                </div>
+              </div>
+
+              <ReactMarkdown>{result.report}</ReactMarkdown>
 
               <div className="mt-12 pt-8 border-t border-white/10 opacity-60 not-prose">
                 <p className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-500 mb-2 text-center">Disclaimer regarding AI Generation</p>
@@ -251,16 +275,13 @@ const ProfileForm: React.FC<{
           />
         </div>
       </div>
-      <div className="space-y-1">
-        <label className="text-[10px] text-slate-500 uppercase font-bold ml-1 tracking-widest">Birth Location</label>
-        <input
-          required
-          placeholder="City, State"
-          className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-amber-500 outline-none"
-          value={details.location}
-          onChange={(e) => onChange({ ...details, location: e.target.value })}
-        />
-      </div>
+      <PlaceInput
+        label="Birth Location"
+        details={details}
+        onChange={onChange}
+        labelClassName="text-[10px] text-slate-500 uppercase font-bold ml-1 tracking-widest"
+        inputClassName="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-amber-500 outline-none"
+      />
     </div>
   </div>
 );
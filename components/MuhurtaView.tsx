@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { BirthDetails, Language, MuhurtaEvent, MuhurtaWindow } from '../types';
+import { MUHURTA_EVENTS } from '../constants';
+import { findMuhurtas, MAX_MUHURTA_DAYS } from '../services/muhurtaService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { resolveTimeZone } from '../services/timezoneService';
+import { localizeTerm } from '../services/scriptService';
+import PlaceInput from './PlaceInput';
+
+interface MuhurtaViewProps {
+  language: Language;
+}
+
+const RESULT_LIMIT = 25;
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Clock time at the place
+const formatLocal = (iso: string, utcOffset: number) =>
+  new Date(new Date(iso).getTime() + utcOffset * 3600000).toLocaleString('en-GB', {
+    weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: 'UTC',
+  });
+
+const LABEL_CLASS = "text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1";
+const INPUT_CLASS = "w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all placeholder-slate-800 font-medium";
+
+const MuhurtaView: React.FC<MuhurtaViewProps> = ({ language }) => {
+  const [event, setEvent] = useState<MuhurtaEvent>('marriage');
+  const [place, setPlace] = useState<BirthDetails>({ name: '', dob: '', tob: '', location: '' });
+  const [fromDate, setFromDate] = useState(isoDate(new Date()));
+  const [toDate, setToDate] = useState(isoDate(new Date(Date.now() + 30 * 86400000)));
+  const [person, setPerson] = useState<BirthDetails>({ name: '', dob: '', tob: '', location: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [windows, setWindows] = useState<MuhurtaWindow[] | null>(null);
+  const [zoneLabel, setZoneLabel] = useState('');
+
+  const term = (latin: string) => localizeTerm(latin, language);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const placeData = await getBirthCoordinates(place);
+      const offsetOn = (date: string) => resolveTimeZone(placeData.lat, placeData.lng, date, '12:00', placeData.formattedAddress).utcOffset;
+      const birthData = await getBirthCoordinates(person);
+      const birthTz = resolveTimeZone(birthData.lat, birthData.lng, person.dob, person.tob, birthData.formattedAddress);
+      setPlace({ ...place, location: placeData.formattedAddress, latitude: placeData.lat, longitude: placeData.lng });
+      setZoneLabel(resolveTimeZone(placeData.lat, placeData.lng, fromDate, '12:00', placeData.formattedAddress).label);
+      setWindows(findMuhurtas(
+        event,
+        { ...person, latitude: birthData.lat, longitude: birthData.lng, utcOffset: birthTz.utcOffset, timeZone: birthTz.label },
+        fromDate,
+        toDate,
+        placeData.lat,
+        placeData.lng,
+        offsetOn
+      ));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not search for a Muhurta.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const passing = windows ? windows.filter(w => w.passed).length : 0;
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto pb-20 px-2 md:px-0">
+      <section className="mirror-card p-6 md:p-10 rounded-3xl animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <div className="mb-8 text-center">
+          <h2 className="text-3xl md:text-5xl font-cinzel text-amber-100 mb-4 tracking-tight">{term('Muhurta')}</h2>
+          <p className="text-slate-400 max-w-xl mx-auto text-sm md:text-base">
+            Auspicious windows checked against Tithi, Nakshatra, Vara, Yoga, Karana, Rahu Kaal and the person's Tarabala and Chandrabala.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6 max-w-3xl mx-auto">
+          {error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-2xl text-red-200 text-xs text-center">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {MUHURTA_EVENTS.map(ev => (
+              <button
+                key={ev.value}
+                type="button"
+                onClick={() => setEvent(ev.value)}
+                className={`p-4 rounded-2xl border text-center transition-all ${
+                  event === ev.value ? 'bg-amber-500/20 border-amber-500/50 text-amber-100' : 'bg-white/5 border-white/10 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <span className="block text-2xl mb-1">{ev.icon}</span>
+                <span className="text-[10px] font-black uppercase tracking-widest">{ev.label}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <PlaceInput label="Place of the event" details={place} onChange={setPlace} labelClassName={LABEL_CLASS} inputClassName={INPUT_CLASS} />
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>From</label>
+              <input required type="date" className={INPUT_CLASS} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>To</label>
+              <input required type="date" className={INPUT_CLASS} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="pt-2 border-t border-white/5 grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>Birth date</label>
+              <input required type="date" className={INPUT_CLASS} value={person.dob} onChange={(e) => setPerson({ ...person, dob: e.target.value })} />
+            </div>
+            <div className="space-y-3">
+              <label className={LABEL_CLASS}>Birth time</label>
+              <input required type="time" className={INPUT_CLASS} value={person.tob} onChange={(e) => setPerson({ ...person, tob: e.target.value })} />
+            </div>
+            <PlaceInput label="Birth place" details={person} onChange={setPerson} labelClassName={LABEL_CLASS} inputClassName={INPUT_CLASS} />
+          </div>
+
+          <p className="text-[10px] text-slate-500 text-center">Up to {MAX_MUHURTA_DAYS} days per search.</p>
+          <button disabled={loading} className="w-full glossy-button text-white font-bold py-4 rounded-2xl text-lg tracking-widest uppercase font-cinzel shadow-2xl">
+            {loading ? 'Searching...' : 'Find Muhurta'}
+          </button>
+        </form>
+      </section>
+
+      {windows && (
+        <div className="space-y-4 animate-in fade-in duration-700">
+          <p className="text-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+            {passing} of {windows.length} windows pass every rule · 📍 {place.location} · {zoneLabel}
+          </p>
+          {windows.slice(0, RESULT_LIMIT).map(w => (
+            <div
+              key={w.start}
+              className={`p-5 rounded-[24px] border space-y-3 ${w.passed ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-slate-900/40 border-white/5'}`}
+            >
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <p className={`font-bold ${w.passed ? 'text-emerald-200' : 'text-slate-300'}`}>
+                  {formatLocal(w.start, w.utcOffset)} → {formatLocal(w.end, w.utcOffset)}
+                </p>
+                <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${w.passed ? 'bg-emerald-500 text-slate-900' : 'bg-white/5 text-slate-400'}`}>
+                  {w.passed ? 'Auspicious' : `${w.checks.filter(c => !c.passed).length} rule(s) fail`}
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                {w.checks.map(c => (
+                  <p key={c.rule} className={`text-[11px] ${c.passed ? 'text-slate-400' : 'text-rose-300'}`}>
+                    <span className="font-black">{c.passed ? '✓' : '✗'} {term(c.rule)}:</span> {c.detail}
+                  </p>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MuhurtaView;
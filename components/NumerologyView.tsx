@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { getNumerologyAnalysis, askNumerologyQuestion } from '../services/geminiService';
-import { Language, ChatMessage } from '../types';
+import { Language, ChatMessage, NumerologySystem, PythagoreanNumbers, NameCorrection } from '../types';
+import { calculateNameNumber, calculateMulank, calculateBhagyank, calculatePythagorean, generateNameCorrections, getNumberHarmony } from '../services/numerologyService';
 import ReactMarkdown from 'react-markdown';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
@@ -10,20 +11,23 @@ interface NumerologyViewProps {
   language: Language;
 }
 
-const CHALDEAN_MAP: { [key: string]: number } = {
-  a: 1, i: 1, j: 1, q: 1, y: 1,
-  b: 2, k: 2, r: 2,
-  c: 3, g: 3, l: 3, s: 3,
-  d: 4, m: 4, t: 4,
-  e: 5, h: 5, n: 5, x: 5,
-  u: 6, v: 6, w: 6,
-  o: 7, z: 7,
-  f: 8, p: 8
-};
+const SYSTEMS: { value: NumerologySystem; label: string }[] = [
+  { value: 'chaldean', label: 'Chaldean' },
+  { value: 'pythagorean', label: 'Pythagorean' },
+];
+
+const PYTHAGOREAN_TILES: { key: keyof PythagoreanNumbers; label: string; meaning: string }[] = [
+  { key: 'lifePath', label: 'Life Path', meaning: 'The Road Walked' },
+  { key: 'expression', label: 'Expression', meaning: 'Talents of the Full Name' },
+  { key: 'soulUrge', label: 'Soul Urge', meaning: 'Vowels · Inner Desire' },
+  { key: 'personality', label: 'Personality', meaning: 'Consonants · Outer Self' },
+  { key: 'birthday', label: 'Birthday', meaning: 'Natural Gift' },
+];
 
 const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
   const [name, setName] = useState('');
   const [dob, setDob] = useState('');
+  const [system, setSystem] = useState<NumerologySystem>('chaldean');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
@@ -33,6 +37,8 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
     bhagyank: number;
     nameNumber: number;
     loshu: (number | null)[][];
+    pythagorean: PythagoreanNumbers;
+    corrections: NameCorrection[];
   } | null>(null);
 
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
@@ -48,30 +54,10 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
     scrollToBottom();
   }, [chatHistory, chatLoading]);
 
-  const sumDigits = (num: number): number => {
-    if (num === 0) return 0;
-    let sum = num.toString().split('').reduce((acc, digit) => acc + (parseInt(digit) || 0), 0);
-    return sum > 9 ? sumDigits(sum) : sum;
-  };
-
-  const calculateNameNumber = (fullName: string): number => {
-    if (!fullName) return 0;
-    const normalized = fullName.toLowerCase().replace(/[^a-z]/g, '');
-    let total = 0;
-    for (const char of normalized) {
-      total += CHALDEAN_MAP[char] || 0;
-    }
-    return sumDigits(total);
-  };
-
   const calculateNumerology = (dateStr: string, fullName: string) => {
     if (!dateStr) return null;
-    const parts = dateStr.split('-');
-    const day = parts[2];
-
-    const mulank = sumDigits(parseInt(day));
-    const fullSum = dateStr.replace(/-/g, '').split('').reduce((acc, digit) => acc + parseInt(digit), 0);
-    const bhagyank = sumDigits(fullSum);
+    const mulank = calculateMulank(dateStr);
+    const bhagyank = calculateBhagyank(dateStr);
 
     const nameNumber = calculateNameNumber(fullName);
 
@@ -86,7 +72,14 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
       row.map(num => digits.includes(num) ? num : null)
     );
 
-    return { mulank, bhagyank, nameNumber, loshu };
+    return {
+      mulank,
+      bhagyank,
+      nameNumber,
+      loshu,
+      pythagorean: calculatePythagorean(fullName, dateStr),
+      corrections: generateNameCorrections(fullName, mulank, bhagyank),
+    };
   };
 
   useEffect(() => {
@@ -108,7 +101,10 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
         numerologyData.nameNumber,
         name,
         numerologyData.loshu, 
-        language
+        language,
+        system,
+        numerologyData.pythagorean,
+        numerologyData.corrections
       );
       setAnalysis(result);
     } catch (err: any) {
@@ -136,7 +132,9 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
         numerologyData.bhagyank, 
         numerologyData.loshu, 
         chatHistory, 
-        language
+        language,
+        system,
+        numerologyData.pythagorean
       );
       setChatHistory(prev => [...prev, { role: 'model', text: response }]);
     } catch (error) {
@@ -228,6 +226,19 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
               </div>
             )}
             <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-2 p-1 bg-slate-900 border border-slate-700 rounded-xl">
+                {SYSTEMS.map(s => (
+                  <button
+                    key={s.value}
+                    type="button"
+                    onClick={() => setSystem(s.value)}
+                    className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${system === s.value ? 'bg-amber-500 text-slate-900' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+
               <div className="space-y-2">
                 <label className="text-[10px] uppercase font-black text-amber-500 tracking-widest ml-1">Full Name</label>
                 <input
@@ -251,7 +262,18 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
                 />
               </div>
 
-              {numerologyData && (
+              {numerologyData && system === 'pythagorean' && (
+                <div className="grid grid-cols-5 gap-2">
+                  {PYTHAGOREAN_TILES.map(tile => (
+                    <div key={tile.key} className="bg-amber-500/10 border border-amber-500/30 p-2 rounded-2xl text-center">
+                      <span className="text-[8px] uppercase font-bold text-amber-500 block mb-1">{tile.label}</span>
+                      <span className="text-2xl font-bold text-white">{numerologyData.pythagorean[tile.key] || '?'}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {numerologyData && system === 'chaldean' && (
                 <div className="grid grid-cols-3 gap-3">
                   <div className="bg-amber-500/10 border border-amber-500/30 p-3 rounded-2xl text-center">
                     <span className="text-[8px] uppercase font-bold text-amber-500 block mb-1">Mulank</span>
@@ -291,7 +313,7 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
             <div className="flex justify-between items-center mb-6">
               <div>
                 <h2 className="text-3xl font-cinzel text-amber-400">Numerology & Name Insight</h2>
-                <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mt-1">Generated for: {name}</p>
+                <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest mt-1">Generated for: {name} · {system === 'pythagorean' ? 'Pythagorean' : 'Chaldean'} system</p>
               </div>
               <button onClick={downloadPDF} disabled={exporting} className="bg-amber-500 hover:bg-amber-400 text-slate-900 text-[10px] px-6 py-2 rounded-full font-black uppercase no-print transition-all">
                 {exporting ? 'Processing...' : 'Save Full Report'}
@@ -321,26 +343,66 @@ const NumerologyView: React.FC<NumerologyViewProps> = ({ language }) => {
 
               <div className="space-y-4">
                 <h3 className="text-lg font-cinzel text-amber-400 mb-4 text-center md:text-left">Numerical Breakdown</h3>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="p-4 bg-amber-500/5 border border-amber-500/20 rounded-2xl text-center">
-                    <p className="text-[10px] uppercase font-black text-amber-500 mb-1">Mulank (Psychic)</p>
-                    <p className="text-4xl font-black text-white">{numerologyData?.mulank}</p>
-                    <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">Inner Character</p>
-                  </div>
-                  <div className="p-4 bg-orange-500/5 border border-orange-500/20 rounded-2xl text-center">
-                    <p className="text-[10px] uppercase font-black text-orange-500 mb-1">Bhagyank (Destiny)</p>
-                    <p className="text-4xl font-black text-white">{numerologyData?.bhagyank}</p>
-                    <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">Life Path</p>
+                {system === 'pythagorean' && numerologyData ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    {PYTHAGOREAN_TILES.map((tile, idx) => (
+                      <div key={tile.key} className={`p-4 bg-amber-500/5 border border-amber-500/20 rounded-2xl text-center ${idx === 0 ? 'col-span-2' : ''}`}>
+                        <p className="text-[10px] uppercase font-black text-amber-500 mb-1">{tile.label}</p>
+                        <p className="text-4xl font-black text-white">{numerologyData.pythagorean[tile.key]}</p>
+                        <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">{tile.meaning}</p>
+                      </div>
+                    ))}
                   </div>
-                  <div className="p-4 bg-blue-500/5 border border-blue-500/20 rounded-2xl text-center col-span-2">
-                    <p className="text-[10px] uppercase font-black text-blue-500 mb-1">Name Number (Chaldean)</p>
-                    <p className="text-4xl font-black text-white">{numerologyData?.nameNumber}</p>
-                    <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">Current Outer Vibration</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="p-4 bg-amber-500/5 border border-amber-500/20 rounded-2xl text-center">
+                      <p className="text-[10px] uppercase font-black text-amber-500 mb-1">Mulank (Psychic)</p>
+                      <p className="text-4xl font-black text-white">{numerologyData?.mulank}</p>
+                      <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">Inner Character</p>
+                    </div>
+                    <div className="p-4 bg-orange-500/5 border border-orange-500/20 rounded-2xl text-center">
+                      <p className="text-[10px] uppercase font-black text-orange-500 mb-1">Bhagyank (Destiny)</p>
+                      <p className="text-4xl font-black text-white">{numerologyData?.bhagyank}</p>
+                      <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">Life Path</p>
+                    </div>
+                    <div className="p-4 bg-blue-500/5 border border-blue-500/20 rounded-2xl text-center col-span-2">
+                      <p className="text-[10px] uppercase font-black text-blue-500 mb-1">Name Number (Chaldean)</p>
+                      <p className="text-4xl font-black text-white">{numerologyData?.nameNumber}</p>
+                      <p className="text-[9px] text-slate-500 mt-2 uppercase font-bold">Current Outer Vibration</p>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
 
+            {system === 'chaldean' && numerologyData && (
+              <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-4">
+                <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+                  <span className="text-lg">✍️</span> Verified Spelling Variants
+                </h4>
+                <p className="text-xs text-slate-400">
+                  {getNumberHarmony(numerologyData.nameNumber, numerologyData.bhagyank) >= 2 && getNumberHarmony(numerologyData.nameNumber, numerologyData.mulank) >= 1
+                    ? `The current spelling (${numerologyData.nameNumber}) already suits Mulank ${numerologyData.mulank} and Bhagyank ${numerologyData.bhagyank}; these are alternatives.`
+                    : `The current spelling (${numerologyData.nameNumber}) does not suit Bhagyank ${numerologyData.bhagyank}. Each variant below is computed exactly and does.`}
+                </p>
+                {numerologyData.corrections.length === 0 ? (
+                  <p className="text-xs text-slate-500 text-center py-6">No respelling within two small edits reaches a compatible number.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {numerologyData.corrections.map(c => (
+                      <div key={c.spelling} className="flex justify-between items-center gap-3 px-4 py-3 rounded-2xl bg-white/[0.02] border border-white/5">
+                        <div>
+                          <p className="font-bold text-slate-100">{c.spelling}</p>
+                          <p className="text-[11px] text-slate-400">{c.edits.join(' · ')}</p>
+                        </div>
+                        <p className="text-lg font-bold text-amber-200 shrink-0">{c.nameNumber}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="prose prose-invert prose-amber max-w-none prose-h3:font-cinzel prose-h3:text-amber-400 p-6 rounded-3xl bg-white/5 border border-white/5">
               <ReactMarkdown>{analysis}</ReactMarkdown>
               
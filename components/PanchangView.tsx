@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { BirthDetails, Language, PanchangResult, PanchangSpan } from '../types';
+import { NAKSHATRAS, VARAS, YOGAS } from '../constants';
+import { computePanchang, getTithiName, getPaksha, getKaranaName } from '../services/panchangService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { resolveTimeZone, formatUtcOffset } from '../services/timezoneService';
+import { localizeTerm } from '../services/scriptService';
+import PlaceInput from './PlaceInput';
+
+interface PanchangViewProps {
+  language: Language;
+}
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Clock time at the place; times past midnight carry the next day's date
+const formatLocalTime = (iso: string | null, panchang: PanchangResult) => {
+  if (!iso) return '—';
+  const local = new Date(new Date(iso).getTime() + panchang.utcOffset * 3600000);
+  const time = local.toISOString().slice(11, 16);
+  const day = local.toISOString().slice(0, 10);
+  return day === panchang.date ? time : `${time}, ${local.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', timeZone: 'UTC' })}`;
+};
+
+const PanchangView: React.FC<PanchangViewProps> = ({ language }) => {
+  const [place, setPlace] = useState<BirthDetails>({ name: '', dob: todayIso(), tob: '12:00', location: '' });
+  const [panchang, setPanchang] = useState<PanchangResult | null>(null);
+  const [zoneLabel, setZoneLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const term = (latin: string) => localizeTerm(latin, language);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const locationData = await getBirthCoordinates(place);
+      const tz = resolveTimeZone(locationData.lat, locationData.lng, place.dob, place.tob, locationData.formattedAddress);
+      setPlace({ ...place, location: locationData.formattedAddress, latitude: locationData.lat, longitude: locationData.lng });
+      setZoneLabel(tz.label);
+      setPanchang(computePanchang(place.dob, locationData.lat, locationData.lng, tz.utcOffset));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not compute the Panchang for this place.");
+    }
+  };
+
+  const renderSpans = (label: string, spans: PanchangSpan[], nameOf: (index: number) => string) => (
+    <div className="mirror-card p-6 rounded-[28px] border-white/5 space-y-3">
+      <p className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em]">{term(label)}</p>
+      {spans.map((span, idx) => (
+        <div key={`${label}-${span.end}`} className={`flex justify-between items-baseline gap-4 ${idx === 0 ? 'text-amber-100' : 'text-slate-400'}`}>
+          <span className={`font-bold ${idx === 0 ? 'text-lg' : 'text-sm'}`}>{term(nameOf(span.index))}</span>
+          <span className="font-mono text-[11px] text-slate-500 whitespace-nowrap">→ {formatLocalTime(span.end, panchang!)}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto pb-20 px-2 md:px-0">
+      <section className="mirror-card p-6 md:p-10 rounded-3xl animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <div className="mb-8 text-center">
+          <h2 className="text-3xl md:text-5xl font-cinzel text-amber-100 mb-4 tracking-tight">{term('Panchang')}</h2>
+          <p className="text-slate-400 max-w-xl mx-auto text-sm md:text-base">Tithi, Vara, Nakshatra, Yoga and Karana from sunrise to sunrise, computed for your place.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6 max-w-3xl mx-auto">
+          {error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-2xl text-red-200 text-xs text-center">
+              {error}
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <PlaceInput
+              label="Place"
+              details={place}
+              onChange={setPlace}
+              labelClassName="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1"
+              inputClassName="w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all placeholder-slate-800 font-medium"
+            />
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] ml-1">Date</label>
+              <input
+                required
+                type="date"
+                className="w-full bg-white/5 border border-white/15 rounded-2xl px-6 py-4 text-white focus:ring-1 focus:ring-amber-500 outline-none hover:bg-white/10 transition-all font-medium"
+                value={place.dob}
+                onChange={(e) => setPlace({ ...place, dob: e.target.value })}
+              />
+            </div>
+          </div>
+          <button className="w-full glossy-button text-white font-bold py-4 rounded-2xl text-lg tracking-widest uppercase font-cinzel shadow-2xl">
+            Show Panchang
+          </button>
+        </form>
+      </section>
+
+      {panchang && (
+        <div className="space-y-6 animate-in fade-in duration-700">
+          <div className="text-center space-y-1">
+            <p className="text-2xl font-cinzel text-amber-200">
+              {term(VARAS[panchang.vara])} · {new Date(`${panchang.date}T00:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })}
+            </p>
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+              📍 {place.location} · UTC {formatUtcOffset(panchang.utcOffset)} {zoneLabel && `(${zoneLabel})`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([['Sunrise', panchang.sunrise, '🌅'], ['Sunset', panchang.sunset, '🌇'], ['Moonrise', panchang.moonrise, '🌙'], ['Moonset', panchang.moonset, '🌘']] as const).map(([label, iso, icon]) => (
+              <div key={label} className="mirror-card p-5 rounded-[24px] border-white/5 text-center">
+                <p className="text-xl mb-1">{icon}</p>
+                <p className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.2em]">{term(label)}</p>
+                <p className="text-lg font-mono text-amber-100 mt-1">{formatLocalTime(iso, panchang)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderSpans('Tithi', panchang.tithi, index => getTithiName(index))}
+            <div className="mirror-card p-6 rounded-[28px] border-white/5 space-y-3">
+              <p className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em]">{term('Paksha')}</p>
+              <p className="text-lg font-bold text-amber-100">{term(getPaksha(panchang.tithi[0].index))}</p>
+              <p className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em] pt-2">{term('Vara')}</p>
+              <p className="text-lg font-bold text-amber-100">{term(VARAS[panchang.vara])}</p>
+            </div>
+            {renderSpans('Nakshatra', panchang.nakshatra, index => NAKSHATRAS[index])}
+            {renderSpans('Yoga', panchang.yoga, index => YOGAS[index])}
+            {renderSpans('Karana', panchang.karana, getKaranaName)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PanchangView;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { BirthDetails, Place } from '../types';
+import { searchPlaces, getAmbiguousPlaces, formatPlace } from '../services/gazetteerService';
+
+interface PlaceInputProps {
+  label: string;
+  details: BirthDetails;
+  onChange: (d: BirthDetails) => void;
+  placeholder?: string;
+  labelClassName?: string;
+  inputClassName?: string;
+}
+
+const PlaceInput: React.FC<PlaceInputProps> = ({ label, details, onChange, placeholder = 'City, State', labelClassName, inputClassName }) => {
+  const [focused, setFocused] = useState(false);
+  const [manual, setManual] = useState(false);
+
+  const hasCoords = details.latitude !== undefined && details.longitude !== undefined;
+  const suggestions = focused && !hasCoords ? searchPlaces(details.location) : [];
+  const ambiguous = !hasCoords && !manual ? getAmbiguousPlaces(details.location) : [];
+
+  const pick = (place: Place) => {
+    onChange({ ...details, location: formatPlace(place), latitude: place.latitude, longitude: place.longitude });
+    setFocused(false);
+  };
+
+  const setManualCoord = (key: 'latitude' | 'longitude', value: string) => {
+    const parsed = parseFloat(value);
+    onChange({ ...details, [key]: isNaN(parsed) ? undefined : parsed });
+  };
+
+  return (
+    <div className="space-y-3 relative">
+      <div className="flex justify-between items-center">
+        <label className={labelClassName}>{label}</label>
+        <button
+          type="button"
+          onClick={() => setManual(!manual)}
+          className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-400 transition-colors"
+        >
+          {manual ? 'Search places' : 'Enter lat/lng'}
+        </button>
+      </div>
+      <input
+        required
+        placeholder={placeholder}
+        className={inputClassName}
+        value={details.location}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setTimeout(() => setFocused(false), 150)}
+        onChange={(e) => onChange({
+          ...details,
+          location: e.target.value,
+          ...(manual ? {} : { latitude: undefined, longitude: undefined })
+        })}
+      />
+
+      {suggestions.length > 0 && !manual && (
+        <ul className="absolute z-30 left-0 right-0 mt-1 bg-slate-900 border border-white/10 rounded-2xl shadow-2xl overflow-hidden max-h-72 overflow-y-auto">
+          {suggestions.map(({ place }) => (
+            <li key={`${place.name}-${place.region}-${place.country}`}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(place)}
+                className="w-full text-left px-5 py-3 hover:bg-amber-500/10 transition-colors flex justify-between items-center gap-4"
+              >
+                <span className="text-sm text-slate-200 font-medium">
+                  {place.name} <span className="text-slate-500">{place.region}, {place.country}</span>
+                </span>
+                <span className="text-[10px] text-slate-600 font-mono whitespace-nowrap">{place.latitude.toFixed(2)}, {place.longitude.toFixed(2)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {ambiguous.length > 0 && !focused && (
+        <div className="p-3 bg-amber-500/5 border border-amber-500/20 rounded-2xl space-y-2">
+          <p className="text-[10px] font-black uppercase tracking-widest text-amber-500">
+            {ambiguous.length} places named {ambiguous[0].name} — which one?
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {ambiguous.map(place => (
+              <button
+                key={`${place.region}-${place.country}`}
+                type="button"
+                onClick={() => pick(place)}
+                className="px-3 py-1.5 rounded-lg text-[11px] bg-white/5 border border-white/10 text-slate-300 hover:border-amber-500/50 transition-all"
+              >
+                {place.region}, {place.country}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {manual && (
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            required
+            type="number"
+            step="any"
+            min={-90}
+            max={90}
+            placeholder="Latitude (N +)"
+            className={inputClassName}
+            value={details.latitude ?? ''}
+            onChange={(e) => setManualCoord('latitude', e.target.value)}
+          />
+          <input
+            required
+            type="number"
+            step="any"
+            min={-180}
+            max={180}
+            placeholder="Longitude (E +)"
+            className={inputClassName}
+            value={details.longitude ?? ''}
+            onChange={(e) => setManualCoord('longitude', e.target.value)}
+          />
+        </div>
+      )}
+
+      {hasCoords && !manual && (
+        <p className="text-[10px] text-slate-500 font-mono ml-1">🧭 {details.latitude!.toFixed(4)}°, {details.longitude!.toFixed(4)}°</p>
+      )}
+    </div>
+  );
+};
+
+export default PlaceInput;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Dignity, PlanetPosition } from '../types';
+import { ZODIAC_SIGNS } from '../constants';
+import { formatDegree, PLANET_ORDER } from '../services/ephemerisService';
+
+interface PlanetTableProps {
+  planets: PlanetPosition[];
+}
+
+type SortKey = 'planet' | 'longitude' | 'house' | 'speed' | 'dignity';
+
+const DIGNITY_RANK: { [key in Dignity]: number } = {
+  exalted: 0, moolatrikona: 1, own: 2, friend: 3, neutral: 4, enemy: 5, debilitated: 6,
+};
+
+const DIGNITY_COLORS: { [key in Dignity]: string } = {
+  exalted: 'text-emerald-300',
+  moolatrikona: 'text-emerald-300',
+  own: 'text-emerald-200',
+  friend: 'text-slate-200',
+  neutral: 'text-slate-400',
+  enemy: 'text-rose-300',
+  debilitated: 'text-rose-400',
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'planet', label: 'Graha' },
+  { key: 'longitude', label: 'Position' },
+  { key: 'house', label: 'House' },
+  { key: 'speed', label: 'Speed' },
+  { key: 'dignity', label: 'Dignity' },
+];
+
+const sortValue = (p: PlanetPosition, key: SortKey): number => {
+  switch (key) {
+    case 'planet': return PLANET_ORDER.indexOf(p.planet);
+    case 'longitude': return p.longitude;
+    case 'house': return p.house;
+    case 'speed': return p.speed;
+    case 'dignity': return p.dignity ? DIGNITY_RANK[p.dignity] : 7;
+  }
+};
+
+const PlanetTable: React.FC<PlanetTableProps> = ({ planets }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('planet');
+  const [ascending, setAscending] = useState(true);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const sorted = [...planets].sort((a, b) => (sortValue(a, sortKey) - sortValue(b, sortKey)) * (ascending ? 1 : -1));
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-4">
+      <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+        <span className="text-lg">📐</span> Graha Positions
+      </h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-[9px] font-black uppercase tracking-widest text-amber-500/60 text-left">
+              {COLUMNS.map(col => (
+                <th key={col.key} className="py-1 pr-2">
+                  <button type="button" onClick={() => handleSort(col.key)} className="uppercase tracking-widest hover:text-amber-400">
+                    {col.label}{sortKey === col.key ? (ascending ? ' ▴' : ' ▾') : ''}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(p => (
+              <tr key={p.planet} className="border-t border-white/5 text-slate-300 align-top">
+                <td className="py-1.5 pr-2 font-bold text-slate-100 whitespace-nowrap">
+                  {p.planet}
+                  {p.retrograde && <span className="ml-1 text-rose-300 font-black">(R)</span>}
+                  {p.combust && <span className="ml-1 text-orange-300 font-black" title="Combust">(C)</span>}
+                </td>
+                <td className="py-1.5 pr-2">
+                  <span className="font-mono whitespace-nowrap">{ZODIAC_SIGNS[p.sign - 1].name} {formatDegree(p.longitude)}</span>
+                  <span className="block text-[10px] text-slate-500">{p.nakshatra} pada {p.pada}</span>
+                </td>
+                <td className="py-1.5 pr-2">{p.house}</td>
+                <td className="py-1.5 pr-2 font-mono">{p.speed.toFixed(3)}°</td>
+                <td className={`py-1.5 capitalize ${p.dignity ? DIGNITY_COLORS[p.dignity] : 'text-slate-500'}`}>{p.dignity || '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PlanetTable;
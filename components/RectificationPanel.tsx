@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { BirthDetails, LifeEvent, LifeEventKind, NodeType, RectificationCandidate } from '../types';
+import { sweepBirthTime, describeCandidate, LIFE_EVENT_LABELS } from '../services/rectificationService';
+import { getBirthCoordinates } from '../services/gazetteerService';
+import { resolveTimeZone, formatUtcOffset } from '../services/timezoneService';
+
+interface RectificationPanelProps {
+  details: BirthDetails;
+  utcOffsetOverride: number | null;
+  nodeType: NodeType;
+  onChoose: (tob: string) => void;
+}
+
+const FIELD_CLASS = "bg-white/5 border border-white/15 rounded-xl px-4 py-2 text-sm text-white outline-none focus:ring-1 focus:ring-amber-500";
+
+const RectificationPanel: React.FC<RectificationPanelProps> = ({ details, utcOffsetOverride, nodeType, onChoose }) => {
+  const [fromTime, setFromTime] = useState('06:00');
+  const [toTime, setToTime] = useState('12:00');
+  const [events, setEvents] = useState<LifeEvent[]>([]);
+  const [candidates, setCandidates] = useState<RectificationCandidate[] | null>(null);
+  const [sweeping, setSweeping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateEvent = (idx: number, event: LifeEvent) => setEvents(events.map((e, i) => (i === idx ? event : e)));
+
+  const handleSweep = async () => {
+    setSweeping(true);
+    setError(null);
+    try {
+      if (!details.dob || !details.location) throw new Error("Enter the birth date and place first.");
+      const locationData = await getBirthCoordinates(details);
+      const offsetAt = (tob: string) =>
+        utcOffsetOverride ?? resolveTimeZone(locationData.lat, locationData.lng, details.dob, tob, locationData.formattedAddress).utcOffset;
+      setCandidates(sweepBirthTime(
+        details.dob,
+        fromTime,
+        toTime,
+        locationData.lat,
+        locationData.lng,
+        offsetAt,
+        events.filter(e => e.date),
+        nodeType
+      ));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not sweep the birth time range.");
+    } finally {
+      setSweeping(false);
+    }
+  };
+
+  const best = candidates && candidates.length ? Math.max(...candidates.map(c => c.score)) : 0;
+  // Only worth showing when the range crosses a clock change
+  const offsetShifts = !!candidates && new Set(candidates.map(c => c.utcOffset)).size > 1;
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+      <div>
+        <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">🕰️</span> Birth Time Rectification
+        </h4>
+        <p className="text-[11px] text-slate-400 mt-2">
+          Sweep the window the birth could have happened in, then add known life events to score each candidate time against its dashas and transits.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-200 bg-red-500/10 border border-red-500/30 rounded-xl px-4 py-2">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em]">Between</span>
+        <input type="time" value={fromTime} onChange={e => setFromTime(e.target.value)} className={FIELD_CLASS} />
+        <span className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em]">and</span>
+        <input type="time" value={toTime} onChange={e => setToTime(e.target.value)} className={FIELD_CLASS} />
+      </div>
+
+      <div className="space-y-2">
+        {events.map((event, idx) => (
+          <div key={idx} className="flex flex-wrap items-center gap-2">
+            <select
+              value={event.kind}
+              onChange={e => updateEvent(idx, { ...event, kind: e.target.value as LifeEventKind })}
+              className={FIELD_CLASS}
+            >
+              {(Object.keys(LIFE_EVENT_LABELS) as LifeEventKind[]).map(kind => (
+                <option key={kind} value={kind} className="bg-slate-900">{LIFE_EVENT_LABELS[kind]}</option>
+              ))}
+            </select>
+            <input type="date" value={event.date} onChange={e => updateEvent(idx, { ...event, date: e.target.value })} className={FIELD_CLASS} />
+            <button type="button" onClick={() => setEvents(events.filter((_, i) => i !== idx))} className="text-slate-500 hover:text-red-300 text-sm px-2">✕</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setEvents([...events, { kind: 'marriage', date: '' }])}
+          className="text-[10px] font-black uppercase tracking-widest text-amber-500/70 hover:text-amber-400"
+        >
+          + Add life event
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSweep}
+        disabled={sweeping}
+        className="w-full bg-white/10 hover:bg-white/20 text-white text-[10px] py-3 rounded-xl border border-white/10 font-black uppercase tracking-widest disabled:opacity-50"
+      >
+        {sweeping ? 'Sweeping...' : 'Sweep Time Range'}
+      </button>
+
+      {candidates && (
+        <div className="space-y-2 max-h-96 overflow-y-auto no-scrollbar">
+          {candidates.map(c => (
+            <div
+              key={c.start}
+              className={`p-4 rounded-2xl border flex flex-wrap justify-between items-center gap-3 ${
+                events.length && c.score === best ? 'bg-amber-500/10 border-amber-500/40' : 'bg-white/[0.02] border-white/5'
+              }`}
+            >
+              <div className="space-y-1">
+                <p className="text-sm font-bold text-slate-100">
+                  {c.start} – {c.end}
+                  {offsetShifts && <span className="ml-2 text-[10px] text-slate-500">{formatUtcOffset(c.utcOffset)}</span>}
+                  {events.length > 0 && <span className="ml-3 text-[10px] font-black text-amber-400 uppercase tracking-widest">Score {c.score}</span>}
+                </p>
+                <p className="text-[11px] text-slate-400">{describeCandidate(c)}</p>
+                {c.hits.length > 0 && <p className="text-[10px] text-slate-500">{c.hits.join(' · ')}</p>}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChoose(c.time)}
+                className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest bg-amber-500 text-slate-900 hover:bg-amber-400"
+              >
+                Use {c.time}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RectificationPanel;
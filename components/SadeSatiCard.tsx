@@ -0,0 +1,90 @@
+import React from 'react';
+import { SadeSatiReport, SaturnTransitPeriod } from '../types';
+import { ZODIAC_SIGNS } from '../constants';
+import { PHASE_LABELS } from '../services/sadeSatiService';
+
+interface SadeSatiCardProps {
+  report: SadeSatiReport;
+}
+
+type Timing = 'past' | 'current' | 'future';
+
+const TIMING_STYLES: { [key in Timing]: string } = {
+  past: 'bg-white/[0.02] border-white/5 text-slate-500',
+  current: 'bg-amber-500/15 border-amber-500/40 text-amber-100',
+  future: 'bg-indigo-500/5 border-indigo-500/20 text-slate-300',
+};
+
+const TIMING_BADGES: { [key in Timing]: string } = {
+  past: 'bg-slate-700 text-slate-300',
+  current: 'bg-amber-500 text-slate-900',
+  future: 'bg-indigo-500/30 text-indigo-200',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const getTiming = (start: string, end: string, now: number): Timing =>
+  now < new Date(start).getTime() ? 'future' : now < new Date(end).getTime() ? 'current' : 'past';
+
+const SadeSatiCard: React.FC<SadeSatiCardProps> = ({ report }) => {
+  const now = Date.now();
+  const moonSign = ZODIAC_SIGNS[report.moonSign - 1];
+
+  const renderPeriod = (p: SaturnTransitPeriod) => {
+    const timing = getTiming(p.start, p.end, now);
+    return (
+      <div
+        key={`${p.phase}-${p.start}`}
+        className={`flex items-center justify-between px-4 py-2 rounded-xl text-[11px] border ${TIMING_STYLES[timing]}`}
+      >
+        <span className="font-bold">
+          {PHASE_LABELS[p.phase]} <span className="text-slate-600 font-medium">· Saturn in {ZODIAC_SIGNS[p.sign - 1].name}</span>
+        </span>
+        <span className="font-mono text-[10px]">{formatDate(p.start)} – {formatDate(p.end)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">🪐</span> Shani Sade Sati
+        </h4>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          Moon in {moonSign.symbol} {moonSign.name}
+        </span>
+      </div>
+
+      <div className="space-y-4 max-h-96 overflow-y-auto no-scrollbar">
+        {report.cycles.map((cycle, idx) => {
+          const timing = getTiming(cycle.start, cycle.end, now);
+          return (
+            <div key={cycle.start} className="space-y-1.5">
+              <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                <span className="text-slate-300">Cycle {idx + 1}</span>
+                <span className="flex items-center gap-2">
+                  <span className="font-mono text-slate-500 normal-case tracking-normal">{formatDate(cycle.start)} – {formatDate(cycle.end)}</span>
+                  <span className={`text-[8px] px-2 py-0.5 rounded-full ${TIMING_BADGES[timing]}`}>{timing}</span>
+                </span>
+              </div>
+              {cycle.periods.map(renderPeriod)}
+            </div>
+          );
+        })}
+      </div>
+
+      {report.dhaiyyas.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-300">Dhaiyya (Small Panoti)</p>
+          <div className="space-y-1.5 max-h-60 overflow-y-auto no-scrollbar">
+            {report.dhaiyyas.map(renderPeriod)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SadeSatiCard;
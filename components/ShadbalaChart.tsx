@@ -0,0 +1,71 @@
+import React from 'react';
+import { BhavaBalaResult, ShadbalaResult } from '../types';
+
+interface ShadbalaChartProps {
+  shadbala: ShadbalaResult[];
+  bhavaBala: BhavaBalaResult[];
+}
+
+const COMPONENTS: { key: keyof ShadbalaResult; label: string }[] = [
+  { key: 'sthana', label: 'Sthana' },
+  { key: 'dig', label: 'Dig' },
+  { key: 'kala', label: 'Kala' },
+  { key: 'chesta', label: 'Chesta' },
+  { key: 'naisargika', label: 'Naisargika' },
+  { key: 'drik', label: 'Drik' },
+];
+
+const ShadbalaChart: React.FC<ShadbalaChartProps> = ({ shadbala, bhavaBala }) => {
+  const scale = Math.ceil(Math.max(...shadbala.map(s => Math.max(s.total, s.required))));
+  const bhavaMax = Math.max(...bhavaBala.map(b => b.total));
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">⚖️</span> Shadbala
+        </h4>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Rupas</span>
+      </div>
+
+      <div className="space-y-3">
+        {shadbala.map(s => (
+          <div
+            key={s.planet}
+            title={COMPONENTS.map(c => `${c.label} ${(s[c.key] as number).toFixed(2)}`).join(' · ')}
+            className="space-y-1"
+          >
+            <div className="flex justify-between text-[10px] font-bold">
+              <span className="text-slate-200 uppercase tracking-widest">{s.planet}</span>
+              <span className={s.ratio < 1 ? 'text-rose-300' : 'text-emerald-300'}>
+                {s.total.toFixed(2)} / {s.required} · {(s.ratio * 100).toFixed(0)}%
+              </span>
+            </div>
+            <div className="relative h-2.5 rounded-full bg-white/5">
+              <div
+                className={`h-full rounded-full ${s.ratio < 1 ? 'bg-rose-500/70' : 'bg-emerald-500/70'}`}
+                style={{ width: `${(s.total / scale) * 100}%` }}
+              />
+              <div className="absolute top-[-3px] bottom-[-3px] w-0.5 bg-amber-400" style={{ left: `${(s.required / scale) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">The amber tick marks the minimum strength each planet needs. Hover a bar for its six components.</p>
+
+      <div className="pt-4 border-t border-white/5 space-y-3">
+        <p className="text-[10px] font-black text-amber-500/80 uppercase tracking-[0.3em]">Bhava Bala</p>
+        <div className="flex items-end gap-1.5 h-28">
+          {bhavaBala.map(b => (
+            <div key={b.house} title={`${b.house}: ${b.total.toFixed(2)} rupas (lord ${b.lord})`} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+              <div className="w-full rounded-t-md bg-amber-500/60" style={{ height: `${(b.total / bhavaMax) * 100}%` }} />
+              <span className="text-[9px] font-mono text-slate-400">{b.house}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShadbalaChart;
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { BirthDetails, ChartStyle, KundaliResponse, Language, NodeType } from '../types';
+import { ZODIAC_SIGNS } from '../constants';
+import { toJulianDay, formatDegree } from '../services/ephemerisService';
+import { computeVarshaphal, getCompletedYears } from '../services/varshaphalService';
+import { getVarshaphalReading } from '../services/geminiService';
+import KundaliChart from './KundaliChart';
+import ReactMarkdown from 'react-markdown';
+
+interface VarshaphalPanelProps {
+  details: BirthDetails;
+  analysis: KundaliResponse;
+  nodeType: NodeType;
+  chartStyle: ChartStyle;
+  language: Language;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const VarshaphalPanel: React.FC<VarshaphalPanelProps> = ({ details, analysis, nodeType, chartStyle, language }) => {
+  const birthJd = toJulianDay(details.dob, details.tob, details.utcOffset);
+  const natalSun = analysis.positions.find(p => p.planet === 'Sun')!.longitude;
+  const currentAge = useMemo(() => getCompletedYears(natalSun, birthJd), [natalSun, birthJd]);
+  const [age, setAge] = useState(currentAge);
+  const [reading, setReading] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const varsha = useMemo(
+    () => computeVarshaphal(analysis.positions, analysis.lagna, birthJd, age, details.latitude!, details.longitude!, nodeType, analysis.lagna.houseSystem),
+    [analysis, birthJd, age, details.latitude, details.longitude, nodeType]
+  );
+  const now = Date.now();
+
+  const changeAge = (next: number) => {
+    setAge(Math.max(0, next));
+    setReading(null);
+  };
+
+  const handleInterpret = async () => {
+    setLoading(true);
+    try {
+      setReading(await getVarshaphalReading(details, varsha, language, analysis.dasha));
+    } catch (err) {
+      console.error(err);
+      setReading("The year ahead could not be read right now.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-6">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+          <span className="text-lg">🌅</span> Year Ahead · Varshaphal
+        </h4>
+        <div className="flex items-center gap-1 no-print">
+          <button type="button" onClick={() => changeAge(age - 1)} disabled={age === 0} className="px-2 py-1 rounded-lg text-xs bg-white/5 text-slate-300 hover:text-white disabled:opacity-30">◂</button>
+          <span className="text-[10px] font-bold text-slate-300 uppercase tracking-widest px-2">Year {age + 1}</span>
+          <button type="button" onClick={() => changeAge(age + 1)} className="px-2 py-1 rounded-lg text-xs bg-white/5 text-slate-300 hover:text-white">▸</button>
+        </div>
+      </div>
+
+      <p className="text-[11px] text-slate-400">
+        Solar return {formatDate(varsha.start)} to {formatDate(varsha.end)} · {varsha.daytime ? 'Day' : 'Night'} return
+        {age !== currentAge && (
+          <button type="button" onClick={() => changeAge(currentAge)} className="ml-2 text-amber-500/70 hover:text-amber-400 font-bold no-print">Current year</button>
+        )}
+      </p>
+
+      <KundaliChart
+        data={varsha.chart}
+        lagnaSign={varsha.lagna.lagnaSign}
+        lagnaLongitude={varsha.lagna.lagnaLongitude}
+        cusps={varsha.lagna.houseSystem === 'whole-sign' ? undefined : varsha.lagna.cusps}
+        grahas={varsha.positions}
+        title={`Varsha ${new Date(varsha.start).getFullYear()}`}
+        chartStyle={chartStyle}
+        highlighted={[varsha.yearLord]}
+        highlightLabel="Year lord"
+      />
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="px-3 py-2 rounded-xl bg-white/[0.02] border border-white/5">
+          <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">Varsha Lagna</p>
+          <p className="text-xs font-bold text-slate-200">{ZODIAC_SIGNS[varsha.lagna.lagnaSign - 1].name} {formatDegree(varsha.lagna.lagnaLongitude)}</p>
+        </div>
+        <div className="px-3 py-2 rounded-xl bg-white/[0.02] border border-white/5">
+          <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">Muntha</p>
+          <p className="text-xs font-bold text-slate-200">{ZODIAC_SIGNS[varsha.munthaSign - 1].name} · H{varsha.munthaHouse}</p>
+        </div>
+        <div className="px-3 py-2 rounded-xl bg-amber-500/10 border border-amber-500/30">
+          <p className="text-[9px] font-black uppercase tracking-widest text-amber-500/60">Year Lord</p>
+          <p className="text-xs font-bold text-amber-200">{varsha.yearLord}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {varsha.officers.map(o => (
+          <div key={o.role} className="flex justify-between text-[11px] border-b border-white/5 pb-1">
+            <span className="text-slate-400">{o.role}</span>
+            <span className={o.planet === varsha.yearLord ? 'text-amber-300 font-bold' : 'text-slate-200'}>
+              {o.planet} <span className="text-slate-500 font-mono">{(o.strength * 100).toFixed(0)}%</span>
+              {!o.aspectsLagna && <span className="text-slate-600"> · no aspect</span>}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="text-[10px] font-black text-amber-500/70 uppercase tracking-[0.3em]">Mudda Dasha</p>
+        {varsha.mudda.map(p => {
+          const running = new Date(p.start).getTime() <= now && now < new Date(p.end).getTime();
+          return (
+            <div
+              key={p.start}
+              className={`flex justify-between text-[11px] px-3 py-1.5 rounded-lg ${running ? 'bg-amber-500/10 text-amber-200 font-bold' : 'text-slate-400'}`}
+            >
+              <span>{p.lord}</span>
+              <span>{formatDate(p.start)} – {formatDate(p.end)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {reading ? (
+        <div className="prose prose-invert prose-sm prose-amber max-w-none text-slate-300">
+          <ReactMarkdown>{reading}</ReactMarkdown>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleInterpret}
+          disabled={loading}
+          className="w-full bg-white/10 hover:bg-white/20 text-white text-[10px] py-3 rounded-xl border border-white/10 font-black uppercase tracking-widest no-print disabled:opacity-50"
+        >
+          {loading ? 'Reading the year...' : 'Interpret the Year'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VarshaphalPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { YogaCategory, YogaResult } from '../types';
+
+interface YogaListProps {
+  yogas: YogaResult[];
+}
+
+const CATEGORY_STYLES: { [key in YogaCategory]: string } = {
+  raja: 'bg-amber-500/20 text-amber-300',
+  dhana: 'bg-emerald-500/20 text-emerald-300',
+  mahapurusha: 'bg-violet-500/20 text-violet-300',
+  lunar: 'bg-slate-300/20 text-slate-200',
+  solar: 'bg-orange-500/20 text-orange-300',
+  dosha: 'bg-rose-500/20 text-rose-300',
+  other: 'bg-sky-500/20 text-sky-300',
+};
+
+const YogaList: React.FC<YogaListProps> = ({ yogas }) => (
+  <div className="p-6 md:p-8 bg-slate-900/40 border border-white/5 rounded-[32px] space-y-5">
+    <div className="flex justify-between items-center">
+      <h4 className="text-xs font-black text-amber-500 uppercase tracking-[0.3em] flex items-center gap-2">
+        <span className="text-lg">🔱</span> Yogas Present
+      </h4>
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{yogas.length} found</span>
+    </div>
+
+    {yogas.length === 0 ? (
+      <p className="text-[11px] text-slate-500">None of the classical yogas in the catalog are formed in this chart.</p>
+    ) : (
+      <div className="space-y-2 max-h-96 overflow-y-auto no-scrollbar">
+        {yogas.map(y => (
+          <div key={`${y.name}-${y.planets.join('-')}`} className="p-4 rounded-2xl bg-white/[0.02] border border-white/5 space-y-1.5">
+            <div className="flex justify-between items-center gap-3">
+              <span className="text-sm font-bold text-slate-100">{y.name}</span>
+              <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${CATEGORY_STYLES[y.category]}`}>{y.category}</span>
+            </div>
+            <p className="text-[11px] text-slate-400 leading-relaxed">{y.description}</p>
+            <p className="text-[10px] font-mono text-slate-500">
+              {y.planets.join(' + ')} · House {y.houses.join(', ')}
+            </p>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default YogaList;
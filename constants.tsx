@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Language } from './types';
+import { BabyName, ChartStyle, Language, MuhurtaEvent, NameOrigin, ObservanceTime } from './types';
 
 export const ZODIAC_SIGNS = [
   { name: 'Aries', symbol: '♈', moonSign: 'Mesha' },
@@ -17,11 +17,72 @@ export const ZODIAC_SIGNS = [
   { name: 'Pisces', symbol: '♓', moonSign: 'Meena' },
 ];
 
+export const NAKSHATRAS = [
+  'Ashwini', 'Bharani', 'Krittika', 'Rohini', 'Mrigashira', 'Ardra',
+  'Punarvasu', 'Pushya', 'Ashlesha', 'Magha', 'Purva Phalguni', 'Uttara Phalguni',
+  'Hasta', 'Chitra', 'Swati', 'Vishakha', 'Anuradha', 'Jyeshtha',
+  'Mula', 'Purva Ashadha', 'Uttara Ashadha', 'Shravana', 'Dhanishta', 'Shatabhisha',
+  'Purva Bhadrapada', 'Uttara Bhadrapada', 'Revati',
+];
+
+export const TITHIS = [
+  'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami', 'Shashthi', 'Saptami', 'Ashtami',
+  'Navami', 'Dashami', 'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi', 'Purnima',
+  'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami', 'Shashthi', 'Saptami', 'Ashtami',
+  'Navami', 'Dashami', 'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi', 'Amavasya',
+];
+
+// Amanta lunar months, each named for the sign the Sun enters during it (Chaitra: Mesha)
+export const LUNAR_MONTHS = [
+  'Chaitra', 'Vaishakha', 'Jyeshtha', 'Ashadha', 'Shravana', 'Bhadrapada',
+  'Ashwin', 'Kartika', 'Margashirsha', 'Pausha', 'Magha', 'Phalguna',
+];
+
+export const VARAS = ['Ravivara', 'Somavara', 'Mangalavara', 'Budhavara', 'Guruvara', 'Shukravara', 'Shanivara'];
+
+export const YOGAS = [
+  'Vishkambha', 'Priti', 'Ayushman', 'Saubhagya', 'Shobhana', 'Atiganda', 'Sukarma', 'Dhriti', 'Shula',
+  'Ganda', 'Vriddhi', 'Dhruva', 'Vyaghata', 'Harshana', 'Vajra', 'Siddhi', 'Vyatipata', 'Variyana',
+  'Parigha', 'Shiva', 'Siddha', 'Sadhya', 'Shubha', 'Shukla', 'Brahma', 'Indra', 'Vaidhriti',
+];
+
+// Seven movable karanas repeat through the month; the four fixed ones close and open it
+export const KARANAS = ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Gara', 'Vanija', 'Vishti', 'Shakuni', 'Chatushpada', 'Naga', 'Kimstughna'];
+
+// Devanagari spelling of the Sanskrit terms above, transliterated into each Indic script for display
+export const SANSKRIT_TERMS: { [latin: string]: string } = {
+  Ashwini: 'अश्विनी', Bharani: 'भरणी', Krittika: 'कृत्तिका', Rohini: 'रोहिणी', Mrigashira: 'मृगशिरा', Ardra: 'आर्द्रा',
+  Punarvasu: 'पुनर्वसु', Pushya: 'पुष्य', Ashlesha: 'आश्लेषा', Magha: 'मघा', 'Purva Phalguni': 'पूर्व फाल्गुनी',
+  'Uttara Phalguni': 'उत्तर फाल्गुनी', Hasta: 'हस्त', Chitra: 'चित्रा', Swati: 'स्वाती', Vishakha: 'विशाखा',
+  Anuradha: 'अनुराधा', Jyeshtha: 'ज्येष्ठा', Mula: 'मूल', 'Purva Ashadha': 'पूर्वाषाढा', 'Uttara Ashadha': 'उत्तराषाढा',
+  Shravana: 'श्रवण', Dhanishta: 'धनिष्ठा', Shatabhisha: 'शतभिषा', 'Purva Bhadrapada': 'पूर्व भाद्रपदा',
+  'Uttara Bhadrapada': 'उत्तर भाद्रपदा', Revati: 'रेवती',
+  Pratipada: 'प्रतिपदा', Dwitiya: 'द्वितीया', Tritiya: 'तृतीया', Chaturthi: 'चतुर्थी', Panchami: 'पञ्चमी',
+  Shashthi: 'षष्ठी', Saptami: 'सप्तमी', Ashtami: 'अष्टमी', Navami: 'नवमी', Dashami: 'दशमी', Ekadashi: 'एकादशी',
+  Dwadashi: 'द्वादशी', Trayodashi: 'त्रयोदशी', Chaturdashi: 'चतुर्दशी', Purnima: 'पूर्णिमा', Amavasya: 'अमावस्या',
+  Ravivara: 'रविवार', Somavara: 'सोमवार', Mangalavara: 'मङ्गलवार', Budhavara: 'बुधवार', Guruvara: 'गुरुवार',
+  Shukravara: 'शुक्रवार', Shanivara: 'शनिवार',
+  Vishkambha: 'विष्कम्भ', Priti: 'प्रीति', Ayushman: 'आयुष्मान्', Saubhagya: 'सौभाग्य', Shobhana: 'शोभन',
+  Atiganda: 'अतिगण्ड', Sukarma: 'सुकर्मा', Dhriti: 'धृति', Shula: 'शूल', Ganda: 'गण्ड', Vriddhi: 'वृद्धि',
+  Dhruva: 'ध्रुव', Vyaghata: 'व्याघात', Harshana: 'हर्षण', Vajra: 'वज्र', Siddhi: 'सिद्धि', Vyatipata: 'व्यतीपात',
+  Variyana: 'वरीयान्', Parigha: 'परिघ', Shiva: 'शिव', Siddha: 'सिद्ध', Sadhya: 'साध्य', Shubha: 'शुभ',
+  Shukla: 'शुक्ल', Brahma: 'ब्रह्म', Indra: 'ऐन्द्र', Vaidhriti: 'वैधृति',
+  Bava: 'बव', Balava: 'बालव', Kaulava: 'कौलव', Taitila: 'तैतिल', Gara: 'गर', Vanija: 'वणिज', Vishti: 'विष्टि',
+  Shakuni: 'शकुनि', Chatushpada: 'चतुष्पाद', Naga: 'नाग', Kimstughna: 'किंस्तुघ्न',
+  Krishna: 'कृष्ण', Panchang: 'पञ्चाङ्ग', Tithi: 'तिथि', Paksha: 'पक्ष', Vara: 'वार', Nakshatra: 'नक्षत्र',
+  Yoga: 'योग', Karana: 'करण', Sunrise: 'सूर्योदय', Sunset: 'सूर्यास्त', Moonrise: 'चन्द्रोदय', Moonset: 'चन्द्रास्त',
+  Muhurta: 'मुहूर्त', Tarabala: 'ताराबल', Chandrabala: 'चन्द्रबल', Namakshar: 'नामाक्षर', Utsav: 'उत्सव',
+};
+
 export const NAV_ITEMS = [
   { id: 'horoscope', label: 'Horoscope', icon: '✨' },
   { id: 'kundali', label: 'My Kundali', icon: '📜' },
+  { id: 'panchang', label: 'Panchang', icon: '🗓️' },
+  { id: 'muhurta', label: 'Muhurta', icon: '⏳' },
+  { id: 'calendar', label: 'Festivals', icon: '🪔' },
   { id: 'palmistry', label: 'Palmistry', icon: '✋' },
   { id: 'numerology', label: 'Numerology', icon: '🔢' },
+  { id: 'naming', label: 'Baby Names', icon: '👶' },
   { id: 'matchmaking', label: 'Matchmaking', icon: '❤️' },
 ];
 
@@ -38,3 +99,280 @@ export const LANGUAGES: { value: Language; label: string }[] = [
   { value: 'Punjabi', label: 'ਪੰਜਾਬੀ' },
   { value: 'Odia', label: 'ଓଡ଼ିଆ' },
 ];
+
+// Chart layout most readers of each language grew up with; anything else reads North Indian
+export const CHART_STYLE_BY_LANGUAGE: { [key in Language]?: ChartStyle } = {
+  Tamil: 'south',
+  Malayalam: 'south',
+  Kannada: 'south',
+  Telugu: 'south',
+  Bengali: 'east',
+  Odia: 'east',
+};
+
+export const CHART_STYLES: { value: ChartStyle; label: string }[] = [
+  { value: 'north', label: 'North Indian' },
+  { value: 'south', label: 'South Indian' },
+  { value: 'east', label: 'East Indian' },
+];
+
+export const MUHURTA_EVENTS: { value: MuhurtaEvent; label: string; icon: string }[] = [
+  { value: 'marriage', label: 'Marriage', icon: '💍' },
+  { value: 'griha-pravesh', label: 'Griha Pravesh', icon: '🏠' },
+  { value: 'vehicle', label: 'Vehicle Purchase', icon: '🚗' },
+  { value: 'business', label: 'Business Launch', icon: '🏪' },
+];
+
+// Tithi festivals by amanta month (0 = Chaitra) and tithi (0-29), kept in the nija month when a month repeats.
+// The tithi must prevail at sunrise, at sunset (pradosha) or at midnight (nishita) on the day of observance.
+// `days` moves a festival kept on the morrow of its tithi's observance
+export const FESTIVALS: { name: string; month: number; tithi: number; at: ObservanceTime; days?: number }[] = [
+  { name: 'Ugadi / Gudi Padwa', month: 0, tithi: 0, at: 'sunrise' },
+  { name: 'Rama Navami', month: 0, tithi: 8, at: 'sunrise' },
+  { name: 'Hanuman Jayanti', month: 0, tithi: 14, at: 'sunrise' },
+  { name: 'Akshaya Tritiya', month: 1, tithi: 2, at: 'sunrise' },
+  { name: 'Buddha Purnima', month: 1, tithi: 14, at: 'sunrise' },
+  { name: 'Rath Yatra', month: 3, tithi: 1, at: 'sunrise' },
+  { name: 'Guru Purnima', month: 3, tithi: 14, at: 'sunrise' },
+  { name: 'Nag Panchami', month: 4, tithi: 4, at: 'sunrise' },
+  { name: 'Raksha Bandhan', month: 4, tithi: 14, at: 'sunrise' },
+  { name: 'Krishna Janmashtami', month: 4, tithi: 22, at: 'midnight' },
+  { name: 'Ganesh Chaturthi', month: 5, tithi: 3, at: 'sunrise' },
+  { name: 'Sharad Navaratri begins', month: 6, tithi: 0, at: 'sunrise' },
+  { name: 'Durga Ashtami', month: 6, tithi: 7, at: 'sunrise' },
+  { name: 'Dussehra', month: 6, tithi: 9, at: 'sunrise' },
+  { name: 'Sharad Purnima', month: 6, tithi: 14, at: 'sunset' },
+  { name: 'Dhanteras', month: 6, tithi: 27, at: 'sunset' },
+  { name: 'Diwali', month: 6, tithi: 29, at: 'sunset' },
+  { name: 'Govardhan Puja', month: 7, tithi: 0, at: 'sunrise' },
+  { name: 'Bhai Dooj', month: 7, tithi: 1, at: 'sunrise' },
+  { name: 'Kartik Purnima', month: 7, tithi: 14, at: 'sunrise' },
+  { name: 'Vasant Panchami', month: 10, tithi: 4, at: 'sunrise' },
+  { name: 'Maha Shivaratri', month: 10, tithi: 28, at: 'midnight' },
+  { name: 'Holika Dahan', month: 11, tithi: 14, at: 'sunset' },
+  { name: 'Holi', month: 11, tithi: 14, at: 'sunset', days: 1 },
+];
+
+// Starting syllable (Namakshar) for each pada of each nakshatra, Ashwini first; alternatives are split by "/"
+export const NAMAKSHAR: string[][] = [
+  ['Chu', 'Che', 'Cho', 'La'], ['Li', 'Lu', 'Le', 'Lo'], ['A', 'I', 'U', 'E'], ['O', 'Va', 'Vi', 'Vu'],
+  ['Ve', 'Vo', 'Ka', 'Ki'], ['Ku', 'Gha', 'Ng', 'Chha'], ['Ke', 'Ko', 'Ha', 'Hi'], ['Hu', 'He', 'Ho', 'Da'],
+  ['Di', 'Du', 'De', 'Do'], ['Ma', 'Mi', 'Mu', 'Me'], ['Mo', 'Ta', 'Ti', 'Tu'], ['Te', 'To', 'Pa', 'Pi'],
+  ['Pu', 'Sha', 'Na', 'Tha'], ['Pe', 'Po', 'Ra', 'Ri'], ['Ru', 'Re', 'Ro', 'Ta'], ['Ti', 'Tu', 'Te', 'To'],
+  ['Na', 'Ni', 'Nu', 'Ne'], ['No', 'Ya', 'Yi', 'Yu'], ['Ye', 'Yo', 'Bha', 'Bhi'], ['Bhu', 'Dha', 'Pha', 'Dha'],
+  ['Bhe', 'Bho', 'Ja', 'Ji'], ['Ju/Khi', 'Je/Khu', 'Jo/Khe', 'Gha/Kho'], ['Ga', 'Gi', 'Gu', 'Ge'], ['Go', 'Sa', 'Si', 'Su'],
+  ['Se', 'So', 'Da', 'Di'], ['Du', 'Tha', 'Jha', 'Na'], ['De', 'Do', 'Cha', 'Chi'],
+];
+
+export const NAME_ORIGINS: NameOrigin[] = ['Sanskrit', 'Tamil', 'Bengali', 'Punjabi'];
+
+export const BABY_NAMES: BabyName[] = [
+  { name: 'Chetan', gender: 'boy', origin: 'Sanskrit', meaning: 'Consciousness' },
+  { name: 'Chetana', gender: 'girl', origin: 'Sanskrit', meaning: 'Awareness' },
+  { name: 'Cheran', gender: 'boy', origin: 'Tamil', meaning: 'Of the Chera kings' },
+  { name: 'Lakshay', gender: 'boy', origin: 'Sanskrit', meaning: 'Aim' },
+  { name: 'Lalit', gender: 'boy', origin: 'Sanskrit', meaning: 'Graceful' },
+  { name: 'Lavanya', gender: 'girl', origin: 'Sanskrit', meaning: 'Grace' },
+  { name: 'Latika', gender: 'girl', origin: 'Sanskrit', meaning: 'Small creeper' },
+  { name: 'Likhit', gender: 'boy', origin: 'Sanskrit', meaning: 'Written' },
+  { name: 'Lipika', gender: 'girl', origin: 'Sanskrit', meaning: 'Letter, script' },
+  { name: 'Lekha', gender: 'girl', origin: 'Sanskrit', meaning: 'Writing' },
+  { name: 'Lokesh', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the world' },
+  { name: 'Lochan', gender: 'boy', origin: 'Sanskrit', meaning: 'Eye' },
+  { name: 'Lopamudra', gender: 'girl', origin: 'Sanskrit', meaning: 'Learned wife of sage Agastya' },
+  { name: 'Aarav', gender: 'boy', origin: 'Sanskrit', meaning: 'Peaceful' },
+  { name: 'Aditya', gender: 'boy', origin: 'Sanskrit', meaning: 'The Sun' },
+  { name: 'Ananya', gender: 'girl', origin: 'Sanskrit', meaning: 'Unique' },
+  { name: 'Aditi', gender: 'girl', origin: 'Sanskrit', meaning: 'Boundless; mother of the gods' },
+  { name: 'Anirban', gender: 'boy', origin: 'Bengali', meaning: 'Undying flame' },
+  { name: 'Arnab', gender: 'boy', origin: 'Bengali', meaning: 'Ocean' },
+  { name: 'Anbu', gender: 'unisex', origin: 'Tamil', meaning: 'Love' },
+  { name: 'Ishaan', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the north-east, Shiva' },
+  { name: 'Indra', gender: 'boy', origin: 'Sanskrit', meaning: 'King of the gods' },
+  { name: 'Ira', gender: 'girl', origin: 'Sanskrit', meaning: 'Earth' },
+  { name: 'Ishani', gender: 'girl', origin: 'Sanskrit', meaning: 'Goddess Durga' },
+  { name: 'Ilakkiya', gender: 'girl', origin: 'Tamil', meaning: 'Literature' },
+  { name: 'Inian', gender: 'boy', origin: 'Tamil', meaning: 'Sweet-natured' },
+  { name: 'Uday', gender: 'boy', origin: 'Sanskrit', meaning: 'Rising' },
+  { name: 'Utkarsh', gender: 'boy', origin: 'Sanskrit', meaning: 'Progress' },
+  { name: 'Urvi', gender: 'girl', origin: 'Sanskrit', meaning: 'Earth' },
+  { name: 'Uma', gender: 'girl', origin: 'Sanskrit', meaning: 'Parvati' },
+  { name: 'Ekansh', gender: 'boy', origin: 'Sanskrit', meaning: 'Whole' },
+  { name: 'Esha', gender: 'girl', origin: 'Sanskrit', meaning: 'Desire' },
+  { name: 'Elango', gender: 'boy', origin: 'Tamil', meaning: 'Young prince' },
+  { name: 'Om', gender: 'boy', origin: 'Sanskrit', meaning: 'The sacred syllable' },
+  { name: 'Ojas', gender: 'boy', origin: 'Sanskrit', meaning: 'Vitality' },
+  { name: 'Oindrila', gender: 'girl', origin: 'Bengali', meaning: 'Wife of Indra' },
+  { name: 'Varun', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the waters' },
+  { name: 'Vaibhav', gender: 'boy', origin: 'Sanskrit', meaning: 'Prosperity' },
+  { name: 'Vasudha', gender: 'girl', origin: 'Sanskrit', meaning: 'Earth' },
+  { name: 'Vivaan', gender: 'boy', origin: 'Sanskrit', meaning: 'Full of life' },
+  { name: 'Vihaan', gender: 'boy', origin: 'Sanskrit', meaning: 'Dawn' },
+  { name: 'Vidya', gender: 'girl', origin: 'Sanskrit', meaning: 'Knowledge' },
+  { name: 'Vinaya', gender: 'girl', origin: 'Sanskrit', meaning: 'Modesty' },
+  { name: 'Vedant', gender: 'boy', origin: 'Sanskrit', meaning: 'Culmination of the Vedas' },
+  { name: 'Vedika', gender: 'girl', origin: 'Sanskrit', meaning: 'Altar' },
+  { name: 'Venba', gender: 'girl', origin: 'Tamil', meaning: 'A classical verse form' },
+  { name: 'Kabir', gender: 'boy', origin: 'Sanskrit', meaning: 'Great' },
+  { name: 'Karan', gender: 'boy', origin: 'Sanskrit', meaning: 'Karna of the Mahabharata' },
+  { name: 'Kavya', gender: 'girl', origin: 'Sanskrit', meaning: 'Poetry' },
+  { name: 'Kayal', gender: 'girl', origin: 'Tamil', meaning: 'Fish; graceful eyes' },
+  { name: 'Kathir', gender: 'boy', origin: 'Tamil', meaning: 'Ray of the Sun' },
+  { name: 'Kiran', gender: 'unisex', origin: 'Sanskrit', meaning: 'Ray of light' },
+  { name: 'Kirti', gender: 'girl', origin: 'Sanskrit', meaning: 'Fame' },
+  { name: 'Kirpal', gender: 'boy', origin: 'Punjabi', meaning: 'Merciful' },
+  { name: 'Kunal', gender: 'boy', origin: 'Sanskrit', meaning: 'Lotus' },
+  { name: 'Kush', gender: 'boy', origin: 'Sanskrit', meaning: 'Son of Rama' },
+  { name: 'Kumud', gender: 'girl', origin: 'Sanskrit', meaning: 'Lotus' },
+  { name: 'Ghanshyam', gender: 'boy', origin: 'Sanskrit', meaning: 'Krishna, dark as a rain cloud' },
+  { name: 'Chhavi', gender: 'girl', origin: 'Sanskrit', meaning: 'Radiance' },
+  { name: 'Chhaya', gender: 'girl', origin: 'Sanskrit', meaning: 'Shade' },
+  { name: 'Keshav', gender: 'boy', origin: 'Sanskrit', meaning: 'Krishna' },
+  { name: 'Ketan', gender: 'boy', origin: 'Sanskrit', meaning: 'Banner' },
+  { name: 'Ketaki', gender: 'girl', origin: 'Sanskrit', meaning: 'A fragrant flower' },
+  { name: 'Kovid', gender: 'boy', origin: 'Sanskrit', meaning: 'Learned' },
+  { name: 'Komal', gender: 'girl', origin: 'Sanskrit', meaning: 'Tender' },
+  { name: 'Harsh', gender: 'boy', origin: 'Sanskrit', meaning: 'Joy' },
+  { name: 'Hansika', gender: 'girl', origin: 'Sanskrit', meaning: 'Swan' },
+  { name: 'Harjot', gender: 'boy', origin: 'Punjabi', meaning: 'Light of God' },
+  { name: 'Harleen', gender: 'girl', origin: 'Punjabi', meaning: 'Absorbed in God' },
+  { name: 'Hitesh', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of goodness' },
+  { name: 'Himani', gender: 'girl', origin: 'Sanskrit', meaning: 'Snow' },
+  { name: 'Hiral', gender: 'girl', origin: 'Sanskrit', meaning: 'Lustrous' },
+  { name: 'Hemant', gender: 'boy', origin: 'Sanskrit', meaning: 'Early winter' },
+  { name: 'Hema', gender: 'girl', origin: 'Sanskrit', meaning: 'Golden' },
+  { name: 'Daksh', gender: 'boy', origin: 'Sanskrit', meaning: 'Capable' },
+  { name: 'Darsh', gender: 'boy', origin: 'Sanskrit', meaning: 'Sight' },
+  { name: 'Damini', gender: 'girl', origin: 'Sanskrit', meaning: 'Lightning' },
+  { name: 'Dinesh', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the day, the Sun' },
+  { name: 'Divya', gender: 'girl', origin: 'Sanskrit', meaning: 'Divine' },
+  { name: 'Diya', gender: 'girl', origin: 'Sanskrit', meaning: 'Lamp' },
+  { name: 'Dushyant', gender: 'boy', origin: 'Sanskrit', meaning: 'King, husband of Shakuntala' },
+  { name: 'Durga', gender: 'girl', origin: 'Sanskrit', meaning: 'The invincible goddess' },
+  { name: 'Dev', gender: 'boy', origin: 'Sanskrit', meaning: 'God' },
+  { name: 'Devika', gender: 'girl', origin: 'Sanskrit', meaning: 'Little goddess' },
+  { name: 'Debojyoti', gender: 'boy', origin: 'Bengali', meaning: 'Divine light' },
+  { name: 'Manav', gender: 'boy', origin: 'Sanskrit', meaning: 'Human' },
+  { name: 'Madhav', gender: 'boy', origin: 'Sanskrit', meaning: 'Krishna' },
+  { name: 'Maya', gender: 'girl', origin: 'Sanskrit', meaning: 'Illusion' },
+  { name: 'Malar', gender: 'girl', origin: 'Tamil', meaning: 'Flower' },
+  { name: 'Manpreet', gender: 'unisex', origin: 'Punjabi', meaning: 'Heart full of love' },
+  { name: 'Mihir', gender: 'boy', origin: 'Sanskrit', meaning: 'The Sun' },
+  { name: 'Mira', gender: 'girl', origin: 'Sanskrit', meaning: 'Devotee of Krishna' },
+  { name: 'Mitali', gender: 'girl', origin: 'Sanskrit', meaning: 'Friendship' },
+  { name: 'Mukul', gender: 'boy', origin: 'Sanskrit', meaning: 'Bud' },
+  { name: 'Mugilan', gender: 'boy', origin: 'Tamil', meaning: 'Cloud' },
+  { name: 'Mudita', gender: 'girl', origin: 'Sanskrit', meaning: 'Joyful' },
+  { name: 'Mehul', gender: 'boy', origin: 'Sanskrit', meaning: 'Rain cloud' },
+  { name: 'Megha', gender: 'girl', origin: 'Sanskrit', meaning: 'Cloud' },
+  { name: 'Mohan', gender: 'boy', origin: 'Sanskrit', meaning: 'Enchanting; Krishna' },
+  { name: 'Mohini', gender: 'girl', origin: 'Sanskrit', meaning: 'Enchantress' },
+  { name: 'Mou', gender: 'girl', origin: 'Bengali', meaning: 'Honey' },
+  { name: 'Tarun', gender: 'boy', origin: 'Sanskrit', meaning: 'Young' },
+  { name: 'Tanvi', gender: 'girl', origin: 'Sanskrit', meaning: 'Delicate' },
+  { name: 'Tara', gender: 'girl', origin: 'Sanskrit', meaning: 'Star' },
+  { name: 'Tilak', gender: 'boy', origin: 'Sanskrit', meaning: 'Auspicious mark' },
+  { name: 'Titiksha', gender: 'girl', origin: 'Sanskrit', meaning: 'Forbearance' },
+  { name: 'Tushar', gender: 'boy', origin: 'Sanskrit', meaning: 'Frost' },
+  { name: 'Tuhin', gender: 'boy', origin: 'Bengali', meaning: 'Snow' },
+  { name: 'Tulsi', gender: 'girl', origin: 'Sanskrit', meaning: 'Holy basil' },
+  { name: 'Tejas', gender: 'boy', origin: 'Sanskrit', meaning: 'Brilliance' },
+  { name: 'Tejal', gender: 'girl', origin: 'Sanskrit', meaning: 'Lustrous' },
+  { name: 'Parth', gender: 'boy', origin: 'Sanskrit', meaning: 'Arjuna' },
+  { name: 'Pallavi', gender: 'girl', origin: 'Sanskrit', meaning: 'New leaves' },
+  { name: 'Pinaki', gender: 'boy', origin: 'Sanskrit', meaning: 'Shiva, bearer of the Pinaka bow' },
+  { name: 'Pushkar', gender: 'boy', origin: 'Sanskrit', meaning: 'Lotus; sacred lake' },
+  { name: 'Punit', gender: 'boy', origin: 'Sanskrit', meaning: 'Pure' },
+  { name: 'Purvi', gender: 'girl', origin: 'Sanskrit', meaning: 'Eastern' },
+  { name: 'Shaurya', gender: 'boy', origin: 'Sanskrit', meaning: 'Valour' },
+  { name: 'Shashank', gender: 'boy', origin: 'Sanskrit', meaning: 'The Moon' },
+  { name: 'Shalini', gender: 'girl', origin: 'Sanskrit', meaning: 'Modest' },
+  { name: 'Sharmila', gender: 'girl', origin: 'Sanskrit', meaning: 'Shy' },
+  { name: 'Naman', gender: 'boy', origin: 'Sanskrit', meaning: 'Salutation' },
+  { name: 'Nakul', gender: 'boy', origin: 'Sanskrit', meaning: 'One of the Pandavas' },
+  { name: 'Navya', gender: 'girl', origin: 'Sanskrit', meaning: 'New' },
+  { name: 'Naina', gender: 'girl', origin: 'Sanskrit', meaning: 'Eyes' },
+  { name: 'Navjot', gender: 'unisex', origin: 'Punjabi', meaning: 'New light' },
+  { name: 'Pooja', gender: 'girl', origin: 'Sanskrit', meaning: 'Worship' },
+  { name: 'Poorvi', gender: 'girl', origin: 'Sanskrit', meaning: 'A raga of the evening' },
+  { name: 'Poorna', gender: 'girl', origin: 'Sanskrit', meaning: 'Complete' },
+  { name: 'Raghav', gender: 'boy', origin: 'Sanskrit', meaning: 'Rama' },
+  { name: 'Rahul', gender: 'boy', origin: 'Sanskrit', meaning: 'Son of the Buddha' },
+  { name: 'Radha', gender: 'girl', origin: 'Sanskrit', meaning: 'Beloved of Krishna' },
+  { name: 'Rashmi', gender: 'girl', origin: 'Sanskrit', meaning: 'Ray of light' },
+  { name: 'Rishi', gender: 'boy', origin: 'Sanskrit', meaning: 'Sage' },
+  { name: 'Ritvik', gender: 'boy', origin: 'Sanskrit', meaning: 'Priest' },
+  { name: 'Riddhi', gender: 'girl', origin: 'Sanskrit', meaning: 'Prosperity' },
+  { name: 'Rudra', gender: 'boy', origin: 'Sanskrit', meaning: 'Shiva' },
+  { name: 'Ruchi', gender: 'girl', origin: 'Sanskrit', meaning: 'Taste, liking' },
+  { name: 'Rupsha', gender: 'girl', origin: 'Bengali', meaning: 'Beautiful' },
+  { name: 'Reva', gender: 'girl', origin: 'Sanskrit', meaning: 'The Narmada river' },
+  { name: 'Revati', gender: 'girl', origin: 'Sanskrit', meaning: 'A nakshatra; wealth' },
+  { name: 'Rohan', gender: 'boy', origin: 'Sanskrit', meaning: 'Ascending' },
+  { name: 'Rohini', gender: 'girl', origin: 'Sanskrit', meaning: 'A nakshatra' },
+  { name: 'Nikhil', gender: 'boy', origin: 'Sanskrit', meaning: 'Whole' },
+  { name: 'Nidhi', gender: 'girl', origin: 'Sanskrit', meaning: 'Treasure' },
+  { name: 'Nisha', gender: 'girl', origin: 'Sanskrit', meaning: 'Night' },
+  { name: 'Nila', gender: 'girl', origin: 'Tamil', meaning: 'Moon' },
+  { name: 'Nupur', gender: 'girl', origin: 'Sanskrit', meaning: 'Anklet' },
+  { name: 'Neel', gender: 'boy', origin: 'Sanskrit', meaning: 'Blue' },
+  { name: 'Neha', gender: 'girl', origin: 'Sanskrit', meaning: 'Love' },
+  { name: 'Netra', gender: 'girl', origin: 'Sanskrit', meaning: 'Eye' },
+  { name: 'Yash', gender: 'boy', origin: 'Sanskrit', meaning: 'Fame' },
+  { name: 'Yamini', gender: 'girl', origin: 'Sanskrit', meaning: 'Night' },
+  { name: 'Yazhini', gender: 'girl', origin: 'Tamil', meaning: 'Player of the yazh harp' },
+  { name: 'Yuvraj', gender: 'boy', origin: 'Sanskrit', meaning: 'Crown prince' },
+  { name: 'Yukta', gender: 'girl', origin: 'Sanskrit', meaning: 'Attentive' },
+  { name: 'Yogesh', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of yoga' },
+  { name: 'Yojana', gender: 'girl', origin: 'Sanskrit', meaning: 'Plan' },
+  { name: 'Bharat', gender: 'boy', origin: 'Sanskrit', meaning: 'India; brother of Rama' },
+  { name: 'Bhavya', gender: 'unisex', origin: 'Sanskrit', meaning: 'Grand' },
+  { name: 'Bhavana', gender: 'girl', origin: 'Sanskrit', meaning: 'Feeling' },
+  { name: 'Bhishma', gender: 'boy', origin: 'Sanskrit', meaning: 'Of the terrible vow' },
+  { name: 'Bhuvan', gender: 'boy', origin: 'Sanskrit', meaning: 'World' },
+  { name: 'Bhumi', gender: 'girl', origin: 'Sanskrit', meaning: 'Earth' },
+  { name: 'Dhairya', gender: 'boy', origin: 'Sanskrit', meaning: 'Patience' },
+  { name: 'Dhanya', gender: 'girl', origin: 'Sanskrit', meaning: 'Blessed' },
+  { name: 'Dharini', gender: 'girl', origin: 'Sanskrit', meaning: 'Earth' },
+  { name: 'Phalguni', gender: 'girl', origin: 'Sanskrit', meaning: 'Born in Phalguna' },
+  { name: 'Bhoomi', gender: 'girl', origin: 'Sanskrit', meaning: 'Earth' },
+  { name: 'Jay', gender: 'boy', origin: 'Sanskrit', meaning: 'Victory' },
+  { name: 'Jahnavi', gender: 'girl', origin: 'Sanskrit', meaning: 'The Ganga' },
+  { name: 'Jaspreet', gender: 'unisex', origin: 'Punjabi', meaning: 'Love of praise' },
+  { name: 'Jasleen', gender: 'girl', origin: 'Punjabi', meaning: 'Absorbed in praise' },
+  { name: 'Jivan', gender: 'boy', origin: 'Sanskrit', meaning: 'Life' },
+  { name: 'Jigisha', gender: 'girl', origin: 'Sanskrit', meaning: 'Desire to win' },
+  { name: 'Jugal', gender: 'boy', origin: 'Sanskrit', meaning: 'Pair' },
+  { name: 'Juhi', gender: 'girl', origin: 'Sanskrit', meaning: 'Jasmine' },
+  { name: 'Jeevan', gender: 'boy', origin: 'Sanskrit', meaning: 'Life' },
+  { name: 'Gaurav', gender: 'boy', origin: 'Sanskrit', meaning: 'Pride' },
+  { name: 'Ganesh', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the ganas' },
+  { name: 'Gauri', gender: 'girl', origin: 'Sanskrit', meaning: 'Parvati' },
+  { name: 'Gargi', gender: 'girl', origin: 'Sanskrit', meaning: 'A learned woman of the Upanishads' },
+  { name: 'Girish', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the mountains' },
+  { name: 'Gita', gender: 'girl', origin: 'Sanskrit', meaning: 'Song' },
+  { name: 'Gunjan', gender: 'unisex', origin: 'Sanskrit', meaning: 'Humming' },
+  { name: 'Gurpreet', gender: 'unisex', origin: 'Punjabi', meaning: 'Love of the Guru' },
+  { name: 'Gurleen', gender: 'girl', origin: 'Punjabi', meaning: 'Absorbed in the Guru' },
+  { name: 'Geetika', gender: 'girl', origin: 'Sanskrit', meaning: 'Little song' },
+  { name: 'Gopal', gender: 'boy', origin: 'Sanskrit', meaning: 'Krishna, protector of cows' },
+  { name: 'Govind', gender: 'boy', origin: 'Sanskrit', meaning: 'Krishna' },
+  { name: 'Sanjay', gender: 'boy', origin: 'Sanskrit', meaning: 'Victorious' },
+  { name: 'Sagar', gender: 'boy', origin: 'Sanskrit', meaning: 'Ocean' },
+  { name: 'Sarita', gender: 'girl', origin: 'Sanskrit', meaning: 'River' },
+  { name: 'Sarika', gender: 'girl', origin: 'Sanskrit', meaning: 'Myna bird' },
+  { name: 'Siddharth', gender: 'boy', origin: 'Sanskrit', meaning: 'One who has attained' },
+  { name: 'Sita', gender: 'girl', origin: 'Sanskrit', meaning: 'Consort of Rama' },
+  { name: 'Simran', gender: 'girl', origin: 'Punjabi', meaning: 'Remembrance of God' },
+  { name: 'Suresh', gender: 'boy', origin: 'Sanskrit', meaning: 'Lord of the gods' },
+  { name: 'Sudha', gender: 'girl', origin: 'Sanskrit', meaning: 'Nectar' },
+  { name: 'Sukhmani', gender: 'girl', origin: 'Punjabi', meaning: 'Jewel of peace' },
+  { name: 'Sejal', gender: 'girl', origin: 'Sanskrit', meaning: 'River water' },
+  { name: 'Soham', gender: 'boy', origin: 'Sanskrit', meaning: 'I am That' },
+  { name: 'Somesh', gender: 'boy', origin: 'Sanskrit', meaning: 'The Moon' },
+  { name: 'Sonal', gender: 'girl', origin: 'Sanskrit', meaning: 'Golden' },
+  { name: 'Chandan', gender: 'boy', origin: 'Sanskrit', meaning: 'Sandalwood' },
+  { name: 'Charu', gender: 'girl', origin: 'Sanskrit', meaning: 'Beautiful' },
+  { name: 'Chinmay', gender: 'boy', origin: 'Sanskrit', meaning: 'Full of consciousness' },
+  { name: 'Chitra', gender: 'girl', origin: 'Sanskrit', meaning: 'Picture; a nakshatra' },
+];
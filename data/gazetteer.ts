@@ -0,0 +1,354 @@
+import { GEONAMES_PLACES } from './geonames';
+
+// Bundled gazetteer of populated places used for offline geocoding.
+// Each record: [name, region (state / province), country, latitude, longitude, population in thousands, aliases]
+export type PlaceRecord = [string, string, string, number, number, number, string[]?];
+
+// Hand-kept places with their current and former names
+const CURATED_PLACES: PlaceRecord[] = [
+  // India — Maharashtra
+  ['Mumbai', 'Maharashtra', 'India', 19.076, 72.878, 12442, ['Bombay']],
+  ['Pune', 'Maharashtra', 'India', 18.52, 73.857, 3124, ['Poona']],
+  ['Nagpur', 'Maharashtra', 'India', 21.146, 79.088, 2405],
+  ['Thane', 'Maharashtra', 'India', 19.218, 72.978, 1841],
+  ['Nashik', 'Maharashtra', 'India', 19.998, 73.79, 1486, ['Nasik']],
+  ['Aurangabad', 'Maharashtra', 'India', 19.876, 75.343, 1175, ['Chhatrapati Sambhajinagar', 'Sambhajinagar']],
+  ['Solapur', 'Maharashtra', 'India', 17.66, 75.906, 951, ['Sholapur']],
+  ['Amravati', 'Maharashtra', 'India', 20.937, 77.78, 647],
+  ['Kolhapur', 'Maharashtra', 'India', 16.705, 74.243, 549],
+  ['Nanded', 'Maharashtra', 'India', 19.138, 77.321, 550],
+  ['Sangli', 'Maharashtra', 'India', 16.852, 74.581, 502],
+  ['Jalgaon', 'Maharashtra', 'India', 21.008, 75.563, 460],
+  ['Akola', 'Maharashtra', 'India', 20.702, 77.002, 427],
+  ['Latur', 'Maharashtra', 'India', 18.401, 76.56, 382],
+  ['Ahmednagar', 'Maharashtra', 'India', 19.095, 74.749, 350, ['Ahilyanagar']],
+  ['Satara', 'Maharashtra', 'India', 17.68, 74.018, 120],
+  ['Ratnagiri', 'Maharashtra', 'India', 16.99, 73.312, 76],
+  ['Alibag', 'Maharashtra', 'India', 18.641, 72.872, 20, ['Raigad']],
+  // India — Delhi, Haryana, Punjab, Himachal, Uttarakhand, J&K
+  ['New Delhi', 'Delhi', 'India', 28.614, 77.209, 250],
+  ['Delhi', 'Delhi', 'India', 28.704, 77.103, 16787],
+  ['Gurugram', 'Haryana', 'India', 28.459, 77.027, 877, ['Gurgaon']],
+  ['Faridabad', 'Haryana', 'India', 28.408, 77.318, 1414],
+  ['Panipat', 'Haryana', 'India', 29.391, 76.963, 295],
+  ['Ambala', 'Haryana', 'India', 30.378, 76.777, 196],
+  ['Rohtak', 'Haryana', 'India', 28.895, 76.607, 374],
+  ['Hisar', 'Haryana', 'India', 29.149, 75.722, 301, ['Hissar']],
+  ['Karnal', 'Haryana', 'India', 29.686, 76.99, 286],
+  ['Chandigarh', 'Chandigarh', 'India', 30.733, 76.779, 1055],
+  ['Mohali', 'Punjab', 'India', 30.704, 76.717, 176, ['Sahibzada Ajit Singh Nagar']],
+  ['Ludhiana', 'Punjab', 'India', 30.901, 75.857, 1618],
+  ['Amritsar', 'Punjab', 'India', 31.634, 74.872, 1132],
+  ['Jalandhar', 'Punjab', 'India', 31.326, 75.576, 862, ['Jullundur']],
+  ['Patiala', 'Punjab', 'India', 30.34, 76.386, 446],
+  ['Bathinda', 'Punjab', 'India', 30.211, 74.946, 285, ['Bhatinda']],
+  ['Jalalabad', 'Punjab', 'India', 30.607, 74.256, 45],
+  ['Jalalabad', 'Uttar Pradesh', 'India', 27.72, 79.657, 40],
+  ['Shimla', 'Himachal Pradesh', 'India', 31.104, 77.173, 170, ['Simla']],
+  ['Hamirpur', 'Himachal Pradesh', 'India', 31.686, 76.521, 18],
+  ['Bilaspur', 'Himachal Pradesh', 'India', 31.339, 76.757, 14],
+  ['Mandi', 'Himachal Pradesh', 'India', 31.708, 76.932, 26],
+  ['Dharamshala', 'Himachal Pradesh', 'India', 32.219, 76.323, 53, ['Dharamsala']],
+  ['Kullu', 'Himachal Pradesh', 'India', 31.958, 77.109, 18],
+  ['Dehradun', 'Uttarakhand', 'India', 30.317, 78.032, 578],
+  ['Haridwar', 'Uttarakhand', 'India', 29.945, 78.164, 228, ['Hardwar']],
+  ['Rishikesh', 'Uttarakhand', 'India', 30.087, 78.268, 102],
+  ['Haldwani', 'Uttarakhand', 'India', 29.219, 79.513, 156],
+  ['Nainital', 'Uttarakhand', 'India', 29.38, 79.464, 41],
+  ['Srinagar', 'Jammu and Kashmir', 'India', 34.084, 74.797, 1180],
+  ['Srinagar', 'Uttarakhand', 'India', 30.222, 78.783, 20],
+  ['Jammu', 'Jammu and Kashmir', 'India', 32.727, 74.857, 503],
+  ['Leh', 'Ladakh', 'India', 34.153, 77.577, 31],
+  // India — Uttar Pradesh
+  ['Lucknow', 'Uttar Pradesh', 'India', 26.847, 80.947, 2817],
+  ['Kanpur', 'Uttar Pradesh', 'India', 26.449, 80.332, 2768, ['Cawnpore']],
+  ['Ghaziabad', 'Uttar Pradesh', 'India', 28.669, 77.454, 1648],
+  ['Agra', 'Uttar Pradesh', 'India', 27.177, 78.008, 1585],
+  ['Meerut', 'Uttar Pradesh', 'India', 28.984, 77.706, 1305],
+  ['Varanasi', 'Uttar Pradesh', 'India', 25.318, 82.974, 1198, ['Benares', 'Banaras', 'Kashi']],
+  ['Prayagraj', 'Uttar Pradesh', 'India', 25.435, 81.846, 1117, ['Allahabad']],
+  ['Bareilly', 'Uttar Pradesh', 'India', 28.367, 79.432, 903],
+  ['Aligarh', 'Uttar Pradesh', 'India', 27.883, 78.078, 874],
+  ['Moradabad', 'Uttar Pradesh', 'India', 28.839, 78.773, 889],
+  ['Noida', 'Uttar Pradesh', 'India', 28.535, 77.391, 637, ['Gautam Buddh Nagar']],
+  ['Gorakhpur', 'Uttar Pradesh', 'India', 26.76, 83.373, 673],
+  ['Saharanpur', 'Uttar Pradesh', 'India', 29.968, 77.546, 705],
+  ['Jhansi', 'Uttar Pradesh', 'India', 25.448, 78.569, 505],
+  ['Firozabad', 'Uttar Pradesh', 'India', 27.151, 78.396, 604],
+  ['Mathura', 'Uttar Pradesh', 'India', 27.492, 77.674, 441],
+  ['Ayodhya', 'Uttar Pradesh', 'India', 26.799, 82.204, 167, ['Faizabad']],
+  ['Rampur', 'Uttar Pradesh', 'India', 28.81, 79.025, 325],
+  ['Shahjahanpur', 'Uttar Pradesh', 'India', 27.883, 79.912, 346],
+  ['Etawah', 'Uttar Pradesh', 'India', 26.785, 79.015, 257],
+  ['Mirzapur', 'Uttar Pradesh', 'India', 25.146, 82.569, 234],
+  ['Bulandshahr', 'Uttar Pradesh', 'India', 28.407, 77.849, 235],
+  ['Azamgarh', 'Uttar Pradesh', 'India', 26.067, 83.183, 116],
+  ['Sultanpur', 'Uttar Pradesh', 'India', 26.264, 82.073, 107],
+  ['Hamirpur', 'Uttar Pradesh', 'India', 25.957, 80.148, 35],
+  ['Pratapgarh', 'Uttar Pradesh', 'India', 25.897, 81.944, 80, ['Bela Pratapgarh']],
+  ['Fatehpur', 'Uttar Pradesh', 'India', 25.93, 80.813, 193],
+  // India — Bihar, Jharkhand
+  ['Patna', 'Bihar', 'India', 25.594, 85.137, 1684],
+  ['Gaya', 'Bihar', 'India', 24.796, 85.008, 471],
+  ['Bhagalpur', 'Bihar', 'India', 25.244, 86.972, 401],
+  ['Muzaffarpur', 'Bihar', 'India', 26.12, 85.391, 354],
+  ['Darbhanga', 'Bihar', 'India', 26.152, 85.897, 307],
+  ['Purnia', 'Bihar', 'India', 25.778, 87.474, 282, ['Purnea']],
+  ['Arrah', 'Bihar', 'India', 25.556, 84.663, 261, ['Ara']],
+  ['Aurangabad', 'Bihar', 'India', 24.752, 84.374, 102],
+  ['Ranchi', 'Jharkhand', 'India', 23.344, 85.31, 1126],
+  ['Jamshedpur', 'Jharkhand', 'India', 22.805, 86.203, 1339, ['Tatanagar']],
+  ['Dhanbad', 'Jharkhand', 'India', 23.796, 86.43, 1196],
+  ['Bokaro', 'Jharkhand', 'India', 23.669, 86.151, 564, ['Bokaro Steel City']],
+  ['Hazaribagh', 'Jharkhand', 'India', 23.992, 85.361, 142],
+  ['Deoghar', 'Jharkhand', 'India', 24.486, 86.695, 203],
+  // India — West Bengal, Odisha, North East
+  ['Kolkata', 'West Bengal', 'India', 22.573, 88.364, 14850, ['Calcutta']],
+  ['Howrah', 'West Bengal', 'India', 22.596, 88.264, 1077],
+  ['Durgapur', 'West Bengal', 'India', 23.52, 87.312, 566],
+  ['Asansol', 'West Bengal', 'India', 23.684, 86.983, 1243],
+  ['Siliguri', 'West Bengal', 'India', 26.727, 88.395, 705],
+  ['Darjeeling', 'West Bengal', 'India', 27.036, 88.263, 119],
+  ['Kharagpur', 'West Bengal', 'India', 22.346, 87.232, 293],
+  ['Bardhaman', 'West Bengal', 'India', 23.232, 87.863, 347, ['Burdwan']],
+  ['Malda', 'West Bengal', 'India', 25.011, 88.141, 216, ['English Bazar']],
+  ['Bhubaneswar', 'Odisha', 'India', 20.296, 85.825, 837],
+  ['Cuttack', 'Odisha', 'India', 20.462, 85.883, 606],
+  ['Puri', 'Odisha', 'India', 19.813, 85.831, 201],
+  ['Rourkela', 'Odisha', 'India', 22.26, 84.854, 552],
+  ['Sambalpur', 'Odisha', 'India', 21.466, 83.982, 335],
+  ['Berhampur', 'Odisha', 'India', 19.315, 84.793, 356, ['Brahmapur']],
+  ['Guwahati', 'Assam', 'India', 26.144, 91.736, 963, ['Gauhati']],
+  ['Dibrugarh', 'Assam', 'India', 27.472, 94.912, 154],
+  ['Silchar', 'Assam', 'India', 24.834, 92.779, 228],
+  ['Jorhat', 'Assam', 'India', 26.757, 94.203, 153],
+  ['Shillong', 'Meghalaya', 'India', 25.578, 91.893, 354],
+  ['Imphal', 'Manipur', 'India', 24.817, 93.937, 268],
+  ['Agartala', 'Tripura', 'India', 23.831, 91.287, 522],
+  ['Aizawl', 'Mizoram', 'India', 23.727, 92.718, 293],
+  ['Kohima', 'Nagaland', 'India', 25.674, 94.11, 100],
+  ['Dimapur', 'Nagaland', 'India', 25.906, 93.727, 123],
+  ['Itanagar', 'Arunachal Pradesh', 'India', 27.084, 93.605, 60],
+  ['Gangtok', 'Sikkim', 'India', 27.339, 88.607, 100],
+  // India — Rajasthan, Gujarat
+  ['Jaipur', 'Rajasthan', 'India', 26.912, 75.787, 3046],
+  ['Jodhpur', 'Rajasthan', 'India', 26.238, 73.024, 1138],
+  ['Kota', 'Rajasthan', 'India', 25.213, 75.865, 1001],
+  ['Bikaner', 'Rajasthan', 'India', 28.022, 73.312, 644],
+  ['Ajmer', 'Rajasthan', 'India', 26.45, 74.64, 542],
+  ['Udaipur', 'Rajasthan', 'India', 24.585, 73.712, 451],
+  ['Bhilwara', 'Rajasthan', 'India', 25.347, 74.641, 360],
+  ['Alwar', 'Rajasthan', 'India', 27.553, 76.635, 341],
+  ['Sikar', 'Rajasthan', 'India', 27.61, 75.14, 244],
+  ['Jaisalmer', 'Rajasthan', 'India', 26.915, 70.908, 65],
+  ['Pratapgarh', 'Rajasthan', 'India', 24.031, 74.778, 43],
+  ['Fatehpur', 'Rajasthan', 'India', 27.995, 74.955, 92],
+  ['Ahmedabad', 'Gujarat', 'India', 23.023, 72.571, 6357, ['Amdavad']],
+  ['Surat', 'Gujarat', 'India', 21.17, 72.831, 4467],
+  ['Vadodara', 'Gujarat', 'India', 22.307, 73.181, 1670, ['Baroda']],
+  ['Rajkot', 'Gujarat', 'India', 22.303, 70.802, 1287],
+  ['Bhavnagar', 'Gujarat', 'India', 21.764, 72.152, 593],
+  ['Jamnagar', 'Gujarat', 'India', 22.47, 70.058, 600],
+  ['Gandhinagar', 'Gujarat', 'India', 23.216, 72.637, 292],
+  ['Junagadh', 'Gujarat', 'India', 21.522, 70.458, 319],
+  ['Anand', 'Gujarat', 'India', 22.556, 72.951, 198],
+  ['Bhuj', 'Gujarat', 'India', 23.242, 69.667, 188],
+  // India — Madhya Pradesh, Chhattisgarh
+  ['Indore', 'Madhya Pradesh', 'India', 22.72, 75.858, 1994],
+  ['Bhopal', 'Madhya Pradesh', 'India', 23.26, 77.413, 1798],
+  ['Jabalpur', 'Madhya Pradesh', 'India', 23.181, 79.986, 1268],
+  ['Gwalior', 'Madhya Pradesh', 'India', 26.218, 78.183, 1102],
+  ['Ujjain', 'Madhya Pradesh', 'India', 23.18, 75.784, 515],
+  ['Sagar', 'Madhya Pradesh', 'India', 23.839, 78.738, 370, ['Saugor']],
+  ['Rewa', 'Madhya Pradesh', 'India', 24.531, 81.296, 235],
+  ['Satna', 'Madhya Pradesh', 'India', 24.601, 80.832, 283],
+  ['Ratlam', 'Madhya Pradesh', 'India', 23.331, 75.037, 264],
+  ['Raipur', 'Chhattisgarh', 'India', 21.251, 81.63, 1123],
+  ['Bhilai', 'Chhattisgarh', 'India', 21.209, 81.429, 1064],
+  ['Durg', 'Chhattisgarh', 'India', 21.19, 81.284, 268],
+  ['Bilaspur', 'Chhattisgarh', 'India', 22.08, 82.14, 452],
+  ['Korba', 'Chhattisgarh', 'India', 22.35, 82.688, 365],
+  ['Raigarh', 'Chhattisgarh', 'India', 21.898, 83.395, 150],
+  // India — South
+  ['Hyderabad', 'Telangana', 'India', 17.385, 78.487, 9746],
+  ['Secunderabad', 'Telangana', 'India', 17.44, 78.499, 217],
+  ['Warangal', 'Telangana', 'India', 17.968, 79.594, 811],
+  ['Karimnagar', 'Telangana', 'India', 18.439, 79.129, 261],
+  ['Nizamabad', 'Telangana', 'India', 18.672, 78.094, 311],
+  ['Khammam', 'Telangana', 'India', 17.247, 80.151, 184],
+  ['Visakhapatnam', 'Andhra Pradesh', 'India', 17.687, 83.218, 2035, ['Vizag', 'Vishakhapatnam']],
+  ['Vijayawada', 'Andhra Pradesh', 'India', 16.506, 80.648, 1476, ['Bezawada']],
+  ['Guntur', 'Andhra Pradesh', 'India', 16.307, 80.436, 743],
+  ['Nellore', 'Andhra Pradesh', 'India', 14.443, 79.986, 600],
+  ['Kurnool', 'Andhra Pradesh', 'India', 15.828, 78.037, 484],
+  ['Rajahmundry', 'Andhra Pradesh', 'India', 17.0, 81.804, 476, ['Rajamahendravaram']],
+  ['Kakinada', 'Andhra Pradesh', 'India', 16.989, 82.247, 443],
+  ['Tirupati', 'Andhra Pradesh', 'India', 13.629, 79.419, 461],
+  ['Anantapur', 'Andhra Pradesh', 'India', 14.682, 77.6, 340, ['Anantapuramu']],
+  ['Amaravati', 'Andhra Pradesh', 'India', 16.573, 80.358, 13],
+  ['Bengaluru', 'Karnataka', 'India', 12.972, 77.595, 12765, ['Bangalore']],
+  ['Mysuru', 'Karnataka', 'India', 12.296, 76.639, 1015, ['Mysore']],
+  ['Hubballi', 'Karnataka', 'India', 15.365, 75.124, 943, ['Hubli', 'Hubli-Dharwad']],
+  ['Mangaluru', 'Karnataka', 'India', 12.914, 74.856, 623, ['Mangalore']],
+  ['Belagavi', 'Karnataka', 'India', 15.85, 74.498, 610, ['Belgaum']],
+  ['Kalaburagi', 'Karnataka', 'India', 17.329, 76.834, 543, ['Gulbarga']],
+  ['Davanagere', 'Karnataka', 'India', 14.464, 75.922, 435],
+  ['Ballari', 'Karnataka', 'India', 15.139, 76.921, 410, ['Bellary']],
+  ['Shivamogga', 'Karnataka', 'India', 13.93, 75.568, 322, ['Shimoga']],
+  ['Tumakuru', 'Karnataka', 'India', 13.341, 77.101, 305, ['Tumkur']],
+  ['Udupi', 'Karnataka', 'India', 13.341, 74.747, 165],
+  ['Chennai', 'Tamil Nadu', 'India', 13.083, 80.271, 10971, ['Madras']],
+  ['Coimbatore', 'Tamil Nadu', 'India', 11.017, 76.956, 2151, ['Kovai']],
+  ['Madurai', 'Tamil Nadu', 'India', 9.925, 78.12, 1561],
+  ['Tiruchirappalli', 'Tamil Nadu', 'India', 10.791, 78.705, 1022, ['Trichy', 'Tiruchi']],
+  ['Salem', 'Tamil Nadu', 'India', 11.665, 78.146, 917],
+  ['Tirunelveli', 'Tamil Nadu', 'India', 8.714, 77.757, 498],
+  ['Vellore', 'Tamil Nadu', 'India', 12.917, 79.133, 504],
+  ['Erode', 'Tamil Nadu', 'India', 11.341, 77.717, 498],
+  ['Thanjavur', 'Tamil Nadu', 'India', 10.787, 79.138, 290, ['Tanjore']],
+  ['Kanchipuram', 'Tamil Nadu', 'India', 12.834, 79.704, 232, ['Kanchi']],
+  ['Kumbakonam', 'Tamil Nadu', 'India', 10.96, 79.385, 140],
+  ['Thoothukudi', 'Tamil Nadu', 'India', 8.764, 78.135, 237, ['Tuticorin']],
+  ['Nagercoil', 'Tamil Nadu', 'India', 8.178, 77.412, 224],
+  ['Ooty', 'Tamil Nadu', 'India', 11.41, 76.695, 88, ['Udhagamandalam']],
+  ['Thiruvananthapuram', 'Kerala', 'India', 8.524, 76.936, 957, ['Trivandrum']],
+  ['Kochi', 'Kerala', 'India', 9.931, 76.267, 2119, ['Cochin', 'Ernakulam']],
+  ['Kozhikode', 'Kerala', 'India', 11.258, 75.78, 2031, ['Calicut']],
+  ['Thrissur', 'Kerala', 'India', 10.527, 76.214, 1855, ['Trichur']],
+  ['Kollam', 'Kerala', 'India', 8.893, 76.614, 1110, ['Quilon']],
+  ['Kannur', 'Kerala', 'India', 11.874, 75.37, 1642, ['Cannanore']],
+  ['Palakkad', 'Kerala', 'India', 10.787, 76.654, 294, ['Palghat']],
+  ['Alappuzha', 'Kerala', 'India', 9.498, 76.339, 240, ['Alleppey']],
+  ['Kottayam', 'Kerala', 'India', 9.592, 76.522, 357],
+  ['Malappuram', 'Kerala', 'India', 11.073, 76.074, 1699],
+  ['Panaji', 'Goa', 'India', 15.491, 73.827, 114, ['Panjim']],
+  ['Margao', 'Goa', 'India', 15.274, 73.958, 94, ['Madgaon']],
+  ['Vasco da Gama', 'Goa', 'India', 15.396, 73.811, 100],
+  ['Puducherry', 'Puducherry', 'India', 11.934, 79.83, 657, ['Pondicherry']],
+  ['Port Blair', 'Andaman and Nicobar Islands', 'India', 11.623, 92.726, 108, ['Sri Vijaya Puram']],
+  // South Asia
+  ['Karachi', 'Sindh', 'Pakistan', 24.861, 67.01, 14910],
+  ['Lahore', 'Punjab', 'Pakistan', 31.52, 74.359, 11126],
+  ['Faisalabad', 'Punjab', 'Pakistan', 31.45, 73.135, 3204, ['Lyallpur']],
+  ['Rawalpindi', 'Punjab', 'Pakistan', 33.565, 73.016, 2098],
+  ['Multan', 'Punjab', 'Pakistan', 30.157, 71.525, 1872],
+  ['Hyderabad', 'Sindh', 'Pakistan', 25.396, 68.377, 1732],
+  ['Islamabad', 'Islamabad Capital Territory', 'Pakistan', 33.684, 73.048, 1015],
+  ['Peshawar', 'Khyber Pakhtunkhwa', 'Pakistan', 34.015, 71.525, 1970],
+  ['Dhaka', 'Dhaka Division', 'Bangladesh', 23.81, 90.413, 10356, ['Dacca']],
+  ['Chittagong', 'Chittagong Division', 'Bangladesh', 22.357, 91.783, 3920, ['Chattogram']],
+  ['Khulna', 'Khulna Division', 'Bangladesh', 22.846, 89.54, 664],
+  ['Sylhet', 'Sylhet Division', 'Bangladesh', 24.894, 91.869, 532],
+  ['Kathmandu', 'Bagmati', 'Nepal', 27.717, 85.324, 1442],
+  ['Pokhara', 'Gandaki', 'Nepal', 28.21, 83.986, 518],
+  ['Biratnagar', 'Koshi', 'Nepal', 26.455, 87.27, 244],
+  ['Colombo', 'Western Province', 'Sri Lanka', 6.927, 79.861, 753],
+  ['Kandy', 'Central Province', 'Sri Lanka', 7.291, 80.636, 125],
+  ['Jaffna', 'Northern Province', 'Sri Lanka', 9.661, 80.026, 88],
+  ['Thimphu', 'Thimphu', 'Bhutan', 27.472, 89.639, 115],
+  ['Male', 'Kaafu', 'Maldives', 4.175, 73.509, 211],
+  ['Kabul', 'Kabul', 'Afghanistan', 34.555, 69.207, 4434],
+  // Middle East
+  ['Dubai', 'Dubai', 'United Arab Emirates', 25.205, 55.271, 3331],
+  ['Abu Dhabi', 'Abu Dhabi', 'United Arab Emirates', 24.454, 54.377, 1483],
+  ['Sharjah', 'Sharjah', 'United Arab Emirates', 25.346, 55.421, 1405],
+  ['Muscat', 'Muscat', 'Oman', 23.588, 58.383, 1421],
+  ['Doha', 'Doha', 'Qatar', 25.286, 51.531, 1186],
+  ['Riyadh', 'Riyadh', 'Saudi Arabia', 24.713, 46.675, 7009],
+  ['Jeddah', 'Makkah', 'Saudi Arabia', 21.485, 39.193, 3976],
+  ['Kuwait City', 'Al Asimah', 'Kuwait', 29.376, 47.977, 3115],
+  ['Manama', 'Capital', 'Bahrain', 26.228, 50.586, 157],
+  ['Tehran', 'Tehran', 'Iran', 35.689, 51.389, 8694],
+  ['Istanbul', 'Istanbul', 'Turkey', 41.008, 28.978, 15462],
+  // East and South East Asia
+  ['Singapore', 'Singapore', 'Singapore', 1.352, 103.82, 5454],
+  ['Kuala Lumpur', 'Federal Territory', 'Malaysia', 3.139, 101.687, 1982],
+  ['Bangkok', 'Bangkok', 'Thailand', 13.756, 100.502, 10539],
+  ['Jakarta', 'Jakarta', 'Indonesia', -6.208, 106.846, 10562],
+  ['Yangon', 'Yangon', 'Myanmar', 16.841, 96.173, 5160, ['Rangoon']],
+  ['Beijing', 'Beijing', 'China', 39.904, 116.407, 21540],
+  ['Shanghai', 'Shanghai', 'China', 31.23, 121.474, 24870],
+  ['Hong Kong', 'Hong Kong', 'China', 22.32, 114.169, 7482],
+  ['Tokyo', 'Tokyo', 'Japan', 35.676, 139.65, 13960],
+  // Europe
+  ['London', 'England', 'United Kingdom', 51.507, -0.128, 8982],
+  ['Birmingham', 'England', 'United Kingdom', 52.486, -1.89, 1144],
+  ['Manchester', 'England', 'United Kingdom', 53.481, -2.243, 553],
+  ['Leicester', 'England', 'United Kingdom', 52.637, -1.14, 368],
+  ['Leeds', 'England', 'United Kingdom', 53.801, -1.549, 793],
+  ['Bradford', 'England', 'United Kingdom', 53.796, -1.759, 537],
+  ['Glasgow', 'Scotland', 'United Kingdom', 55.864, -4.252, 635],
+  ['Edinburgh', 'Scotland', 'United Kingdom', 55.953, -3.188, 527],
+  ['Dublin', 'Leinster', 'Ireland', 53.35, -6.26, 1173],
+  ['Paris', 'Ile-de-France', 'France', 48.857, 2.352, 2161],
+  ['Berlin', 'Berlin', 'Germany', 52.52, 13.405, 3645],
+  ['Frankfurt', 'Hesse', 'Germany', 50.11, 8.682, 753],
+  ['Munich', 'Bavaria', 'Germany', 48.135, 11.582, 1472],
+  ['Amsterdam', 'North Holland', 'Netherlands', 52.368, 4.904, 872],
+  ['Brussels', 'Brussels', 'Belgium', 50.85, 4.352, 1209],
+  ['Zurich', 'Zurich', 'Switzerland', 47.377, 8.542, 421],
+  ['Vienna', 'Vienna', 'Austria', 48.208, 16.374, 1897],
+  ['Rome', 'Lazio', 'Italy', 41.903, 12.496, 2873],
+  ['Milan', 'Lombardy', 'Italy', 45.464, 9.19, 1352],
+  ['Madrid', 'Madrid', 'Spain', 40.417, -3.704, 3223],
+  ['Barcelona', 'Catalonia', 'Spain', 41.385, 2.173, 1620],
+  ['Stockholm', 'Stockholm', 'Sweden', 59.329, 18.069, 975],
+  ['Oslo', 'Oslo', 'Norway', 59.914, 10.752, 697],
+  ['Copenhagen', 'Capital Region', 'Denmark', 55.676, 12.568, 644],
+  ['Warsaw', 'Masovia', 'Poland', 52.23, 21.012, 1790],
+  ['Moscow', 'Moscow', 'Russia', 55.756, 37.617, 12506],
+  // North America
+  ['New York', 'New York', 'USA', 40.713, -74.006, 8336, ['New York City', 'NYC']],
+  ['Jersey City', 'New Jersey', 'USA', 40.728, -74.078, 292],
+  ['Edison', 'New Jersey', 'USA', 40.519, -74.412, 107],
+  ['Boston', 'Massachusetts', 'USA', 42.36, -71.059, 675],
+  ['Salem', 'Massachusetts', 'USA', 42.519, -70.897, 44],
+  ['Philadelphia', 'Pennsylvania', 'USA', 39.953, -75.165, 1603],
+  ['Washington', 'District of Columbia', 'USA', 38.907, -77.037, 690, ['Washington DC']],
+  ['Atlanta', 'Georgia', 'USA', 33.749, -84.388, 499],
+  ['Miami', 'Florida', 'USA', 25.762, -80.192, 442],
+  ['Detroit', 'Michigan', 'USA', 42.331, -83.046, 639],
+  ['Chicago', 'Illinois', 'USA', 41.878, -87.63, 2746],
+  ['Aurora', 'Illinois', 'USA', 41.761, -88.32, 180],
+  ['Houston', 'Texas', 'USA', 29.76, -95.37, 2304],
+  ['Dallas', 'Texas', 'USA', 32.777, -96.797, 1304],
+  ['Austin', 'Texas', 'USA', 30.267, -97.743, 961],
+  ['Denver', 'Colorado', 'USA', 39.739, -104.99, 715],
+  ['Aurora', 'Colorado', 'USA', 39.729, -104.832, 386],
+  ['Phoenix', 'Arizona', 'USA', 33.448, -112.074, 1608],
+  ['Los Angeles', 'California', 'USA', 34.052, -118.244, 3898],
+  ['San Francisco', 'California', 'USA', 37.775, -122.419, 874],
+  ['San Jose', 'California', 'USA', 37.339, -121.895, 1013],
+  ['Seattle', 'Washington', 'USA', 47.606, -122.332, 737],
+  ['Salem', 'Oregon', 'USA', 44.943, -123.035, 175],
+  ['Toronto', 'Ontario', 'Canada', 43.653, -79.383, 2794],
+  ['Brampton', 'Ontario', 'Canada', 43.731, -79.762, 656],
+  ['Mississauga', 'Ontario', 'Canada', 43.589, -79.644, 717],
+  ['Ottawa', 'Ontario', 'Canada', 45.421, -75.697, 1017],
+  ['Montreal', 'Quebec', 'Canada', 45.502, -73.567, 1762],
+  ['Calgary', 'Alberta', 'Canada', 51.045, -114.072, 1306],
+  ['Edmonton', 'Alberta', 'Canada', 53.546, -113.494, 1011],
+  ['Vancouver', 'British Columbia', 'Canada', 49.283, -123.121, 662],
+  ['Surrey', 'British Columbia', 'Canada', 49.191, -122.849, 568],
+  // Oceania and Africa
+  ['Sydney', 'New South Wales', 'Australia', -33.869, 151.209, 5312],
+  ['Melbourne', 'Victoria', 'Australia', -37.814, 144.963, 5078],
+  ['Brisbane', 'Queensland', 'Australia', -27.47, 153.026, 2560],
+  ['Perth', 'Western Australia', 'Australia', -31.95, 115.86, 2125],
+  ['Adelaide', 'South Australia', 'Australia', -34.929, 138.601, 1376],
+  ['Canberra', 'Australian Capital Territory', 'Australia', -35.281, 149.13, 431],
+  ['Darwin', 'Northern Territory', 'Australia', -12.463, 130.842, 147],
+  ['Auckland', 'Auckland', 'New Zealand', -36.848, 174.763, 1657],
+  ['Wellington', 'Wellington', 'New Zealand', -41.286, 174.776, 215],
+  ['Suva', 'Central', 'Fiji', -18.124, 178.45, 94],
+  ['Port Louis', 'Port Louis', 'Mauritius', -20.161, 57.501, 147],
+  ['Nairobi', 'Nairobi', 'Kenya', -1.292, 36.822, 4397],
+  ['Kampala', 'Central', 'Uganda', 0.347, 32.582, 1680],
+  ['Dar es Salaam', 'Dar es Salaam', 'Tanzania', -6.792, 39.208, 5383],
+  ['Johannesburg', 'Gauteng', 'South Africa', -26.204, 28.047, 5635],
+  ['Durban', 'KwaZulu-Natal', 'South Africa', -29.858, 31.022, 3442],
+  ['Lagos', 'Lagos', 'Nigeria', 6.524, 3.379, 15388],
+  ['Cairo', 'Cairo', 'Egypt', 30.044, 31.236, 9540],
+];
+
+export const PLACES: PlaceRecord[] = [...CURATED_PLACES, ...GEONAMES_PLACES];
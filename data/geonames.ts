@@ -0,0 +1,2996 @@
+import { PlaceRecord } from './gazetteer';
+
+// Places from the GeoNames gazetteer (geonames.org, CC BY 4.0), taken from the cities1000 dump of March 2020:
+// every Indian town of 15,000 people or more and, elsewhere, capitals and cities of 500,000 or more.
+// Places already in the hand-kept list in gazetteer.ts are left out. Same record layout as PLACES.
+export const GEONAMES_PLACES: PlaceRecord[] = [
+  // India — Andhra Pradesh
+  ['Machilipatnam', 'Andhra Pradesh', 'India', 16.187, 81.139, 193],
+  ['Ellore', 'Andhra Pradesh', 'India', 16.713, 81.104, 183],
+  ['Vizianagaram', 'Andhra Pradesh', 'India', 18.117, 83.411, 179],
+  ['Proddatur', 'Andhra Pradesh', 'India', 14.75, 78.548, 178],
+  ['Ongole', 'Andhra Pradesh', 'India', 15.504, 80.045, 173],
+  ['Nandyal', 'Andhra Pradesh', 'India', 15.478, 78.484, 165],
+  ['Adoni', 'Andhra Pradesh', 'India', 15.628, 77.275, 164],
+  ['Bhimavaram', 'Andhra Pradesh', 'India', 16.541, 81.523, 143],
+  ['Hindupur', 'Andhra Pradesh', 'India', 13.828, 77.491, 133],
+  ['Cuddapah', 'Andhra Pradesh', 'India', 14.48, 78.823, 127],
+  ['Guntakal Junction', 'Andhra Pradesh', 'India', 15.171, 77.362, 121],
+  ['Srikakulam', 'Andhra Pradesh', 'India', 18.299, 83.898, 118],
+  ['Gudivada', 'Andhra Pradesh', 'India', 16.435, 80.996, 116],
+  ['Dharmavaram', 'Andhra Pradesh', 'India', 14.414, 77.72, 114],
+  ['Madanapalle', 'Andhra Pradesh', 'India', 13.55, 78.503, 109],
+  ['Tadepallegudem', 'Andhra Pradesh', 'India', 16.815, 81.527, 108],
+  ['Narasaraopet', 'Andhra Pradesh', 'India', 16.235, 80.049, 97],
+  ['Chilakalurupet', 'Andhra Pradesh', 'India', 16.09, 80.167, 94],
+  ['Tadpatri', 'Andhra Pradesh', 'India', 14.908, 78.01, 93],
+  ['Chirala', 'Andhra Pradesh', 'India', 15.824, 80.352, 87],
+  ['Anakapalle', 'Andhra Pradesh', 'India', 17.691, 83.004, 84],
+  ['Kavali', 'Andhra Pradesh', 'India', 14.916, 79.994, 83],
+  ['Kadiri', 'Andhra Pradesh', 'India', 14.112, 78.16, 81],
+  ['Rayachoti', 'Andhra Pradesh', 'India', 14.057, 78.751, 81],
+  ['Emmiganur', 'Andhra Pradesh', 'India', 15.772, 77.483, 81],
+  ['Gudur', 'Andhra Pradesh', 'India', 14.151, 79.852, 75],
+  ['Bapatla', 'Andhra Pradesh', 'India', 15.904, 80.467, 70],
+  ['Tanuku', 'Andhra Pradesh', 'India', 16.754, 81.681, 68],
+  ['Attili', 'Andhra Pradesh', 'India', 16.7, 81.6, 68],
+  ['Palasa', 'Andhra Pradesh', 'India', 18.773, 84.41, 66],
+  ['Chinnachowk', 'Andhra Pradesh', 'India', 14.475, 78.835, 64],
+  ['Markapur', 'Andhra Pradesh', 'India', 15.735, 79.268, 64],
+  ['Vinukonda', 'Andhra Pradesh', 'India', 16.053, 79.74, 61],
+  ['Rayadrug', 'Andhra Pradesh', 'India', 14.7, 76.852, 60],
+  ['Mangalagiri', 'Andhra Pradesh', 'India', 16.431, 80.568, 59],
+  ['Narasapur', 'Andhra Pradesh', 'India', 16.434, 81.698, 59],
+  ['Palakollu', 'Andhra Pradesh', 'India', 16.517, 81.73, 57],
+  ['Ponnuru', 'Andhra Pradesh', 'India', 16.065, 80.552, 57],
+  ['Ponnur', 'Andhra Pradesh', 'India', 16.071, 80.549, 57],
+  ['Samalkot', 'Andhra Pradesh', 'India', 17.057, 82.176, 55],
+  ['Kandukur', 'Andhra Pradesh', 'India', 15.215, 79.904, 54],
+  ['Sattenapalle', 'Andhra Pradesh', 'India', 16.394, 80.152, 54],
+  ['Nuzvid', 'Andhra Pradesh', 'India', 16.789, 80.846, 53],
+  ['Bobbili', 'Andhra Pradesh', 'India', 18.574, 83.359, 53],
+  ['Pithapuram', 'Andhra Pradesh', 'India', 17.117, 82.253, 53],
+  ['Amalapuram', 'Andhra Pradesh', 'India', 16.579, 82.006, 53],
+  ['Tuni', 'Andhra Pradesh', 'India', 17.359, 82.546, 53],
+  ['Parvatipuram', 'Andhra Pradesh', 'India', 18.784, 83.426, 52],
+  ['Macherla', 'Andhra Pradesh', 'India', 16.476, 79.435, 51],
+  ['Salur', 'Andhra Pradesh', 'India', 18.517, 83.205, 50],
+  ['Punganuru', 'Andhra Pradesh', 'India', 13.367, 78.572, 49],
+  ['Mandapeta', 'Andhra Pradesh', 'India', 16.863, 81.929, 49],
+  ['Peddapuram', 'Andhra Pradesh', 'India', 17.077, 82.138, 46],
+  ['Nayudupet', 'Andhra Pradesh', 'India', 13.907, 79.895, 46],
+  ['Parlakimidi', 'Andhra Pradesh', 'India', 18.781, 84.088, 45],
+  ['Nandikotkur', 'Andhra Pradesh', 'India', 15.857, 78.266, 45],
+  ['Bhimunipatnam', 'Andhra Pradesh', 'India', 17.89, 83.452, 45],
+  ['Nidadavole', 'Andhra Pradesh', 'India', 16.906, 81.672, 44],
+  ['Jammalamadugu', 'Andhra Pradesh', 'India', 14.847, 78.383, 44],
+  ['Polavaram', 'Andhra Pradesh', 'India', 17.248, 81.644, 44],
+  ['Kanuru', 'Andhra Pradesh', 'India', 16.286, 81.255, 44],
+  ['Ramachandrapuram', 'Andhra Pradesh', 'India', 16.836, 82.029, 43],
+  ['Repalle', 'Andhra Pradesh', 'India', 16.018, 80.83, 43],
+  ['Palmaner', 'Andhra Pradesh', 'India', 13.2, 78.747, 42],
+  ['Jaggayyapeta', 'Andhra Pradesh', 'India', 16.894, 80.098, 41],
+  ['Akividu', 'Andhra Pradesh', 'India', 16.582, 81.381, 40],
+  ['Kovvur', 'Andhra Pradesh', 'India', 17.016, 81.729, 40],
+  ['Dhone', 'Andhra Pradesh', 'India', 15.395, 77.871, 40],
+  ['Amudalavalasa', 'Andhra Pradesh', 'India', 18.41, 83.903, 39],
+  ['Kondapalle', 'Andhra Pradesh', 'India', 16.62, 80.542, 39],
+  ['Nandigama', 'Andhra Pradesh', 'India', 16.772, 80.286, 38],
+  ['Suluru', 'Andhra Pradesh', 'India', 13.7, 80.017, 38],
+  ['Vetapalem', 'Andhra Pradesh', 'India', 15.785, 80.307, 38],
+  ['Yanam', 'Andhra Pradesh', 'India', 16.733, 82.214, 37],
+  ['Vuyyuru', 'Andhra Pradesh', 'India', 16.363, 80.844, 37],
+  ['Kovur', 'Andhra Pradesh', 'India', 14.501, 79.985, 36],
+  ['Betamcherla', 'Andhra Pradesh', 'India', 15.451, 78.148, 35],
+  ['Atmakur', 'Andhra Pradesh', 'India', 15.881, 78.587, 35],
+  ['Tadepalle', 'Andhra Pradesh', 'India', 16.483, 80.6, 34],
+  ['Narsipatnam', 'Andhra Pradesh', 'India', 17.667, 82.612, 34],
+  ['Ichchapuram', 'Andhra Pradesh', 'India', 19.114, 84.687, 34],
+  ['Pulivendla', 'Andhra Pradesh', 'India', 14.421, 78.225, 34],
+  ['Uravakonda', 'Andhra Pradesh', 'India', 14.943, 77.255, 33],
+  ['Darsi', 'Andhra Pradesh', 'India', 15.77, 79.679, 33],
+  ['Venkatagiri', 'Andhra Pradesh', 'India', 13.96, 79.58, 33],
+  ['Chemmumiahpet', 'Andhra Pradesh', 'India', 15.898, 79.321, 31],
+  ['Ramapuram', 'Andhra Pradesh', 'India', 13.101, 79.184, 31],
+  ['Razampeta', 'Andhra Pradesh', 'India', 14.195, 79.159, 31],
+  ['Puttur', 'Andhra Pradesh', 'India', 13.442, 79.553, 31],
+  ['Pedana', 'Andhra Pradesh', 'India', 16.256, 81.144, 30],
+  ['Yanamalakuduru', 'Andhra Pradesh', 'India', 16.485, 80.667, 30],
+  ['Palkonda', 'Andhra Pradesh', 'India', 18.604, 83.756, 29],
+  ['Kalyandurg', 'Andhra Pradesh', 'India', 14.545, 77.106, 29],
+  ['Chodavaram', 'Andhra Pradesh', 'India', 17.829, 82.935, 29],
+  ['Addanki', 'Andhra Pradesh', 'India', 15.811, 79.973, 29],
+  ['Giddalur', 'Andhra Pradesh', 'India', 15.374, 78.926, 28],
+  ['Erraguntla', 'Andhra Pradesh', 'India', 14.639, 78.54, 28],
+  ['Razam', 'Andhra Pradesh', 'India', 18.449, 83.66, 28],
+  ['Vepagunta', 'Andhra Pradesh', 'India', 17.778, 83.216, 27],
+  ['Elamanchili', 'Andhra Pradesh', 'India', 17.549, 82.857, 26],
+  ['Nagari', 'Andhra Pradesh', 'India', 13.321, 79.586, 26],
+  ['Chipurupalle', 'Andhra Pradesh', 'India', 18.311, 83.568, 26],
+  ['Renigunta', 'Andhra Pradesh', 'India', 13.651, 79.513, 26],
+  ['Avanigadda', 'Andhra Pradesh', 'India', 16.021, 80.918, 26],
+  ['Banganapalle', 'Andhra Pradesh', 'India', 15.318, 78.227, 25],
+  ['Rampachodavaram', 'Andhra Pradesh', 'India', 17.441, 81.776, 25],
+  ['Kanigiri', 'Andhra Pradesh', 'India', 15.406, 79.507, 25],
+  ['Tekkali', 'Andhra Pradesh', 'India', 18.606, 84.235, 25],
+  ['Pakala', 'Andhra Pradesh', 'India', 13.449, 79.115, 25],
+  ['Gorantla', 'Andhra Pradesh', 'India', 13.984, 77.772, 25],
+  ['Narasannapeta', 'Andhra Pradesh', 'India', 18.414, 84.045, 24],
+  ['Srisailain', 'Andhra Pradesh', 'India', 16.072, 78.868, 24],
+  ['Penugonda', 'Andhra Pradesh', 'India', 16.654, 81.746, 24],
+  ['Cumbum', 'Andhra Pradesh', 'India', 15.582, 79.111, 23],
+  ['Ramanayyapeta', 'Andhra Pradesh', 'India', 16.945, 82.239, 22],
+  ['Kaikalur', 'Andhra Pradesh', 'India', 16.552, 81.214, 21],
+  ['Penukonda', 'Andhra Pradesh', 'India', 14.083, 77.595, 20],
+  ['Kuppam', 'Andhra Pradesh', 'India', 12.749, 78.342, 20],
+  ['Gannavaram', 'Andhra Pradesh', 'India', 16.541, 80.802, 19],
+  ['Tirumala', 'Andhra Pradesh', 'India', 13.683, 79.35, 18],
+  ['Bhattiprolu', 'Andhra Pradesh', 'India', 16.103, 80.781, 18],
+  ['Sompeta', 'Andhra Pradesh', 'India', 18.944, 84.584, 18],
+  ['Vadlapudi', 'Andhra Pradesh', 'India', 14.311, 79.804, 18],
+  ['Singarayakonda', 'Andhra Pradesh', 'India', 15.23, 80.028, 18],
+  ['Phirangipuram', 'Andhra Pradesh', 'India', 16.291, 80.262, 17],
+  ['Challapalle', 'Andhra Pradesh', 'India', 16.118, 80.931, 17],
+  ['Gokavaram', 'Andhra Pradesh', 'India', 17.258, 81.85, 16],
+  ['Badvel', 'Andhra Pradesh', 'India', 14.745, 79.063, 16],
+  ['Kosigi', 'Andhra Pradesh', 'India', 15.855, 77.245, 15],
+  // India — Arunachal Pradesh
+  ['Naharlagun', 'Arunachal Pradesh', 'India', 27.105, 93.695, 27],
+  ['Pasighat', 'Arunachal Pradesh', 'India', 28.066, 95.327, 26],
+  ['Margherita', 'Arunachal Pradesh', 'India', 27.285, 95.668, 24],
+  ['Along', 'Arunachal Pradesh', 'India', 28.17, 94.801, 18],
+  // India — Assam
+  ['Tinsukia', 'Assam', 'India', 27.489, 95.36, 89],
+  ['Bongaigaon', 'Assam', 'India', 26.477, 90.558, 65],
+  ['Dhuburi', 'Assam', 'India', 26.019, 89.986, 63],
+  ['Sibsagar', 'Assam', 'India', 26.984, 94.638, 62],
+  ['North Lakhimpur', 'Assam', 'India', 27.235, 94.104, 60],
+  ['Tezpur', 'Assam', 'India', 26.633, 92.8, 59],
+  ['Diphu', 'Assam', 'India', 25.843, 93.431, 57],
+  ['Karimganj', 'Assam', 'India', 24.869, 92.355, 55],
+  ['Goalpara', 'Assam', 'India', 26.177, 90.626, 51],
+  ['Barpeta', 'Assam', 'India', 26.323, 91.006, 49],
+  ['Haflong', 'Assam', 'India', 25.165, 93.017, 40],
+  ['Bilasipara', 'Assam', 'India', 26.233, 90.234, 38],
+  ['Hojai', 'Assam', 'India', 26.003, 92.856, 37],
+  ['Barpeta Road', 'Assam', 'India', 26.503, 90.969, 35],
+  ['Golaghat', 'Assam', 'India', 26.512, 93.96, 34],
+  ['Kokrajhar', 'Assam', 'India', 26.401, 90.273, 32],
+  ['Hailakandi', 'Assam', 'India', 24.684, 92.561, 31],
+  ['Rangia', 'Assam', 'India', 26.449, 91.614, 26],
+  ['Lumding Railway Colony', 'Assam', 'India', 25.749, 93.17, 25],
+  ['Mangaldai', 'Assam', 'India', 26.442, 92.03, 25],
+  ['Gauripur', 'Assam', 'India', 26.083, 89.961, 25],
+  ['Mariani', 'Assam', 'India', 26.657, 94.315, 24],
+  ['Duliagaon', 'Assam', 'India', 27.372, 95.308, 24],
+  ['Silapathar', 'Assam', 'India', 27.594, 94.724, 22],
+  ['Dum Duma', 'Assam', 'India', 27.569, 95.557, 22],
+  ['Dhekiajuli', 'Assam', 'India', 26.704, 92.478, 21],
+  ['Dhing', 'Assam', 'India', 26.468, 92.473, 21],
+  ['Morigaon', 'Assam', 'India', 26.249, 92.348, 21],
+  ['Digboi', 'Assam', 'India', 27.393, 95.618, 21],
+  ['Sonari', 'Assam', 'India', 27.025, 95.016, 20],
+  ['Chapar', 'Assam', 'India', 26.273, 90.446, 19],
+  ['Rangapara', 'Assam', 'India', 26.838, 92.669, 19],
+  ['Kharupatia', 'Assam', 'India', 26.518, 92.147, 19],
+  ['Namrup', 'Assam', 'India', 27.194, 95.319, 18],
+  ['North Guwahati', 'Assam', 'India', 26.197, 91.72, 18],
+  ['Howli', 'Assam', 'India', 26.422, 90.98, 17],
+  ['Bokajan', 'Assam', 'India', 26.021, 93.779, 17],
+  ['Makum', 'Assam', 'India', 27.487, 95.436, 16],
+  ['Hajo', 'Assam', 'India', 26.245, 91.525, 16],
+  ['Udalguri', 'Assam', 'India', 26.754, 92.102, 16],
+  ['Abhayapuri', 'Assam', 'India', 26.323, 90.685, 16],
+  ['Nahorkatiya', 'Assam', 'India', 27.289, 95.342, 16],
+  // India — Bihar
+  ['Bihar Sharif', 'Bihar', 'India', 25.201, 85.524, 244],
+  ['Monghyr', 'Bihar', 'India', 25.375, 86.475, 203],
+  ['Chapra', 'Bihar', 'India', 25.78, 84.747, 202],
+  ['Katihar', 'Bihar', 'India', 25.539, 87.57, 193],
+  ['Dinapore', 'Bihar', 'India', 25.637, 85.048, 153],
+  ['Saharsa', 'Bihar', 'India', 25.875, 86.596, 146],
+  ['Hajipur', 'Bihar', 'India', 25.685, 85.21, 134],
+  ['Dehri', 'Bihar', 'India', 24.902, 84.182, 130],
+  ['Bettiah', 'Bihar', 'India', 26.802, 84.503, 127],
+  ['Siwan', 'Bihar', 'India', 26.221, 84.356, 119],
+  ['Mothihari', 'Bihar', 'India', 26.649, 84.917, 112],
+  ['Bagaha', 'Bihar', 'India', 27.099, 84.09, 104],
+  ['Begusarai', 'Bihar', 'India', 25.419, 86.134, 103],
+  ['Jamalpur', 'Bihar', 'India', 25.313, 86.489, 101],
+  ['Nawada', 'Bihar', 'India', 24.887, 85.544, 97],
+  ['Jahanabad', 'Bihar', 'India', 25.214, 84.987, 96],
+  ['Buxar', 'Bihar', 'India', 25.575, 83.98, 96],
+  ['Kishanganj', 'Bihar', 'India', 26.102, 87.955, 95],
+  ['Bagaha', 'Bihar', 'India', 24.529, 85.06, 91],
+  ['Luckeesarai', 'Bihar', 'India', 25.177, 86.095, 90],
+  ['Baruni', 'Bihar', 'India', 25.475, 85.968, 85],
+  ['Jamui', 'Bihar', 'India', 24.926, 86.225, 78],
+  ['Madhubani', 'Bihar', 'India', 26.354, 86.072, 72],
+  ['Araria', 'Bihar', 'India', 26.149, 87.513, 67],
+  ['Gopalganj', 'Bihar', 'India', 26.467, 84.44, 64],
+  ['Supaul', 'Bihar', 'India', 26.115, 86.595, 60],
+  ['Bangaon', 'Bihar', 'India', 25.867, 86.512, 60],
+  ['Samastipur', 'Bihar', 'India', 25.862, 85.78, 58],
+  ['Sitamarhi', 'Bihar', 'India', 26.594, 85.491, 57],
+  ['Mokameh', 'Bihar', 'India', 25.397, 85.922, 55],
+  ['Masaurhi Buzurg', 'Bihar', 'India', 25.354, 85.032, 53],
+  ['Khagaul', 'Bihar', 'India', 25.579, 85.046, 52],
+  ['Madhipura', 'Bihar', 'India', 25.921, 86.793, 51],
+  ['Dumraon', 'Bihar', 'India', 25.553, 84.151, 51],
+  ['Khagaria', 'Bihar', 'India', 25.502, 86.467, 50],
+  ['Barh', 'Bihar', 'India', 25.483, 85.709, 50],
+  ['Bhabhua', 'Bihar', 'India', 25.04, 83.607, 49],
+  ['Raxaul', 'Bihar', 'India', 26.98, 84.851, 48],
+  ['Sheikhpura', 'Bihar', 'India', 25.14, 85.841, 47],
+  ['Teghra', 'Bihar', 'India', 25.49, 85.94, 46],
+  ['Forbesganj', 'Bihar', 'India', 26.303, 87.266, 45],
+  ['Ramnagar', 'Bihar', 'India', 27.164, 84.323, 43],
+  ['Barhiya', 'Bihar', 'India', 25.288, 86.021, 43],
+  ['Bikramganj', 'Bihar', 'India', 25.211, 84.255, 43],
+  ['Bar Bigha', 'Bihar', 'India', 25.219, 85.733, 42],
+  ['Fatwa', 'Bihar', 'India', 25.51, 85.305, 42],
+  ['Naugachhia', 'Bihar', 'India', 25.388, 87.099, 41],
+  ['Daudnagar', 'Bihar', 'India', 25.035, 84.401, 41],
+  ['Hilsa', 'Bihar', 'India', 25.316, 85.282, 41],
+  ['Banka', 'Bihar', 'India', 24.881, 86.923, 39],
+  ['Jha-Jha', 'Bihar', 'India', 24.771, 86.379, 39],
+  ['Rajgir', 'Bihar', 'India', 25.028, 85.421, 38],
+  ['Shahbazpur', 'Bihar', 'India', 26.305, 87.289, 38],
+  ['Bairagnia', 'Bihar', 'India', 26.741, 85.273, 37],
+  ['Barauli', 'Bihar', 'India', 26.381, 84.586, 37],
+  ['Revelganj', 'Bihar', 'India', 25.79, 84.636, 37],
+  ['Dhaka', 'Bihar', 'India', 26.675, 85.167, 36],
+  ['Sherghati', 'Bihar', 'India', 24.559, 84.792, 35],
+  ['Waris Aliganj', 'Bihar', 'India', 25.017, 85.64, 35],
+  ['Buddh Gaya', 'Bihar', 'India', 24.698, 84.987, 35],
+  ['Sagauli', 'Bihar', 'India', 26.764, 84.743, 35],
+  ['Bakhtiyarpur', 'Bihar', 'India', 25.462, 85.532, 35],
+  ['Jogbani', 'Bihar', 'India', 26.399, 87.265, 33],
+  ['Bihariganj', 'Bihar', 'India', 25.734, 86.988, 33],
+  ['Lalganj', 'Bihar', 'India', 25.869, 85.174, 32],
+  ['Islampur', 'Bihar', 'India', 25.141, 85.206, 32],
+  ['Bahadurganj', 'Bihar', 'India', 26.262, 87.824, 31],
+  ['Jhanjharpur', 'Bihar', 'India', 26.265, 86.28, 31],
+  ['Jagdispur', 'Bihar', 'India', 25.468, 84.419, 31],
+  ['Dighwara', 'Bihar', 'India', 25.744, 85.01, 29],
+  ['Piro', 'Bihar', 'India', 25.332, 84.405, 29],
+  ['Rusera', 'Bihar', 'India', 25.754, 86.026, 29],
+  ['Hisua', 'Bihar', 'India', 24.834, 85.417, 28],
+  ['Maner', 'Bihar', 'India', 25.646, 84.873, 28],
+  ['Kharagpur', 'Bihar', 'India', 25.124, 86.556, 27],
+  ['Bhawanipur', 'Bihar', 'India', 26.454, 87.027, 27],
+  ['Kasba', 'Bihar', 'India', 25.856, 87.538, 27],
+  ['Banmankhi', 'Bihar', 'India', 25.889, 87.194, 27],
+  ['Rafiganj', 'Bihar', 'India', 24.818, 84.634, 26],
+  ['Marhaura', 'Bihar', 'India', 25.973, 84.868, 26],
+  ['Koelwar', 'Bihar', 'India', 25.581, 84.798, 25],
+  ['Sheohar', 'Bihar', 'India', 26.514, 85.293, 25],
+  ['Colgong', 'Bihar', 'India', 25.263, 87.233, 24],
+  ['Murliganj', 'Bihar', 'India', 25.897, 86.996, 24],
+  ['Manihari', 'Bihar', 'India', 25.339, 87.62, 24],
+  ['Chhatapur', 'Bihar', 'India', 26.22, 87.005, 23],
+  ['Nasriganj', 'Bihar', 'India', 25.051, 84.328, 23],
+  ['Amarpur', 'Bihar', 'India', 25.04, 86.902, 23],
+  ['Maharajgani', 'Bihar', 'India', 26.11, 84.504, 22],
+  ['Silao', 'Bihar', 'India', 25.084, 85.428, 22],
+  ['Dalsingh Sarai', 'Bihar', 'India', 25.668, 85.836, 22],
+  ['Nabinagar', 'Bihar', 'India', 24.607, 84.126, 21],
+  ['Jaynagar', 'Bihar', 'India', 26.59, 86.138, 20],
+  ['Mairwa', 'Bihar', 'India', 26.232, 84.163, 20],
+  ['Belsand', 'Bihar', 'India', 26.444, 85.401, 19],
+  ['Tekari', 'Bihar', 'India', 24.943, 84.843, 19],
+  ['Birpur', 'Bihar', 'India', 26.508, 87.012, 19],
+  ['Chakia', 'Bihar', 'India', 26.416, 85.047, 18],
+  ['Nirmali', 'Bihar', 'India', 26.314, 86.585, 17],
+  ['Koath', 'Bihar', 'India', 25.326, 84.26, 17],
+  ['Thakurganj', 'Bihar', 'India', 26.427, 88.131, 16],
+  ['Shahpur', 'Bihar', 'India', 25.603, 84.404, 16],
+  ['Dumra', 'Bihar', 'India', 26.567, 85.52, 16],
+  ['Pupri', 'Bihar', 'India', 26.471, 85.703, 15],
+  // India — Chhattisgarh
+  ['Raj-Nandgaon', 'Chhattisgarh', 'India', 21.097, 81.029, 151],
+  ['Dhamtari', 'Chhattisgarh', 'India', 20.707, 81.549, 87],
+  ['Jagdalpur', 'Chhattisgarh', 'India', 19.081, 82.021, 76],
+  ['Ambikapur', 'Chhattisgarh', 'India', 23.119, 83.195, 73],
+  ['Bhatapara', 'Chhattisgarh', 'India', 21.735, 81.947, 52],
+  ['Mahasamund', 'Chhattisgarh', 'India', 21.107, 82.095, 50],
+  ['Champa', 'Chhattisgarh', 'India', 22.035, 82.642, 41],
+  ['Kumhari', 'Chhattisgarh', 'India', 21.267, 81.517, 38],
+  ['Dongargarh', 'Chhattisgarh', 'India', 21.189, 80.755, 36],
+  ['Kawardha', 'Chhattisgarh', 'India', 22.009, 81.231, 35],
+  ['Janjgir', 'Chhattisgarh', 'India', 22.009, 82.578, 33],
+  ['Pasan', 'Chhattisgarh', 'India', 22.844, 82.198, 31],
+  ['Mungeli', 'Chhattisgarh', 'India', 22.066, 81.685, 28],
+  ['Kondagaon', 'Chhattisgarh', 'India', 19.591, 81.664, 28],
+  ['Umarkot', 'Chhattisgarh', 'India', 19.665, 82.206, 28],
+  ['Kanker', 'Chhattisgarh', 'India', 20.272, 81.492, 26],
+  ['Baloda Bazar', 'Chhattisgarh', 'India', 21.657, 82.161, 25],
+  ['Bemetara', 'Chhattisgarh', 'India', 21.716, 81.534, 25],
+  ['Jashpurnagar', 'Chhattisgarh', 'India', 22.888, 84.139, 23],
+  ['Balod', 'Chhattisgarh', 'India', 20.731, 81.206, 22],
+  ['Sakti', 'Chhattisgarh', 'India', 22.027, 82.961, 22],
+  ['Ratanpur', 'Chhattisgarh', 'India', 22.287, 82.168, 21],
+  ['Akaltara', 'Chhattisgarh', 'India', 22.025, 82.426, 21],
+  ['Katghora', 'Chhattisgarh', 'India', 22.502, 82.543, 20],
+  ['Khairagarh', 'Chhattisgarh', 'India', 26.943, 77.819, 20],
+  ['Kirandul', 'Chhattisgarh', 'India', 18.636, 81.258, 19],
+  ['Saraipali', 'Chhattisgarh', 'India', 21.315, 83.006, 18],
+  ['Kharsia', 'Chhattisgarh', 'India', 21.99, 83.105, 18],
+  ['Takhatpur', 'Chhattisgarh', 'India', 22.129, 81.87, 18],
+  ['Arang', 'Chhattisgarh', 'India', 21.196, 81.969, 18],
+  ['Bhanpuri', 'Chhattisgarh', 'India', 21.092, 80.932, 17],
+  ['Junagarh', 'Chhattisgarh', 'India', 19.86, 82.934, 17],
+  ['Khairagarh', 'Chhattisgarh', 'India', 21.419, 80.979, 16],
+  ['Kota', 'Chhattisgarh', 'India', 22.295, 82.024, 16],
+  ['Kotaparh', 'Chhattisgarh', 'India', 19.143, 82.325, 15],
+  ['Pathalgaon', 'Chhattisgarh', 'India', 22.557, 83.464, 15],
+  // India — Dadra and Nagar Haveli and Daman and Diu
+  ['Daman', 'Dadra and Nagar Haveli and Daman and Diu', 'India', 20.414, 72.832, 40],
+  ['Amli', 'Dadra and Nagar Haveli and Daman and Diu', 'India', 20.283, 73.017, 33],
+  ['Silvassa', 'Dadra and Nagar Haveli and Daman and Diu', 'India', 20.274, 72.997, 27],
+  ['Diu', 'Dadra and Nagar Haveli and Daman and Diu', 'India', 20.714, 70.982, 24],
+  // India — Delhi
+  ['Najafgarh', 'Delhi', 'India', 28.609, 76.98, 1365],
+  ['Narela', 'Delhi', 'India', 28.853, 77.093, 800],
+  ['Nangloi Jat', 'Delhi', 'India', 28.68, 77.068, 194],
+  ['Deoli', 'Delhi', 'India', 28.503, 77.231, 120],
+  ['Bawana', 'Delhi', 'India', 28.798, 77.034, 25],
+  ['Alipur', 'Delhi', 'India', 28.799, 77.133, 21],
+  // India — Goa
+  ['Mapuca', 'Goa', 'India', 15.592, 73.809, 40],
+  ['Curchorem', 'Goa', 'India', 15.263, 74.109, 23],
+  ['Ponda', 'Goa', 'India', 15.403, 74.015, 19],
+  ['Calangute', 'Goa', 'India', 15.544, 73.755, 17],
+  ['Sancoale', 'Goa', 'India', 15.378, 73.904, 16],
+  ['Cuncolim', 'Goa', 'India', 15.177, 73.994, 16],
+  ['Dicholi', 'Goa', 'India', 15.593, 73.946, 15],
+  // India — Gujarat
+  ['Bilimora', 'Gujarat', 'India', 20.77, 72.961, 511],
+  ['Nadiad', 'Gujarat', 'India', 22.694, 72.862, 202],
+  ['Surendranagar', 'Gujarat', 'India', 22.727, 71.649, 180],
+  ['Navsari', 'Gujarat', 'India', 20.942, 72.925, 171],
+  ['Gandhidham', 'Gujarat', 'India', 23.083, 70.133, 166],
+  ['Veraval', 'Gujarat', 'India', 20.908, 70.368, 163],
+  ['Bharuch', 'Gujarat', 'India', 21.695, 72.981, 154],
+  ['Porbandar', 'Gujarat', 'India', 21.642, 69.609, 139],
+  ['Godhra', 'Gujarat', 'India', 22.775, 73.615, 132],
+  ['Palanpur', 'Gujarat', 'India', 24.171, 72.438, 123],
+  ['Vejalpur', 'Gujarat', 'India', 22.69, 73.563, 122],
+  ['Jetpur', 'Gujarat', 'India', 21.755, 70.623, 118],
+  ['Morbi', 'Gujarat', 'India', 22.817, 70.838, 118],
+  ['Patan', 'Gujarat', 'India', 23.851, 72.13, 118],
+  ['Botad', 'Gujarat', 'India', 22.169, 71.667, 117],
+  ['Gondal', 'Gujarat', 'India', 21.961, 70.803, 102],
+  ['Amreli', 'Gujarat', 'India', 21.6, 71.212, 100],
+  ['Disa', 'Gujarat', 'India', 24.256, 72.179, 92],
+  ['Dohad', 'Gujarat', 'India', 22.833, 74.26, 84],
+  ['Dhoraji', 'Gujarat', 'India', 21.734, 70.45, 81],
+  ['Khambhat', 'Gujarat', 'India', 22.317, 72.619, 81],
+  ['Kundla', 'Gujarat', 'India', 21.342, 71.306, 77],
+  ['Dhrangadhra', 'Gujarat', 'India', 22.992, 71.468, 76],
+  ['Ankleshwar', 'Gujarat', 'India', 21.632, 72.99, 75],
+  ['Savarkundla', 'Gujarat', 'India', 21.337, 71.303, 74],
+  ['Valsad', 'Gujarat', 'India', 20.61, 72.934, 73],
+  ['Vapi', 'Gujarat', 'India', 20.372, 72.905, 71],
+  ['Visnagar', 'Gujarat', 'India', 23.699, 72.552, 69],
+  ['Keshod', 'Gujarat', 'India', 21.303, 70.249, 69],
+  ['Anjar', 'Gujarat', 'India', 23.113, 70.027, 67],
+  ['Himatnagar', 'Gujarat', 'India', 23.599, 72.966, 61],
+  ['Borsad', 'Gujarat', 'India', 22.408, 72.898, 60],
+  ['Mangrol', 'Gujarat', 'India', 21.123, 70.115, 59],
+  ['Modasa', 'Gujarat', 'India', 23.463, 73.299, 59],
+  ['Kadi', 'Gujarat', 'India', 23.299, 72.334, 58],
+  ['Bardoli', 'Gujarat', 'India', 21.123, 73.112, 58],
+  ['Una', 'Gujarat', 'India', 20.823, 71.038, 57],
+  ['Upleta', 'Gujarat', 'India', 21.74, 70.283, 56],
+  ['Dabhoi', 'Gujarat', 'India', 22.183, 73.433, 56],
+  ['Palitana', 'Gujarat', 'India', 21.525, 71.823, 56],
+  ['Dholka', 'Gujarat', 'India', 22.727, 72.441, 55],
+  ['Unjha', 'Gujarat', 'India', 23.804, 72.391, 55],
+  ['Siddhapur', 'Gujarat', 'India', 23.918, 72.372, 54],
+  ['Sihor', 'Gujarat', 'India', 21.711, 71.962, 53],
+  ['Petlad', 'Gujarat', 'India', 22.477, 72.8, 52],
+  ['Mandvi', 'Gujarat', 'India', 22.833, 69.352, 48],
+  ['Wankaner', 'Gujarat', 'India', 22.612, 70.944, 48],
+  ['Jodhpur', 'Gujarat', 'India', 21.902, 70.033, 47],
+  ['Halol', 'Gujarat', 'India', 22.503, 73.472, 46],
+  ['Kapadvanj', 'Gujarat', 'India', 23.023, 73.071, 45],
+  ['Jasdan', 'Gujarat', 'India', 22.037, 71.208, 44],
+  ['Than', 'Gujarat', 'India', 22.574, 71.199, 43],
+  ['Limbdi', 'Gujarat', 'India', 22.565, 71.811, 42],
+  ['Jambusar', 'Gujarat', 'India', 22.052, 72.801, 42],
+  ['Dahegam', 'Gujarat', 'India', 23.169, 72.822, 41],
+  ['Chaklasi', 'Gujarat', 'India', 22.653, 72.945, 38],
+  ['Vyara', 'Gujarat', 'India', 21.111, 73.394, 38],
+  ['Khambhaliya', 'Gujarat', 'India', 22.207, 69.65, 38],
+  ['Padra', 'Gujarat', 'India', 22.24, 73.085, 36],
+  ['Dwarka', 'Gujarat', 'India', 22.239, 68.968, 36],
+  ['Gariadhar', 'Gujarat', 'India', 21.539, 71.577, 36],
+  ['Radhanpur', 'Gujarat', 'India', 23.832, 71.605, 35],
+  ['Lunavada', 'Gujarat', 'India', 23.128, 73.61, 35],
+  ['Rajpipla', 'Gujarat', 'India', 21.867, 73.5, 35],
+  ['Sanand', 'Gujarat', 'India', 22.992, 72.382, 35],
+  ['Kodinar', 'Gujarat', 'India', 20.794, 70.702, 35],
+  ['Rajula', 'Gujarat', 'India', 21.039, 71.443, 35],
+  ['Kosamba', 'Gujarat', 'India', 21.462, 72.958, 33],
+  ['Bagasra', 'Gujarat', 'India', 21.487, 70.955, 33],
+  ['Umreth', 'Gujarat', 'India', 22.699, 73.116, 33],
+  ['Vallabh Vidyanagar', 'Gujarat', 'India', 22.533, 72.9, 33],
+  ['Mahemdavad', 'Gujarat', 'India', 22.824, 72.756, 33],
+  ['Karamsad', 'Gujarat', 'India', 22.542, 72.904, 32],
+  ['Un', 'Gujarat', 'India', 23.887, 71.77, 31],
+  ['Sarkhej', 'Gujarat', 'India', 22.983, 72.502, 30],
+  ['Salaya', 'Gujarat', 'India', 22.31, 69.604, 30],
+  ['Dhandhuka', 'Gujarat', 'India', 22.382, 71.987, 30],
+  ['Talaja', 'Gujarat', 'India', 21.353, 72.035, 30],
+  ['Mansa', 'Gujarat', 'India', 23.426, 72.657, 30],
+  ['Khedbrahma', 'Gujarat', 'India', 24.03, 73.046, 29],
+  ['Dhari', 'Gujarat', 'India', 21.329, 71.026, 29],
+  ['Manavadar', 'Gujarat', 'India', 21.498, 70.138, 29],
+  ['Gadhada', 'Gujarat', 'India', 21.97, 71.578, 29],
+  ['Pardi', 'Gujarat', 'India', 20.509, 72.946, 27],
+  ['Dhrol', 'Gujarat', 'India', 22.567, 70.418, 26],
+  ['Kalavad', 'Gujarat', 'India', 22.208, 70.383, 26],
+  ['Halvad', 'Gujarat', 'India', 23.015, 71.18, 26],
+  ['Ranavav', 'Gujarat', 'India', 21.687, 69.745, 26],
+  ['Kalol', 'Gujarat', 'India', 22.608, 73.463, 26],
+  ['Kandla', 'Gujarat', 'India', 23.033, 70.217, 26],
+  ['Songadh', 'Gujarat', 'India', 21.17, 73.564, 25],
+  ['Dakor', 'Gujarat', 'India', 22.753, 73.15, 25],
+  ['Vadnagar', 'Gujarat', 'India', 23.786, 72.639, 25],
+  ['Kheda', 'Gujarat', 'India', 22.752, 72.685, 25],
+  ['Tharad', 'Gujarat', 'India', 24.396, 71.626, 25],
+  ['Chhota Udepur', 'Gujarat', 'India', 22.304, 74.016, 25],
+  ['Vijapur', 'Gujarat', 'India', 23.562, 72.748, 24],
+  ['Bhachau', 'Gujarat', 'India', 23.299, 70.343, 24],
+  ['Dhanera', 'Gujarat', 'India', 24.51, 72.023, 24],
+  ['Lathi', 'Gujarat', 'India', 21.723, 71.388, 23],
+  ['Rapar', 'Gujarat', 'India', 23.573, 70.647, 22],
+  ['Bedi', 'Gujarat', 'India', 22.501, 70.044, 21],
+  ['Dharampur', 'Gujarat', 'India', 20.537, 73.174, 21],
+  ['Okha', 'Gujarat', 'India', 22.468, 69.07, 21],
+  ['Abrama', 'Gujarat', 'India', 20.859, 72.906, 21],
+  ['Bhanvad', 'Gujarat', 'India', 21.931, 69.781, 21],
+  ['Kheralu', 'Gujarat', 'India', 23.885, 72.619, 21],
+  ['Morwa', 'Gujarat', 'India', 22.905, 73.839, 20],
+  ['Devgadh Bariya', 'Gujarat', 'India', 22.705, 73.909, 20],
+  ['Bhayavadar', 'Gujarat', 'India', 21.855, 70.248, 19],
+  ['Sikka', 'Gujarat', 'India', 22.432, 69.842, 19],
+  ['Sojitra', 'Gujarat', 'India', 22.539, 72.72, 19],
+  ['Babra', 'Gujarat', 'India', 21.846, 71.305, 19],
+  ['Harij', 'Gujarat', 'India', 23.694, 71.907, 19],
+  ['Amod', 'Gujarat', 'India', 21.993, 72.87, 19],
+  ['Mandvi', 'Gujarat', 'India', 21.255, 73.304, 19],
+  ['Valabhipur', 'Gujarat', 'India', 21.889, 71.879, 19],
+  ['Visavadar', 'Gujarat', 'India', 21.34, 70.75, 18],
+  ['Thasra', 'Gujarat', 'India', 22.798, 73.212, 18],
+  ['Damnagar', 'Gujarat', 'India', 21.692, 71.517, 18],
+  ['Jalalpur', 'Gujarat', 'India', 20.949, 72.898, 17],
+  ['Chhala', 'Gujarat', 'India', 23.308, 72.774, 17],
+  ['Mendarda', 'Gujarat', 'India', 21.321, 70.441, 17],
+  ['Amroli', 'Gujarat', 'India', 21.251, 72.839, 17],
+  ['Chalala', 'Gujarat', 'India', 21.411, 71.166, 17],
+  ['Kutiyana', 'Gujarat', 'India', 21.624, 69.985, 17],
+  ['Mahudha', 'Gujarat', 'India', 22.821, 72.94, 17],
+  ['Kadod', 'Gujarat', 'India', 21.217, 73.22, 17],
+  ['Gandevi', 'Gujarat', 'India', 20.812, 72.998, 16],
+  ['Vasa', 'Gujarat', 'India', 22.661, 72.755, 16],
+  ['Jodiya Bandar', 'Gujarat', 'India', 22.717, 70.283, 16],
+  ['Chanasma', 'Gujarat', 'India', 23.715, 72.113, 16],
+  ['Sayla', 'Gujarat', 'India', 22.549, 71.483, 15],
+  ['Kathor', 'Gujarat', 'India', 21.289, 72.941, 15],
+  ['Mundra', 'Gujarat', 'India', 22.839, 69.722, 15],
+  ['Chotila', 'Gujarat', 'India', 22.423, 71.196, 15],
+  ['Lalpur', 'Gujarat', 'India', 22.191, 69.964, 15],
+  ['Bantva', 'Gujarat', 'India', 21.488, 70.076, 15],
+  // India — Haryana
+  ['Gorakhpur', 'Haryana', 'India', 29.448, 75.672, 1325],
+  ['Sonipat', 'Haryana', 'India', 28.995, 77.019, 251],
+  ['Yamunanagar', 'Haryana', 'India', 30.128, 77.284, 209],
+  ['Panchkula', 'Haryana', 'India', 30.695, 76.85, 200],
+  ['Bhiwani', 'Haryana', 'India', 28.793, 76.14, 191],
+  ['Sirsa', 'Haryana', 'India', 29.535, 75.029, 182],
+  ['Jind', 'Haryana', 'India', 29.316, 76.315, 161],
+  ['Bahadurgarh', 'Haryana', 'India', 28.693, 76.936, 154],
+  ['Kaithal', 'Haryana', 'India', 29.802, 76.4, 141],
+  ['Thanesar', 'Haryana', 'India', 29.973, 76.832, 138],
+  ['Palwal', 'Haryana', 'India', 28.145, 77.325, 122],
+  ['Rewari', 'Haryana', 'India', 28.199, 76.618, 112],
+  ['Jagadhri', 'Haryana', 'India', 30.167, 77.304, 101],
+  ['Hansi', 'Haryana', 'India', 29.102, 75.963, 82],
+  ['Narnaul', 'Haryana', 'India', 28.044, 76.108, 66],
+  ['Fatehabad', 'Haryana', 'India', 29.515, 75.456, 66],
+  ['Dabwali', 'Haryana', 'India', 29.949, 74.738, 62],
+  ['Tohana', 'Haryana', 'India', 29.713, 75.904, 60],
+  ['Gohana', 'Haryana', 'India', 29.138, 76.702, 56],
+  ['Narwana', 'Haryana', 'India', 29.599, 76.119, 56],
+  ['Charkhi Dadri', 'Haryana', 'India', 28.592, 76.272, 51],
+  ['Hodal', 'Haryana', 'India', 27.892, 77.367, 44],
+  ['Jhajjar', 'Haryana', 'India', 28.606, 76.656, 44],
+  ['Shahabad', 'Haryana', 'India', 30.168, 76.87, 39],
+  ['Pehowa', 'Haryana', 'India', 29.979, 76.582, 39],
+  ['Ellenabad', 'Haryana', 'India', 29.453, 74.661, 38],
+  ['Barwala', 'Haryana', 'India', 29.367, 75.908, 37],
+  ['Samalkha', 'Haryana', 'India', 29.236, 77.013, 36],
+  ['Gharaunda', 'Haryana', 'India', 29.537, 76.971, 34],
+  ['Sohna', 'Haryana', 'India', 28.247, 77.065, 33],
+  ['Pinjaur', 'Haryana', 'India', 30.799, 76.918, 32],
+  ['Safidon', 'Haryana', 'India', 29.406, 76.67, 31],
+  ['Kalanwali', 'Haryana', 'India', 29.836, 74.972, 27],
+  ['Ratia', 'Haryana', 'India', 29.69, 75.577, 27],
+  ['Mahendragarh', 'Haryana', 'India', 28.269, 76.153, 26],
+  ['Asandh', 'Haryana', 'India', 29.521, 76.606, 25],
+  ['Ladwa', 'Haryana', 'India', 29.994, 77.046, 24],
+  ['Dharuhera', 'Haryana', 'India', 28.206, 76.797, 23],
+  ['Rania', 'Haryana', 'India', 29.525, 74.837, 23],
+  ['Kharkhauda', 'Haryana', 'India', 28.879, 76.911, 21],
+  ['Firozpur Jhirka', 'Haryana', 'India', 27.789, 76.945, 20],
+  ['Narayangarh', 'Haryana', 'India', 30.478, 77.128, 20],
+  ['Maham', 'Haryana', 'India', 28.969, 76.295, 19],
+  ['Taoru', 'Haryana', 'India', 28.212, 76.95, 19],
+  ['Pataudi', 'Haryana', 'India', 28.325, 76.779, 18],
+  ['Kalanaur', 'Haryana', 'India', 28.828, 76.395, 18],
+  ['Pundri', 'Haryana', 'India', 29.761, 76.56, 18],
+  ['Nilokheri', 'Haryana', 'India', 29.837, 76.932, 17],
+  ['Beri Khas', 'Haryana', 'India', 28.701, 76.577, 17],
+  ['Narnaund', 'Haryana', 'India', 29.22, 76.143, 16],
+  ['Indri', 'Haryana', 'India', 29.88, 77.06, 16],
+  ['Bara Uchana', 'Haryana', 'India', 29.467, 76.178, 16],
+  ['Punahana', 'Haryana', 'India', 27.864, 77.204, 15],
+  // India — Himachal Pradesh
+  ['Solan', 'Himachal Pradesh', 'India', 30.909, 77.109, 40],
+  ['Kalka', 'Himachal Pradesh', 'India', 30.84, 76.941, 32],
+  ['Nahan', 'Himachal Pradesh', 'India', 30.56, 77.294, 28],
+  ['Sundarnagar', 'Himachal Pradesh', 'India', 31.535, 76.905, 25],
+  ['Baddi', 'Himachal Pradesh', 'India', 30.958, 76.791, 23],
+  ['Paonta Sahib', 'Himachal Pradesh', 'India', 30.437, 77.625, 22],
+  ['Chamba', 'Himachal Pradesh', 'India', 32.555, 76.126, 22],
+  ['Una', 'Himachal Pradesh', 'India', 31.465, 76.269, 18],
+  // India — Jammu and Kashmir
+  ['Soyibug', 'Jammu and Kashmir', 'India', 34.077, 74.706, 104],
+  ['Udhampur', 'Jammu and Kashmir', 'India', 32.924, 75.136, 80],
+  ['Anantnag', 'Jammu and Kashmir', 'India', 33.731, 75.154, 80],
+  ['Baramula', 'Jammu and Kashmir', 'India', 34.209, 74.343, 77],
+  ['Sopur', 'Jammu and Kashmir', 'India', 34.287, 74.472, 63],
+  ['Kathua', 'Jammu and Kashmir', 'India', 32.369, 75.525, 49],
+  ['Bandipura', 'Jammu and Kashmir', 'India', 34.417, 74.643, 32],
+  ['Punch', 'Jammu and Kashmir', 'India', 33.77, 74.093, 28],
+  ['Rajaori', 'Jammu and Kashmir', 'India', 33.375, 74.309, 28],
+  ['Samba', 'Jammu and Kashmir', 'India', 32.562, 75.12, 27],
+  ['Bijbehara', 'Jammu and Kashmir', 'India', 33.794, 75.107, 25],
+  ['Kishtwar', 'Jammu and Kashmir', 'India', 33.313, 75.767, 21],
+  ['Pulwama', 'Jammu and Kashmir', 'India', 33.874, 74.9, 20],
+  ['Doda', 'Jammu and Kashmir', 'India', 33.149, 75.547, 18],
+  ['Gandarbal', 'Jammu and Kashmir', 'India', 34.226, 74.775, 16],
+  ['Kulgam', 'Jammu and Kashmir', 'India', 33.645, 75.019, 16],
+  // India — Jharkhand
+  ['Chas', 'Jharkhand', 'India', 23.636, 86.167, 112],
+  ['Sahibganj', 'Jharkhand', 'India', 25.244, 87.635, 96],
+  ['Jharia', 'Jharkhand', 'India', 23.741, 86.415, 87],
+  ['Ramgarh', 'Jharkhand', 'India', 23.63, 85.522, 84],
+  ['Daltonganj', 'Jharkhand', 'India', 24.04, 84.066, 78],
+  ['Jumri Tilaiya', 'Jharkhand', 'India', 24.435, 85.53, 76],
+  ['Chaibasa', 'Jharkhand', 'India', 22.55, 85.802, 66],
+  ['Giridih', 'Jharkhand', 'India', 24.186, 86.309, 60],
+  ['Katras', 'Jharkhand', 'India', 23.798, 86.298, 57],
+  ['Lohardaga', 'Jharkhand', 'India', 23.433, 84.68, 53],
+  ['Madhupur', 'Jharkhand', 'India', 24.274, 86.639, 51],
+  ['Dumka', 'Jharkhand', 'India', 24.268, 87.249, 48],
+  ['Gumia', 'Jharkhand', 'India', 23.797, 85.825, 47],
+  ['Chatra', 'Jharkhand', 'India', 24.206, 84.871, 47],
+  ['Pakur', 'Jharkhand', 'India', 24.639, 87.842, 46],
+  ['Pathardih', 'Jharkhand', 'India', 23.666, 86.432, 45],
+  ['Gumla', 'Jharkhand', 'India', 23.043, 84.544, 45],
+  ['Godda', 'Jharkhand', 'India', 24.827, 87.213, 44],
+  ['Garhwa', 'Jharkhand', 'India', 24.16, 83.808, 41],
+  ['Chakradharpur', 'Jharkhand', 'India', 22.676, 85.629, 41],
+  ['Ghatsila', 'Jharkhand', 'India', 22.585, 86.477, 40],
+  ['Simdega', 'Jharkhand', 'India', 22.615, 84.502, 39],
+  ['Jamadoba', 'Jharkhand', 'India', 23.717, 86.4, 35],
+  ['Mushabani', 'Jharkhand', 'India', 22.511, 86.457, 33],
+  ['Sijua', 'Jharkhand', 'India', 23.776, 86.33, 32],
+  ['Gomoh', 'Jharkhand', 'India', 23.874, 86.152, 31],
+  ['Khunti', 'Jharkhand', 'India', 23.076, 85.278, 31],
+  ['Gobindpur', 'Jharkhand', 'India', 22.634, 86.072, 27],
+  ['Husainabad', 'Jharkhand', 'India', 24.528, 84, 26],
+  ['Jamtara', 'Jharkhand', 'India', 23.963, 86.803, 24],
+  ['Barki Saria', 'Jharkhand', 'India', 24.176, 85.889, 24],
+  ['Latehar', 'Jharkhand', 'India', 23.744, 84.5, 21],
+  ['Dugda', 'Jharkhand', 'India', 23.745, 86.172, 20],
+  ['Bundu', 'Jharkhand', 'India', 23.161, 85.59, 19],
+  ['Kuju', 'Jharkhand', 'India', 23.725, 85.51, 19],
+  ['Kodarma', 'Jharkhand', 'India', 24.468, 85.594, 19],
+  ['Barka Kana', 'Jharkhand', 'India', 23.621, 85.467, 18],
+  ['Kanke', 'Jharkhand', 'India', 23.435, 85.321, 17],
+  ['Noamundi', 'Jharkhand', 'India', 22.161, 85.504, 17],
+  ['Jasidih', 'Jharkhand', 'India', 24.514, 86.646, 16],
+  // India — Karnataka
+  ['Bijapur', 'Karnataka', 'India', 16.824, 75.715, 271],
+  ['Raichur', 'Karnataka', 'India', 16.205, 77.356, 226],
+  ['Bidar', 'Karnataka', 'India', 17.908, 77.515, 204],
+  ['Hospet', 'Karnataka', 'India', 15.27, 76.387, 198],
+  ['Gadag-Betageri', 'Karnataka', 'India', 15.417, 75.617, 173],
+  ['Bhadravati', 'Karnataka', 'India', 13.848, 75.705, 164],
+  ['Gadag', 'Karnataka', 'India', 15.43, 75.63, 163],
+  ['Chitradurga', 'Karnataka', 'India', 14.223, 76.4, 139],
+  ['Robertsonpet', 'Karnataka', 'India', 12.956, 78.275, 135],
+  ['Mandya', 'Karnataka', 'India', 12.522, 76.897, 135],
+  ['Hassan', 'Karnataka', 'India', 13.007, 76.096, 129],
+  ['Kolar', 'Karnataka', 'India', 13.138, 78.13, 126],
+  ['Chikmagalur', 'Karnataka', 'India', 13.322, 75.774, 121],
+  ['Yelahanka', 'Karnataka', 'India', 13.101, 77.596, 116],
+  ['Gangawati', 'Karnataka', 'India', 15.431, 76.529, 106],
+  ['Ranibennur', 'Karnataka', 'India', 14.622, 75.63, 99],
+  ['Bagalkot', 'Karnataka', 'India', 16.187, 75.696, 97],
+  ['Closepet', 'Karnataka', 'India', 12.722, 77.281, 94],
+  ['Dod Ballapur', 'Karnataka', 'India', 13.295, 77.538, 79],
+  ['Harihar', 'Karnataka', 'India', 14.513, 75.807, 78],
+  ['Rabkavi', 'Karnataka', 'India', 16.476, 75.111, 74],
+  ['Gokak', 'Karnataka', 'India', 16.169, 74.824, 73],
+  ['Chintamani', 'Karnataka', 'India', 13.401, 78.052, 72],
+  ['Sindhnur', 'Karnataka', 'India', 15.77, 76.756, 69],
+  ['Chamrajnagar', 'Karnataka', 'India', 11.923, 76.939, 68],
+  ['Channapatna', 'Karnataka', 'India', 12.651, 77.207, 67],
+  ['Basavakalyan', 'Karnataka', 'India', 17.874, 76.95, 66],
+  ['Yadgir', 'Karnataka', 'India', 16.77, 77.138, 65],
+  ['Karwar', 'Karnataka', 'India', 14.814, 74.13, 64],
+  ['Jamkhandi', 'Karnataka', 'India', 16.505, 75.291, 62],
+  ['Sirsi', 'Karnataka', 'India', 14.621, 74.836, 62],
+  ['Tiptur', 'Karnataka', 'India', 13.256, 76.478, 61],
+  ['Koppal', 'Karnataka', 'India', 15.345, 76.155, 61],
+  ['Haveri', 'Karnataka', 'India', 14.794, 75.404, 60],
+  ['Ullal', 'Karnataka', 'India', 12.806, 74.861, 59],
+  ['Sira', 'Karnataka', 'India', 13.742, 76.904, 58],
+  ['Chik Ballapur', 'Karnataka', 'India', 13.435, 77.728, 58],
+  ['Ilkal', 'Karnataka', 'India', 15.959, 76.114, 57],
+  ['Kollegal', 'Karnataka', 'India', 12.154, 77.111, 56],
+  ['Hiriyur', 'Karnataka', 'India', 13.945, 76.617, 54],
+  ['Challakere', 'Karnataka', 'India', 14.318, 76.652, 54],
+  ['Puttur', 'Karnataka', 'India', 12.76, 75.202, 53],
+  ['Sagar', 'Karnataka', 'India', 14.165, 75.029, 53],
+  ['Shahabad', 'Karnataka', 'India', 17.131, 76.944, 53],
+  ['Dandeli', 'Karnataka', 'India', 15.267, 74.617, 52],
+  ['Kankanhalli', 'Karnataka', 'India', 12.547, 77.42, 51],
+  ['Nanjangud', 'Karnataka', 'India', 12.118, 76.684, 50],
+  ['Shorapur', 'Karnataka', 'India', 16.521, 76.757, 50],
+  ['Sidlaghatta', 'Karnataka', 'India', 13.389, 77.864, 49],
+  ['Siruguppa', 'Karnataka', 'India', 15.63, 76.892, 48],
+  ['Hunsur', 'Karnataka', 'India', 12.304, 76.293, 48],
+  ['Mulbagal', 'Karnataka', 'India', 13.164, 78.393, 47],
+  ['Mudhol', 'Karnataka', 'India', 16.334, 75.283, 47],
+  ['Bail-Hongal', 'Karnataka', 'India', 15.814, 74.859, 47],
+  ['Harpanahalli', 'Karnataka', 'India', 14.788, 75.989, 45],
+  ['Arsikere', 'Karnataka', 'India', 13.314, 76.257, 44],
+  ['Bangarapet', 'Karnataka', 'India', 12.991, 78.178, 43],
+  ['Athni', 'Karnataka', 'India', 16.726, 75.064, 42],
+  ['Manvi', 'Karnataka', 'India', 15.991, 77.05, 42],
+  ['Homnabad', 'Karnataka', 'India', 17.771, 77.125, 41],
+  ['Hoskote', 'Karnataka', 'India', 13.071, 77.798, 41],
+  ['Saundatti', 'Karnataka', 'India', 15.766, 75.118, 40],
+  ['Aland', 'Karnataka', 'India', 17.564, 76.569, 39],
+  ['Bhalki', 'Karnataka', 'India', 18.043, 77.206, 39],
+  ['Malavalli', 'Karnataka', 'India', 12.386, 77.06, 38],
+  ['Tarikere', 'Karnataka', 'India', 13.71, 75.814, 38],
+  ['Savanur', 'Karnataka', 'India', 14.973, 75.337, 38],
+  ['Channarayapatna', 'Karnataka', 'India', 12.906, 76.388, 38],
+  ['Bantval', 'Karnataka', 'India', 12.89, 75.035, 38],
+  ['Anekal', 'Karnataka', 'India', 12.711, 77.696, 37],
+  ['Kampli', 'Karnataka', 'India', 15.406, 76.6, 37],
+  ['Lakshmeshwar', 'Karnataka', 'India', 15.127, 75.469, 35],
+  ['Seram', 'Karnataka', 'India', 17.179, 77.29, 35],
+  ['Chikodi', 'Karnataka', 'India', 16.429, 74.586, 35],
+  ['Sankeshwar', 'Karnataka', 'India', 16.256, 74.482, 35],
+  ['Indi', 'Karnataka', 'India', 17.177, 75.953, 34],
+  ['Guledagudda', 'Karnataka', 'India', 16.05, 75.79, 34],
+  ['Sindgi', 'Karnataka', 'India', 16.919, 76.234, 34],
+  ['Madikeri', 'Karnataka', 'India', 12.426, 75.738, 34],
+  ['Nargund', 'Karnataka', 'India', 15.723, 75.387, 33],
+  ['Shikarpur', 'Karnataka', 'India', 14.27, 75.356, 33],
+  ['Kunigal', 'Karnataka', 'India', 13.023, 77.025, 33],
+  ['Kadur', 'Karnataka', 'India', 13.553, 76.012, 33],
+  ['Mahalingpur', 'Karnataka', 'India', 16.389, 75.109, 33],
+  ['Goribidnur', 'Karnataka', 'India', 13.611, 77.517, 32],
+  ['Pavugada', 'Karnataka', 'India', 14.1, 77.28, 32],
+  ['Muddebihal', 'Karnataka', 'India', 16.338, 76.132, 32],
+  ['Bhatkal', 'Karnataka', 'India', 13.985, 74.555, 32],
+  ['Vadigenhalli', 'Karnataka', 'India', 13.297, 77.802, 32],
+  ['Shahpur', 'Karnataka', 'India', 16.696, 76.842, 31],
+  ['Basavana Bagevadi', 'Karnataka', 'India', 16.573, 75.973, 31],
+  ['Malur', 'Karnataka', 'India', 13.003, 77.938, 31],
+  ['Mudbidri', 'Karnataka', 'India', 13.067, 74.995, 31],
+  ['Wadi', 'Karnataka', 'India', 17.052, 76.99, 31],
+  ['Chitapur', 'Karnataka', 'India', 17.124, 77.082, 30],
+  ['Lingsugur', 'Karnataka', 'India', 16.159, 76.522, 30],
+  ['Gajendragarh', 'Karnataka', 'India', 15.736, 75.97, 30],
+  ['Sandur', 'Karnataka', 'India', 15.086, 76.547, 29],
+  ['Nelamangala', 'Karnataka', 'India', 13.1, 77.394, 29],
+  ['Coondapoor', 'Karnataka', 'India', 13.631, 74.69, 28],
+  ['Badami', 'Karnataka', 'India', 15.915, 75.677, 28],
+  ['Hole Narsipur', 'Karnataka', 'India', 12.786, 76.243, 28],
+  ['Maddur', 'Karnataka', 'India', 12.583, 77.043, 28],
+  ['Maddagiri', 'Karnataka', 'India', 13.66, 77.212, 28],
+  ['Kumta', 'Karnataka', 'India', 14.429, 74.419, 28],
+  ['Talikota', 'Karnataka', 'India', 16.473, 76.311, 28],
+  ['Byadgi', 'Karnataka', 'India', 14.673, 75.487, 28],
+  ['Magadi', 'Karnataka', 'India', 12.957, 77.224, 27],
+  ['Gundlupet', 'Karnataka', 'India', 11.81, 76.69, 27],
+  ['Hangal', 'Karnataka', 'India', 14.765, 75.125, 27],
+  ['Terdal', 'Karnataka', 'India', 16.494, 75.047, 26],
+  ['Shiggaon', 'Karnataka', 'India', 14.991, 75.225, 26],
+  ['Gokarna', 'Karnataka', 'India', 14.55, 74.317, 26],
+  ['Srinivaspur', 'Karnataka', 'India', 13.339, 78.212, 26],
+  ['Annigeri', 'Karnataka', 'India', 15.425, 75.433, 26],
+  ['Tekkalakote', 'Karnataka', 'India', 15.534, 76.877, 26],
+  ['Bannur', 'Karnataka', 'India', 12.333, 76.862, 25],
+  ['Karkala', 'Karnataka', 'India', 13.214, 74.992, 25],
+  ['Hadagalli', 'Karnataka', 'India', 15.02, 75.932, 25],
+  ['Devanhalli', 'Karnataka', 'India', 13.247, 77.712, 25],
+  ['Sakleshpur', 'Karnataka', 'India', 12.941, 75.785, 25],
+  ['Hosdurga', 'Karnataka', 'India', 13.796, 76.284, 25],
+  ['Chiknayakanhalli', 'Karnataka', 'India', 13.416, 76.621, 24],
+  ['Krishnarajpet', 'Karnataka', 'India', 12.666, 76.488, 24],
+  ['Kushtagi', 'Karnataka', 'India', 15.756, 76.191, 24],
+  ['Bagepalli', 'Karnataka', 'India', 13.783, 77.797, 24],
+  ['Kotturu', 'Karnataka', 'India', 14.824, 76.22, 24],
+  ['Shrirangapattana', 'Karnataka', 'India', 12.423, 76.684, 24],
+  ['Malpe', 'Karnataka', 'India', 13.35, 74.704, 23],
+  ['Birur', 'Karnataka', 'India', 13.597, 75.972, 23],
+  ['Navalgund', 'Karnataka', 'India', 15.559, 75.353, 23],
+  ['Kudligi', 'Karnataka', 'India', 14.905, 76.385, 23],
+  ['Ron', 'Karnataka', 'India', 15.699, 75.734, 23],
+  ['Someshwar', 'Karnataka', 'India', 13.491, 75.066, 22],
+  ['Sadalgi', 'Karnataka', 'India', 16.559, 74.532, 22],
+  ['Mundargi', 'Karnataka', 'India', 15.207, 75.884, 22],
+  ['Haliyal', 'Karnataka', 'India', 15.329, 74.756, 22],
+  ['Belur', 'Karnataka', 'India', 13.166, 75.865, 22],
+  ['Mudgal', 'Karnataka', 'India', 16.012, 76.442, 21],
+  ['Hukeri', 'Karnataka', 'India', 16.231, 74.602, 21],
+  ['Chincholi', 'Karnataka', 'India', 17.465, 77.419, 20],
+  ['Channagiri', 'Karnataka', 'India', 14.024, 75.926, 20],
+  ['Byndoor', 'Karnataka', 'India', 13.867, 74.633, 20],
+  ['Jevargi', 'Karnataka', 'India', 17.014, 76.773, 20],
+  ['Afzalpur', 'Karnataka', 'India', 17.2, 76.36, 20],
+  ['Yellapur', 'Karnataka', 'India', 14.964, 74.709, 19],
+  ['Kudachi', 'Karnataka', 'India', 16.628, 74.854, 19],
+  ['Konnur', 'Karnataka', 'India', 16.201, 74.749, 19],
+  ['French Rocks', 'Karnataka', 'India', 12.501, 76.674, 19],
+  ['Hungund', 'Karnataka', 'India', 16.062, 76.059, 19],
+  ['Sulya', 'Karnataka', 'India', 12.561, 75.387, 19],
+  ['Mulgund', 'Karnataka', 'India', 15.281, 75.521, 19],
+  ['Honavar', 'Karnataka', 'India', 14.281, 74.445, 18],
+  ['Gurmatkal', 'Karnataka', 'India', 16.868, 77.391, 18],
+  ['Gubbi', 'Karnataka', 'India', 13.312, 76.941, 18],
+  ['Murudeshwara', 'Karnataka', 'India', 14.094, 74.484, 18],
+  ['Kerur', 'Karnataka', 'India', 16.014, 75.546, 18],
+  ['Kundgol', 'Karnataka', 'India', 15.256, 75.247, 18],
+  ['Naregal', 'Karnataka', 'India', 15.573, 75.808, 17],
+  ['Raybag', 'Karnataka', 'India', 16.492, 74.774, 17],
+  ['Mulki', 'Karnataka', 'India', 13.091, 74.794, 17],
+  ['Khanapur', 'Karnataka', 'India', 15.64, 74.508, 17],
+  ['Aurad', 'Karnataka', 'India', 18.254, 77.418, 17],
+  ['Mundgod', 'Karnataka', 'India', 14.971, 75.037, 17],
+  ['Alnavar', 'Karnataka', 'India', 15.427, 74.741, 17],
+  ['Nagamangala', 'Karnataka', 'India', 12.819, 76.755, 17],
+  ['Honnali', 'Karnataka', 'India', 14.24, 75.645, 17],
+  ['Hirekerur', 'Karnataka', 'India', 14.455, 75.395, 17],
+  ['Shirhatti', 'Karnataka', 'India', 15.234, 75.58, 17],
+  ['Bilgi', 'Karnataka', 'India', 16.347, 75.618, 16],
+  ['Piriyapatna', 'Karnataka', 'India', 12.335, 76.101, 16],
+  ['Virarajendrapet', 'Karnataka', 'India', 12.196, 75.805, 16],
+  ['Arkalgud', 'Karnataka', 'India', 12.762, 76.06, 16],
+  ['Jagalur', 'Karnataka', 'India', 14.52, 76.339, 16],
+  ['Holalkere', 'Karnataka', 'India', 14.043, 76.185, 15],
+  ['Kalghatgi', 'Karnataka', 'India', 15.183, 74.971, 15],
+  ['Tirthahalli', 'Karnataka', 'India', 13.688, 75.245, 15],
+  ['Gangolli', 'Karnataka', 'India', 13.65, 74.671, 15],
+  // India — Kerala
+  ['Ponnani', 'Kerala', 'India', 10.767, 75.925, 106],
+  ['Tellicherry', 'Kerala', 'India', 11.748, 75.493, 97],
+  ['Manjeri', 'Kerala', 'India', 11.12, 76.12, 89],
+  ['Neyyattinkara', 'Kerala', 'India', 8.399, 77.086, 88],
+  ['Badagara', 'Kerala', 'India', 11.598, 75.581, 76],
+  ['Beypore', 'Kerala', 'India', 11.172, 75.806, 71],
+  ['Payyannur', 'Kerala', 'India', 12.094, 75.202, 70],
+  ['Talipparamba', 'Kerala', 'India', 12.042, 75.359, 70],
+  ['Kannangad', 'Kerala', 'India', 12.308, 75.106, 68],
+  ['Munnar', 'Kerala', 'India', 10.088, 77.062, 68],
+  ['Kayankulam', 'Kerala', 'India', 9.182, 76.501, 64],
+  ['Kunnamkulam', 'Kerala', 'India', 10.647, 76.067, 64],
+  ['Nedumangad', 'Kerala', 'India', 8.603, 77.001, 58],
+  ['Tiruvalla', 'Kerala', 'India', 9.382, 76.575, 57],
+  ['Tirur', 'Kerala', 'India', 10.914, 75.921, 55],
+  ['Kasaragod', 'Kerala', 'India', 12.498, 74.99, 53],
+  ['Changanacheri', 'Kerala', 'India', 9.442, 76.536, 51],
+  ['Mannarakkat', 'Kerala', 'India', 10.992, 76.464, 51],
+  ['Ottappalam', 'Kerala', 'India', 10.774, 76.378, 51],
+  ['Kizhake Chalakudi', 'Kerala', 'India', 10.301, 76.338, 49],
+  ['Punalur', 'Kerala', 'India', 9.02, 76.923, 47],
+  ['Cherthala', 'Kerala', 'India', 9.684, 76.336, 46],
+  ['Mattanur', 'Kerala', 'India', 11.93, 75.572, 46],
+  ['Shertallai', 'Kerala', 'India', 9.686, 76.34, 45],
+  ['Varkala', 'Kerala', 'India', 8.733, 76.717, 43],
+  ['Shoranur', 'Kerala', 'India', 10.762, 76.271, 43],
+  ['Nadapuram', 'Kerala', 'India', 11.685, 75.655, 40],
+  ['Aroor', 'Kerala', 'India', 9.869, 76.305, 39],
+  ['Paravur Tekkumbhagam', 'Kerala', 'India', 8.795, 76.668, 39],
+  ['Kunnamangalam', 'Kerala', 'India', 11.305, 75.878, 38],
+  ['Pathanamthitta', 'Kerala', 'India', 9.267, 76.783, 38],
+  ['Mahe', 'Kerala', 'India', 11.702, 75.535, 38],
+  ['Chetwayi', 'Kerala', 'India', 10.529, 76.048, 38],
+  ['Kotamangalam', 'Kerala', 'India', 10.064, 76.628, 38],
+  ['Vettur', 'Kerala', 'India', 8.717, 76.726, 37],
+  ['Attingal', 'Kerala', 'India', 8.696, 76.815, 37],
+  ['Angamali', 'Kerala', 'India', 10.191, 76.388, 34],
+  ['Kodungallur', 'Kerala', 'India', 10.233, 76.195, 34],
+  ['Pappinissheri', 'Kerala', 'India', 11.957, 75.34, 34],
+  ['Erattupetta', 'Kerala', 'India', 9.687, 76.779, 33],
+  ['Chittur', 'Kerala', 'India', 10.7, 76.747, 32],
+  ['Elur', 'Kerala', 'India', 10.067, 76.283, 31],
+  ['Ferokh', 'Kerala', 'India', 11.18, 75.841, 30],
+  ['Cherpulassery', 'Kerala', 'India', 10.877, 76.309, 30],
+  ['Dharmadam', 'Kerala', 'India', 11.775, 75.465, 30],
+  ['Muvattupula', 'Kerala', 'India', 9.985, 76.577, 30],
+  ['Adur', 'Kerala', 'India', 9.156, 76.732, 30],
+  ['Kalpatta', 'Kerala', 'India', 11.609, 76.083, 30],
+  ['Kalavoor', 'Kerala', 'India', 9.57, 76.328, 30],
+  ['Muvattupuzha', 'Kerala', 'India', 9.98, 76.574, 29],
+  ['Irinjalakuda', 'Kerala', 'India', 10.342, 76.211, 29],
+  ['Ponmana', 'Kerala', 'India', 9.008, 76.52, 29],
+  ['Azhiyur', 'Kerala', 'India', 11.693, 75.56, 29],
+  ['Mavoor', 'Kerala', 'India', 11.267, 75.917, 28],
+  ['Mavelikara', 'Kerala', 'India', 9.259, 76.556, 28],
+  ['Piravam', 'Kerala', 'India', 9.867, 76.5, 28],
+  ['Perumpavur', 'Kerala', 'India', 10.115, 76.476, 27],
+  ['Perumbavoor', 'Kerala', 'India', 10.107, 76.474, 27],
+  ['Kuttampuzha', 'Kerala', 'India', 10.15, 76.735, 25],
+  ['Nileshwar', 'Kerala', 'India', 12.26, 75.135, 25],
+  ['Kadakkavoor', 'Kerala', 'India', 8.679, 76.767, 25],
+  ['Vayalar', 'Kerala', 'India', 9.712, 76.339, 25],
+  ['Chengannur', 'Kerala', 'India', 9.316, 76.615, 25],
+  ['Marayur', 'Kerala', 'India', 10.276, 77.162, 25],
+  ['Naduvannur', 'Kerala', 'India', 11.488, 75.775, 25],
+  ['Iringal', 'Kerala', 'India', 11.559, 75.617, 24],
+  ['Kumbalam', 'Kerala', 'India', 9.906, 76.311, 24],
+  ['Aluva', 'Kerala', 'India', 10.108, 76.352, 24],
+  ['Alwaye', 'Kerala', 'India', 10.106, 76.355, 24],
+  ['Muluppilagadu', 'Kerala', 'India', 11.798, 75.451, 23],
+  ['Kutiatodu', 'Kerala', 'India', 9.8, 76.333, 23],
+  ['Vaikam', 'Kerala', 'India', 9.749, 76.396, 23],
+  ['Pariyapuram', 'Kerala', 'India', 11.017, 75.867, 23],
+  ['Guruvayur', 'Kerala', 'India', 10.594, 76.041, 21],
+  ['Kattanam', 'Kerala', 'India', 9.176, 76.563, 20],
+  ['Arukutti', 'Kerala', 'India', 9.867, 76.35, 18],
+  // India — Ladakh
+  ['Padam', 'Ladakh', 'India', 33.467, 76.885, 25],
+  // India — Madhya Pradesh
+  ['Punasa', 'Madhya Pradesh', 'India', 22.235, 76.393, 350],
+  ['Dewas', 'Madhya Pradesh', 'India', 22.966, 76.055, 261],
+  ['Burhanpur', 'Madhya Pradesh', 'India', 21.309, 76.23, 203],
+  ['Murwara', 'Madhya Pradesh', 'India', 23.838, 80.394, 196],
+  ['Singrauli', 'Madhya Pradesh', 'India', 24.2, 82.675, 186],
+  ['Khandwa', 'Madhya Pradesh', 'India', 21.824, 76.351, 183],
+  ['Bhind', 'Madhya Pradesh', 'India', 26.567, 78.787, 174],
+  ['Shivpuri', 'Madhya Pradesh', 'India', 25.424, 77.662, 164],
+  ['Guna', 'Madhya Pradesh', 'India', 24.647, 77.311, 154],
+  ['Morena', 'Madhya Pradesh', 'India', 26.499, 77.995, 152],
+  ['Vidisha', 'Madhya Pradesh', 'India', 23.526, 77.811, 140],
+  ['Chhindwara', 'Madhya Pradesh', 'India', 22.057, 78.94, 135],
+  ['Mandsaur', 'Madhya Pradesh', 'India', 24.072, 75.07, 125],
+  ['Damoh', 'Madhya Pradesh', 'India', 23.833, 79.442, 119],
+  ['Chhatarpur', 'Madhya Pradesh', 'India', 24.918, 79.589, 112],
+  ['Hoshangabad', 'Madhya Pradesh', 'India', 22.747, 77.727, 109],
+  ['Nagda', 'Madhya Pradesh', 'India', 23.458, 75.418, 104],
+  ['Seoni', 'Madhya Pradesh', 'India', 22.085, 79.55, 101],
+  ['Itarsi', 'Madhya Pradesh', 'India', 22.615, 77.762, 101],
+  ['Sehore', 'Madhya Pradesh', 'India', 23.2, 77.083, 99],
+  ['Khargone', 'Madhya Pradesh', 'India', 21.823, 75.614, 95],
+  ['Betul', 'Madhya Pradesh', 'India', 21.901, 77.902, 92],
+  ['Datia', 'Madhya Pradesh', 'India', 25.673, 78.459, 91],
+  ['Shahdol', 'Madhya Pradesh', 'India', 23.294, 81.362, 89],
+  ['Dhar', 'Madhya Pradesh', 'India', 22.594, 75.298, 82],
+  ['Balaghat', 'Madhya Pradesh', 'India', 21.816, 80.188, 80],
+  ['Tikamgarh', 'Madhya Pradesh', 'India', 24.743, 78.831, 75],
+  ['Basoda', 'Madhya Pradesh', 'India', 23.852, 77.937, 69],
+  ['Pithampur', 'Madhya Pradesh', 'India', 22.602, 75.696, 68],
+  ['Harda Khas', 'Madhya Pradesh', 'India', 22.344, 77.095, 67],
+  ['Jaora', 'Madhya Pradesh', 'India', 23.638, 75.127, 67],
+  ['Ashoknagar', 'Madhya Pradesh', 'India', 24.576, 77.731, 65],
+  ['Raghogarh', 'Madhya Pradesh', 'India', 24.443, 77.198, 64],
+  ['Sheopur', 'Madhya Pradesh', 'India', 25.665, 76.696, 62],
+  ['Dabra', 'Madhya Pradesh', 'India', 25.886, 78.332, 61],
+  ['Etawa', 'Madhya Pradesh', 'India', 24.184, 78.203, 55],
+  ['Sendhwa', 'Madhya Pradesh', 'India', 21.686, 75.096, 55],
+  ['Sidhi', 'Madhya Pradesh', 'India', 24.404, 81.88, 54],
+  ['Shajapur', 'Madhya Pradesh', 'India', 23.426, 76.278, 53],
+  ['Gohadi', 'Madhya Pradesh', 'India', 26.433, 78.442, 52],
+  ['Narsimhapur', 'Madhya Pradesh', 'India', 22.949, 79.184, 48],
+  ['Barwani', 'Madhya Pradesh', 'India', 22.032, 74.9, 47],
+  ['Shujalpur', 'Madhya Pradesh', 'India', 23.407, 76.71, 47],
+  ['Panna', 'Madhya Pradesh', 'India', 24.721, 80.188, 47],
+  ['Sironj', 'Madhya Pradesh', 'India', 24.103, 77.691, 45],
+  ['Ashta', 'Madhya Pradesh', 'India', 23.018, 76.722, 45],
+  ['Mandla', 'Madhya Pradesh', 'India', 22.599, 80.371, 45],
+  ['Morar', 'Madhya Pradesh', 'India', 26.226, 78.225, 44],
+  ['Pandhurna', 'Madhya Pradesh', 'India', 21.596, 78.526, 44],
+  ['Biaora', 'Madhya Pradesh', 'India', 23.921, 76.911, 42],
+  ['Gadarwara', 'Madhya Pradesh', 'India', 22.924, 78.785, 41],
+  ['Sihora', 'Madhya Pradesh', 'India', 23.487, 80.104, 41],
+  ['Raisen', 'Madhya Pradesh', 'India', 23.33, 77.781, 41],
+  ['Ambah', 'Madhya Pradesh', 'India', 26.704, 78.227, 41],
+  ['Mandideep', 'Madhya Pradesh', 'India', 23.082, 77.533, 40],
+  ['Parasia', 'Madhya Pradesh', 'India', 22.191, 78.759, 39],
+  ['Bhawaniganj', 'Madhya Pradesh', 'India', 24.416, 75.836, 38],
+  ['Maihar', 'Madhya Pradesh', 'India', 24.266, 80.761, 38],
+  ['Porsa', 'Madhya Pradesh', 'India', 26.674, 78.371, 38],
+  ['Sanawad', 'Madhya Pradesh', 'India', 22.174, 76.07, 36],
+  ['Sarangpur', 'Madhya Pradesh', 'India', 23.567, 76.473, 36],
+  ['Agar', 'Madhya Pradesh', 'India', 23.712, 76.016, 35],
+  ['Jhabua', 'Madhya Pradesh', 'India', 22.768, 74.591, 34],
+  ['Begamganj', 'Madhya Pradesh', 'India', 23.599, 78.341, 33],
+  ['Lahar', 'Madhya Pradesh', 'India', 26.194, 78.941, 33],
+  ['Nepanagar', 'Madhya Pradesh', 'India', 21.454, 76.393, 33],
+  ['Chanderi', 'Madhya Pradesh', 'India', 24.713, 78.138, 33],
+  ['Khachrod', 'Madhya Pradesh', 'India', 23.423, 75.282, 32],
+  ['Kotma', 'Madhya Pradesh', 'India', 23.204, 81.979, 32],
+  ['Khurai', 'Madhya Pradesh', 'India', 24.044, 78.33, 32],
+  ['Sabalgarh', 'Madhya Pradesh', 'India', 26.249, 77.408, 31],
+  ['Hatta', 'Madhya Pradesh', 'India', 24.134, 79.601, 31],
+  ['Amla', 'Madhya Pradesh', 'India', 21.925, 78.128, 30],
+  ['Narsinghgarh', 'Madhya Pradesh', 'India', 23.708, 77.093, 30],
+  ['Umaria', 'Madhya Pradesh', 'India', 23.525, 80.837, 30],
+  ['Dhamnod', 'Madhya Pradesh', 'India', 22.209, 75.471, 30],
+  ['Banda', 'Madhya Pradesh', 'India', 24.045, 78.961, 29],
+  ['Seoni Malwa', 'Madhya Pradesh', 'India', 22.45, 77.466, 28],
+  ['Garhakota', 'Madhya Pradesh', 'India', 23.779, 79.143, 28],
+  ['Bamor Kalan', 'Madhya Pradesh', 'India', 24.893, 78.151, 28],
+  ['Kareli', 'Madhya Pradesh', 'India', 22.915, 79.064, 28],
+  ['Rehli', 'Madhya Pradesh', 'India', 23.637, 79.063, 28],
+  ['Manawar', 'Madhya Pradesh', 'India', 22.236, 75.089, 28],
+  ['Rahatgarh', 'Madhya Pradesh', 'India', 23.79, 78.395, 27],
+  ['Berasia', 'Madhya Pradesh', 'India', 23.631, 77.434, 27],
+  ['Sausar', 'Madhya Pradesh', 'India', 21.656, 78.797, 27],
+  ['Panagar', 'Madhya Pradesh', 'India', 23.285, 79.995, 27],
+  ['Rajpur', 'Madhya Pradesh', 'India', 22.304, 74.356, 26],
+  ['Jora', 'Madhya Pradesh', 'India', 26.342, 77.809, 26],
+  ['Karera', 'Madhya Pradesh', 'India', 25.458, 78.136, 26],
+  ['Kukshi', 'Madhya Pradesh', 'India', 22.207, 74.758, 26],
+  ['Rajgarh', 'Madhya Pradesh', 'India', 24.008, 76.733, 26],
+  ['Khajuraho Group of Monuments', 'Madhya Pradesh', 'India', 24.848, 79.934, 26],
+  ['Mauganj', 'Madhya Pradesh', 'India', 24.667, 81.873, 26],
+  ['Deori Khas', 'Madhya Pradesh', 'India', 23.39, 79.016, 25],
+  ['Kailaras', 'Madhya Pradesh', 'India', 26.305, 77.616, 25],
+  ['Anjad', 'Madhya Pradesh', 'India', 22.042, 75.055, 24],
+  ['Aron', 'Madhya Pradesh', 'India', 24.381, 77.417, 24],
+  ['Manasa', 'Madhya Pradesh', 'India', 24.478, 75.141, 24],
+  ['Sohagpur', 'Madhya Pradesh', 'India', 22.701, 78.195, 24],
+  ['Waraseoni', 'Madhya Pradesh', 'India', 21.762, 80.043, 24],
+  ['Khategaon', 'Madhya Pradesh', 'India', 22.596, 76.913, 23],
+  ['Alot', 'Madhya Pradesh', 'India', 23.763, 75.557, 23],
+  ['Shamgarh', 'Madhya Pradesh', 'India', 24.188, 75.639, 23],
+  ['Tarana', 'Madhya Pradesh', 'India', 23.334, 76.043, 23],
+  ['Jamai', 'Madhya Pradesh', 'India', 22.196, 78.592, 23],
+  ['Bhander', 'Madhya Pradesh', 'India', 25.736, 78.746, 22],
+  ['Nainpur', 'Madhya Pradesh', 'India', 22.43, 80.106, 22],
+  ['Beohari', 'Madhya Pradesh', 'India', 24.024, 81.378, 22],
+  ['Multai', 'Madhya Pradesh', 'India', 21.775, 78.258, 22],
+  ['Nagod', 'Madhya Pradesh', 'India', 24.569, 80.588, 22],
+  ['Maheshwar', 'Madhya Pradesh', 'India', 22.176, 75.587, 22],
+  ['Kasrawad', 'Madhya Pradesh', 'India', 22.127, 75.611, 21],
+  ['Seondha', 'Madhya Pradesh', 'India', 26.154, 78.781, 21],
+  ['Pali', 'Madhya Pradesh', 'India', 23.365, 81.044, 21],
+  ['Kaimori', 'Madhya Pradesh', 'India', 23.385, 79.744, 20],
+  ['Maksi', 'Madhya Pradesh', 'India', 23.26, 76.146, 20],
+  ['Mungaoli', 'Madhya Pradesh', 'India', 24.408, 78.096, 20],
+  ['Bijawar', 'Madhya Pradesh', 'India', 24.624, 79.49, 19],
+  ['Rajpur', 'Madhya Pradesh', 'India', 21.94, 75.136, 19],
+  ['Shahpur', 'Madhya Pradesh', 'India', 21.237, 76.226, 19],
+  ['Mau', 'Madhya Pradesh', 'India', 26.266, 78.671, 19],
+  ['Dindori', 'Madhya Pradesh', 'India', 22.941, 81.08, 19],
+  ['Badnawar', 'Madhya Pradesh', 'India', 23.022, 75.233, 19],
+  ['Khirkiyan', 'Madhya Pradesh', 'India', 22.167, 76.861, 18],
+  ['Rampura', 'Madhya Pradesh', 'India', 24.467, 75.44, 18],
+  ['Patharia', 'Madhya Pradesh', 'India', 23.899, 79.194, 18],
+  ['Daboh', 'Madhya Pradesh', 'India', 26.002, 78.877, 18],
+  ['Nasrullahganj', 'Madhya Pradesh', 'India', 22.684, 77.271, 18],
+  ['Burhar', 'Madhya Pradesh', 'India', 23.215, 81.532, 18],
+  ['Anuppur', 'Madhya Pradesh', 'India', 23.103, 81.691, 18],
+  ['Katangi', 'Madhya Pradesh', 'India', 23.441, 79.796, 18],
+  ['Harpalpur', 'Madhya Pradesh', 'India', 25.288, 79.333, 18],
+  ['Bhitarwar', 'Madhya Pradesh', 'India', 25.792, 78.111, 18],
+  ['Bargi', 'Madhya Pradesh', 'India', 22.991, 79.876, 18],
+  ['Kolaras', 'Madhya Pradesh', 'India', 25.219, 77.612, 17],
+  ['Rajgarh', 'Madhya Pradesh', 'India', 22.678, 74.945, 17],
+  ['Bhanpura', 'Madhya Pradesh', 'India', 24.513, 75.747, 17],
+  ['Jatara', 'Madhya Pradesh', 'India', 25.01, 79.049, 17],
+  ['Narwar', 'Madhya Pradesh', 'India', 25.644, 77.913, 17],
+  ['Depalpur', 'Madhya Pradesh', 'India', 22.851, 75.542, 17],
+  ['Jawad', 'Madhya Pradesh', 'India', 24.599, 74.863, 17],
+  ['Amarpatan', 'Madhya Pradesh', 'India', 24.314, 80.977, 17],
+  ['Teonthar', 'Madhya Pradesh', 'India', 24.982, 81.642, 17],
+  ['Palera', 'Madhya Pradesh', 'India', 25.02, 79.228, 17],
+  ['Khilchipur', 'Madhya Pradesh', 'India', 24.039, 76.578, 16],
+  ['Bhainsdehi', 'Madhya Pradesh', 'India', 21.645, 77.63, 16],
+  ['Kumbhraj', 'Madhya Pradesh', 'India', 24.373, 77.048, 16],
+  ['Mahgawan', 'Madhya Pradesh', 'India', 26.495, 78.616, 16],
+  ['Babai', 'Madhya Pradesh', 'India', 22.703, 77.935, 16],
+  ['Baihar', 'Madhya Pradesh', 'India', 22.101, 80.55, 16],
+  ['Kannod', 'Madhya Pradesh', 'India', 22.668, 76.743, 16],
+  ['Unhel', 'Madhya Pradesh', 'India', 23.338, 75.559, 16],
+  ['Mihona', 'Madhya Pradesh', 'India', 26.284, 78.98, 16],
+  ['Lakhnadon', 'Madhya Pradesh', 'India', 22.6, 79.601, 16],
+  ['Leteri', 'Madhya Pradesh', 'India', 24.06, 77.409, 16],
+  ['Udaipura', 'Madhya Pradesh', 'India', 23.074, 78.511, 15],
+  ['Katangi', 'Madhya Pradesh', 'India', 21.774, 79.805, 15],
+  ['Bhikangaon', 'Madhya Pradesh', 'India', 21.868, 75.964, 15],
+  ['Hindoria', 'Madhya Pradesh', 'India', 23.903, 79.569, 15],
+  ['Korwai', 'Madhya Pradesh', 'India', 24.118, 78.04, 15],
+  ['Naraini', 'Madhya Pradesh', 'India', 25.19, 80.475, 15],
+  // India — Maharashtra
+  ['Pimpri', 'Maharashtra', 'India', 18.623, 73.807, 1285],
+  ['Kalyan', 'Maharashtra', 'India', 19.244, 73.136, 1262],
+  ['Dombivli', 'Maharashtra', 'India', 19.217, 73.083, 1193],
+  ['Bhiwandi', 'Maharashtra', 'India', 19.3, 73.059, 707],
+  ['Borivli', 'Maharashtra', 'India', 19.235, 72.86, 610],
+  ['Bhayandar', 'Maharashtra', 'India', 19.302, 72.851, 520],
+  ['Ulhasnagar', 'Maharashtra', 'India', 19.217, 73.15, 517],
+  ['Malegaon', 'Maharashtra', 'India', 20.55, 74.535, 435],
+  ['Dhulia', 'Maharashtra', 'India', 20.901, 74.777, 367],
+  ['Chanda', 'Maharashtra', 'India', 19.951, 79.295, 328],
+  ['Parbhani', 'Maharashtra', 'India', 19.269, 76.771, 290],
+  ['Ichalkaranji', 'Maharashtra', 'India', 16.691, 74.461, 274],
+  ['Jalna', 'Maharashtra', 'India', 19.841, 75.886, 262],
+  ['Amarnath', 'Maharashtra', 'India', 19.2, 73.167, 218],
+  ['Bhusaval', 'Maharashtra', 'India', 21.044, 75.785, 183],
+  ['Virar', 'Maharashtra', 'India', 19.456, 72.811, 150],
+  ['Yavatmal', 'Maharashtra', 'India', 20.393, 78.132, 128],
+  ['Panvel', 'Maharashtra', 'India', 18.989, 73.11, 128],
+  ['Gondia', 'Maharashtra', 'India', 21.46, 80.192, 125],
+  ['Wardha', 'Maharashtra', 'India', 20.739, 78.598, 114],
+  ['Achalpur', 'Maharashtra', 'India', 21.257, 77.51, 111],
+  ['Barsi', 'Maharashtra', 'India', 18.235, 75.693, 111],
+  ['Badlapur', 'Maharashtra', 'India', 19.155, 73.266, 105],
+  ['Udgir', 'Maharashtra', 'India', 18.393, 77.118, 101],
+  ['Nandurbar', 'Maharashtra', 'India', 21.367, 74.241, 101],
+  ['Airoli', 'Maharashtra', 'India', 19.151, 72.996, 100],
+  ['Hinganghat', 'Maharashtra', 'India', 20.549, 78.84, 98],
+  ['Amalner', 'Maharashtra', 'India', 21.04, 75.059, 97],
+  ['Chalisgaon', 'Maharashtra', 'India', 20.458, 75.016, 96],
+  ['Pandharpur', 'Maharashtra', 'India', 17.679, 75.331, 96],
+  ['Parli Vaijnath', 'Maharashtra', 'India', 18.851, 76.532, 95],
+  ['Khamgaon', 'Maharashtra', 'India', 20.707, 76.568, 95],
+  ['Bhandara', 'Maharashtra', 'India', 21.168, 79.649, 90],
+  ['Roha', 'Maharashtra', 'India', 18.437, 73.12, 90],
+  ['Akot', 'Maharashtra', 'India', 21.096, 77.059, 87],
+  ['Kamthi', 'Maharashtra', 'India', 21.216, 79.197, 86],
+  ['Osmanabad', 'Maharashtra', 'India', 18.182, 76.039, 86],
+  ['Manmad', 'Maharashtra', 'India', 20.253, 74.438, 77],
+  ['Hingoli', 'Maharashtra', 'India', 19.715, 77.142, 76],
+  ['Khadki', 'Maharashtra', 'India', 18.564, 73.852, 76],
+  ['Ambajogai', 'Maharashtra', 'India', 18.733, 76.386, 74],
+  ['Palghar', 'Maharashtra', 'India', 19.697, 72.765, 72],
+  ['Pusad', 'Maharashtra', 'India', 19.913, 77.578, 72],
+  ['Shirpur', 'Maharashtra', 'India', 21.348, 74.88, 70],
+  ['Washim', 'Maharashtra', 'India', 20.111, 77.133, 69],
+  ['Sangamner', 'Maharashtra', 'India', 19.568, 74.212, 67],
+  ['Buldana', 'Maharashtra', 'India', 20.529, 76.185, 67],
+  ['Chopda', 'Maharashtra', 'India', 21.246, 75.299, 66],
+  ['Kopargaon', 'Maharashtra', 'India', 19.882, 74.476, 65],
+  ['Malkapur', 'Maharashtra', 'India', 20.886, 76.199, 65],
+  ['Karanja', 'Maharashtra', 'India', 20.483, 77.489, 65],
+  ['Khopoli', 'Maharashtra', 'India', 18.786, 73.346, 64],
+  ['Basmat', 'Maharashtra', 'India', 19.329, 77.157, 64],
+  ['Nipani', 'Maharashtra', 'India', 16.399, 74.383, 60],
+  ['Lonavla', 'Maharashtra', 'India', 18.753, 73.406, 59],
+  ['Shahada', 'Maharashtra', 'India', 21.545, 74.471, 58],
+  ['Wani', 'Maharashtra', 'India', 20.055, 78.953, 57],
+  ['Shegaon', 'Maharashtra', 'India', 20.793, 76.699, 56],
+  ['Karad', 'Maharashtra', 'India', 17.289, 74.182, 56],
+  ['Anjangaon', 'Maharashtra', 'India', 21.165, 77.309, 55],
+  ['Baramati', 'Maharashtra', 'India', 18.152, 74.578, 54],
+  ['Phaltan', 'Maharashtra', 'India', 17.991, 74.432, 53],
+  ['Deolali', 'Maharashtra', 'India', 19.944, 73.834, 53],
+  ['Chikhli', 'Maharashtra', 'India', 20.35, 76.258, 53],
+  ['Diglur', 'Maharashtra', 'India', 18.548, 77.577, 53],
+  ['Umred', 'Maharashtra', 'India', 20.854, 79.325, 52],
+  ['Chiplun', 'Maharashtra', 'India', 17.533, 73.509, 51],
+  ['Sillod', 'Maharashtra', 'India', 20.303, 75.653, 51],
+  ['Dahanu', 'Maharashtra', 'India', 19.968, 72.713, 49],
+  ['Majalgaon', 'Maharashtra', 'India', 19.16, 76.208, 48],
+  ['Warud', 'Maharashtra', 'India', 21.471, 78.27, 48],
+  ['Talegaon Dabhade', 'Maharashtra', 'India', 18.735, 73.676, 48],
+  ['Jaisingpur', 'Maharashtra', 'India', 16.776, 74.554, 47],
+  ['Pachora', 'Maharashtra', 'India', 20.667, 75.353, 47],
+  ['Yeola', 'Maharashtra', 'India', 20.042, 74.489, 47],
+  ['Gangakher', 'Maharashtra', 'India', 18.97, 76.749, 46],
+  ['Dondaicha', 'Maharashtra', 'India', 21.324, 74.568, 46],
+  ['Vite', 'Maharashtra', 'India', 17.273, 74.538, 46],
+  ['Daund', 'Maharashtra', 'India', 18.465, 74.584, 45],
+  ['Ozar', 'Maharashtra', 'India', 20.095, 73.928, 45],
+  ['Varangaon', 'Maharashtra', 'India', 21.018, 75.91, 44],
+  ['Tumsar', 'Maharashtra', 'India', 21.383, 79.733, 43],
+  ['Selu', 'Maharashtra', 'India', 19.455, 76.441, 43],
+  ['Jintur', 'Maharashtra', 'India', 19.612, 76.687, 42],
+  ['Balapur', 'Maharashtra', 'India', 20.666, 76.774, 42],
+  ['Kannad', 'Maharashtra', 'India', 20.257, 75.138, 42],
+  ['Katol', 'Maharashtra', 'India', 21.274, 78.586, 42],
+  ['Arvi', 'Maharashtra', 'India', 20.996, 78.229, 42],
+  ['Digras', 'Maharashtra', 'India', 20.104, 77.718, 42],
+  ['Warora', 'Maharashtra', 'India', 20.229, 79.003, 42],
+  ['Mehekar', 'Maharashtra', 'India', 20.151, 76.568, 41],
+  ['Murtajapur', 'Maharashtra', 'India', 20.733, 77.367, 40],
+  ['Ahmadpur', 'Maharashtra', 'India', 18.706, 76.937, 40],
+  ['Vaijapur', 'Maharashtra', 'India', 19.927, 74.728, 40],
+  ['Nandura Buzurg', 'Maharashtra', 'India', 20.834, 76.459, 40],
+  ['Akalkot', 'Maharashtra', 'India', 17.525, 76.206, 39],
+  ['Pathri', 'Maharashtra', 'India', 19.259, 76.434, 38],
+  ['Paithan', 'Maharashtra', 'India', 19.475, 75.386, 37],
+  ['Parola', 'Maharashtra', 'India', 20.881, 75.119, 37],
+  ['Rahuri', 'Maharashtra', 'India', 19.391, 74.65, 37],
+  ['Daryapur', 'Maharashtra', 'India', 20.925, 77.326, 36],
+  ['Tuljapur', 'Maharashtra', 'India', 18.008, 76.07, 36],
+  ['Morsi', 'Maharashtra', 'India', 21.34, 78.013, 36],
+  ['Ashta', 'Maharashtra', 'India', 16.949, 74.409, 35],
+  ['Igatpuri', 'Maharashtra', 'India', 19.695, 73.563, 35],
+  ['Umarkhed', 'Maharashtra', 'India', 19.601, 77.689, 35],
+  ['Pulgaon', 'Maharashtra', 'India', 20.722, 78.321, 35],
+  ['Tasgaon', 'Maharashtra', 'India', 17.037, 74.602, 35],
+  ['Purna', 'Maharashtra', 'India', 19.182, 77.026, 35],
+  ['Karjat', 'Maharashtra', 'India', 18.911, 73.324, 35],
+  ['Nilanga', 'Maharashtra', 'India', 18.117, 76.753, 34],
+  ['Satana', 'Maharashtra', 'India', 20.595, 74.203, 34],
+  ['Ausa', 'Maharashtra', 'India', 18.247, 76.499, 34],
+  ['Sinnar', 'Maharashtra', 'India', 19.845, 73.999, 34],
+  ['Pen', 'Maharashtra', 'India', 18.737, 73.096, 34],
+  ['Dharangaon', 'Maharashtra', 'India', 21.012, 75.274, 34],
+  ['Wai', 'Maharashtra', 'India', 17.953, 73.891, 33],
+  ['Yaval', 'Maharashtra', 'India', 21.168, 75.698, 33],
+  ['Dharmabad', 'Maharashtra', 'India', 18.891, 77.849, 32],
+  ['Umarga', 'Maharashtra', 'India', 17.838, 76.623, 32],
+  ['Malkapur', 'Maharashtra', 'India', 17.262, 74.176, 32],
+  ['Shirdi', 'Maharashtra', 'India', 19.766, 74.477, 32],
+  ['Ghugus', 'Maharashtra', 'India', 19.938, 79.112, 32],
+  ['Sangola', 'Maharashtra', 'India', 17.439, 75.194, 31],
+  ['Sirur', 'Maharashtra', 'India', 18.828, 74.375, 31],
+  ['Partur', 'Maharashtra', 'India', 19.599, 76.215, 31],
+  ['Erandol', 'Maharashtra', 'India', 20.922, 75.326, 31],
+  ['Manwat', 'Maharashtra', 'India', 19.301, 76.497, 31],
+  ['Gevrai', 'Maharashtra', 'India', 19.264, 75.75, 30],
+  ['Risod', 'Maharashtra', 'India', 19.977, 76.788, 30],
+  ['Sasvad', 'Maharashtra', 'India', 18.344, 74.031, 30],
+  ['Ambad', 'Maharashtra', 'India', 19.613, 75.789, 30],
+  ['Saoner', 'Maharashtra', 'India', 21.385, 78.922, 30],
+  ['Arangaon', 'Maharashtra', 'India', 19.027, 74.715, 30],
+  ['Mangrul Pir', 'Maharashtra', 'India', 20.314, 77.342, 29],
+  ['Rajura', 'Maharashtra', 'India', 19.779, 79.365, 29],
+  ['Mukher', 'Maharashtra', 'India', 18.706, 77.368, 29],
+  ['Shrigonda', 'Maharashtra', 'India', 18.615, 74.699, 28],
+  ['Koynanagar', 'Maharashtra', 'India', 17.4, 73.767, 28],
+  ['Jalgaon Jamod', 'Maharashtra', 'India', 21.052, 76.535, 28],
+  ['Kalamb', 'Maharashtra', 'India', 19.044, 73.956, 27],
+  ['Indapur', 'Maharashtra', 'India', 18.3, 73.25, 27],
+  ['Deulgaon Raja', 'Maharashtra', 'India', 20.018, 76.038, 27],
+  ['Mahad', 'Maharashtra', 'India', 18.083, 73.417, 27],
+  ['Raver', 'Maharashtra', 'India', 21.248, 76.035, 27],
+  ['Hadgaon', 'Maharashtra', 'India', 19.496, 77.659, 26],
+  ['Gadhinglaj', 'Maharashtra', 'India', 16.223, 74.35, 26],
+  ['Taloda', 'Maharashtra', 'India', 21.561, 74.212, 26],
+  ['Junnar', 'Maharashtra', 'India', 19.208, 73.875, 26],
+  ['Kinwat', 'Maharashtra', 'India', 19.626, 78.199, 26],
+  ['Koregaon', 'Maharashtra', 'India', 18.646, 74.059, 26],
+  ['Uran', 'Maharashtra', 'India', 18.878, 72.939, 26],
+  ['Kagal', 'Maharashtra', 'India', 16.577, 74.315, 25],
+  ['Shiraguppi', 'Maharashtra', 'India', 16.619, 74.709, 25],
+  ['Faizpur', 'Maharashtra', 'India', 21.168, 75.86, 25],
+  ['Nandgaon', 'Maharashtra', 'India', 20.307, 74.655, 24],
+  ['Gangapur', 'Maharashtra', 'India', 19.697, 75.01, 24],
+  ['Pathardi', 'Maharashtra', 'India', 19.173, 75.174, 24],
+  ['Mul', 'Maharashtra', 'India', 20.07, 79.678, 24],
+  ['Kharakvasla', 'Maharashtra', 'India', 18.44, 73.775, 24],
+  ['Pawni', 'Maharashtra', 'India', 20.792, 79.636, 23],
+  ['Ramtek', 'Maharashtra', 'India', 21.396, 79.327, 23],
+  ['Savantvadi', 'Maharashtra', 'India', 15.904, 73.822, 23],
+  ['Soygaon', 'Maharashtra', 'India', 20.596, 75.618, 23],
+  ['Chakan', 'Maharashtra', 'India', 18.761, 73.864, 23],
+  ['Kurduvadi', 'Maharashtra', 'India', 18.093, 75.416, 23],
+  ['Chandur', 'Maharashtra', 'India', 19.734, 79.172, 23],
+  ['Darwha', 'Maharashtra', 'India', 20.31, 77.773, 23],
+  ['Pipri', 'Maharashtra', 'India', 19.794, 75.535, 23],
+  ['Karmala', 'Maharashtra', 'India', 18.408, 75.194, 23],
+  ['Kalamnuri', 'Maharashtra', 'India', 19.674, 77.311, 23],
+  ['Ghoti Budrukh', 'Maharashtra', 'India', 19.716, 73.628, 22],
+  ['Lonar', 'Maharashtra', 'India', 19.985, 76.52, 22],
+  ['Dattapur', 'Maharashtra', 'India', 20.781, 78.141, 22],
+  ['Patur', 'Maharashtra', 'India', 20.461, 76.937, 22],
+  ['Mhasvad', 'Maharashtra', 'India', 17.634, 74.788, 21],
+  ['Kurandvad', 'Maharashtra', 'India', 16.683, 74.589, 21],
+  ['Alandi', 'Maharashtra', 'India', 18.678, 73.899, 21],
+  ['Telhara', 'Maharashtra', 'India', 21.027, 76.839, 21],
+  ['Ghatanji', 'Maharashtra', 'India', 20.142, 78.313, 21],
+  ['Mudkhed', 'Maharashtra', 'India', 19.157, 77.503, 21],
+  ['Powai', 'Maharashtra', 'India', 19.116, 72.905, 20],
+  ['Savda', 'Maharashtra', 'India', 21.151, 75.889, 20],
+  ['Chandor', 'Maharashtra', 'India', 20.331, 74.245, 20],
+  ['Kalmeshwar', 'Maharashtra', 'India', 21.232, 78.92, 19],
+  ['Chandur', 'Maharashtra', 'India', 20.814, 77.98, 19],
+  ['Dharur', 'Maharashtra', 'India', 18.82, 76.109, 19],
+  ['Anshing', 'Maharashtra', 'India', 20.041, 77.315, 19],
+  ['Bhor', 'Maharashtra', 'India', 18.149, 73.843, 19],
+  ['Chicholi', 'Maharashtra', 'India', 21.469, 79.702, 19],
+  ['Malvan', 'Maharashtra', 'India', 16.06, 73.463, 19],
+  ['Rajgurunagar', 'Maharashtra', 'India', 18.867, 73.9, 19],
+  ['Chandur Bazar', 'Maharashtra', 'India', 21.239, 77.747, 19],
+  ['Durgapur', 'Maharashtra', 'India', 20.005, 79.303, 19],
+  ['Bhum', 'Maharashtra', 'India', 18.459, 75.659, 19],
+  ['Moram', 'Maharashtra', 'India', 17.788, 76.471, 18],
+  ['Kodoli', 'Maharashtra', 'India', 16.876, 74.191, 18],
+  ['Murbad', 'Maharashtra', 'India', 19.254, 73.39, 17],
+  ['Naldurg', 'Maharashtra', 'India', 17.817, 76.282, 17],
+  ['Rahimatpur', 'Maharashtra', 'India', 17.592, 74.2, 17],
+  ['Vasind', 'Maharashtra', 'India', 19.408, 73.263, 17],
+  ['Deoli', 'Maharashtra', 'India', 20.649, 78.48, 17],
+  ['Neral', 'Maharashtra', 'India', 19.025, 73.317, 16],
+  ['Ajra', 'Maharashtra', 'India', 16.116, 74.211, 16],
+  ['Bhudgaon', 'Maharashtra', 'India', 16.907, 74.6, 16],
+  ['Kankauli', 'Maharashtra', 'India', 16.266, 73.712, 16],
+  ['Boisar', 'Maharashtra', 'India', 19.804, 72.756, 16],
+  ['Vada', 'Maharashtra', 'India', 19.653, 73.148, 15],
+  ['Srivardhan', 'Maharashtra', 'India', 18.046, 73.016, 15],
+  ['Khuldabad', 'Maharashtra', 'India', 20.007, 75.192, 15],
+  ['Khapa', 'Maharashtra', 'India', 21.422, 78.982, 15],
+  ['Khetia', 'Maharashtra', 'India', 21.671, 74.585, 15],
+  // India — Manipur
+  ['Churachandpur', 'Manipur', 'India', 24.334, 93.67, 48],
+  ['Thoubal', 'Manipur', 'India', 24.639, 93.996, 44],
+  ['Kakching', 'Manipur', 'India', 24.498, 93.981, 30],
+  ['Mayang Imphal', 'Manipur', 'India', 24.61, 93.889, 22],
+  ['Moirang', 'Manipur', 'India', 24.497, 93.778, 17],
+  ['Phek', 'Manipur', 'India', 25.667, 94.5, 15],
+  // India — Meghalaya
+  ['Tura', 'Meghalaya', 'India', 25.514, 90.202, 64],
+  ['Mankachar', 'Meghalaya', 'India', 25.533, 89.864, 31],
+  ['Nongstoin', 'Meghalaya', 'India', 25.517, 91.265, 26],
+  // India — Mizoram
+  ['Lunglei', 'Mizoram', 'India', 22.892, 92.742, 53],
+  ['Kolasib', 'Mizoram', 'India', 24.224, 92.679, 25],
+  ['Saiha', 'Mizoram', 'India', 22.492, 92.981, 23],
+  ['Serchhip', 'Mizoram', 'India', 23.293, 92.847, 20],
+  // India — Nagaland
+  ['Wokha', 'Nagaland', 'India', 26.097, 94.258, 54],
+  ['Mokokchung', 'Nagaland', 'India', 26.325, 94.518, 34],
+  ['Tuensang', 'Nagaland', 'India', 26.267, 94.824, 34],
+  ['Zunheboto', 'Nagaland', 'India', 25.967, 94.517, 29],
+  ['Mon', 'Nagaland', 'India', 26.736, 95.058, 19],
+  // India — Odisha
+  ['Nowrangapur', 'Odisha', 'India', 19.231, 82.548, 1221],
+  ['Balasore', 'Odisha', 'India', 21.493, 86.933, 114],
+  ['Bhadrakh', 'Odisha', 'India', 21.054, 86.516, 99],
+  ['Balangir', 'Odisha', 'India', 20.704, 83.49, 91],
+  ['Paradip Garh', 'Odisha', 'India', 20.316, 86.609, 86],
+  ['Jeypore', 'Odisha', 'India', 18.856, 82.572, 81],
+  ['Jharsuguda', 'Odisha', 'India', 21.855, 84.007, 79],
+  ['Brajarajnagar', 'Odisha', 'India', 21.817, 83.917, 79],
+  ['Bargarh', 'Odisha', 'India', 21.333, 83.619, 69],
+  ['Bhawanipatna', 'Odisha', 'India', 19.907, 83.167, 64],
+  ['Dhenkanal', 'Odisha', 'India', 20.657, 85.597, 62],
+  ['Bada Barabil', 'Odisha', 'India', 22.112, 85.387, 57],
+  ['Jatani', 'Odisha', 'India', 20.16, 85.707, 56],
+  ['Barbil', 'Odisha', 'India', 22.102, 85.378, 53],
+  ['Angul', 'Odisha', 'India', 20.841, 85.102, 44],
+  ['Kendraparha', 'Odisha', 'India', 20.502, 86.422, 44],
+  ['Khurda', 'Odisha', 'India', 20.183, 85.616, 43],
+  ['Jajpur', 'Odisha', 'India', 20.849, 86.337, 42],
+  ['Sundargarh', 'Odisha', 'India', 22.117, 84.033, 42],
+  ['Koraput', 'Odisha', 'India', 18.812, 82.71, 41],
+  ['Burla', 'Odisha', 'India', 21.51, 83.873, 41],
+  ['Talcher', 'Odisha', 'India', 20.949, 85.234, 38],
+  ['Phulbani', 'Odisha', 'India', 20.481, 84.231, 37],
+  ['Patamundai', 'Odisha', 'India', 20.578, 86.561, 34],
+  ['Jagatsinghapur', 'Odisha', 'India', 20.256, 86.171, 33],
+  ['Basudebpur', 'Odisha', 'India', 21.12, 86.729, 32],
+  ['Remuna', 'Odisha', 'India', 21.528, 86.872, 30],
+  ['Soro', 'Odisha', 'India', 21.279, 86.688, 30],
+  ['Titlagarh', 'Odisha', 'India', 20.29, 83.152, 28],
+  ['Birmitrapur', 'Odisha', 'India', 22.4, 84.767, 28],
+  ['Hirakud', 'Odisha', 'India', 21.525, 83.873, 27],
+  ['Malakanagiri', 'Odisha', 'India', 18.364, 81.888, 25],
+  ['Jaleshwar', 'Odisha', 'India', 21.802, 87.222, 23],
+  ['Kuchaiburi', 'Odisha', 'India', 22.267, 86.174, 23],
+  ['Hinjilikatu', 'Odisha', 'India', 19.482, 84.745, 23],
+  ['Gunupur', 'Odisha', 'India', 19.08, 83.809, 22],
+  ['Deogarh', 'Odisha', 'India', 21.538, 84.733, 21],
+  ['Asika', 'Odisha', 'India', 19.611, 84.66, 21],
+  ['Chatrapur', 'Odisha', 'India', 19.356, 84.984, 21],
+  ['Kantabanji', 'Odisha', 'India', 20.467, 82.92, 21],
+  ['Bhanjanagar', 'Odisha', 'India', 19.927, 84.582, 21],
+  ['Polasara', 'Odisha', 'India', 19.694, 84.814, 21],
+  ['Bhuban', 'Odisha', 'India', 20.882, 85.833, 20],
+  ['Barpali', 'Odisha', 'India', 21.19, 83.587, 20],
+  ['Patnagarh', 'Odisha', 'India', 20.708, 83.133, 20],
+  ['Baud', 'Odisha', 'India', 20.838, 84.326, 19],
+  ['Sonepur', 'Odisha', 'India', 20.833, 83.917, 19],
+  ['Nimaparha', 'Odisha', 'India', 20.058, 86.004, 18],
+  ['Kesinga', 'Odisha', 'India', 20.188, 83.219, 18],
+  ['Banapur', 'Odisha', 'India', 19.779, 85.17, 17],
+  ['Balugaon', 'Odisha', 'India', 20.178, 85.113, 17],
+  ['Konarka', 'Odisha', 'India', 19.898, 86.114, 17],
+  ['Athagarh', 'Odisha', 'India', 20.52, 85.63, 17],
+  ['Banki', 'Odisha', 'India', 20.379, 85.53, 17],
+  ['Padampur', 'Odisha', 'India', 20.999, 83.063, 16],
+  ['Nayagarh', 'Odisha', 'India', 20.129, 85.096, 16],
+  ['Kamakhyanagar', 'Odisha', 'India', 20.934, 85.545, 16],
+  ['Nilgiri', 'Odisha', 'India', 21.462, 86.768, 15],
+  ['Pipili', 'Odisha', 'India', 20.114, 85.831, 15],
+  ['Sorada', 'Odisha', 'India', 19.761, 84.43, 15],
+  ['Binka', 'Odisha', 'India', 21.026, 83.812, 15],
+  // India — Puducherry
+  ['Karaikal', 'Puducherry', 'India', 10.917, 79.833, 80],
+  // India — Punjab
+  ['Pathankot', 'Punjab', 'India', 32.275, 75.653, 174],
+  ['Hoshiarpur', 'Punjab', 'India', 31.537, 75.913, 158],
+  ['Batala', 'Punjab', 'India', 31.809, 75.203, 145],
+  ['Abohar', 'Punjab', 'India', 30.145, 74.196, 131],
+  ['Moga', 'Punjab', 'India', 30.814, 75.169, 131],
+  ['Khanna', 'Punjab', 'India', 30.705, 76.222, 117],
+  ['Maler Kotla', 'Punjab', 'India', 30.531, 75.879, 114],
+  ['Barnala', 'Punjab', 'India', 30.375, 75.549, 105],
+  ['Ferozepore', 'Punjab', 'India', 30.926, 74.613, 102],
+  ['Phagwara', 'Punjab', 'India', 31.225, 75.774, 100],
+  ['Kapurthala', 'Punjab', 'India', 31.38, 75.381, 93],
+  ['Muktsar', 'Punjab', 'India', 30.474, 74.517, 90],
+  ['Sangrur', 'Punjab', 'India', 30.245, 75.845, 89],
+  ['Rajpura', 'Punjab', 'India', 30.479, 76.593, 87],
+  ['Kotkapura', 'Punjab', 'India', 30.582, 74.833, 81],
+  ['Mansa', 'Punjab', 'India', 29.988, 75.402, 80],
+  ['Faridkot', 'Punjab', 'India', 30.674, 74.756, 77],
+  ['Malaut', 'Punjab', 'India', 30.211, 74.482, 77],
+  ['Fazilka', 'Punjab', 'India', 30.402, 74.028, 71],
+  ['Jagraon', 'Punjab', 'India', 30.788, 75.474, 65],
+  ['Nabha', 'Punjab', 'India', 30.376, 76.153, 65],
+  ['Sirhind', 'Punjab', 'India', 30.643, 76.384, 61],
+  ['Tarn Taran', 'Punjab', 'India', 31.452, 74.928, 59],
+  ['Dhuri', 'Punjab', 'India', 30.368, 75.868, 54],
+  ['Sunam', 'Punjab', 'India', 30.129, 75.799, 54],
+  ['Ropar', 'Punjab', 'India', 30.969, 76.527, 52],
+  ['Nangal', 'Punjab', 'India', 31.39, 76.376, 48],
+  ['Kharar', 'Punjab', 'India', 30.746, 76.647, 46],
+  ['Rampura', 'Punjab', 'India', 30.256, 75.241, 46],
+  ['Giddarbaha', 'Punjab', 'India', 30.2, 74.666, 39],
+  ['Patti', 'Punjab', 'India', 31.281, 74.858, 37],
+  ['Jaito', 'Punjab', 'India', 30.451, 74.892, 34],
+  ['Nakodar', 'Punjab', 'India', 31.126, 75.475, 32],
+  ['Zira', 'Punjab', 'India', 30.969, 74.991, 31],
+  ['Nawanshahr', 'Punjab', 'India', 31.125, 76.116, 31],
+  ['Maur', 'Punjab', 'India', 30.083, 75.25, 28],
+  ['Kartarpur', 'Punjab', 'India', 31.443, 75.498, 27],
+  ['Raikot', 'Punjab', 'India', 30.65, 75.6, 26],
+  ['Jandiala', 'Punjab', 'India', 31.159, 75.618, 26],
+  ['Budhlada', 'Punjab', 'India', 29.928, 75.562, 25],
+  ['Talwara', 'Punjab', 'India', 31.938, 75.887, 25],
+  ['Doraha', 'Punjab', 'India', 30.8, 76.024, 24],
+  ['Morinda', 'Punjab', 'India', 30.79, 76.499, 24],
+  ['Bagha Purana', 'Punjab', 'India', 30.688, 75.098, 23],
+  ['Dinanagar', 'Punjab', 'India', 32.137, 75.473, 23],
+  ['Mukerian', 'Punjab', 'India', 31.954, 75.617, 23],
+  ['Phillaur', 'Punjab', 'India', 31.019, 75.791, 23],
+  ['Laungowal', 'Punjab', 'India', 30.194, 75.681, 22],
+  ['Qadian', 'Punjab', 'India', 31.822, 75.377, 21],
+  ['Dasuya', 'Punjab', 'India', 31.817, 75.653, 21],
+  ['Dhariwal', 'Punjab', 'India', 31.956, 75.324, 21],
+  ['Machhiwara', 'Punjab', 'India', 30.916, 76.2, 20],
+  ['Ajnala', 'Punjab', 'India', 31.845, 74.763, 20],
+  ['Bhawanigarh', 'Punjab', 'India', 30.267, 76.039, 19],
+  ['Dhanaula', 'Punjab', 'India', 30.282, 75.573, 19],
+  ['Banga', 'Punjab', 'India', 31.189, 75.995, 19],
+  ['Balachor', 'Punjab', 'India', 31.061, 76.302, 19],
+  ['Basi', 'Punjab', 'India', 30.588, 76.845, 19],
+  ['Samrala', 'Punjab', 'India', 30.836, 76.193, 19],
+  ['Basi', 'Punjab', 'India', 30.689, 76.401, 19],
+  ['Sanaur', 'Punjab', 'India', 30.302, 76.458, 18],
+  ['Fatehgarh Churian', 'Punjab', 'India', 31.864, 74.957, 18],
+  ['Bhogpur', 'Punjab', 'India', 31.554, 75.643, 18],
+  ['Bhadaur', 'Punjab', 'India', 30.477, 75.33, 18],
+  ['Banur', 'Punjab', 'India', 30.554, 76.719, 17],
+  ['Sardulgarh', 'Punjab', 'India', 29.692, 75.236, 17],
+  ['Adampur', 'Punjab', 'India', 31.432, 75.715, 17],
+  ['Garhshankar', 'Punjab', 'India', 31.215, 76.141, 16],
+  ['Talwandi Bhai', 'Punjab', 'India', 30.856, 74.93, 16],
+  ['Sultanpur', 'Punjab', 'India', 31.215, 75.196, 16],
+  ['Guru Har Sahai', 'Punjab', 'India', 30.709, 74.404, 16],
+  ['Bhikhi', 'Punjab', 'India', 30.059, 75.535, 16],
+  ['Anandpur', 'Punjab', 'India', 31.239, 76.503, 15],
+  // India — Rajasthan
+  ['Ganganagar', 'Rajasthan', 'India', 29.92, 73.875, 232],
+  ['Bharatpur', 'Rajasthan', 'India', 27.217, 77.49, 229],
+  ['Pali', 'Rajasthan', 'India', 25.773, 73.323, 210],
+  ['Sujangarh', 'Rajasthan', 'India', 27.7, 74.467, 184],
+  ['Hanumangarh', 'Rajasthan', 'India', 29.582, 74.329, 156],
+  ['Tonk', 'Rajasthan', 'India', 26.166, 75.788, 151],
+  ['Kishangarh', 'Rajasthan', 'India', 26.59, 74.854, 132],
+  ['Beawar', 'Rajasthan', 'India', 26.101, 74.32, 131],
+  ['Gangapur', 'Rajasthan', 'India', 26.472, 76.717, 120],
+  ['Jhunjhunun', 'Rajasthan', 'India', 28.126, 75.398, 113],
+  ['Sawai Madhopur', 'Rajasthan', 'India', 26.023, 76.344, 109],
+  ['Chittaurgarh', 'Rajasthan', 'India', 24.89, 74.624, 107],
+  ['Churu', 'Rajasthan', 'India', 28.304, 74.967, 104],
+  ['Dhaulpur', 'Rajasthan', 'India', 26.693, 77.88, 102],
+  ['Bundi', 'Rajasthan', 'India', 25.439, 75.637, 99],
+  ['Nagaur', 'Rajasthan', 'India', 27.202, 73.734, 97],
+  ['Hindaun', 'Rajasthan', 'India', 26.734, 77.035, 96],
+  ['Makrana', 'Rajasthan', 'India', 27.044, 74.724, 94],
+  ['Banswara', 'Rajasthan', 'India', 23.541, 74.442, 94],
+  ['Barmer', 'Rajasthan', 'India', 25.746, 71.392, 89],
+  ['Baran', 'Rajasthan', 'India', 25.1, 76.517, 87],
+  ['Sardarshahr', 'Rajasthan', 'India', 28.441, 74.491, 87],
+  ['Karauli', 'Rajasthan', 'India', 26.498, 77.028, 74],
+  ['Dausa', 'Rajasthan', 'India', 26.89, 76.336, 73],
+  ['Balotra', 'Rajasthan', 'India', 25.832, 72.24, 68],
+  ['Ratangarh', 'Rajasthan', 'India', 28.081, 74.619, 67],
+  ['Rajsamand', 'Rajasthan', 'India', 25.071, 73.88, 63],
+  ['Suratgarh', 'Rajasthan', 'India', 29.322, 73.9, 63],
+  ['Ladnun', 'Rajasthan', 'India', 27.653, 74.4, 60],
+  ['Nawalgarh', 'Rajasthan', 'India', 27.852, 75.274, 58],
+  ['Nimbahera', 'Rajasthan', 'India', 24.622, 74.68, 58],
+  ['Kuchaman', 'Rajasthan', 'India', 27.147, 74.857, 57],
+  ['Bari', 'Rajasthan', 'India', 26.647, 77.616, 56],
+  ['Nokha', 'Rajasthan', 'India', 27.562, 73.471, 56],
+  ['Jhalawar', 'Rajasthan', 'India', 24.596, 76.165, 52],
+  ['Nasirabad', 'Rajasthan', 'India', 26.305, 74.734, 52],
+  ['Abu Road', 'Rajasthan', 'India', 24.48, 72.782, 50],
+  ['Didwana', 'Rajasthan', 'India', 27.401, 74.575, 50],
+  ['Jalor', 'Rajasthan', 'India', 25.346, 72.616, 50],
+  ['Rajgarh', 'Rajasthan', 'India', 28.642, 75.386, 50],
+  ['Lachhmangarh Sikar', 'Rajasthan', 'India', 27.823, 75.028, 48],
+  ['Sri Dungargarh', 'Rajasthan', 'India', 28.096, 74.009, 48],
+  ['Phalodi', 'Rajasthan', 'India', 27.131, 72.368, 47],
+  ['Nohar', 'Rajasthan', 'India', 29.183, 74.771, 46],
+  ['Dungarpur', 'Rajasthan', 'India', 23.843, 73.715, 45],
+  ['Merta', 'Rajasthan', 'India', 26.649, 74.034, 44],
+  ['Kotputli', 'Rajasthan', 'India', 27.702, 76.199, 44],
+  ['Dig', 'Rajasthan', 'India', 27.472, 77.326, 43],
+  ['Bhinmal', 'Rajasthan', 'India', 24.999, 72.271, 43],
+  ['Sojat', 'Rajasthan', 'India', 25.925, 73.666, 43],
+  ['Bilara', 'Rajasthan', 'India', 26.181, 73.706, 42],
+  ['Chidawa', 'Rajasthan', 'India', 28.239, 75.64, 41],
+  ['Nathdwara', 'Rajasthan', 'India', 24.938, 73.824, 39],
+  ['Sangaria', 'Rajasthan', 'India', 29.799, 74.467, 39],
+  ['Sirohi', 'Rajasthan', 'India', 24.888, 72.848, 39],
+  ['Kekri', 'Rajasthan', 'India', 25.971, 75.15, 38],
+  ['Bhadra', 'Rajasthan', 'India', 29.103, 75.171, 38],
+  ['Rawatbhata', 'Rajasthan', 'India', 24.93, 75.592, 37],
+  ['Pilibangan', 'Rajasthan', 'India', 29.45, 74.101, 37],
+  ['Bayana', 'Rajasthan', 'India', 26.908, 77.29, 36],
+  ['Ramganj Mandi', 'Rajasthan', 'India', 24.646, 75.943, 36],
+  ['Niwai', 'Rajasthan', 'India', 26.361, 75.918, 35],
+  ['Pipar', 'Rajasthan', 'India', 26.384, 73.544, 35],
+  ['Bhiwadi', 'Rajasthan', 'India', 28.21, 76.861, 34],
+  ['Kaman', 'Rajasthan', 'India', 27.658, 77.269, 34],
+  ['Anupgarh', 'Rajasthan', 'India', 29.191, 73.209, 33],
+  ['Shahpura', 'Rajasthan', 'India', 27.391, 75.96, 33],
+  ['Jhalrapatan', 'Rajasthan', 'India', 24.542, 76.172, 33],
+  ['Chaksu', 'Rajasthan', 'India', 26.605, 75.948, 33],
+  ['Bhadasar', 'Rajasthan', 'India', 28.315, 74.29, 33],
+  ['Neem ka Thana', 'Rajasthan', 'India', 27.74, 75.787, 33],
+  ['Lalsot', 'Rajasthan', 'India', 26.56, 76.329, 31],
+  ['Rawatsar', 'Rajasthan', 'India', 29.267, 74.403, 31],
+  ['Rajakhera', 'Rajasthan', 'India', 26.898, 78.171, 31],
+  ['Anta', 'Rajasthan', 'India', 25.15, 76.3, 31],
+  ['Sri Madhopur', 'Rajasthan', 'India', 27.466, 75.597, 30],
+  ['Udaipur', 'Rajasthan', 'India', 27.723, 75.472, 30],
+  ['Ramgarh', 'Rajasthan', 'India', 27.251, 75.179, 30],
+  ['Raisinghnagar', 'Rajasthan', 'India', 29.536, 73.449, 30],
+  ['Taranagar', 'Rajasthan', 'India', 28.669, 75.032, 29],
+  ['Shahpura', 'Rajasthan', 'India', 25.621, 74.925, 29],
+  ['Sanchor', 'Rajasthan', 'India', 24.754, 71.773, 29],
+  ['Manoharpur', 'Rajasthan', 'India', 27.298, 75.95, 29],
+  ['Malpura', 'Rajasthan', 'India', 26.284, 75.365, 29],
+  ['Lakheri', 'Rajasthan', 'India', 25.672, 76.177, 28],
+  ['Pilani', 'Rajasthan', 'India', 28.367, 75.604, 28],
+  ['Losal', 'Rajasthan', 'India', 27.4, 74.917, 28],
+  ['Rajgarh', 'Rajasthan', 'India', 27.237, 76.622, 27],
+  ['Sheoganj', 'Rajasthan', 'India', 25.139, 73.068, 27],
+  ['Gulabpura', 'Rajasthan', 'India', 25.904, 74.66, 26],
+  ['Behror', 'Rajasthan', 'India', 27.888, 76.281, 26],
+  ['Chhabra', 'Rajasthan', 'India', 24.665, 76.844, 26],
+  ['Sadri', 'Rajasthan', 'India', 25.186, 73.453, 26],
+  ['Ringas', 'Rajasthan', 'India', 27.364, 75.568, 25],
+  ['Abu', 'Rajasthan', 'India', 24.594, 72.718, 25],
+  ['Rajaldesar', 'Rajasthan', 'India', 28.028, 74.474, 24],
+  ['Mangrol', 'Rajasthan', 'India', 25.331, 76.51, 24],
+  ['Nagar', 'Rajasthan', 'India', 27.424, 77.099, 24],
+  ['Nadbai', 'Rajasthan', 'India', 27.223, 77.196, 24],
+  ['Mandal', 'Rajasthan', 'India', 25.441, 74.57, 23],
+  ['Keshorai Patan', 'Rajasthan', 'India', 25.293, 75.939, 23],
+  ['Basni', 'Rajasthan', 'India', 27.172, 73.645, 23],
+  ['Pindwara', 'Rajasthan', 'India', 24.797, 73.055, 23],
+  ['Khandela', 'Rajasthan', 'India', 27.605, 75.502, 23],
+  ['Sambhar', 'Rajasthan', 'India', 26.908, 75.191, 23],
+  ['Mahwah', 'Rajasthan', 'India', 27.046, 76.932, 23],
+  ['Bissau', 'Rajasthan', 'India', 28.247, 75.077, 23],
+  ['Todaraisingh', 'Rajasthan', 'India', 26.024, 75.482, 23],
+  ['Phulera', 'Rajasthan', 'India', 26.874, 75.242, 23],
+  ['Todabhim', 'Rajasthan', 'India', 26.917, 76.817, 23],
+  ['Baswa', 'Rajasthan', 'India', 27.15, 76.583, 23],
+  ['Siwana', 'Rajasthan', 'India', 25.652, 72.422, 22],
+  ['Kumher', 'Rajasthan', 'India', 27.317, 77.371, 22],
+  ['Tijara', 'Rajasthan', 'India', 27.934, 76.855, 22],
+  ['Kuchera', 'Rajasthan', 'India', 26.987, 73.971, 22],
+  ['Napasar', 'Rajasthan', 'India', 27.961, 73.559, 22],
+  ['Karanpur', 'Rajasthan', 'India', 29.84, 73.455, 22],
+  ['Mandalgarh', 'Rajasthan', 'India', 25.194, 75.072, 22],
+  ['Jaitaran', 'Rajasthan', 'India', 26.204, 73.937, 21],
+  ['Deoli', 'Rajasthan', 'India', 25.757, 75.38, 21],
+  ['Basi', 'Rajasthan', 'India', 26.831, 76.049, 21],
+  ['Pokaran', 'Rajasthan', 'India', 26.92, 71.916, 21],
+  ['Begun', 'Rajasthan', 'India', 24.983, 75, 21],
+  ['Nimaj', 'Rajasthan', 'India', 26.15, 74.001, 20],
+  ['Jahazpur', 'Rajasthan', 'India', 25.62, 75.276, 20],
+  ['Nawa', 'Rajasthan', 'India', 27.02, 75.002, 20],
+  ['Suket', 'Rajasthan', 'India', 24.646, 76.042, 20],
+  ['Sangod', 'Rajasthan', 'India', 24.927, 76.286, 20],
+  ['Surajgarh', 'Rajasthan', 'India', 28.31, 75.733, 20],
+  ['Aklera', 'Rajasthan', 'India', 24.413, 76.567, 20],
+  ['Kapren', 'Rajasthan', 'India', 25.405, 76.074, 20],
+  ['Bali', 'Rajasthan', 'India', 25.197, 73.291, 19],
+  ['Bhasawar', 'Rajasthan', 'India', 27.039, 77.048, 19],
+  ['Chhapar', 'Rajasthan', 'India', 27.819, 74.439, 19],
+  ['Padampur', 'Rajasthan', 'India', 29.709, 73.625, 18],
+  ['Wer', 'Rajasthan', 'India', 27.019, 77.176, 18],
+  ['Samdari', 'Rajasthan', 'India', 25.813, 72.579, 18],
+  ['Sarwar', 'Rajasthan', 'India', 26.063, 75.011, 18],
+  ['Gangapur', 'Rajasthan', 'India', 25.22, 74.26, 18],
+  ['Raipur', 'Rajasthan', 'India', 26.043, 74.024, 18],
+  ['Devgarh', 'Rajasthan', 'India', 25.525, 73.908, 18],
+  ['Mundwa', 'Rajasthan', 'India', 27.063, 73.823, 17],
+  ['Amet', 'Rajasthan', 'India', 25.306, 73.926, 17],
+  ['Chhoti Sadri', 'Rajasthan', 'India', 24.381, 74.701, 17],
+  ['Takhatgarh', 'Rajasthan', 'India', 25.322, 73.005, 17],
+  ['Khetri', 'Rajasthan', 'India', 28.001, 75.786, 17],
+  ['Naraina', 'Rajasthan', 'India', 26.791, 75.206, 17],
+  ['Bhindar', 'Rajasthan', 'India', 24.502, 74.186, 17],
+  ['Deshnoke', 'Rajasthan', 'India', 27.798, 73.343, 17],
+  ['Salumbar', 'Rajasthan', 'India', 24.135, 74.044, 17],
+  ['Nainwa', 'Rajasthan', 'India', 25.771, 75.85, 16],
+  ['Pushkar', 'Rajasthan', 'India', 26.49, 74.552, 16],
+  ['Bandikui', 'Rajasthan', 'India', 27.051, 76.573, 16],
+  ['Sunel', 'Rajasthan', 'India', 24.371, 75.957, 16],
+  ['Bagar', 'Rajasthan', 'India', 28.188, 75.5, 16],
+  ['Bari Sadri', 'Rajasthan', 'India', 24.413, 74.473, 16],
+  ['Parvatsar', 'Rajasthan', 'India', 26.886, 74.766, 15],
+  ['Asind', 'Rajasthan', 'India', 25.734, 74.333, 15],
+  // India — Tamil Nadu
+  ['Tiruppur', 'Tamil Nadu', 'India', 11.115, 77.355, 398],
+  ['Ambattur', 'Tamil Nadu', 'India', 13.098, 80.162, 341],
+  ['Avadi', 'Tamil Nadu', 'India', 13.115, 80.11, 250],
+  ['Tiruvottiyur', 'Tamil Nadu', 'India', 13.158, 80.302, 248],
+  ['Dindigul', 'Tamil Nadu', 'India', 10.369, 77.98, 201],
+  ['Tambaram', 'Tamil Nadu', 'India', 12.925, 80.127, 175],
+  ['Cuddalore', 'Tamil Nadu', 'India', 11.756, 79.767, 159],
+  ['Pallavaram', 'Tamil Nadu', 'India', 12.968, 80.15, 157],
+  ['Tiruvannamalai', 'Tamil Nadu', 'India', 12.227, 79.075, 138],
+  ['Rajapalaiyam', 'Tamil Nadu', 'India', 9.453, 77.553, 124],
+  ['Pudukkottai', 'Tamil Nadu', 'India', 10.381, 78.821, 112],
+  ['Ambur', 'Tamil Nadu', 'India', 12.792, 78.716, 110],
+  ['Hosur', 'Tamil Nadu', 'India', 12.736, 77.833, 104],
+  ['Villupuram', 'Tamil Nadu', 'India', 11.94, 79.492, 97],
+  ['Negapatam', 'Tamil Nadu', 'India', 10.764, 79.843, 94],
+  ['Gudiyatham', 'Tamil Nadu', 'India', 12.946, 78.874, 94],
+  ['Karaikkudi', 'Tamil Nadu', 'India', 10.066, 78.768, 92],
+  ['Valparai', 'Tamil Nadu', 'India', 10.327, 76.951, 90],
+  ['Kovilpatti', 'Tamil Nadu', 'India', 9.172, 77.87, 90],
+  ['Vaniyambadi', 'Tamil Nadu', 'India', 12.682, 78.62, 90],
+  ['Pollachi', 'Tamil Nadu', 'India', 10.658, 77.008, 88],
+  ['Tiruchengode', 'Tamil Nadu', 'India', 11.38, 77.894, 87],
+  ['Mayiladuthurai', 'Tamil Nadu', 'India', 11.104, 79.655, 87],
+  ['Paramagudi', 'Tamil Nadu', 'India', 9.546, 78.591, 86],
+  ['Aruppukkottai', 'Tamil Nadu', 'India', 9.51, 78.096, 85],
+  ['Arakkonam', 'Tamil Nadu', 'India', 13.084, 79.671, 79],
+  ['Kadayanallur', 'Tamil Nadu', 'India', 9.073, 77.342, 78],
+  ['Karur', 'Tamil Nadu', 'India', 10.958, 78.081, 77],
+  ['Bodinayakkanur', 'Tamil Nadu', 'India', 10.012, 77.35, 76],
+  ['Srivilliputhur', 'Tamil Nadu', 'India', 9.513, 77.634, 74],
+  ['Sivakasi', 'Tamil Nadu', 'India', 9.45, 77.798, 74],
+  ['Virudunagar', 'Tamil Nadu', 'India', 9.585, 77.958, 73],
+  ['Dharapuram', 'Tamil Nadu', 'India', 10.738, 77.532, 72],
+  ['Tindivanam', 'Tamil Nadu', 'India', 12.234, 79.656, 70],
+  ['Pattukkottai', 'Tamil Nadu', 'India', 10.424, 79.319, 68],
+  ['Mettupalayam', 'Tamil Nadu', 'India', 11.3, 76.935, 67],
+  ['Krishnagiri', 'Tamil Nadu', 'India', 12.519, 78.214, 66],
+  ['Palani', 'Tamil Nadu', 'India', 10.45, 77.521, 66],
+  ['Dharmapuri', 'Tamil Nadu', 'India', 12.128, 78.158, 66],
+  ['Chingleput', 'Tamil Nadu', 'India', 12.692, 79.977, 66],
+  ['Thenkasi', 'Tamil Nadu', 'India', 8.96, 77.315, 65],
+  ['Ramanathapuram', 'Tamil Nadu', 'India', 9.372, 78.831, 65],
+  ['Mannargudi', 'Tamil Nadu', 'India', 10.666, 79.451, 63],
+  ['Arni', 'Tamil Nadu', 'India', 12.668, 79.285, 63],
+  ['Puliyangudi', 'Tamil Nadu', 'India', 9.175, 77.398, 62],
+  ['Vriddhachalam', 'Tamil Nadu', 'India', 11.518, 79.324, 61],
+  ['Cumbum', 'Tamil Nadu', 'India', 9.736, 77.285, 61],
+  ['Thiruvarur', 'Tamil Nadu', 'India', 10.773, 79.637, 59],
+  ['Attur', 'Tamil Nadu', 'India', 11.594, 78.601, 59],
+  ['Chidambaram', 'Tamil Nadu', 'India', 11.399, 79.691, 59],
+  ['Udumalaippettai', 'Tamil Nadu', 'India', 10.588, 77.248, 59],
+  ['Gobichettipalayam', 'Tamil Nadu', 'India', 11.455, 77.442, 58],
+  ['Mettur', 'Tamil Nadu', 'India', 11.788, 77.801, 57],
+  ['Panruti', 'Tamil Nadu', 'India', 11.777, 79.553, 57],
+  ['Namakkal', 'Tamil Nadu', 'India', 11.221, 78.165, 56],
+  ['Tiruttangal', 'Tamil Nadu', 'India', 9.483, 77.833, 54],
+  ['Arcot', 'Tamil Nadu', 'India', 12.906, 79.319, 52],
+  ['Idappadi', 'Tamil Nadu', 'India', 11.586, 77.839, 52],
+  ['Rasipuram', 'Tamil Nadu', 'India', 11.46, 78.186, 49],
+  ['Poonamalle', 'Tamil Nadu', 'India', 13.049, 80.115, 49],
+  ['Tiruvallur', 'Tamil Nadu', 'India', 13.144, 79.909, 48],
+  ['Gudalur', 'Tamil Nadu', 'India', 9.678, 77.25, 47],
+  ['Nellikkuppam', 'Tamil Nadu', 'India', 11.776, 79.67, 44],
+  ['Saint Thomas Mount', 'Tamil Nadu', 'India', 13.003, 80.196, 43],
+  ['Peranampattu', 'Tamil Nadu', 'India', 12.934, 78.719, 43],
+  ['Sivaganga', 'Tamil Nadu', 'India', 9.847, 78.484, 43],
+  ['Tirupparangunram', 'Tamil Nadu', 'India', 9.882, 78.073, 43],
+  ['Devakottai', 'Tamil Nadu', 'India', 9.947, 78.823, 42],
+  ['Jalarpet', 'Tamil Nadu', 'India', 12.57, 78.573, 41],
+  ['Kallakkurichchi', 'Tamil Nadu', 'India', 11.74, 78.959, 40],
+  ['Periyakulam', 'Tamil Nadu', 'India', 10.123, 77.544, 40],
+  ['Rameswaram', 'Tamil Nadu', 'India', 9.289, 79.313, 40],
+  ['Thiruthani', 'Tamil Nadu', 'India', 13.176, 79.616, 40],
+  ['Bhavani', 'Tamil Nadu', 'India', 11.446, 77.682, 40],
+  ['Chinnamanur', 'Tamil Nadu', 'India', 9.84, 77.381, 39],
+  ['Manapparai', 'Tamil Nadu', 'India', 10.608, 78.426, 37],
+  ['Cheyyar', 'Tamil Nadu', 'India', 12.661, 79.543, 37],
+  ['Kayalpattinam', 'Tamil Nadu', 'India', 8.571, 78.12, 36],
+  ['Arantangi', 'Tamil Nadu', 'India', 10.172, 78.991, 36],
+  ['Kodaikanal', 'Tamil Nadu', 'India', 10.239, 77.489, 35],
+  ['Kattivakkam', 'Tamil Nadu', 'India', 13.217, 80.317, 35],
+  ['Sathyamangalam', 'Tamil Nadu', 'India', 11.505, 77.238, 34],
+  ['Melur', 'Tamil Nadu', 'India', 10.032, 78.339, 34],
+  ['Sirkazhi', 'Tamil Nadu', 'India', 11.237, 79.736, 33],
+  ['Porur', 'Tamil Nadu', 'India', 13.036, 80.158, 33],
+  ['Manali', 'Tamil Nadu', 'India', 13.167, 80.267, 32],
+  ['Vedaraniyam', 'Tamil Nadu', 'India', 10.372, 79.851, 32],
+  ['Jayamkondacholapuram', 'Tamil Nadu', 'India', 11.213, 79.364, 32],
+  ['Turaiyur', 'Tamil Nadu', 'India', 11.15, 78.599, 32],
+  ['Ambasamudram', 'Tamil Nadu', 'India', 8.711, 77.452, 32],
+  ['Palladam', 'Tamil Nadu', 'India', 10.992, 77.286, 32],
+  ['Sattur', 'Tamil Nadu', 'India', 9.356, 77.925, 32],
+  ['Vandavasi', 'Tamil Nadu', 'India', 12.504, 79.606, 32],
+  ['Kangayam', 'Tamil Nadu', 'India', 11.006, 77.561, 31],
+  ['Singanallur', 'Tamil Nadu', 'India', 10.999, 77.032, 31],
+  ['Karamadai', 'Tamil Nadu', 'India', 11.241, 76.96, 31],
+  ['Guduvancheri', 'Tamil Nadu', 'India', 12.845, 80.061, 31],
+  ['Perambalur', 'Tamil Nadu', 'India', 11.233, 78.883, 31],
+  ['Usilampatti', 'Tamil Nadu', 'India', 9.969, 77.786, 31],
+  ['Keelakarai', 'Tamil Nadu', 'India', 9.232, 78.785, 30],
+  ['Walajapet', 'Tamil Nadu', 'India', 12.925, 79.366, 30],
+  ['Musiri', 'Tamil Nadu', 'India', 10.953, 78.444, 30],
+  ['Tiruchchendur', 'Tamil Nadu', 'India', 8.497, 78.119, 30],
+  ['Madurantakam', 'Tamil Nadu', 'India', 12.512, 79.885, 30],
+  ['Madukkarai', 'Tamil Nadu', 'India', 10.906, 76.963, 29],
+  ['Ariyalur', 'Tamil Nadu', 'India', 11.138, 79.076, 29],
+  ['Surandai', 'Tamil Nadu', 'India', 8.976, 77.419, 29],
+  ['Kotagiri', 'Tamil Nadu', 'India', 11.421, 76.86, 29],
+  ['Sholinghur', 'Tamil Nadu', 'India', 13.118, 79.42, 29],
+  ['Alangulam', 'Tamil Nadu', 'India', 8.864, 77.499, 29],
+  ['Tirukkoyilur', 'Tamil Nadu', 'India', 11.966, 79.203, 28],
+  ['Adirampattinam', 'Tamil Nadu', 'India', 10.341, 79.379, 28],
+  ['Kalakkadu', 'Tamil Nadu', 'India', 8.514, 77.549, 28],
+  ['Manamadurai', 'Tamil Nadu', 'India', 9.673, 78.471, 27],
+  ['Kulittalai', 'Tamil Nadu', 'India', 10.935, 78.413, 27],
+  ['Pallippatti', 'Tamil Nadu', 'India', 11.94, 78.402, 26],
+  ['Polur', 'Tamil Nadu', 'India', 12.512, 79.124, 26],
+  ['Sulur', 'Tamil Nadu', 'India', 11.024, 77.126, 26],
+  ['Kallidaikurichi', 'Tamil Nadu', 'India', 8.686, 77.466, 26],
+  ['Arumuganeri', 'Tamil Nadu', 'India', 8.569, 78.091, 25],
+  ['Periyanayakkanpalaiyam', 'Tamil Nadu', 'India', 11.153, 76.952, 25],
+  ['Ponneri', 'Tamil Nadu', 'India', 13.339, 80.195, 25],
+  ['Vadakku Valliyur', 'Tamil Nadu', 'India', 8.383, 77.612, 25],
+  ['Minjur', 'Tamil Nadu', 'India', 13.28, 80.258, 25],
+  ['Andippatti', 'Tamil Nadu', 'India', 9.998, 77.621, 24],
+  ['Avinashi', 'Tamil Nadu', 'India', 11.193, 77.269, 24],
+  ['Uttiramerur', 'Tamil Nadu', 'India', 12.614, 79.757, 24],
+  ['Ayakudi', 'Tamil Nadu', 'India', 10.45, 77.552, 24],
+  ['Chettipalaiyam', 'Tamil Nadu', 'India', 10.912, 77.037, 24],
+  ['Chengam', 'Tamil Nadu', 'India', 12.309, 78.791, 24],
+  ['Taramangalam', 'Tamil Nadu', 'India', 11.694, 77.97, 24],
+  ['Injambakkam', 'Tamil Nadu', 'India', 12.916, 80.249, 23],
+  ['Koothanallur', 'Tamil Nadu', 'India', 10.72, 79.516, 23],
+  ['Colachel', 'Tamil Nadu', 'India', 8.179, 77.258, 23],
+  ['Kurinjippadi', 'Tamil Nadu', 'India', 11.55, 79.591, 23],
+  ['Uttamapalaiyam', 'Tamil Nadu', 'India', 9.807, 77.327, 23],
+  ['Vattalkundu', 'Tamil Nadu', 'India', 10.161, 77.759, 23],
+  ['Tiruppuvanam', 'Tamil Nadu', 'India', 9.826, 78.258, 23],
+  ['Vadippatti', 'Tamil Nadu', 'India', 10.085, 77.961, 22],
+  ['Tinnanur', 'Tamil Nadu', 'India', 13.114, 80.027, 22],
+  ['Namagiripettai', 'Tamil Nadu', 'India', 11.455, 78.268, 22],
+  ['Nattam', 'Tamil Nadu', 'India', 10.228, 78.23, 22],
+  ['Nilakottai', 'Tamil Nadu', 'India', 10.165, 77.85, 22],
+  ['Peravurani', 'Tamil Nadu', 'India', 10.29, 79.202, 22],
+  ['Muttupet', 'Tamil Nadu', 'India', 10.395, 79.494, 22],
+  ['Gingee', 'Tamil Nadu', 'India', 12.253, 79.417, 22],
+  ['Pallikondai', 'Tamil Nadu', 'India', 12.905, 78.943, 21],
+  ['Lalgudi', 'Tamil Nadu', 'India', 10.874, 78.819, 21],
+  ['Tharangambadi', 'Tamil Nadu', 'India', 11.028, 79.854, 21],
+  ['Sivagiri', 'Tamil Nadu', 'India', 9.345, 77.429, 21],
+  ['Kil Bhuvanagiri', 'Tamil Nadu', 'India', 11.442, 79.648, 21],
+  ['Kuzhithurai', 'Tamil Nadu', 'India', 8.318, 77.192, 21],
+  ['Kanniyakumari', 'Tamil Nadu', 'India', 8.09, 77.538, 21],
+  ['Anthiyur', 'Tamil Nadu', 'India', 11.575, 77.59, 20],
+  ['Harur', 'Tamil Nadu', 'India', 12.053, 78.48, 20],
+  ['Tisaiyanvilai', 'Tamil Nadu', 'India', 8.337, 77.868, 20],
+  ['Pallappatti', 'Tamil Nadu', 'India', 10.721, 77.88, 20],
+  ['Wellington', 'Tamil Nadu', 'India', 11.366, 76.784, 20],
+  ['Padmanabhapuram', 'Tamil Nadu', 'India', 8.245, 77.326, 20],
+  ['Chinna Salem', 'Tamil Nadu', 'India', 11.634, 78.874, 20],
+  ['Sirumugai', 'Tamil Nadu', 'India', 11.321, 77.005, 20],
+  ['Annur', 'Tamil Nadu', 'India', 11.236, 77.105, 20],
+  ['Marakkanam', 'Tamil Nadu', 'India', 12.192, 79.942, 20],
+  ['Vadakku Viravanallur', 'Tamil Nadu', 'India', 8.698, 77.519, 20],
+  ['Palakkodu', 'Tamil Nadu', 'India', 12.307, 78.07, 20],
+  ['Denkanikota', 'Tamil Nadu', 'India', 12.53, 77.789, 19],
+  ['Irugur', 'Tamil Nadu', 'India', 11.018, 77.063, 19],
+  ['Vasudevanallur', 'Tamil Nadu', 'India', 9.242, 77.412, 19],
+  ['Udangudi', 'Tamil Nadu', 'India', 8.429, 78.03, 19],
+  ['Velur', 'Tamil Nadu', 'India', 11.108, 78.001, 19],
+  ['Mallasamudram', 'Tamil Nadu', 'India', 11.493, 78.031, 19],
+  ['Naravarikuppam', 'Tamil Nadu', 'India', 13.191, 80.185, 19],
+  ['Vettaikkaranpudur', 'Tamil Nadu', 'India', 10.562, 76.913, 18],
+  ['V.S.K.Valasai (Dindigul-Dist.)', 'Tamil Nadu', 'India', 10.315, 78.151, 18],
+  ['Pennadam', 'Tamil Nadu', 'India', 11.404, 79.242, 18],
+  ['Perundurai', 'Tamil Nadu', 'India', 11.276, 77.588, 17],
+  ['Alangayam', 'Tamil Nadu', 'India', 12.622, 78.752, 17],
+  ['Sriperumbudur', 'Tamil Nadu', 'India', 12.968, 79.942, 17],
+  ['Madambakkam', 'Tamil Nadu', 'India', 12.852, 80.047, 17],
+  ['Papanasam', 'Tamil Nadu', 'India', 10.927, 79.271, 17],
+  ['Sivagiri', 'Tamil Nadu', 'India', 11.12, 77.788, 17],
+  ['Gummidipundi', 'Tamil Nadu', 'India', 13.408, 80.109, 17],
+  ['Tondi', 'Tamil Nadu', 'India', 9.742, 79.018, 16],
+  ['Katpadi', 'Tamil Nadu', 'India', 12.97, 79.146, 16],
+  ['Madipakkam', 'Tamil Nadu', 'India', 12.962, 80.199, 16],
+  ['Chennimalai', 'Tamil Nadu', 'India', 11.164, 77.604, 16],
+  ['Anamalais', 'Tamil Nadu', 'India', 10.583, 76.934, 16],
+  ['Nambiyur', 'Tamil Nadu', 'India', 11.358, 77.321, 16],
+  ['Vadamadurai', 'Tamil Nadu', 'India', 10.441, 78.098, 16],
+  ['Pennagaram', 'Tamil Nadu', 'India', 12.134, 77.895, 16],
+  ['Neelankarai', 'Tamil Nadu', 'India', 12.95, 80.259, 16],
+  ['Srivaikuntam', 'Tamil Nadu', 'India', 8.629, 77.913, 16],
+  ['Madukkur', 'Tamil Nadu', 'India', 10.481, 79.399, 16],
+  ['Kalugumalai', 'Tamil Nadu', 'India', 9.149, 77.706, 15],
+  ['Mandapam', 'Tamil Nadu', 'India', 9.276, 79.124, 15],
+  ['Punjai Puliyampatti', 'Tamil Nadu', 'India', 11.352, 77.167, 15],
+  // India — Telangana
+  ['Ramgundam', 'Telangana', 'India', 18.801, 79.452, 452],
+  ['Kukatpalli', 'Telangana', 'India', 17.485, 78.414, 342],
+  ['Lal Bahadur Nagar', 'Telangana', 'India', 17.348, 78.558, 262],
+  ['Ramagundam', 'Telangana', 'India', 18.755, 79.474, 235],
+  ['Quthbullapur', 'Telangana', 'India', 17.501, 78.458, 226],
+  ['Serilingampalle', 'Telangana', 'India', 17.493, 78.302, 151],
+  ['Malkajgiri', 'Telangana', 'India', 17.448, 78.526, 150],
+  ['Mahbubnagar', 'Telangana', 'India', 16.744, 77.986, 136],
+  ['Nalgonda', 'Telangana', 'India', 17.054, 79.267, 122],
+  ['Adilabad', 'Telangana', 'India', 19.672, 78.536, 119],
+  ['Uppal Kalan', 'Telangana', 'India', 17.406, 78.559, 118],
+  ['Suriapet', 'Telangana', 'India', 17.141, 79.62, 112],
+  ['Mirialguda', 'Telangana', 'India', 16.872, 79.562, 101],
+  ['Jagtial', 'Telangana', 'India', 18.795, 78.917, 99],
+  ['Nirmal', 'Telangana', 'India', 19.097, 78.344, 81],
+  ['Kottagudem', 'Telangana', 'India', 17.551, 80.618, 79],
+  ['Mancheral', 'Telangana', 'India', 18.871, 79.429, 78],
+  ['Paloncha', 'Telangana', 'India', 17.602, 80.705, 75],
+  ['Bodhan', 'Telangana', 'India', 18.662, 77.886, 74],
+  ['Sirsilla', 'Telangana', 'India', 18.389, 78.81, 71],
+  ['Kamareddi', 'Telangana', 'India', 18.32, 78.342, 71],
+  ['Palwancha', 'Telangana', 'India', 17.582, 80.677, 69],
+  ['Bellampalli', 'Telangana', 'India', 19.056, 79.493, 67],
+  ['Mandamarri', 'Telangana', 'India', 18.965, 79.475, 66],
+  ['Siddipet', 'Telangana', 'India', 18.105, 78.849, 65],
+  ['Tandur', 'Telangana', 'India', 17.248, 77.577, 63],
+  ['Koratla', 'Telangana', 'India', 18.822, 78.712, 60],
+  ['Sangareddi', 'Telangana', 'India', 17.625, 78.087, 59],
+  ['Kodar', 'Telangana', 'India', 16.998, 79.966, 59],
+  ['Gadwal', 'Telangana', 'India', 16.235, 77.796, 56],
+  ['Wanparti', 'Telangana', 'India', 16.367, 78.069, 55],
+  ['Gaddi Annaram', 'Telangana', 'India', 17.367, 78.524, 54],
+  ['Bhongir', 'Telangana', 'India', 17.515, 78.886, 50],
+  ['Jangaon', 'Telangana', 'India', 17.726, 79.152, 48],
+  ['Patancheru', 'Telangana', 'India', 17.533, 78.264, 47],
+  ['Zahirabad', 'Telangana', 'India', 17.681, 77.607, 47],
+  ['Bhaisa', 'Telangana', 'India', 19.113, 77.963, 46],
+  ['Bhadrachalam', 'Telangana', 'India', 17.668, 80.889, 46],
+  ['Medak', 'Telangana', 'India', 18.045, 78.261, 44],
+  ['Yellandu', 'Telangana', 'India', 17.591, 80.321, 44],
+  ['Vikarabad', 'Telangana', 'India', 17.338, 77.904, 43],
+  ['Kyathampalle', 'Telangana', 'India', 19.668, 78.529, 42],
+  ['Sathupalli', 'Telangana', 'India', 17.25, 80.869, 40],
+  ['Farrukhnagar', 'Telangana', 'India', 17.078, 78.203, 40],
+  ['Narayanpet', 'Telangana', 'India', 16.748, 77.495, 39],
+  ['Mahbubabad', 'Telangana', 'India', 17.597, 80.002, 38],
+  ['Sadaseopet', 'Telangana', 'India', 17.619, 77.953, 37],
+  ['Peddapalli', 'Telangana', 'India', 18.614, 79.374, 34],
+  ['Manuguru', 'Telangana', 'India', 17.93, 80.827, 33],
+  ['Devarkonda', 'Telangana', 'India', 16.692, 78.921, 30],
+  ['Nagar Karnul', 'Telangana', 'India', 16.482, 78.325, 29],
+  ['Andol', 'Telangana', 'India', 17.815, 78.077, 25],
+  ['Singapur', 'Telangana', 'India', 17.47, 78.126, 24],
+  ['Vemalwada', 'Telangana', 'India', 18.465, 78.869, 23],
+  ['Banswada', 'Telangana', 'India', 18.377, 77.88, 23],
+  ['Asifabad', 'Telangana', 'India', 19.359, 79.284, 21],
+  ['Dasnapur', 'Telangana', 'India', 19.654, 78.512, 20],
+  ['Sriramnagar', 'Telangana', 'India', 17.267, 78.255, 20],
+  ['Ghatkesar', 'Telangana', 'India', 17.451, 78.684, 19],
+  ['Manthani', 'Telangana', 'India', 18.651, 79.665, 16],
+  ['Naspur', 'Telangana', 'India', 18.846, 79.462, 15],
+  ['Dornakal', 'Telangana', 'India', 17.445, 80.149, 15],
+  // India — Tripura
+  ['Dharmanagar', 'Tripura', 'India', 24.367, 92.167, 33],
+  ['Udaipur', 'Tripura', 'India', 23.533, 91.483, 23],
+  ['Kailashahar', 'Tripura', 'India', 24.332, 92.004, 22],
+  ['Khowai', 'Tripura', 'India', 24.08, 91.6, 20],
+  ['Barjala', 'Tripura', 'India', 23.618, 91.356, 18],
+  ['Belonia', 'Tripura', 'India', 23.252, 91.454, 17],
+  // India — Uttar Pradesh
+  ['Muzaffarnagar', 'Uttar Pradesh', 'India', 29.471, 77.703, 350],
+  ['Greater Noida', 'Uttar Pradesh', 'India', 28.496, 77.536, 294],
+  ['Mau', 'Uttar Pradesh', 'India', 25.942, 83.561, 246],
+  ['Hapur', 'Uttar Pradesh', 'India', 28.73, 77.781, 243],
+  ['Farrukhabad', 'Uttar Pradesh', 'India', 27.391, 79.579, 241],
+  ['Sambhal', 'Uttar Pradesh', 'India', 28.585, 78.57, 196],
+  ['Raebareli', 'Uttar Pradesh', 'India', 26.231, 81.233, 186],
+  ['Bahraigh', 'Uttar Pradesh', 'India', 27.574, 81.595, 182],
+  ['Amroha', 'Uttar Pradesh', 'India', 28.903, 78.47, 176],
+  ['Jaunpur', 'Uttar Pradesh', 'India', 25.754, 82.687, 170],
+  ['Loni', 'Uttar Pradesh', 'India', 28.751, 77.29, 165],
+  ['Sitapur', 'Uttar Pradesh', 'India', 27.562, 80.683, 164],
+  ['Unnao', 'Uttar Pradesh', 'India', 26.547, 80.488, 162],
+  ['Budaun', 'Uttar Pradesh', 'India', 28.038, 79.127, 162],
+  ['Orai', 'Uttar Pradesh', 'India', 25.99, 79.453, 158],
+  ['Banda', 'Uttar Pradesh', 'India', 25.478, 80.335, 152],
+  ['Lakhimpur', 'Uttar Pradesh', 'India', 27.948, 80.779, 140],
+  ['Gonda City', 'Uttar Pradesh', 'India', 27.132, 81.953, 134],
+  ['Pilibhit', 'Uttar Pradesh', 'India', 28.631, 79.804, 131],
+  ['Deoria', 'Uttar Pradesh', 'India', 26.502, 83.779, 130],
+  ['Hathras', 'Uttar Pradesh', 'India', 27.596, 78.052, 127],
+  ['Lalitpur', 'Uttar Pradesh', 'India', 24.69, 78.419, 126],
+  ['Hardoi', 'Uttar Pradesh', 'India', 27.395, 80.132, 123],
+  ['Basti', 'Uttar Pradesh', 'India', 26.788, 82.716, 115],
+  ['Chanduasi', 'Uttar Pradesh', 'India', 28.452, 78.783, 113],
+  ['Khurja', 'Uttar Pradesh', 'India', 28.254, 77.855, 106],
+  ['Ghazipur', 'Uttar Pradesh', 'India', 25.583, 83.585, 103],
+  ['Shikohabad', 'Uttar Pradesh', 'India', 27.108, 78.587, 100],
+  ['Kasganj', 'Uttar Pradesh', 'India', 27.809, 78.646, 99],
+  ['Mughal Sarai', 'Uttar Pradesh', 'India', 25.283, 83.12, 98],
+  ['Shamli', 'Uttar Pradesh', 'India', 29.45, 77.31, 98],
+  ['Mainpuri', 'Uttar Pradesh', 'India', 27.229, 79.029, 95],
+  ['Baraut', 'Uttar Pradesh', 'India', 29.102, 77.263, 94],
+  ['Muradnagar', 'Uttar Pradesh', 'India', 28.781, 77.499, 89],
+  ['Mahoba', 'Uttar Pradesh', 'India', 25.291, 79.875, 89],
+  ['Deoband', 'Uttar Pradesh', 'India', 29.695, 77.68, 88],
+  ['Tanda', 'Uttar Pradesh', 'India', 26.55, 82.658, 88],
+  ['Bijnor', 'Uttar Pradesh', 'India', 29.373, 78.136, 85],
+  ['Najibabad', 'Uttar Pradesh', 'India', 29.612, 78.343, 84],
+  ['Kairana', 'Uttar Pradesh', 'India', 29.395, 77.205, 80],
+  ['Nawabganj', 'Uttar Pradesh', 'India', 26.931, 81.198, 79],
+  ['Bhadohi', 'Uttar Pradesh', 'India', 25.395, 82.57, 79],
+  ['Balrampur', 'Uttar Pradesh', 'India', 27.429, 82.185, 77],
+  ['Mawana', 'Uttar Pradesh', 'India', 29.103, 77.922, 77],
+  ['Kannauj', 'Uttar Pradesh', 'India', 27.055, 79.919, 77],
+  ['Nagina', 'Uttar Pradesh', 'India', 29.444, 78.436, 77],
+  ['Pilkhua', 'Uttar Pradesh', 'India', 28.713, 77.656, 74],
+  ['Shahabad', 'Uttar Pradesh', 'India', 27.643, 79.94, 74],
+  ['Chandpur', 'Uttar Pradesh', 'India', 29.135, 78.272, 74],
+  ['Sikandarabad', 'Uttar Pradesh', 'India', 28.452, 77.7, 73],
+  ['Faridpur', 'Uttar Pradesh', 'India', 28.21, 79.541, 72],
+  ['Dadri', 'Uttar Pradesh', 'India', 28.553, 77.554, 71],
+  ['Auraiya', 'Uttar Pradesh', 'India', 26.465, 79.509, 71],
+  ['Bisalpur', 'Uttar Pradesh', 'India', 28.293, 79.805, 68],
+  ['Khatauli', 'Uttar Pradesh', 'India', 29.278, 77.733, 65],
+  ['Baheri', 'Uttar Pradesh', 'India', 28.774, 79.497, 64],
+  ['Renukut', 'Uttar Pradesh', 'India', 24.216, 83.036, 62],
+  ['Rath', 'Uttar Pradesh', 'India', 25.595, 79.567, 62],
+  ['Sahaswan', 'Uttar Pradesh', 'India', 28.072, 78.751, 61],
+  ['Kiratpur', 'Uttar Pradesh', 'India', 29.507, 78.206, 60],
+  ['Vrindavan', 'Uttar Pradesh', 'India', 27.581, 77.697, 60],
+  ['Gangoh', 'Uttar Pradesh', 'India', 29.78, 77.263, 60],
+  ['Gola Gokarannath', 'Uttar Pradesh', 'India', 28.078, 80.471, 59],
+  ['Hasanpur', 'Uttar Pradesh', 'India', 28.722, 78.284, 57],
+  ['Jahangirabad', 'Uttar Pradesh', 'India', 28.405, 78.106, 57],
+  ['Sherkot', 'Uttar Pradesh', 'India', 29.327, 78.574, 57],
+  ['Chhibramau', 'Uttar Pradesh', 'India', 27.149, 79.501, 57],
+  ['Tilhar', 'Uttar Pradesh', 'India', 27.963, 79.738, 57],
+  ['Ujhani', 'Uttar Pradesh', 'India', 28.003, 79.008, 56],
+  ['Obra', 'Uttar Pradesh', 'India', 24.419, 82.988, 56],
+  ['Laharpur', 'Uttar Pradesh', 'India', 27.708, 80.903, 56],
+  ['Jalaun', 'Uttar Pradesh', 'India', 26.145, 79.337, 55],
+  ['Sandila', 'Uttar Pradesh', 'India', 27.07, 80.515, 53],
+  ['Konch', 'Uttar Pradesh', 'India', 25.995, 79.151, 53],
+  ['Biswan', 'Uttar Pradesh', 'India', 27.496, 80.996, 53],
+  ['Kosi', 'Uttar Pradesh', 'India', 27.794, 77.437, 52],
+  ['Tundla', 'Uttar Pradesh', 'India', 27.215, 78.237, 51],
+  ['Gajraula', 'Uttar Pradesh', 'India', 28.846, 78.24, 50],
+  ['Aonla', 'Uttar Pradesh', 'India', 28.274, 79.165, 50],
+  ['Dhampur', 'Uttar Pradesh', 'India', 29.309, 78.511, 50],
+  ['Sardhana', 'Uttar Pradesh', 'India', 29.146, 77.614, 50],
+  ['Nihtaur', 'Uttar Pradesh', 'India', 29.324, 78.387, 48],
+  ['Atrauli', 'Uttar Pradesh', 'India', 28.03, 78.286, 48],
+  ['Padrauna', 'Uttar Pradesh', 'India', 26.904, 83.981, 47],
+  ['Gulaothi', 'Uttar Pradesh', 'India', 28.589, 77.793, 47],
+  ['Seohara', 'Uttar Pradesh', 'India', 29.209, 78.588, 47],
+  ['Ganj Dundwara', 'Uttar Pradesh', 'India', 27.733, 78.941, 46],
+  ['Nanpara', 'Uttar Pradesh', 'India', 27.865, 81.5, 46],
+  ['Atarra', 'Uttar Pradesh', 'India', 25.286, 80.572, 46],
+  ['Mahmudabad', 'Uttar Pradesh', 'India', 27.292, 81.118, 46],
+  ['Khalilabad', 'Uttar Pradesh', 'India', 26.773, 83.072, 45],
+  ['Tanda', 'Uttar Pradesh', 'India', 28.976, 78.942, 45],
+  ['Kalpi', 'Uttar Pradesh', 'India', 26.117, 79.733, 44],
+  ['Ramnagar', 'Uttar Pradesh', 'India', 25.269, 83.03, 44],
+  ['Kandhla', 'Uttar Pradesh', 'India', 29.321, 77.271, 43],
+  ['Khekra', 'Uttar Pradesh', 'India', 28.866, 77.284, 42],
+  ['Sikandra Rao', 'Uttar Pradesh', 'India', 27.689, 78.38, 42],
+  ['Khairabad', 'Uttar Pradesh', 'India', 27.527, 80.755, 42],
+  ['Baghpat', 'Uttar Pradesh', 'India', 28.945, 77.219, 42],
+  ['Bharthana', 'Uttar Pradesh', 'India', 26.752, 79.222, 41],
+  ['Ghatampur', 'Uttar Pradesh', 'India', 26.153, 80.168, 40],
+  ['Gursahaiganj', 'Uttar Pradesh', 'India', 27.115, 79.732, 40],
+  ['Puranpur', 'Uttar Pradesh', 'India', 28.513, 80.148, 40],
+  ['Bansi', 'Uttar Pradesh', 'India', 27.177, 82.934, 40],
+  ['Bilaspur', 'Uttar Pradesh', 'India', 28.887, 79.27, 40],
+  ['Thakurdwara', 'Uttar Pradesh', 'India', 29.192, 78.861, 40],
+  ['Ghosi', 'Uttar Pradesh', 'India', 26.106, 83.539, 39],
+  ['Nurpur', 'Uttar Pradesh', 'India', 29.15, 78.408, 39],
+  ['Jalesar', 'Uttar Pradesh', 'India', 27.473, 78.303, 39],
+  ['Palia Kalan', 'Uttar Pradesh', 'India', 28.432, 80.581, 39],
+  ['Dibai', 'Uttar Pradesh', 'India', 28.208, 78.262, 38],
+  ['Robertsganj', 'Uttar Pradesh', 'India', 24.689, 83.068, 38],
+  ['Maudaha', 'Uttar Pradesh', 'India', 25.683, 80.114, 38],
+  ['Bangarmau', 'Uttar Pradesh', 'India', 26.891, 80.211, 37],
+  ['Garhmuktesar', 'Uttar Pradesh', 'India', 28.787, 78.102, 37],
+  ['Akbarpur', 'Uttar Pradesh', 'India', 26.43, 82.534, 37],
+  ['Chunar', 'Uttar Pradesh', 'India', 25.128, 82.882, 36],
+  ['Sadabad', 'Uttar Pradesh', 'India', 27.438, 78.038, 36],
+  ['Bindki', 'Uttar Pradesh', 'India', 26.036, 80.576, 36],
+  ['Kakrala', 'Uttar Pradesh', 'India', 27.893, 79.195, 36],
+  ['Babina', 'Uttar Pradesh', 'India', 25.239, 78.47, 36],
+  ['Budhana', 'Uttar Pradesh', 'India', 29.288, 77.475, 35],
+  ['Shahabad', 'Uttar Pradesh', 'India', 28.567, 79.01, 35],
+  ['Shikarpur', 'Uttar Pradesh', 'India', 28.281, 78.014, 35],
+  ['Nawabganj', 'Uttar Pradesh', 'India', 28.541, 79.635, 34],
+  ['Fatehpur', 'Uttar Pradesh', 'India', 27.173, 81.211, 34],
+  ['Bahjoi', 'Uttar Pradesh', 'India', 28.395, 78.627, 34],
+  ['Kopaganj', 'Uttar Pradesh', 'India', 26.019, 83.566, 34],
+  ['Thana Bhawan', 'Uttar Pradesh', 'India', 29.586, 77.418, 33],
+  ['Zaidpur', 'Uttar Pradesh', 'India', 26.831, 81.329, 33],
+  ['Muhammadabad', 'Uttar Pradesh', 'India', 25.619, 83.756, 33],
+  ['Kaimganj', 'Uttar Pradesh', 'India', 27.554, 79.335, 33],
+  ['Nautanwa', 'Uttar Pradesh', 'India', 27.428, 83.418, 33],
+  ['Bisauli', 'Uttar Pradesh', 'India', 28.308, 78.937, 32],
+  ['Zamania', 'Uttar Pradesh', 'India', 25.42, 83.558, 32],
+  ['Rasra', 'Uttar Pradesh', 'India', 25.858, 83.855, 32],
+  ['Jalalpur', 'Uttar Pradesh', 'India', 26.312, 82.739, 31],
+  ['Jagdishpur', 'Uttar Pradesh', 'India', 26.75, 80.545, 31],
+  ['Shamsabad', 'Uttar Pradesh', 'India', 27.017, 78.124, 31],
+  ['Rudarpur', 'Uttar Pradesh', 'India', 26.445, 83.613, 31],
+  ['Maharaganj', 'Uttar Pradesh', 'India', 27.145, 83.562, 31],
+  ['Pihani', 'Uttar Pradesh', 'India', 27.62, 80.203, 30],
+  ['Khair', 'Uttar Pradesh', 'India', 27.942, 77.842, 30],
+  ['Fatehpur Sikri', 'Uttar Pradesh', 'India', 27.094, 77.66, 30],
+  ['Bhongaon', 'Uttar Pradesh', 'India', 27.255, 79.181, 30],
+  ['Bilari', 'Uttar Pradesh', 'India', 28.621, 78.804, 30],
+  ['Miranpur Katra', 'Uttar Pradesh', 'India', 28.03, 79.668, 30],
+  ['Jewar', 'Uttar Pradesh', 'India', 28.122, 77.557, 29],
+  ['Bachhraon', 'Uttar Pradesh', 'India', 28.927, 78.235, 29],
+  ['Islamnagar', 'Uttar Pradesh', 'India', 28.329, 78.725, 29],
+  ['Sirsaganj', 'Uttar Pradesh', 'India', 27.057, 78.687, 29],
+  ['Suar', 'Uttar Pradesh', 'India', 29.028, 79.057, 29],
+  ['Soron', 'Uttar Pradesh', 'India', 27.891, 78.746, 29],
+  ['Milak', 'Uttar Pradesh', 'India', 28.61, 79.17, 29],
+  ['Utraula', 'Uttar Pradesh', 'India', 27.319, 82.419, 28],
+  ['Dhanaura', 'Uttar Pradesh', 'India', 28.959, 78.256, 28],
+  ['Dasna', 'Uttar Pradesh', 'India', 28.677, 77.523, 28],
+  ['Jaswantnagar', 'Uttar Pradesh', 'India', 26.883, 78.903, 28],
+  ['Afzalgarh', 'Uttar Pradesh', 'India', 29.394, 78.674, 28],
+  ['Miranpur', 'Uttar Pradesh', 'India', 29.29, 77.949, 27],
+  ['Kundarkhi', 'Uttar Pradesh', 'India', 28.683, 78.786, 27],
+  ['Bilgram', 'Uttar Pradesh', 'India', 27.175, 80.032, 27],
+  ['Bidhuna', 'Uttar Pradesh', 'India', 26.802, 79.508, 27],
+  ['Kemri', 'Uttar Pradesh', 'India', 28.807, 79.205, 27],
+  ['Karhal', 'Uttar Pradesh', 'India', 27.001, 78.939, 27],
+  ['Lar', 'Uttar Pradesh', 'India', 26.204, 83.969, 27],
+  ['Aliganj', 'Uttar Pradesh', 'India', 27.494, 79.171, 27],
+  ['Shahganj', 'Uttar Pradesh', 'India', 26.05, 82.684, 27],
+  ['Kheri', 'Uttar Pradesh', 'India', 27.904, 80.798, 26],
+  ['Bilsi', 'Uttar Pradesh', 'India', 28.129, 78.911, 26],
+  ['Rampur', 'Uttar Pradesh', 'India', 29.806, 77.453, 26],
+  ['Jais', 'Uttar Pradesh', 'India', 26.265, 81.549, 26],
+  ['Pawayan', 'Uttar Pradesh', 'India', 28.066, 80.103, 26],
+  ['Colonelganj', 'Uttar Pradesh', 'India', 27.134, 81.699, 26],
+  ['Mehndawal', 'Uttar Pradesh', 'India', 26.976, 83.11, 25],
+  ['Anupshahr', 'Uttar Pradesh', 'India', 28.357, 78.269, 25],
+  ['Jalalabad', 'Uttar Pradesh', 'India', 29.619, 77.439, 25],
+  ['Shamsabad', 'Uttar Pradesh', 'India', 27.537, 79.438, 25],
+  ['Kithor', 'Uttar Pradesh', 'India', 28.867, 77.939, 25],
+  ['Machhlishahr', 'Uttar Pradesh', 'India', 25.686, 82.411, 25],
+  ['Gursarai', 'Uttar Pradesh', 'India', 25.617, 79.181, 25],
+  ['Ahraura', 'Uttar Pradesh', 'India', 25.016, 83.033, 25],
+  ['Chandauli', 'Uttar Pradesh', 'India', 25.258, 83.268, 25],
+  ['Sandi', 'Uttar Pradesh', 'India', 27.289, 79.952, 25],
+  ['Kunda', 'Uttar Pradesh', 'India', 25.717, 81.514, 25],
+  ['Kanth', 'Uttar Pradesh', 'India', 29.059, 78.63, 25],
+  ['Charkhari', 'Uttar Pradesh', 'India', 25.403, 79.749, 25],
+  ['Safipur', 'Uttar Pradesh', 'India', 26.738, 80.344, 25],
+  ['Kabrai', 'Uttar Pradesh', 'India', 25.403, 80, 25],
+  ['Dataganj', 'Uttar Pradesh', 'India', 28.025, 79.408, 25],
+  ['Chharra', 'Uttar Pradesh', 'India', 27.925, 78.401, 25],
+  ['Sahaspur', 'Uttar Pradesh', 'India', 29.121, 78.623, 24],
+  ['Kant', 'Uttar Pradesh', 'India', 27.81, 79.792, 24],
+  ['Sikandarpur', 'Uttar Pradesh', 'India', 26.043, 84.053, 24],
+  ['Muhammadabad', 'Uttar Pradesh', 'India', 26.034, 83.381, 24],
+  ['Hastinapur', 'Uttar Pradesh', 'India', 29.16, 78.008, 24],
+  ['Reoti', 'Uttar Pradesh', 'India', 25.851, 84.378, 24],
+  ['Fatehganj West', 'Uttar Pradesh', 'India', 28.466, 79.307, 24],
+  ['Lalganj', 'Uttar Pradesh', 'India', 25.932, 81.705, 24],
+  ['Jhinjhak', 'Uttar Pradesh', 'India', 26.561, 79.734, 23],
+  ['Shishgarh', 'Uttar Pradesh', 'India', 28.729, 79.315, 23],
+  ['Bewar', 'Uttar Pradesh', 'India', 27.219, 79.298, 23],
+  ['Nakur', 'Uttar Pradesh', 'India', 29.92, 77.304, 23],
+  ['Saidpur', 'Uttar Pradesh', 'India', 25.537, 83.224, 23],
+  ['Phulpur', 'Uttar Pradesh', 'India', 25.549, 82.09, 23],
+  ['Itimadpur', 'Uttar Pradesh', 'India', 27.235, 78.198, 23],
+  ['Pukhrayan', 'Uttar Pradesh', 'India', 26.224, 79.837, 23],
+  ['Sirsi', 'Uttar Pradesh', 'India', 28.639, 78.643, 23],
+  ['Tulsipur', 'Uttar Pradesh', 'India', 27.534, 82.417, 22],
+  ['Naraura', 'Uttar Pradesh', 'India', 28.201, 78.387, 22],
+  ['Mariahu', 'Uttar Pradesh', 'India', 25.604, 82.604, 22],
+  ['Purwa', 'Uttar Pradesh', 'India', 26.458, 80.774, 22],
+  ['Sahawar', 'Uttar Pradesh', 'India', 27.796, 78.834, 22],
+  ['Sidhauli', 'Uttar Pradesh', 'India', 27.282, 80.835, 22],
+  ['Muhammadabad', 'Uttar Pradesh', 'India', 27.309, 79.433, 22],
+  ['Bhinga', 'Uttar Pradesh', 'India', 27.703, 81.934, 22],
+  ['Fatehabad', 'Uttar Pradesh', 'India', 27.026, 78.303, 22],
+  ['Samthar', 'Uttar Pradesh', 'India', 25.843, 78.907, 22],
+  ['Banat', 'Uttar Pradesh', 'India', 29.464, 77.355, 22],
+  ['Bansdih', 'Uttar Pradesh', 'India', 25.884, 84.218, 21],
+  ['Mandawar', 'Uttar Pradesh', 'India', 29.487, 78.127, 21],
+  ['Chhata', 'Uttar Pradesh', 'India', 27.724, 77.508, 21],
+  ['Kiraoli', 'Uttar Pradesh', 'India', 27.138, 77.785, 21],
+  ['Gunnaur', 'Uttar Pradesh', 'India', 28.24, 78.44, 21],
+  ['Sarauli', 'Uttar Pradesh', 'India', 28.494, 79.092, 21],
+  ['Achhnera', 'Uttar Pradesh', 'India', 27.178, 77.757, 21],
+  ['Chillupar', 'Uttar Pradesh', 'India', 26.282, 83.506, 21],
+  ['Maniar', 'Uttar Pradesh', 'India', 25.985, 84.172, 20],
+  ['Jhalu', 'Uttar Pradesh', 'India', 29.336, 78.226, 20],
+  ['Mau Aimma', 'Uttar Pradesh', 'India', 25.695, 81.923, 20],
+  ['Dhaurahra', 'Uttar Pradesh', 'India', 27.998, 81.09, 20],
+  ['Govardhan', 'Uttar Pradesh', 'India', 27.497, 77.463, 20],
+  ['Raya', 'Uttar Pradesh', 'India', 27.556, 77.79, 20],
+  ['Charthawal', 'Uttar Pradesh', 'India', 29.547, 77.594, 20],
+  ['Siswa Bazar', 'Uttar Pradesh', 'India', 27.147, 83.758, 20],
+  ['Deoranian', 'Uttar Pradesh', 'India', 28.63, 79.476, 20],
+  ['Jhinjhana', 'Uttar Pradesh', 'India', 29.521, 77.225, 20],
+  ['Lawar Khas', 'Uttar Pradesh', 'India', 29.111, 77.778, 20],
+  ['Pinahat', 'Uttar Pradesh', 'India', 26.885, 78.376, 20],
+  ['Jansath', 'Uttar Pradesh', 'India', 29.325, 77.85, 19],
+  ['Richha', 'Uttar Pradesh', 'India', 28.695, 79.523, 19],
+  ['Wazirganj', 'Uttar Pradesh', 'India', 28.211, 79.057, 19],
+  ['Maholi', 'Uttar Pradesh', 'India', 27.664, 80.474, 19],
+  ['Bilhaur', 'Uttar Pradesh', 'India', 26.843, 80.064, 19],
+  ['Chhaprauli', 'Uttar Pradesh', 'India', 29.21, 77.175, 19],
+  ['Surianwan', 'Uttar Pradesh', 'India', 25.464, 82.419, 19],
+  ['Parichhatgarh', 'Uttar Pradesh', 'India', 28.978, 77.934, 19],
+  ['Kulpahar', 'Uttar Pradesh', 'India', 25.32, 79.639, 19],
+  ['Shahpur', 'Uttar Pradesh', 'India', 29.35, 77.552, 19],
+  ['Marahra', 'Uttar Pradesh', 'India', 27.737, 78.569, 19],
+  ['Pahasu', 'Uttar Pradesh', 'India', 28.172, 78.064, 19],
+  ['Akbarpur', 'Uttar Pradesh', 'India', 26.384, 79.949, 19],
+  ['Ranipur', 'Uttar Pradesh', 'India', 25.25, 79.062, 19],
+  ['Nanauta', 'Uttar Pradesh', 'India', 29.712, 77.417, 19],
+  ['Haldaur', 'Uttar Pradesh', 'India', 29.29, 78.284, 19],
+  ['Phalauda', 'Uttar Pradesh', 'India', 29.188, 77.83, 19],
+  ['Kakori', 'Uttar Pradesh', 'India', 26.868, 80.786, 18],
+  ['Behat', 'Uttar Pradesh', 'India', 30.172, 77.614, 18],
+  ['Jalali', 'Uttar Pradesh', 'India', 27.867, 78.253, 18],
+  ['Narauli', 'Uttar Pradesh', 'India', 28.485, 78.715, 18],
+  ['Handia', 'Uttar Pradesh', 'India', 25.364, 82.187, 18],
+  ['Sarai Mir', 'Uttar Pradesh', 'India', 26.027, 82.918, 18],
+  ['Jarwal', 'Uttar Pradesh', 'India', 27.163, 81.542, 18],
+  ['Nichlaul', 'Uttar Pradesh', 'India', 27.312, 83.725, 18],
+  ['Tajpur', 'Uttar Pradesh', 'India', 29.162, 78.485, 18],
+  ['Sarai Akil', 'Uttar Pradesh', 'India', 25.379, 81.51, 17],
+  ['Indergarh', 'Uttar Pradesh', 'India', 26.935, 79.671, 17],
+  ['Bilthra', 'Uttar Pradesh', 'India', 26.127, 83.891, 17],
+  ['Nawabganj', 'Uttar Pradesh', 'India', 26.864, 82.141, 17],
+  ['Maghar', 'Uttar Pradesh', 'India', 26.756, 83.128, 17],
+  ['Manjhanpur', 'Uttar Pradesh', 'India', 25.53, 81.376, 17],
+  ['Phaphund', 'Uttar Pradesh', 'India', 26.599, 79.464, 17],
+  ['Babrala', 'Uttar Pradesh', 'India', 28.264, 78.406, 17],
+  ['Malihabad', 'Uttar Pradesh', 'India', 26.922, 80.711, 17],
+  ['Jhusi', 'Uttar Pradesh', 'India', 25.437, 81.906, 17],
+  ['Bharwari', 'Uttar Pradesh', 'India', 25.561, 81.492, 16],
+  ['Khada', 'Uttar Pradesh', 'India', 27.183, 83.883, 16],
+  ['Kamalganj', 'Uttar Pradesh', 'India', 27.262, 79.631, 16],
+  ['Shahi', 'Uttar Pradesh', 'India', 28.55, 79.318, 16],
+  ['Rura', 'Uttar Pradesh', 'India', 26.49, 79.901, 16],
+  ['Pipraich', 'Uttar Pradesh', 'India', 26.827, 83.526, 16],
+  ['Sisauli', 'Uttar Pradesh', 'India', 29.414, 77.469, 16],
+  ['Khutar', 'Uttar Pradesh', 'India', 28.203, 80.27, 16],
+  ['Baberu', 'Uttar Pradesh', 'India', 25.547, 80.704, 16],
+  ['Bilsanda', 'Uttar Pradesh', 'India', 28.243, 79.951, 16],
+  ['Kachhwa', 'Uttar Pradesh', 'India', 25.206, 82.714, 15],
+  ['Bah', 'Uttar Pradesh', 'India', 26.869, 78.594, 15],
+  ['Mirganj', 'Uttar Pradesh', 'India', 28.54, 79.208, 15],
+  ['Usehat', 'Uttar Pradesh', 'India', 27.798, 79.238, 15],
+  ['Pachperwa', 'Uttar Pradesh', 'India', 27.512, 82.643, 15],
+  ['Un', 'Uttar Pradesh', 'India', 29.585, 77.255, 15],
+  ['Misrikh', 'Uttar Pradesh', 'India', 27.431, 80.532, 15],
+  // India — Uttarakhand
+  ['Roorkee', 'Uttarakhand', 'India', 29.866, 77.891, 104],
+  ['Kashipur', 'Uttarakhand', 'India', 29.214, 78.957, 103],
+  ['Ramnagar', 'Uttarakhand', 'India', 29.392, 79.128, 51],
+  ['Pithoragarh', 'Uttarakhand', 'India', 29.583, 80.209, 48],
+  ['Manglaur', 'Uttarakhand', 'India', 29.791, 77.878, 46],
+  ['Jaspur', 'Uttarakhand', 'India', 29.279, 78.828, 43],
+  ['Kichha', 'Uttarakhand', 'India', 28.912, 79.52, 35],
+  ['Almora', 'Uttarakhand', 'India', 29.597, 79.659, 32],
+  ['Raipur', 'Uttarakhand', 'India', 30.311, 78.09, 28],
+  ['Tehri', 'Uttarakhand', 'India', 30.391, 78.48, 28],
+  ['Kotdwara', 'Uttarakhand', 'India', 29.746, 78.522, 27],
+  ['Pauri', 'Uttarakhand', 'India', 30.153, 78.777, 27],
+  ['Mussoorie', 'Uttarakhand', 'India', 30.455, 78.071, 26],
+  ['Sitarganj', 'Uttarakhand', 'India', 28.929, 79.704, 24],
+  ['Bazpur', 'Uttarakhand', 'India', 29.153, 79.108, 24],
+  ['Clement Town', 'Uttarakhand', 'India', 30.264, 78.009, 21],
+  ['Ranikhet', 'Uttarakhand', 'India', 29.641, 79.432, 20],
+  ['Laksar', 'Uttarakhand', 'India', 29.759, 78.041, 19],
+  ['Uttarkashi', 'Uttarakhand', 'India', 30.73, 78.443, 17],
+  ['Tanakpur', 'Uttarakhand', 'India', 29.074, 80.111, 17],
+  ['Khatima', 'Uttarakhand', 'India', 28.921, 79.971, 16],
+  // India — West Bengal
+  ['Bhatpara', 'West Bengal', 'India', 22.866, 88.401, 483],
+  ['Shyamnagar', 'West Bengal', 'India', 22.833, 88.367, 442],
+  ['Nangi', 'West Bengal', 'India', 22.508, 88.215, 441],
+  ['Panihati', 'West Bengal', 'India', 22.691, 88.374, 379],
+  ['Kamarhati', 'West Bengal', 'India', 22.671, 88.375, 333],
+  ['Kulti', 'West Bengal', 'India', 23.732, 86.844, 305],
+  ['Barasat', 'West Bengal', 'India', 22.722, 88.482, 298],
+  ['Bali', 'West Bengal', 'India', 22.649, 88.341, 297],
+  ['Naihati', 'West Bengal', 'India', 22.894, 88.415, 253],
+  ['Barasat', 'West Bengal', 'India', 22.225, 88.451, 238],
+  ['Shrirampur', 'West Bengal', 'India', 22.753, 88.342, 226],
+  ['Gosaba', 'West Bengal', 'India', 22.165, 88.801, 223],
+  ['Kultali', 'West Bengal', 'India', 21.9, 88.4, 188],
+  ['Chandannagar', 'West Bengal', 'India', 22.862, 88.368, 181],
+  ['Baharampur', 'West Bengal', 'India', 24.105, 88.252, 181],
+  ['Hugli', 'West Bengal', 'India', 22.909, 88.397, 177],
+  ['Haldia', 'West Bengal', 'India', 22.06, 88.11, 171],
+  ['Raiganj', 'West Bengal', 'India', 25.613, 88.124, 170],
+  ['Madhyamgram', 'West Bengal', 'India', 22.689, 88.446, 161],
+  ['Jamuria', 'West Bengal', 'India', 23.705, 87.079, 160],
+  ['Jaigaon', 'West Bengal', 'India', 26.848, 89.376, 159],
+  ['Medinipur', 'West Bengal', 'India', 22.421, 87.323, 153],
+  ['Shantipur', 'West Bengal', 'India', 23.247, 88.433, 150],
+  ['Barakpur', 'West Bengal', 'India', 22.766, 88.363, 148],
+  ['Krishnanagar', 'West Bengal', 'India', 23.406, 88.491, 146],
+  ['Balurghat', 'West Bengal', 'India', 25.221, 88.777, 141],
+  ['Habra', 'West Bengal', 'India', 22.842, 88.656, 139],
+  ['Kanchrapara', 'West Bengal', 'India', 22.96, 88.428, 137],
+  ['Bankura', 'West Bengal', 'India', 23.232, 87.072, 134],
+  ['Raniganj', 'West Bengal', 'India', 23.616, 87.131, 131],
+  ['Khardah', 'West Bengal', 'India', 22.719, 88.378, 128],
+  ['Halisahar', 'West Bengal', 'India', 22.932, 88.419, 128],
+  ['Titagarh', 'West Bengal', 'India', 22.743, 88.373, 128],
+  ['Dam Dam', 'West Bengal', 'India', 22.633, 88.423, 123],
+  ['Puruliya', 'West Bengal', 'India', 23.331, 86.363, 123],
+  ['Bhadreswar', 'West Bengal', 'India', 22.824, 88.338, 122],
+  ['Rishra', 'West Bengal', 'India', 22.724, 88.346, 117],
+  ['Baidyabati', 'West Bengal', 'India', 22.785, 88.326, 116],
+  ['Bangaon', 'West Bengal', 'India', 23.046, 88.831, 112],
+  ['Ashoknagar Kalyangarh', 'West Bengal', 'India', 22.864, 88.637, 111],
+  ['Navadwip', 'West Bengal', 'India', 23.407, 88.369, 111],
+  ['Bansbaria', 'West Bengal', 'India', 22.954, 88.401, 108],
+  ['Jalpaiguri', 'West Bengal', 'India', 26.517, 88.733, 108],
+  ['Kalyani', 'West Bengal', 'India', 22.983, 88.483, 93],
+  ['Contai', 'West Bengal', 'India', 21.78, 87.749, 89],
+  ['Jangipur', 'West Bengal', 'India', 24.47, 88.077, 83],
+  ['Koch Bihar', 'West Bengal', 'India', 26.325, 89.445, 79],
+  ['Katoya', 'West Bengal', 'India', 23.646, 88.133, 78],
+  ['Dhulian', 'West Bengal', 'India', 24.681, 87.954, 77],
+  ['Baj Baj', 'West Bengal', 'India', 22.475, 88.178, 76],
+  ['Konnagar', 'West Bengal', 'India', 22.705, 88.344, 76],
+  ['Bolpur', 'West Bengal', 'India', 23.663, 87.697, 71],
+  ['Ranaghat', 'West Bengal', 'India', 23.176, 88.567, 71],
+  ['Goyerkata', 'West Bengal', 'India', 26.7, 89.026, 66],
+  ['Gangarampur', 'West Bengal', 'India', 25.401, 88.53, 65],
+  ['Alipur Duar', 'West Bengal', 'India', 26.483, 89.523, 65],
+  ['Siuri', 'West Bengal', 'India', 23.908, 87.528, 65],
+  ['Bishnupur', 'West Bengal', 'India', 23.074, 87.32, 64],
+  ['Arambagh', 'West Bengal', 'India', 22.883, 87.783, 61],
+  ['Jhargram', 'West Bengal', 'India', 22.454, 86.995, 58],
+  ['Naksalbari', 'West Bengal', 'India', 26.683, 88.22, 57],
+  ['Islampur', 'West Bengal', 'India', 26.265, 88.19, 56],
+  ['Kandi', 'West Bengal', 'India', 23.959, 88.04, 55],
+  ['Ghatal', 'West Bengal', 'India', 22.662, 87.734, 55],
+  ['Kalna', 'West Bengal', 'India', 23.219, 88.363, 54],
+  ['Rampur Hat', 'West Bengal', 'India', 24.177, 87.783, 53],
+  ['Kaliyaganj', 'West Bengal', 'India', 25.634, 88.327, 52],
+  ['Baduria', 'West Bengal', 'India', 22.744, 88.787, 50],
+  ['Tamluk', 'West Bengal', 'India', 22.301, 87.926, 49],
+  ['Baruipur', 'West Bengal', 'India', 22.353, 88.439, 48],
+  ['Karsiyang', 'West Bengal', 'India', 26.883, 88.277, 46],
+  ['Pujali', 'West Bengal', 'India', 22.471, 88.145, 45],
+  ['Chittaranjan', 'West Bengal', 'India', 23.857, 86.903, 45],
+  ['Memari', 'West Bengal', 'India', 23.176, 88.097, 44],
+  ['Gobardanga', 'West Bengal', 'India', 22.877, 88.755, 44],
+  ['Sainthia', 'West Bengal', 'India', 23.948, 87.68, 43],
+  ['Kalimpong', 'West Bengal', 'India', 27.071, 88.475, 43],
+  ['Dinhata', 'West Bengal', 'India', 26.135, 89.461, 42],
+  ['Canning', 'West Bengal', 'India', 22.315, 88.662, 42],
+  ['Dhupgari', 'West Bengal', 'India', 26.589, 89.007, 41],
+  ['Taki', 'West Bengal', 'India', 22.589, 88.933, 40],
+  ['Diamond Harbour', 'West Bengal', 'India', 22.193, 88.185, 40],
+  ['Hasimara', 'West Bengal', 'India', 26.747, 89.354, 40],
+  ['Murshidabad', 'West Bengal', 'India', 24.184, 88.272, 40],
+  ['Dubrajpur', 'West Bengal', 'India', 23.79, 87.376, 35],
+  ['Nabagram', 'West Bengal', 'India', 22.288, 88.509, 35],
+  ['Guskhara', 'West Bengal', 'India', 23.493, 87.735, 34],
+  ['Lakhyabad', 'West Bengal', 'India', 23.667, 86.667, 33],
+  ['Egra', 'West Bengal', 'India', 21.899, 87.538, 33],
+  ['Tarakeswar', 'West Bengal', 'India', 22.886, 88.014, 30],
+  ['Birpara', 'West Bengal', 'India', 26.704, 89.145, 30],
+  ['Mainaguri', 'West Bengal', 'India', 26.563, 88.82, 29],
+  ['Lalgola', 'West Bengal', 'India', 24.422, 88.252, 28],
+  ['Sonamukhi', 'West Bengal', 'India', 23.305, 87.413, 28],
+  ['Pandua', 'West Bengal', 'India', 23.075, 88.286, 28],
+  ['Sankrail', 'West Bengal', 'India', 22.55, 88.225, 28],
+  ['Beldanga', 'West Bengal', 'India', 23.934, 88.26, 27],
+  ['Chakapara', 'West Bengal', 'India', 22.632, 88.349, 27],
+  ['Nalhati', 'West Bengal', 'India', 24.297, 87.829, 26],
+  ['Jaynagar-Majilpur', 'West Bengal', 'India', 22.176, 88.418, 25],
+  ['Panchla', 'West Bengal', 'India', 22.537, 88.138, 24],
+  ['Monoharpur', 'West Bengal', 'India', 22.108, 88.079, 23],
+  ['Balarampur', 'West Bengal', 'India', 23.097, 86.223, 23],
+  ['Raghunathpur', 'West Bengal', 'India', 23.539, 86.674, 23],
+  ['Matabhanga', 'West Bengal', 'India', 26.342, 89.216, 23],
+  ['Adra', 'West Bengal', 'India', 23.497, 86.684, 22],
+  ['Chandrakona', 'West Bengal', 'India', 22.733, 87.517, 22],
+  ['Farakka', 'West Bengal', 'India', 24.817, 87.9, 22],
+  ['Dhulagari', 'West Bengal', 'India', 22.582, 88.171, 21],
+  ['Bagula', 'West Bengal', 'India', 23.337, 88.641, 21],
+  ['Tufanganj', 'West Bengal', 'India', 26.317, 89.665, 20],
+  ['Falakata', 'West Bengal', 'India', 26.52, 89.204, 20],
+  ['Rajmahal', 'West Bengal', 'India', 25.053, 87.83, 20],
+  ['Aistala', 'West Bengal', 'India', 23.18, 88.58, 19],
+  ['Singur', 'West Bengal', 'India', 22.809, 88.229, 19],
+  ['Amlagora', 'West Bengal', 'India', 22.846, 87.336, 19],
+  ['Srirampur', 'West Bengal', 'India', 22.948, 88.02, 19],
+  ['Fort Gloster', 'West Bengal', 'India', 22.504, 88.183, 18],
+  ['Ramjibanpur', 'West Bengal', 'India', 22.828, 87.609, 18],
+  ['Jhalida', 'West Bengal', 'India', 23.365, 85.976, 18],
+  ['Mahishadal', 'West Bengal', 'India', 22.186, 87.981, 18],
+  ['Dumjor', 'West Bengal', 'India', 22.62, 88.246, 18],
+  ['Bagdogra', 'West Bengal', 'India', 26.699, 88.312, 17],
+  ['Mahiari', 'West Bengal', 'India', 22.588, 88.235, 17],
+  ['Amta', 'West Bengal', 'India', 22.583, 88.01, 17],
+  ['Garui', 'West Bengal', 'India', 22.633, 88.4, 16],
+  ['Khatra', 'West Bengal', 'India', 22.976, 86.855, 16],
+  ['Bahula', 'West Bengal', 'India', 23.652, 87.165, 16],
+  ['Dalkola', 'West Bengal', 'India', 25.876, 87.84, 15],
+  ['Kenda', 'West Bengal', 'India', 23.196, 86.515, 15],
+  // Asia
+  ['Yerevan', 'Yerevan', 'Armenia', 40.181, 44.514, 1093],
+  ['Baku', 'Baki', 'Azerbaijan', 40.378, 49.892, 1117],
+  ['Rajshahi', 'Rajshahi Division', 'Bangladesh', 24.374, 88.601, 700],
+  ['Bandar Seri Begawan', 'Brunei-Muara District', 'Brunei', 4.89, 114.94, 64],
+  ['Phnom Penh', 'Phnom Penh', 'Cambodia', 11.562, 104.916, 1574],
+  ['Takeo', 'Takeo', 'Cambodia', 10.991, 104.785, 844],
+  ['Tianjin', 'Tianjin', 'China', 39.142, 117.177, 11090],
+  ['Guangzhou', 'Guangdong', 'China', 23.117, 113.25, 11071],
+  ['Shenzhen', 'Guangdong', 'China', 22.546, 114.068, 10358],
+  ['Wuhan', 'Hubei', 'China', 30.583, 114.267, 9785],
+  ['Dongguan', 'Guangdong', 'China', 23.018, 113.749, 8000],
+  ['Chongqing', 'Chongqing', 'China', 29.563, 106.553, 7458],
+  ['Chengdu', 'Sichuan', 'China', 30.667, 104.067, 7416],
+  ['Nanjing', 'Jiangsu', 'China', 32.062, 118.778, 7165],
+  ['Nanchong', 'Sichuan', 'China', 30.795, 106.085, 7150],
+  ['Xi\'an', 'Shaanxi', 'China', 34.258, 108.929, 6501],
+  ['Shenyang', 'Liaoning', 'China', 41.792, 123.433, 6256],
+  ['Hangzhou', 'Zhejiang', 'China', 30.294, 120.161, 6242],
+  ['Harbin', 'Heilongjiang', 'China', 45.75, 126.65, 5879],
+  ['Tai\'an', 'Shandong', 'China', 36.185, 117.12, 5499],
+  ['Suzhou', 'Jiangsu', 'China', 31.304, 120.595, 5346],
+  ['Shantou', 'Guangdong', 'China', 23.368, 116.715, 5329],
+  ['Jinan', 'Shandong', 'China', 36.668, 116.997, 4336],
+  ['Zhengzhou', 'Henan', 'China', 34.758, 113.649, 4254],
+  ['Changchun', 'Jilin', 'China', 43.88, 125.323, 4193],
+  ['Dalian', 'Liaoning', 'China', 38.912, 121.602, 4088],
+  ['Kunming', 'Yunnan', 'China', 25.039, 102.718, 3855],
+  ['Qingdao', 'Shandong', 'China', 36.065, 120.38, 3719],
+  ['Foshan', 'Guangdong', 'China', 23.027, 113.131, 3600],
+  ['Puyang', 'Zhejiang', 'China', 29.457, 119.889, 3590],
+  ['Wuxi', 'Jiangsu', 'China', 31.569, 120.289, 3544],
+  ['Xiamen', 'Fujian', 'China', 24.48, 118.082, 3531],
+  ['Tianshui', 'Gansu', 'China', 34.58, 105.742, 3500],
+  ['Ningbo', 'Zhejiang', 'China', 29.878, 121.549, 3492],
+  ['Shiyan', 'Hubei', 'China', 32.648, 110.778, 3460],
+  ['Taiyuan', 'Shanxi', 'China', 37.869, 112.56, 3427],
+  ['Tangshan', 'Hebei', 'China', 39.633, 118.183, 3372],
+  ['Hefei', 'Anhui', 'China', 31.864, 117.281, 3310],
+  ['Zibo', 'Shandong', 'China', 36.791, 118.063, 3129],
+  ['Zhongshan', 'Guangdong', 'China', 21.32, 110.572, 3121],
+  ['Changsha', 'Hunan', 'China', 28.199, 112.971, 3094],
+  ['Urumqi', 'Xinjiang', 'China', 43.801, 87.6, 3029],
+  ['Shijiazhuang', 'Hebei', 'China', 38.041, 114.479, 2835],
+  ['Lanzhou', 'Gansu', 'China', 36.057, 103.84, 2628],
+  ['Yunfu', 'Guangdong', 'China', 22.928, 112.04, 2613],
+  ['Nanchang', 'Jiangxi', 'China', 28.684, 115.853, 2358],
+  ['Dadonghai', 'Hainan', 'China', 18.221, 109.51, 2000],
+  ['Ordos', 'Inner Mongolia', 'China', 39.609, 109.782, 1941],
+  ['Jilin', 'Jilin', 'China', 43.851, 126.56, 1882],
+  ['Bayan Nur', 'Inner Mongolia', 'China', 40.741, 107.386, 1760],
+  ['Kunshan', 'Jiangsu', 'China', 31.378, 120.954, 1600],
+  ['Xinyang', 'Henan', 'China', 32.123, 114.066, 1591],
+  ['Fushun', 'Liaoning', 'China', 41.887, 123.944, 1401],
+  ['Luoyang', 'Henan', 'China', 34.684, 112.454, 1391],
+  ['Guankou', 'Hunan', 'China', 28.159, 113.627, 1380],
+  ['Handan', 'Hebei', 'China', 36.601, 114.468, 1358],
+  ['Baotou', 'Inner Mongolia', 'China', 40.583, 110.017, 1302],
+  ['Xuchang', 'Henan', 'China', 34.032, 113.863, 1266],
+  ['Yueyang', 'Hunan', 'China', 29.375, 113.095, 1200],
+  ['Anshan', 'Liaoning', 'China', 41.124, 122.99, 1199],
+  ['Tongshan', 'Jiangsu', 'China', 34.18, 117.157, 1199],
+  ['Fuzhou', 'Fujian', 'China', 26.061, 119.306, 1180],
+  ['Guiyang', 'Guizhou', 'China', 26.583, 106.717, 1172],
+  ['Lijiang', 'Yunnan', 'China', 26.869, 100.221, 1138],
+  ['Datong', 'Shanxi', 'China', 40.094, 113.291, 1053],
+  ['Changshu City', 'Jiangsu', 'China', 31.646, 120.742, 1048],
+  ['Xianyang', 'Shaanxi', 'China', 34.338, 108.703, 1034],
+  ['Huainan', 'Anhui', 'China', 32.626, 116.997, 1028],
+  ['Jieyang', 'Guangdong', 'China', 23.542, 116.366, 1002],
+  ['Zhu Cheng City', 'Shandong', 'China', 35.995, 119.403, 1000],
+  ['Baoding', 'Hebei', 'China', 38.851, 115.49, 996],
+  ['Benxi', 'Liaoning', 'China', 41.289, 123.765, 988],
+  ['Changzhou', 'Jiangsu', 'China', 31.774, 119.954, 949],
+  ['Huaibei', 'Anhui', 'China', 33.974, 116.792, 903],
+  ['Kaifeng', 'Henan', 'China', 34.799, 114.307, 900],
+  ['Pingdingshan', 'Henan', 'China', 33.738, 113.301, 890],
+  ['Qiqihar', 'Heilongjiang', 'China', 47.341, 123.96, 882],
+  ['Wenzhou', 'Zhejiang', 'China', 27.999, 120.667, 866],
+  ['Nanning', 'Guangxi', 'China', 22.817, 108.317, 804],
+  ['Anyang', 'Henan', 'China', 36.096, 114.383, 781],
+  ['Hohhot', 'Inner Mongolia', 'China', 40.811, 111.652, 774],
+  ['Shangyu', 'Zhejiang', 'China', 30.016, 120.871, 770],
+  ['Xining', 'Qinghai', 'China', 36.626, 101.757, 768],
+  ['Qinhuangdao', 'Hebei', 'China', 39.932, 119.588, 760],
+  ['Hengyang', 'Hunan', 'China', 26.889, 112.619, 760],
+  ['Xinxiang', 'Henan', 'China', 35.19, 113.802, 744],
+  ['Hegang', 'Heilongjiang', 'China', 47.351, 130.3, 743],
+  ['Langfang', 'Hebei', 'China', 39.51, 116.695, 720],
+  ['Zhumadian', 'Henan', 'China', 32.979, 114.029, 720],
+  ['Yantai', 'Shandong', 'China', 37.476, 121.441, 719],
+  ['Zhuzhou', 'Hunan', 'China', 27.833, 113.15, 709],
+  ['Changzhi', 'Shanxi', 'China', 35.209, 111.739, 700],
+  ['Zhangjiakou', 'Hebei', 'China', 40.81, 114.879, 693],
+  ['Zigong', 'Sichuan', 'China', 29.342, 104.777, 690],
+  ['Fuxin', 'Liaoning', 'China', 42.016, 121.659, 689],
+  ['Huangshi', 'Hubei', 'China', 30.247, 115.048, 688],
+  ['Liaoyang', 'Liaoning', 'China', 41.272, 123.173, 688],
+  ['Xiangtan', 'Hunan', 'China', 27.85, 112.9, 674],
+  ['Puyang Chengguanzhen', 'Henan', 'China', 35.705, 115.014, 666],
+  ['Nantong', 'Jiangsu', 'China', 32.03, 120.875, 666],
+  ['Mudanjiang', 'Heilongjiang', 'China', 44.583, 129.6, 666],
+  ['Guilin', 'Guangxi', 'China', 25.282, 110.286, 649],
+  ['Zhanjiang', 'Guangdong', 'China', 21.281, 110.343, 638],
+  ['Zhenjiang', 'Jiangsu', 'China', 32.211, 119.455, 633],
+  ['Dandong', 'Liaoning', 'China', 40.129, 124.395, 632],
+  ['Shaoguan', 'Guangdong', 'China', 24.8, 113.583, 629],
+  ['Yancheng', 'Jiangsu', 'China', 33.358, 120.157, 628],
+  ['Panshan', 'Liaoning', 'China', 41.188, 122.049, 625],
+  ['Haikou', 'Hainan', 'China', 20.046, 110.342, 616],
+  ['Taizhou', 'Jiangsu', 'China', 32.491, 119.908, 612],
+  ['Xingtai', 'Hebei', 'China', 37.063, 114.494, 612],
+  ['Jinzhou', 'Liaoning', 'China', 41.108, 121.142, 604],
+  ['Shuangyashan', 'Heilongjiang', 'China', 46.636, 131.154, 600],
+  ['Luancheng', 'Hebei', 'China', 37.879, 114.652, 597],
+  ['Yingkou', 'Liaoning', 'China', 40.665, 122.228, 591],
+  ['Zhangzhou', 'Fujian', 'China', 24.513, 117.656, 590],
+  ['Bengbu', 'Anhui', 'China', 32.941, 117.361, 577],
+  ['Shihezi', 'Xinjiang', 'China', 44.302, 86.037, 573],
+  ['Siping', 'Jilin', 'China', 43.161, 124.378, 556],
+  ['Huai\'an', 'Jiangsu', 'China', 33.589, 119.019, 555],
+  ['Jiamusi', 'Heilongjiang', 'China', 46.799, 130.316, 550],
+  ['Neijiang', 'Sichuan', 'China', 29.584, 105.062, 547],
+  ['Yangzhou', 'Jiangsu', 'China', 32.397, 119.436, 540],
+  ['Guli', 'Zhejiang', 'China', 28.882, 120.033, 536],
+  ['Tanggu', 'Tianjin', 'China', 39.021, 117.647, 535],
+  ['Jiangmen', 'Guangdong', 'China', 22.583, 113.083, 532],
+  ['Cangzhou', 'Hebei', 'China', 38.317, 116.867, 528],
+  ['Changde', 'Hunan', 'China', 29.032, 111.698, 518],
+  ['Jiaozuo', 'Henan', 'China', 35.24, 113.233, 518],
+  ['Tonghua', 'Jilin', 'China', 41.72, 125.926, 510],
+  ['Wuhu', 'Anhui', 'China', 31.337, 118.374, 508],
+  ['Zhuhai', 'Guangdong', 'China', 22.277, 113.568, 501],
+  ['Nicosia', 'Nicosia', 'Cyprus', 35.175, 33.364, 200],
+  ['Tbilisi', 'Tbilisi', 'Georgia', 41.694, 44.834, 1049],
+  ['Hong Kong', 'Central and Western', 'Hong Kong', 22.278, 114.175, 7013],
+  ['Kowloon', 'Kowloon City', 'Hong Kong', 22.317, 114.183, 2020],
+  ['Surabaya', 'East Java', 'Indonesia', -7.249, 112.751, 2375],
+  ['Medan', 'North Sumatra', 'Indonesia', 3.583, 98.667, 1751],
+  ['Bandung', 'West Java', 'Indonesia', -6.922, 107.607, 1700],
+  ['Bekasi', 'West Java', 'Indonesia', -6.235, 106.99, 1520],
+  ['Palembang', 'South Sumatra', 'Indonesia', -2.917, 104.746, 1442],
+  ['Tangerang', 'Banten', 'Indonesia', -6.178, 106.63, 1372],
+  ['Makassar', 'South Sulawesi', 'Indonesia', -5.149, 119.432, 1322],
+  ['South Tangerang', 'Banten', 'Indonesia', -6.289, 106.718, 1304],
+  ['Semarang', 'Central Java', 'Indonesia', -6.993, 110.421, 1288],
+  ['Depok', 'West Java', 'Indonesia', -6.4, 106.819, 1198],
+  ['Batam', 'Riau', 'Indonesia', 1.149, 104.025, 1164],
+  ['Padang', 'West Sumatra', 'Indonesia', -0.949, 100.354, 840],
+  ['Denpasar', 'Bali', 'Indonesia', -8.65, 115.217, 835],
+  ['Bandar Lampung', 'Lampung', 'Indonesia', -5.429, 105.261, 800],
+  ['Bogor', 'West Java', 'Indonesia', -6.594, 106.789, 800],
+  ['Malang', 'East Java', 'Indonesia', -7.98, 112.63, 747],
+  ['Pekanbaru', 'Riau', 'Indonesia', 0.517, 101.442, 704],
+  ['City of Balikpapan', 'East Kalimantan', 'Indonesia', -1.242, 116.894, 700],
+  ['Yogyakarta', 'Yogyakarta', 'Indonesia', -7.801, 110.365, 637],
+  ['Situbondo', 'East Java', 'Indonesia', -7.706, 114.01, 600],
+  ['Banjarmasin', 'South Kalimantan', 'Indonesia', -3.32, 114.591, 573],
+  ['Surakarta', 'Central Java', 'Indonesia', -7.556, 110.832, 555],
+  ['Mashhad', 'Razavi Khorasan', 'Iran', 36.316, 59.568, 2307],
+  ['Isfahan', 'Isfahan', 'Iran', 32.652, 51.675, 1547],
+  ['Karaj', 'Alborz Province', 'Iran', 35.833, 50.992, 1448],
+  ['Tabriz', 'East Azerbaijan', 'Iran', 38.08, 46.292, 1425],
+  ['Shiraz', 'Fars', 'Iran', 29.61, 52.531, 1250],
+  ['Qom', 'Qom Province', 'Iran', 34.64, 50.876, 900],
+  ['Ahvaz', 'Khuzestan', 'Iran', 31.319, 48.684, 841],
+  ['Pasragad Branch', 'Hamadan Province', 'Iran', 34.778, 48.472, 788],
+  ['Kahriz', 'Kermanshah Province', 'Iran', 34.384, 47.055, 767],
+  ['Kermanshah', 'Kermanshah Province', 'Iran', 34.314, 47.065, 621],
+  ['Rasht', 'Gilan Province', 'Iran', 37.276, 49.589, 595],
+  ['Kerman', 'Kerman', 'Iran', 30.283, 57.079, 578],
+  ['Orumiyeh', 'West Azerbaijan', 'Iran', 37.553, 45.076, 577],
+  ['Zahedan', 'Sistan and Baluchestan', 'Iran', 29.496, 60.863, 552],
+  ['Hamadan', 'Hamadan Province', 'Iran', 34.799, 48.515, 528],
+  ['Azadshahr', 'Hamadan Province', 'Iran', 34.79, 48.57, 514],
+  ['Arak', 'Markazi', 'Iran', 34.095, 49.698, 504],
+  ['Baghdad', 'Baghdad', 'Iraq', 33.341, 44.401, 7216],
+  ['Basrah', 'Basra', 'Iraq', 30.509, 47.78, 2600],
+  ['Mosul', 'Nineveh', 'Iraq', 36.335, 43.119, 1740],
+  ['Erbil', 'Erbil', 'Iraq', 36.183, 44.012, 933],
+  ['Abu Ghurayb', 'Baghdad', 'Iraq', 33.306, 44.185, 900],
+  ['As Sulaymaniyah', 'Sulaymaniyah', 'Iraq', 35.565, 45.433, 723],
+  ['Kirkuk', 'Kirkuk', 'Iraq', 35.468, 44.392, 601],
+  ['Jerusalem', 'Jerusalem', 'Israel', 31.769, 35.216, 801],
+  ['Yokohama', 'Kanagawa', 'Japan', 35.433, 139.65, 3574],
+  ['Osaka', 'Osaka', 'Japan', 34.694, 135.502, 2592],
+  ['Nagoya', 'Aichi', 'Japan', 35.181, 136.906, 2191],
+  ['Sapporo', 'Hokkaido', 'Japan', 43.067, 141.35, 1883],
+  ['Kobe', 'Hyogo', 'Japan', 34.691, 135.183, 1528],
+  ['Kyoto', 'Kyoto', 'Japan', 35.021, 135.754, 1460],
+  ['Fukuoka', 'Fukuoka', 'Japan', 33.6, 130.417, 1392],
+  ['Kawasaki', 'Kanagawa', 'Japan', 35.521, 139.717, 1307],
+  ['Saitama', 'Saitama', 'Japan', 35.908, 139.657, 1193],
+  ['Hiroshima', 'Hiroshima', 'Japan', 34.4, 132.45, 1144],
+  ['Yono', 'Saitama', 'Japan', 35.883, 139.633, 1078],
+  ['Sendai', 'Miyagi', 'Japan', 38.267, 140.867, 1063],
+  ['Kitakyushu', 'Fukuoka', 'Japan', 33.852, 130.85, 998],
+  ['Chiba', 'Chiba', 'Japan', 35.6, 140.117, 920],
+  ['Sakai', 'Osaka', 'Japan', 34.583, 135.467, 782],
+  ['Shizuoka', 'Shizuoka', 'Japan', 34.983, 138.383, 702],
+  ['Kumamoto', 'Kumamoto', 'Japan', 32.806, 130.692, 680],
+  ['Okayama', 'Okayama', 'Japan', 34.65, 133.933, 640],
+  ['Hamamatsu', 'Shizuoka', 'Japan', 34.7, 137.733, 605],
+  ['Hachioji', 'Tokyo', 'Japan', 35.656, 139.324, 579],
+  ['Kagoshima', 'Kagoshima', 'Japan', 31.567, 130.55, 555],
+  ['Niigata', 'Niigata', 'Japan', 37.886, 139.006, 505],
+  ['Amman', 'Amman', 'Jordan', 31.955, 35.945, 1276],
+  ['Zarqa', 'Zarqa', 'Jordan', 32.073, 36.088, 793],
+  ['Almaty', 'Almaty', 'Kazakhstan', 43.257, 76.929, 2001],
+  ['Nur-Sultan', 'Astana', 'Kazakhstan', 51.18, 71.446, 346],
+  ['Al Ahmadi', 'Al Ahmadi', 'Kuwait', 29.077, 48.084, 637],
+  ['Bishkek', 'Bishkek', 'Kyrgyzstan', 42.87, 74.59, 900],
+  ['Vientiane', 'Vientiane Prefecture', 'Laos', 17.967, 102.6, 197],
+  ['Beirut', 'Beirut', 'Lebanon', 33.893, 35.502, 1916],
+  ['Macau', 'Macau', 'Macau', 22.201, 113.546, 520],
+  ['Kota Bharu', 'Kelantan', 'Malaysia', 6.124, 102.243, 1460],
+  ['Klang', 'Selangor', 'Malaysia', 3.037, 101.443, 880],
+  ['Kampung Baru Subang', 'Selangor', 'Malaysia', 3.15, 101.533, 834],
+  ['Johor Bahru', 'Johor', 'Malaysia', 1.466, 103.758, 802],
+  ['Ipoh', 'Perak', 'Malaysia', 4.584, 101.083, 673],
+  ['Kuching', 'Sarawak', 'Malaysia', 1.55, 110.333, 570],
+  ['Petaling Jaya', 'Selangor', 'Malaysia', 3.107, 101.607, 521],
+  ['Ulan Bator', 'Ulaanbaatar', 'Mongolia', 47.908, 106.883, 845],
+  ['Mandalay', 'Mandalay Region', 'Myanmar', 21.975, 96.084, 1208],
+  ['Nay Pyi Taw', 'Nay Pyi Taw', 'Myanmar', 19.745, 96.13, 925],
+  ['Pyongyang', 'Pyongyang', 'North Korea', 39.034, 125.754, 3222],
+  ['Hamhung', 'South Hamgyong', 'North Korea', 39.918, 127.536, 559],
+  ['Gujranwala', 'Punjab', 'Pakistan', 32.156, 74.187, 1384],
+  ['Rahim Yar Khan', 'Punjab', 'Pakistan', 28.42, 70.303, 789],
+  ['Quetta', 'Balochistan', 'Pakistan', 30.184, 67.001, 734],
+  ['Muzaffarabad', 'Azad Kashmir', 'Pakistan', 34.37, 73.471, 725],
+  ['Battagram', 'Khyber Pakhtunkhwa', 'Pakistan', 34.677, 73.023, 700],
+  ['Kotli', 'Azad Kashmir', 'Pakistan', 33.518, 73.902, 640],
+  ['Bahawalpur', 'Punjab', 'Pakistan', 29.398, 71.675, 553],
+  ['Sargodha', 'Punjab', 'Pakistan', 32.086, 72.674, 543],
+  ['Quezon City', 'National Capital Region', 'Philippines', 14.649, 121.051, 2762],
+  ['Manila', 'National Capital Region', 'Philippines', 14.604, 120.982, 1600],
+  ['Caloocan City', 'National Capital Region', 'Philippines', 14.65, 120.968, 1500],
+  ['Budta', 'Autonomous Region in Muslim Mindanao', 'Philippines', 7.204, 124.44, 1274],
+  ['Davao', 'Davao Region', 'Philippines', 7.073, 125.613, 1213],
+  ['Malingao', 'Soccsksargen', 'Philippines', 7.161, 124.475, 1122],
+  ['Cebu City', 'Central Visayas', 'Philippines', 10.317, 123.891, 799],
+  ['General Santos', 'Soccsksargen', 'Philippines', 6.113, 125.172, 680],
+  ['Taguig', 'National Capital Region', 'Philippines', 14.524, 121.079, 644],
+  ['Pasig City', 'National Capital Region', 'Philippines', 14.587, 121.061, 617],
+  ['Las Pinas', 'National Capital Region', 'Philippines', 14.451, 120.983, 590],
+  ['Antipolo', 'Calabarzon', 'Philippines', 14.626, 121.123, 550],
+  ['Makati City', 'National Capital Region', 'Philippines', 14.55, 121.033, 510],
+  ['Novosibirsk', 'Novosibirsk Oblast', 'Russia', 55.041, 82.935, 1419],
+  ['Yekaterinburg', 'Sverdlovsk Oblast', 'Russia', 56.852, 60.612, 1350],
+  ['Omsk', 'Omsk Oblast', 'Russia', 54.992, 73.369, 1129],
+  ['Chelyabinsk', 'Chelyabinsk', 'Russia', 55.154, 61.429, 1063],
+  ['Ufa', 'Bashkortostan Republic', 'Russia', 54.743, 55.968, 1033],
+  ['Perm', 'Perm Krai', 'Russia', 58.01, 56.25, 982],
+  ['Krasnoyarsk', 'Krasnoyarsk Krai', 'Russia', 56.018, 92.867, 927],
+  ['Barnaul', 'Altai Krai', 'Russia', 53.361, 83.764, 600],
+  ['Vladivostok', 'Primorye', 'Russia', 43.106, 131.874, 587],
+  ['Irkutsk', 'Irkutsk Oblast', 'Russia', 52.298, 104.296, 587],
+  ['Khabarovsk', 'Khabarovsk', 'Russia', 48.483, 135.084, 579],
+  ['Orenburg', 'Orenburg Oblast', 'Russia', 51.773, 55.099, 550],
+  ['Novokuznetsk', 'Kuzbass', 'Russia', 53.756, 87.11, 540],
+  ['Tyumen', 'Tyumen Oblast', 'Russia', 57.152, 65.527, 519],
+  ['Mecca', 'Makkah', 'Saudi Arabia', 21.427, 39.826, 1324],
+  ['Medina', 'Medina Region', 'Saudi Arabia', 24.469, 39.614, 1300],
+  ['Sultanah', 'Medina Region', 'Saudi Arabia', 24.493, 39.586, 947],
+  ['Dammam', 'Eastern Province', 'Saudi Arabia', 26.434, 50.103, 769],
+  ['Ta\'if', 'Makkah', 'Saudi Arabia', 21.27, 40.416, 531],
+  ['Seoul', 'Seoul', 'South Korea', 37.566, 126.978, 10349],
+  ['Busan', 'Busan', 'South Korea', 35.102, 129.03, 3679],
+  ['Incheon', 'Incheon', 'South Korea', 37.456, 126.705, 2628],
+  ['Daegu', 'Daegu', 'South Korea', 35.87, 128.591, 2567],
+  ['Daejeon', 'Daejeon', 'South Korea', 36.349, 127.385, 1475],
+  ['Gwangju', 'Gwangju', 'South Korea', 35.155, 126.916, 1417],
+  ['Suwon', 'Gyeonggi-do', 'South Korea', 37.291, 127.009, 1243],
+  ['Goyang-si', 'Gyeonggi-do', 'South Korea', 37.656, 126.835, 1073],
+  ['Seongnam-si', 'Gyeonggi-do', 'South Korea', 37.439, 127.138, 1032],
+  ['Ulsan', 'Ulsan', 'South Korea', 35.537, 129.317, 963],
+  ['Bucheon-si', 'Gyeonggi-do', 'South Korea', 37.499, 126.783, 851],
+  ['Jeonju', 'Jeollabuk-do', 'South Korea', 35.822, 127.149, 711],
+  ['Ansan-si', 'Gyeonggi-do', 'South Korea', 37.324, 126.822, 651],
+  ['Cheongju-si', 'North Chungcheong', 'South Korea', 36.637, 127.49, 635],
+  ['Anyang-si', 'Gyeonggi-do', 'South Korea', 37.392, 126.927, 634],
+  ['Changwon', 'Gyeongsangnam-do', 'South Korea', 35.228, 128.681, 550],
+  ['Pohang', 'Gyeongsangbuk-do', 'South Korea', 36.029, 129.365, 500],
+  ['Aleppo', 'Aleppo', 'Syria', 36.201, 37.161, 1602],
+  ['Damascus', 'Damascus Governorate', 'Syria', 33.51, 36.291, 1569],
+  ['Homs', 'Homs', 'Syria', 34.727, 36.723, 775],
+  ['Taipei', 'Taiwan', 'Taiwan', 25.048, 121.532, 7872],
+  ['Kaohsiung', 'Takao', 'Taiwan', 22.616, 120.313, 1520],
+  ['Taichung', 'Taiwan', 'Taiwan', 24.147, 120.684, 1041],
+  ['Tainan', 'Taiwan', 'Taiwan', 22.991, 120.213, 771],
+  ['Banqiao', 'Taipei', 'Taiwan', 25.014, 121.467, 543],
+  ['Dushanbe', 'Dushanbe', 'Tajikistan', 38.536, 68.779, 679],
+  ['Dili', 'Dili Municipality', 'Timor-Leste', -8.559, 125.574, 150],
+  ['Ashgabat', 'Ashgabat', 'Turkmenistan', 37.95, 58.383, 728],
+  ['Tashkent', 'Tashkent', 'Uzbekistan', 41.265, 69.216, 1978],
+  ['Ho Chi Minh City', 'Lang Son Province', 'Vietnam', 10.823, 106.63, 3467],
+  ['Hanoi', 'Quang Tri', 'Vietnam', 21.024, 105.841, 1431],
+  ['Da Nang', 'Vietnam', 'Vietnam', 16.068, 108.221, 752],
+  ['Haiphong', 'Vietnam', 'Vietnam', 20.865, 106.683, 603],
+  ['Sanaa', 'Sanaa Governorate', 'Yemen', 15.355, 44.207, 1937],
+  ['Al Hudaydah', 'Al Hudaydah', 'Yemen', 14.798, 42.955, 618],
+  ['Ta`izz', 'Taizz', 'Yemen', 13.58, 44.021, 615],
+  ['Aden', 'Aden', 'Yemen', 12.779, 45.037, 551],
+  // Europe
+  ['Mariehamn', 'Mariehamn', 'Aland Islands', 60.097, 19.935, 11],
+  ['Tirana', 'Tirana', 'Albania', 41.328, 19.819, 375],
+  ['Andorra la Vella', 'Andorra la Vella', 'Andorra', 42.508, 1.521, 20],
+  ['Minsk', 'Minsk City', 'Belarus', 53.9, 27.567, 1742],
+  ['Sarajevo', 'Federation of B&H', 'Bosnia and Herzegovina', 43.849, 18.356, 697],
+  ['Sofia', 'Sofia-Capital', 'Bulgaria', 42.698, 23.324, 1153],
+  ['Zagreb', 'Zagreb', 'Croatia', 45.814, 15.978, 699],
+  ['Prague', 'Prague', 'Czechia', 50.088, 14.421, 1166],
+  ['Tallinn', 'Harjumaa', 'Estonia', 59.437, 24.754, 394],
+  ['Helsinki', 'Uusimaa', 'Finland', 60.17, 24.935, 558],
+  ['Marseille', 'Provence-Alpes-Cote d\'Azur', 'France', 43.297, 5.381, 795],
+  ['Hamburg', 'Hamburg', 'Germany', 53.551, 9.993, 1739],
+  ['Koeln', 'North Rhine-Westphalia', 'Germany', 50.933, 6.95, 963],
+  ['Essen', 'North Rhine-Westphalia', 'Germany', 51.457, 7.012, 593],
+  ['Stuttgart', 'Baden-Wurttemberg', 'Germany', 48.782, 9.177, 590],
+  ['Dortmund', 'North Rhine-Westphalia', 'Germany', 51.515, 7.466, 588],
+  ['Duesseldorf', 'North Rhine-Westphalia', 'Germany', 51.222, 6.776, 573],
+  ['Bremen', 'Bremen', 'Germany', 53.076, 8.807, 547],
+  ['Hannover', 'Lower Saxony', 'Germany', 52.371, 9.733, 515],
+  ['Leipzig', 'Saxony', 'Germany', 51.34, 12.371, 505],
+  ['Duisburg', 'North Rhine-Westphalia', 'Germany', 51.432, 6.765, 504],
+  ['Gibraltar', 'Gibraltar', 'Gibraltar', 36.145, -5.353, 27],
+  ['Athens', 'Attica', 'Greece', 37.984, 23.728, 664],
+  ['Saint Peter Port', 'St Peter Port', 'Guernsey', 49.46, -2.535, 16],
+  ['Budapest', 'Budapest', 'Hungary', 47.498, 19.04, 1741],
+  ['Douglas', 'Douglas', 'Isle of Man', 54.15, -4.483, 26],
+  ['Naples', 'Campania', 'Italy', 40.852, 14.268, 959],
+  ['Turin', 'Piedmont', 'Italy', 45.07, 7.687, 870],
+  ['Palermo', 'Sicily', 'Italy', 38.132, 13.336, 648],
+  ['Genoa', 'Liguria', 'Italy', 44.405, 8.944, 580],
+  ['Saint Helier', 'St Helier', 'Jersey', 49.188, -2.105, 28],
+  ['Pristina', 'Pristina', 'Kosovo', 42.673, 21.167, 550],
+  ['Riga', 'Riga', 'Latvia', 56.946, 24.106, 743],
+  ['Vaduz', 'Vaduz', 'Liechtenstein', 47.142, 9.522, 5],
+  ['Vilnius', 'Vilnius', 'Lithuania', 54.689, 25.28, 542],
+  ['Luxembourg', 'Luxembourg', 'Luxembourg', 49.612, 6.13, 77],
+  ['Valletta', 'Valletta', 'Malta', 35.9, 14.515, 7],
+  ['Chisinau', 'Chisinau Municipality', 'Moldova', 47.006, 28.858, 636],
+  ['Monaco', 'Municipality of Monaco', 'Monaco', 43.733, 7.417, 33],
+  ['Podgorica', 'Podgorica', 'Montenegro', 42.441, 19.264, 136],
+  ['Rotterdam', 'South Holland', 'Netherlands', 51.922, 4.479, 598],
+  ['Skopje', 'Grad Skopje', 'North Macedonia', 41.996, 21.431, 475],
+  ['Lodz', 'odz Voivodeship', 'Poland', 51.771, 19.474, 769],
+  ['Krakow', 'Lesser Poland', 'Poland', 50.061, 19.937, 755],
+  ['Wroclaw', 'Lower Silesia', 'Poland', 51.1, 17.033, 635],
+  ['Poznan', 'Greater Poland', 'Poland', 52.407, 16.93, 570],
+  ['Lisbon', 'Lisbon', 'Portugal', 38.717, -9.133, 518],
+  ['Bucharest', 'Bucharest', 'Romania', 44.432, 26.106, 1877],
+  ['Saint Petersburg', 'St.-Petersburg', 'Russia', 59.939, 30.314, 5028],
+  ['Nizhniy Novgorod', 'Nizhny Novgorod Oblast', 'Russia', 56.329, 44.002, 1284],
+  ['Samara', 'Samara Oblast', 'Russia', 53.2, 50.15, 1135],
+  ['Kazan', 'Tatarstan Republic', 'Russia', 55.789, 49.122, 1105],
+  ['Rostov-na-Donu', 'Rostov', 'Russia', 47.231, 39.723, 1074],
+  ['Volgograd', 'Volgograd Oblast', 'Russia', 48.719, 44.502, 1011],
+  ['Saratov', 'Saratov Oblast', 'Russia', 51.541, 46.009, 864],
+  ['Voronezh', 'Voronezh Oblast', 'Russia', 51.672, 39.184, 849],
+  ['Tol\'yatti', 'Samara Oblast', 'Russia', 53.53, 49.346, 703],
+  ['Krasnodar', 'Krasnodar Krai', 'Russia', 45.045, 38.976, 650],
+  ['Ulyanovsk', 'Ulyanovsk', 'Russia', 54.328, 48.387, 641],
+  ['Izhevsk', 'Udmurtiya Republic', 'Russia', 56.85, 53.204, 631],
+  ['Yaroslavl', 'Yaroslavl Oblast', 'Russia', 57.63, 39.874, 607],
+  ['Ryazan\'', 'Ryazan Oblast', 'Russia', 54.627, 39.692, 520],
+  ['Lipetsk', 'Lipetsk Oblast', 'Russia', 52.603, 39.571, 516],
+  ['Penza', 'Penza Oblast', 'Russia', 53.201, 45.005, 513],
+  ['Naberezhnyye Chelny', 'Tatarstan Republic', 'Russia', 55.725, 52.411, 510],
+  ['Astrakhan', 'Astrakhan Oblast', 'Russia', 46.35, 48.041, 503],
+  ['San Marino', 'San Marino', 'San Marino', 43.937, 12.446, 4],
+  ['Belgrade', 'Central Serbia', 'Serbia', 44.804, 20.465, 1274],
+  ['Bratislava', 'Bratislava Region', 'Slovakia', 48.148, 17.107, 424],
+  ['Ljubljana', 'Ljubljana', 'Slovenia', 46.051, 14.505, 272],
+  ['Valencia', 'Valencia', 'Spain', 39.47, -0.377, 814],
+  ['Sevilla', 'Andalusia', 'Spain', 37.383, -5.973, 703],
+  ['Zaragoza', 'Aragon', 'Spain', 41.656, -0.877, 674],
+  ['Malaga', 'Andalusia', 'Spain', 36.72, -4.42, 568],
+  ['Goeteborg', 'Vastra Gotaland', 'Sweden', 57.707, 11.967, 573],
+  ['Bern', 'Bern', 'Switzerland', 46.948, 7.447, 122],
+  ['Ankara', 'Ankara', 'Turkey', 39.92, 32.854, 3517],
+  ['Izmir', 'Izmir Province', 'Turkey', 38.413, 27.138, 2501],
+  ['Bursa', 'Bursa Province', 'Turkey', 40.196, 29.06, 1413],
+  ['Adana', 'Adana', 'Turkey', 36.986, 35.325, 1249],
+  ['Gaziantep', 'Gaziantep', 'Turkey', 37.059, 37.383, 1066],
+  ['Konya', 'Konya', 'Turkey', 37.871, 32.485, 876],
+  ['Cankaya', 'Ankara', 'Turkey', 39.918, 32.863, 792],
+  ['Antalya', 'Antalya', 'Turkey', 36.908, 30.696, 758],
+  ['Bagcilar', 'Istanbul', 'Turkey', 41.039, 28.857, 724],
+  ['Diyarbakir', 'Diyarbakr Province', 'Turkey', 37.914, 40.217, 645],
+  ['Kayseri', 'Kayseri', 'Turkey', 38.732, 35.485, 593],
+  ['UEskuedar', 'Istanbul', 'Turkey', 41.023, 29.014, 583],
+  ['Bahcelievler', 'Istanbul', 'Turkey', 41.002, 28.86, 577],
+  ['Umraniye', 'Istanbul', 'Turkey', 41.016, 29.125, 573],
+  ['Mersin', 'Mersin', 'Turkey', 36.812, 34.639, 538],
+  ['Esenler', 'Istanbul', 'Turkey', 41.044, 28.876, 520],
+  ['Eskisehir', 'Eskisehir', 'Turkey', 39.777, 30.521, 515],
+  ['Kyiv', 'Kyiv City', 'Ukraine', 50.455, 30.524, 2798],
+  ['Kharkiv', 'Kharkiv', 'Ukraine', 49.981, 36.253, 1431],
+  ['Dnipro', 'Dnipropetrovsk', 'Ukraine', 48.459, 35.039, 1033],
+  ['Donetsk', 'Donetsk', 'Ukraine', 48.023, 37.802, 1025],
+  ['Odessa', 'Odesa', 'Ukraine', 46.477, 30.733, 1002],
+  ['Zaporizhia', 'Zaporizhzhia', 'Ukraine', 47.823, 35.19, 796],
+  ['Lviv', 'Lviv', 'Ukraine', 49.838, 24.023, 718],
+  ['Kryvyi Rih', 'Dnipropetrovsk', 'Ukraine', 47.91, 33.38, 652],
+  ['Mykolayiv', 'Mykolaiv', 'Ukraine', 46.966, 31.997, 511],
+  ['Liverpool', 'England', 'United Kingdom', 53.411, -2.978, 864],
+  ['Nottingham', 'England', 'United Kingdom', 52.954, -1.15, 730],
+  ['Sheffield', 'England', 'United Kingdom', 53.383, -1.466, 685],
+  ['Bristol', 'England', 'United Kingdom', 51.455, -2.597, 617],
+  // Africa
+  ['Algiers', 'Algiers', 'Algeria', 36.732, 3.087, 1978],
+  ['Boumerdas', 'Boumerdes', 'Algeria', 36.766, 3.477, 786],
+  ['Oran', 'Oran', 'Algeria', 35.699, -0.636, 646],
+  ['Tebessa', 'Tebessa', 'Algeria', 35.404, 8.124, 634],
+  ['Luanda', 'Luanda', 'Angola', -8.837, 13.234, 2776],
+  ['Cotonou', 'Littoral', 'Benin', 6.365, 2.418, 780],
+  ['Porto-Novo', 'Oueme', 'Benin', 6.496, 2.604, 234],
+  ['Gaborone', 'Gaborone', 'Botswana', -24.655, 25.909, 208],
+  ['Ouagadougou', 'Centre', 'Burkina Faso', 12.366, -1.534, 1087],
+  ['Gitega', 'Gitega', 'Burundi', -3.427, 29.925, 41],
+  ['Douala', 'Littoral', 'Cameroon', 4.048, 9.704, 1338],
+  ['Yaounde', 'Centre', 'Cameroon', 3.867, 11.517, 1299],
+  ['Bangui', 'Bangui', 'Central African Republic', 4.361, 18.555, 542],
+  ['N\'Djamena', 'NDjamena', 'Chad', 12.107, 15.044, 721],
+  ['Brazzaville', 'Brazzaville', 'Congo', -4.266, 15.283, 1285],
+  ['Pointe-Noire', 'Pointe-Noire', 'Congo', -4.776, 11.864, 659],
+  ['Kinshasa', 'Kinshasa', 'DR Congo', -4.328, 15.314, 7786],
+  ['Lubumbashi', 'Haut-Katanga', 'DR Congo', -11.661, 27.479, 1374],
+  ['Mbuji-Mayi', 'East Kasai', 'DR Congo', -6.136, 23.59, 875],
+  ['Kisangani', 'Tshopo', 'DR Congo', 0.515, 25.191, 539],
+  ['Djibouti', 'Djibouti', 'Djibouti', 11.589, 43.145, 624],
+  ['Alexandria', 'Alexandria', 'Egypt', 31.202, 29.916, 3812],
+  ['Giza', 'Giza', 'Egypt', 30.009, 31.209, 2443],
+  ['Port Said', 'Port Said', 'Egypt', 31.265, 32.302, 538],
+  ['Malabo', 'Bioko Norte', 'Equatorial Guinea', 3.756, 8.782, 156],
+  ['Asmara', 'Maekel', 'Eritrea', 15.338, 38.932, 564],
+  ['Mbabane', 'Hhohho Region', 'Eswatini', -26.317, 31.133, 76],
+  ['Addis Ababa', 'Addis Ababa', 'Ethiopia', 9.025, 38.747, 2758],
+  ['Libreville', 'Estuaire', 'Gabon', 0.392, 9.454, 578],
+  ['Banjul', 'Banjul', 'Gambia', 13.453, -16.578, 35],
+  ['Accra', 'Greater Accra', 'Ghana', 5.556, -0.197, 1963],
+  ['Kumasi', 'Ashanti', 'Ghana', 6.688, -1.624, 1469],
+  ['Camayenne', 'Conakry', 'Guinea', 9.535, -13.688, 1871],
+  ['Conakry', 'Conakry', 'Guinea', 9.538, -13.677, 1767],
+  ['Bissau', 'Bissau', 'Guinea-Bissau', 11.864, -15.598, 388],
+  ['Abidjan', 'Abidjan Autonomous District', 'Ivory Coast', 5.354, -4.002, 3677],
+  ['Abobo', 'Abidjan Autonomous District', 'Ivory Coast', 5.416, -4.016, 900],
+  ['Bouake', 'Vallee du Bandama District', 'Ivory Coast', 7.694, -5.03, 567],
+  ['Yamoussoukro', 'Lacs District', 'Ivory Coast', 6.821, -5.277, 195],
+  ['Mombasa', 'Mombasa County', 'Kenya', -4.055, 39.664, 800],
+  ['Maseru', 'Maseru District', 'Lesotho', -29.317, 27.483, 118],
+  ['Monrovia', 'Montserrado County', 'Liberia', 6.301, -10.797, 940],
+  ['Tripoli', 'Tripoli', 'Libya', 32.887, 13.187, 1151],
+  ['Benghazi', 'Banghazi', 'Libya', 32.115, 20.069, 651],
+  ['Lilongwe', 'Central Region', 'Malawi', -13.967, 33.787, 647],
+  ['Blantyre', 'Southern Region', 'Malawi', -15.785, 35.009, 585],
+  ['Bamako', 'Bamako', 'Mali', 12.65, -8, 1297],
+  ['Nouakchott', 'Mauritania', 'Mauritania', 18.086, -15.979, 661],
+  ['Casablanca', 'Casablanca-Settat', 'Morocco', 33.588, -7.611, 3145],
+  ['Rabat', 'Rabat-Sale-Kenitra', 'Morocco', 34.013, -6.833, 1656],
+  ['Fes', 'Fes-Meknes', 'Morocco', 34.033, -5, 965],
+  ['Sale', 'Rabat-Sale-Kenitra', 'Morocco', 34.053, -6.798, 903],
+  ['Marrakesh', 'Marrakesh-Safi', 'Morocco', 31.634, -8, 839],
+  ['Agadir', 'Souss-Massa', 'Morocco', 30.42, -9.598, 698],
+  ['Tangier', 'Tanger-Tetouan-Al Hoceima', 'Morocco', 35.767, -5.8, 688],
+  ['Meknes', 'Fes-Meknes', 'Morocco', 33.894, -5.547, 546],
+  ['Maputo', 'Maputo City', 'Mozambique', -25.966, 32.583, 1192],
+  ['Matola', 'Maputo Province', 'Mozambique', -25.962, 32.459, 675],
+  ['Beira', 'Sofala', 'Mozambique', -19.844, 34.839, 531],
+  ['Windhoek', 'Khomas Region', 'Namibia', -22.559, 17.083, 268],
+  ['Niamey', 'Niamey', 'Niger', 13.514, 2.11, 774],
+  ['Kano', 'Kano State', 'Nigeria', 12, 8.517, 3626],
+  ['Ibadan', 'Oyo State', 'Nigeria', 7.378, 3.906, 3565],
+  ['Kaduna', 'Kaduna State', 'Nigeria', 10.526, 7.439, 1582],
+  ['Port Harcourt', 'Rivers State', 'Nigeria', 4.777, 7.013, 1149],
+  ['Benin City', 'Edo State', 'Nigeria', 6.338, 5.626, 1125],
+  ['Maiduguri', 'Borno State', 'Nigeria', 11.847, 13.157, 1112],
+  ['Zaria', 'Kaduna State', 'Nigeria', 11.111, 7.723, 975],
+  ['Aba', 'Abia State', 'Nigeria', 5.107, 7.367, 898],
+  ['Jos', 'Plateau State', 'Nigeria', 9.928, 8.892, 817],
+  ['Ilorin', 'Kwara State', 'Nigeria', 8.497, 4.542, 814],
+  ['Oyo', 'Oyo State', 'Nigeria', 7.853, 3.931, 736],
+  ['Enugu', 'Enugu State', 'Nigeria', 6.441, 7.499, 689],
+  ['Abeokuta', 'Ogun State', 'Nigeria', 7.156, 3.345, 593],
+  ['Abuja', 'FCT', 'Nigeria', 9.058, 7.495, 590],
+  ['Sokoto', 'Sokoto', 'Nigeria', 13.063, 5.243, 564],
+  ['Onitsha', 'Anambra', 'Nigeria', 6.15, 6.786, 561],
+  ['Warri', 'Delta', 'Nigeria', 5.517, 5.75, 536],
+  ['Ebute Ikorodu', 'Lagos', 'Nigeria', 6.601, 3.488, 536],
+  ['Kigali', 'Kigali', 'Rwanda', -1.95, 30.059, 745],
+  ['Sao Tome', 'Sao Tome Island', 'Sao Tome and Principe', 0.337, 6.727, 53],
+  ['Dakar', 'Dakar', 'Senegal', 14.694, -17.444, 2476],
+  ['Pikine', 'Dakar', 'Senegal', 14.765, -17.391, 874],
+  ['Touba', 'Diourbel Region', 'Senegal', 14.85, -15.883, 529],
+  ['Freetown', 'Western Area', 'Sierra Leone', 8.487, -13.236, 803],
+  ['Mogadishu', 'Banaadir', 'Somalia', 2.037, 45.344, 2587],
+  ['Cape Town', 'Western Cape', 'South Africa', -33.926, 18.423, 3433],
+  ['Soweto', 'Gauteng', 'South Africa', -26.268, 27.858, 1695],
+  ['Pretoria', 'Gauteng', 'South Africa', -25.745, 28.188, 1619],
+  ['Port Elizabeth', 'Eastern Cape', 'South Africa', -33.961, 25.615, 968],
+  ['Pietermaritzburg', 'KwaZulu-Natal', 'South Africa', -29.617, 30.393, 751],
+  ['Benoni', 'Gauteng', 'South Africa', -26.188, 28.321, 605],
+  ['Tembisa', 'Gauteng', 'South Africa', -25.996, 28.227, 512],
+  ['Juba', 'South Sudan', 'South Sudan', 4.852, 31.582, 450],
+  ['Khartoum', 'Khartoum', 'Sudan', 15.552, 32.532, 1975],
+  ['Omdurman', 'Khartoum', 'Sudan', 15.645, 32.478, 1200],
+  ['Nyala', 'Southern Darfur', 'Sudan', 12.049, 24.881, 566],
+  ['Dodoma', 'Dodoma', 'Tanzania', -6.172, 35.739, 181],
+  ['Lome', 'Maritime', 'Togo', 6.129, 1.222, 750],
+  ['Tunis', 'Tunis Governorate', 'Tunisia', 36.819, 10.166, 693],
+  ['Lusaka', 'Lusaka Province', 'Zambia', -15.407, 28.287, 1267],
+  ['Harare', 'Harare', 'Zimbabwe', -17.828, 31.053, 1543],
+  ['Bulawayo', 'Bulawayo', 'Zimbabwe', -20.15, 28.583, 699],
+  // Americas
+  ['The Valley', 'The Valley', 'Anguilla', 18.217, -63.058, 2],
+  ['Saint John\'s', 'Saint John Parish', 'Antigua and Barbuda', 17.121, -61.843, 24],
+  ['Buenos Aires', 'Buenos Aires F.D.', 'Argentina', -34.613, -58.377, 13076],
+  ['Cordoba', 'Cordoba', 'Argentina', -31.413, -64.181, 1428],
+  ['Rosario', 'Santa Fe', 'Argentina', -32.947, -60.639, 1174],
+  ['Mendoza', 'Mendoza', 'Argentina', -32.891, -68.827, 877],
+  ['San Miguel de Tucuman', 'Tucuman', 'Argentina', -26.824, -65.223, 781],
+  ['La Plata', 'Buenos Aires', 'Argentina', -34.921, -57.955, 694],
+  ['Mar del Plata', 'Buenos Aires', 'Argentina', -38, -57.556, 554],
+  ['Salta', 'Salta', 'Argentina', -24.786, -65.412, 513],
+  ['Oranjestad', 'Aruba', 'Aruba', 12.524, -70.027, 30],
+  ['Nassau', 'New Providence', 'Bahamas', 25.058, -77.343, 228],
+  ['Bridgetown', 'Saint Michael', 'Barbados', 13.107, -59.62, 99],
+  ['Belmopan', 'Cayo District', 'Belize', 17.25, -88.767, 13],
+  ['Santa Cruz de la Sierra', 'Santa Cruz Department', 'Bolivia', -17.786, -63.181, 1364],
+  ['Cochabamba', 'Cochabamba', 'Bolivia', -17.39, -66.157, 900],
+  ['La Paz', 'La Paz Department', 'Bolivia', -16.5, -68.15, 813],
+  ['Sucre', 'Chuquisaca Department', 'Bolivia', -19.033, -65.263, 225],
+  ['Sao Paulo', 'Sao Paulo', 'Brazil', -23.547, -46.636, 10021],
+  ['Rio de Janeiro', 'Rio de Janeiro', 'Brazil', -22.906, -43.182, 6024],
+  ['Salvador', 'Bahia', 'Brazil', -12.971, -38.511, 2712],
+  ['Fortaleza', 'Ceara', 'Brazil', -3.717, -38.543, 2400],
+  ['Belo Horizonte', 'Minas Gerais', 'Brazil', -19.921, -43.938, 2373],
+  ['Brasilia', 'Federal District', 'Brazil', -15.78, -47.93, 2208],
+  ['Curitiba', 'Parana', 'Brazil', -25.428, -49.273, 1718],
+  ['Manaus', 'Amazonas', 'Brazil', -3.102, -60.025, 1598],
+  ['Recife', 'Pernambuco', 'Brazil', -8.054, -34.881, 1478],
+  ['Belem', 'Para', 'Brazil', -1.456, -48.504, 1408],
+  ['Porto Alegre', 'Rio Grande do Sul', 'Brazil', -30.033, -51.23, 1373],
+  ['Goiania', 'Goias', 'Brazil', -16.679, -49.254, 1171],
+  ['Guarulhos', 'Sao Paulo', 'Brazil', -23.463, -46.533, 1170],
+  ['Campinas', 'Sao Paulo', 'Brazil', -22.906, -47.061, 1032],
+  ['Nova Iguacu', 'Rio de Janeiro', 'Brazil', -22.759, -43.451, 1002],
+  ['Maceio', 'Alagoas', 'Brazil', -9.666, -35.735, 955],
+  ['Sao Luis', 'Maranhao', 'Brazil', -2.53, -44.303, 917],
+  ['Duque de Caxias', 'Rio de Janeiro', 'Brazil', -22.786, -43.312, 818],
+  ['Natal', 'Rio Grande do Norte', 'Brazil', -5.795, -35.209, 763],
+  ['Teresina', 'Piaui', 'Brazil', -5.089, -42.802, 745],
+  ['Sao Bernardo do Campo', 'Sao Paulo', 'Brazil', -23.694, -46.565, 743],
+  ['Campo Grande', 'Mato Grosso do Sul', 'Brazil', -20.443, -54.646, 729],
+  ['Jaboatao', 'Pernambuco', 'Brazil', -8.18, -35.001, 703],
+  ['Osasco', 'Sao Paulo', 'Brazil', -23.532, -46.792, 678],
+  ['Santo Andre', 'Sao Paulo', 'Brazil', -23.664, -46.538, 662],
+  ['Joao Pessoa', 'Paraiba', 'Brazil', -7.115, -34.863, 651],
+  ['Jaboatao dos Guararapes', 'Pernambuco', 'Brazil', -8.113, -35.015, 630],
+  ['Contagem', 'Minas Gerais', 'Brazil', -19.932, -44.054, 627],
+  ['Ribeirao Preto', 'Sao Paulo', 'Brazil', -21.177, -47.81, 620],
+  ['Sao Jose dos Campos', 'Sao Paulo', 'Brazil', -23.179, -45.887, 614],
+  ['Uberlandia', 'Minas Gerais', 'Brazil', -18.919, -48.277, 564],
+  ['Sorocaba', 'Sao Paulo', 'Brazil', -23.502, -47.458, 559],
+  ['Cuiaba', 'Mato Grosso', 'Brazil', -15.596, -56.097, 522],
+  ['Aparecida de Goiania', 'Goias', 'Brazil', -16.823, -49.244, 511],
+  ['Road Town', 'British Virgin Islands', 'British Virgin Islands', 18.427, -64.621, 8],
+  ['North York', 'Ontario', 'Canada', 43.767, -79.416, 636],
+  ['Winnipeg', 'Manitoba', 'Canada', 49.884, -97.147, 632],
+  ['Scarborough', 'Ontario', 'Canada', 43.772, -79.257, 600],
+  ['Quebec', 'Quebec', 'Canada', 46.812, -71.215, 529],
+  ['Hamilton', 'Ontario', 'Canada', 43.25, -79.85, 520],
+  ['Kralendijk', 'Bonaire', 'Caribbean Netherlands', 12.15, -68.267, 3],
+  ['George Town', 'George Town', 'Cayman Islands', 19.287, -81.374, 29],
+  ['Santiago', 'Santiago Metropolitan', 'Chile', -33.457, -70.648, 4837],
+  ['Puente Alto', 'Santiago Metropolitan', 'Chile', -33.612, -70.576, 510],
+  ['Bogota', 'Bogota D.C.', 'Colombia', 4.61, -74.082, 7674],
+  ['Cali', 'Valle del Cauca Department', 'Colombia', 3.437, -76.522, 2393],
+  ['Medellin', 'Antioquia', 'Colombia', 6.252, -75.564, 2000],
+  ['Barranquilla', 'Atlantico', 'Colombia', 10.969, -74.781, 1380],
+  ['Cartagena', 'Bolivar', 'Colombia', 10.4, -75.514, 952],
+  ['Cucuta', 'Norte de Santander Department', 'Colombia', 7.894, -72.508, 721],
+  ['Bucaramanga', 'Santander Department', 'Colombia', 7.125, -73.12, 572],
+  ['San Jose', 'San Jose', 'Costa Rica', 9.933, -84.083, 335],
+  ['Havana', 'Havana', 'Cuba', 23.133, -82.383, 2164],
+  ['Santiago de Cuba', 'Santiago de Cuba Province', 'Cuba', 20.021, -75.827, 556],
+  ['Willemstad', 'Curacao', 'Curacao', 12.108, -68.934, 125],
+  ['Roseau', 'Saint George Parish', 'Dominica', 15.302, -61.388, 17],
+  ['Santo Domingo', 'Nacional', 'Dominican Republic', 18.472, -69.892, 2202],
+  ['Santiago de los Caballeros', 'Santiago Province', 'Dominican Republic', 19.452, -70.697, 1200],
+  ['Santo Domingo Oeste', 'Santo Domingo Province', 'Dominican Republic', 18.5, -70, 701],
+  ['Santo Domingo Este', 'Santo Domingo Province', 'Dominican Republic', 18.488, -69.857, 700],
+  ['Guayaquil', 'Guayas', 'Ecuador', -2.196, -79.886, 1952],
+  ['Quito', 'Pichincha', 'Ecuador', -0.23, -78.525, 1400],
+  ['San Salvador', 'San Salvador Department', 'El Salvador', 13.689, -89.187, 526],
+  ['Cayenne', 'Guyane', 'French Guiana', 4.933, -52.333, 62],
+  ['Nuuk', 'Sermersooq', 'Greenland', 64.183, -51.722, 15],
+  ['Saint George\'s', 'Saint George Parish', 'Grenada', 12.053, -61.752, 8],
+  ['Basse-Terre', 'Guadeloupe', 'Guadeloupe', 15.997, -61.732, 11],
+  ['Guatemala City', 'Guatemala', 'Guatemala', 14.641, -90.513, 995],
+  ['Georgetown', 'Demerara-Mahaica', 'Guyana', 6.804, -58.155, 235],
+  ['Port-au-Prince', 'Ouest', 'Haiti', 18.543, -72.339, 1235],
+  ['Tegucigalpa', 'Francisco Morazan Department', 'Honduras', 14.082, -87.207, 851],
+  ['Kingston', 'Kingston', 'Jamaica', 17.997, -76.794, 938],
+  ['Fort-de-France', 'Martinique', 'Martinique', 14.604, -61.074, 90],
+  ['Mexico City', 'Mexico City', 'Mexico', 19.428, -99.128, 12294],
+  ['Iztapalapa', 'Mexico City', 'Mexico', 19.355, -99.062, 1816],
+  ['Ecatepec de Morelos', 'Mexico', 'Mexico', 19.605, -99.061, 1655],
+  ['Guadalajara', 'Jalisco', 'Mexico', 20.667, -103.392, 1495],
+  ['Puebla', 'Puebla', 'Mexico', 19.038, -98.203, 1434],
+  ['Juarez', 'Chihuahua', 'Mexico', 31.72, -106.461, 1321],
+  ['Tijuana', 'Baja California', 'Mexico', 32.503, -117.004, 1301],
+  ['Leon de los Aldama', 'Guanajuato', 'Mexico', 21.129, -101.674, 1239],
+  ['Gustavo Adolfo Madero', 'Mexico City', 'Mexico', 19.494, -99.111, 1186],
+  ['Zapopan', 'Jalisco', 'Mexico', 20.724, -103.385, 1142],
+  ['Monterrey', 'Nuevo Leon', 'Mexico', 25.675, -100.318, 1136],
+  ['Ciudad Nezahualcoyotl', 'Mexico', 'Mexico', 19.401, -99.015, 1105],
+  ['Chihuahua', 'Chihuahua', 'Mexico', 28.635, -106.089, 809],
+  ['Naucalpan de Juarez', 'Mexico', 'Mexico', 19.479, -99.24, 792],
+  ['Merida', 'Yucatan', 'Mexico', 20.975, -89.617, 778],
+  ['San Luis Potosi', 'San Luis Potosi', 'Mexico', 22.15, -100.979, 723],
+  ['Aguascalientes', 'Aguascalientes', 'Mexico', 21.882, -102.283, 722],
+  ['Hermosillo', 'Sonora', 'Mexico', 29.103, -110.977, 715],
+  ['Saltillo', 'Coahuila', 'Mexico', 25.423, -101.005, 710],
+  ['Mexicali', 'Baja California', 'Mexico', 32.628, -115.454, 690],
+  ['Culiacan', 'Sinaloa', 'Mexico', 24.79, -107.388, 676],
+  ['Guadalupe', 'Nuevo Leon', 'Mexico', 25.677, -100.256, 674],
+  ['Acapulco de Juarez', 'Guerrero', 'Mexico', 16.849, -99.909, 673],
+  ['Tlalnepantla', 'Mexico', 'Mexico', 19.54, -99.195, 653],
+  ['Cancun', 'Quintana Roo', 'Mexico', 21.174, -86.847, 628],
+  ['Santiago de Queretaro', 'Queretaro', 'Mexico', 20.588, -100.388, 626],
+  ['Coyoacan', 'Mexico City', 'Mexico', 19.347, -99.162, 620],
+  ['Santa Maria Chimalhuacan', 'Mexico', 'Mexico', 19.422, -98.95, 612],
+  ['Torreon', 'Coahuila', 'Mexico', 25.544, -103.419, 609],
+  ['Morelia', 'Michoacan', 'Mexico', 19.701, -101.184, 598],
+  ['Reynosa', 'Tamaulipas', 'Mexico', 26.081, -98.288, 589],
+  ['Tlaquepaque', 'Jalisco', 'Mexico', 20.641, -103.293, 576],
+  ['Tlalpan', 'Mexico City', 'Mexico', 19.295, -99.162, 575],
+  ['Tuxtla', 'Chiapas', 'Mexico', 16.76, -93.113, 537],
+  ['Cuauhtemoc', 'Mexico City', 'Mexico', 19.445, -99.146, 532],
+  ['Victoria de Durango', 'Durango', 'Mexico', 24.02, -104.658, 519],
+  ['Managua', 'Managua Department', 'Nicaragua', 12.133, -86.25, 973],
+  ['Panama', 'Panama', 'Panama', 8.994, -79.52, 408],
+  ['Asuncion', 'Asuncion', 'Paraguay', -25.286, -57.647, 1482],
+  ['Lima', 'Lima Province', 'Peru', -12.043, -77.028, 7737],
+  ['Arequipa', 'Arequipa', 'Peru', -16.399, -71.535, 841],
+  ['Callao', 'Callao', 'Peru', -12.057, -77.118, 813],
+  ['Trujillo', 'La Libertad', 'Peru', -8.116, -79.03, 747],
+  ['Chiclayo', 'Lambayeque', 'Peru', -6.771, -79.841, 577],
+  ['San Juan', 'San Juan', 'Puerto Rico', 18.466, -66.106, 418],
+  ['Gustavia', 'Saint Barthelemy', 'Saint Barthelemy', 17.896, -62.85, 6],
+  ['Basseterre', 'Saint George Basseterre', 'Saint Kitts and Nevis', 17.296, -62.725, 13],
+  ['Castries', 'Castries', 'Saint Lucia', 13.996, -61.006, 20],
+  ['Marigot', 'Saint Martin', 'Saint Martin', 18.068, -63.083, 6],
+  ['Saint-Pierre', 'Saint-Pierre', 'Saint Pierre and Miquelon', 46.779, -56.177, 6],
+  ['Kingstown', 'Saint George Parish', 'Saint Vincent and Grenadines', 13.155, -61.227, 25],
+  ['Philipsburg', 'Sint Maarten', 'Sint Maarten', 18.026, -63.046, 1],
+  ['Paramaribo', 'Paramaribo District', 'Suriname', 5.866, -55.167, 224],
+  ['Port of Spain', 'Port of Spain', 'Trinidad and Tobago', 10.667, -61.519, 49],
+  ['Cockburn Town', 'Turks and Caicos Islands', 'Turks and Caicos Islands', 21.461, -71.142, 4],
+  ['Charlotte Amalie', 'Saint Thomas Island', 'U.S. Virgin Islands', 18.342, -64.931, 20],
+  ['Brooklyn', 'New York', 'USA', 40.65, -73.95, 2301],
+  ['Queens', 'New York', 'USA', 40.681, -73.837, 2273],
+  ['Manhattan', 'New York', 'USA', 40.783, -73.966, 1488],
+  ['San Antonio', 'Texas', 'USA', 29.424, -98.494, 1470],
+  ['San Diego', 'California', 'USA', 32.716, -117.165, 1395],
+  ['The Bronx', 'New York', 'USA', 40.85, -73.866, 1385],
+  ['Jacksonville', 'Florida', 'USA', 30.332, -81.656, 868],
+  ['Columbus', 'Ohio', 'USA', 39.961, -82.999, 850],
+  ['Fort Worth', 'Texas', 'USA', 32.725, -97.321, 833],
+  ['Indianapolis', 'Indiana', 'USA', 39.768, -86.158, 830],
+  ['Charlotte', 'North Carolina', 'USA', 35.227, -80.843, 827],
+  ['El Paso', 'Texas', 'USA', 31.759, -106.487, 681],
+  ['Memphis', 'Tennessee', 'USA', 35.15, -90.049, 656],
+  ['Portland', 'Oregon', 'USA', 45.523, -122.676, 632],
+  ['Oklahoma City', 'Oklahoma', 'USA', 35.468, -97.516, 631],
+  ['Las Vegas', 'Nevada', 'USA', 36.175, -115.137, 624],
+  ['Baltimore', 'Maryland', 'USA', 39.29, -76.612, 622],
+  ['Milwaukee', 'Wisconsin', 'USA', 43.039, -87.906, 600],
+  ['Albuquerque', 'New Mexico', 'USA', 35.084, -106.651, 559],
+  ['Tucson', 'Arizona', 'USA', 32.222, -110.926, 532],
+  ['Nashville', 'Tennessee', 'USA', 36.166, -86.784, 531],
+  ['Fresno', 'California', 'USA', 36.748, -119.772, 520],
+  ['Montevideo', 'Montevideo Department', 'Uruguay', -34.903, -56.188, 1271],
+  ['Caracas', 'Distrito Federal', 'Venezuela', 10.488, -66.879, 3000],
+  ['Maracaibo', 'Zulia', 'Venezuela', 10.667, -71.612, 2225],
+  ['Maracay', 'Aragua', 'Venezuela', 10.235, -67.591, 1754],
+  ['Valencia', 'Carabobo', 'Venezuela', 10.162, -68.008, 1385],
+  ['Barquisimeto', 'Lara', 'Venezuela', 10.065, -69.357, 809],
+  ['Ciudad Guayana', 'Bolivar', 'Venezuela', 8.351, -62.641, 747],
+  // Oceania
+  ['Pago Pago', 'Eastern District', 'American Samoa', -14.278, -170.702, 12],
+  ['Gold Coast', 'Queensland', 'Australia', -28, 153.431, 591],
+  ['Avarua', 'Rarotonga', 'Cook Islands', -21.207, -159.775, 13],
+  ['Papeete', 'Iles du Vent', 'French Polynesia', -17.537, -149.566, 26],
+  ['Hagatna', 'Hagatna', 'Guam', 13.476, 144.749, 1],
+  ['Tarawa', 'Gilbert Islands', 'Kiribati', 1.328, 172.977, 40],
+  ['Majuro', 'Majuro Atoll', 'Marshall Islands', 7.09, 171.38, 25],
+  ['Yaren', 'Yaren District', 'Nauru', -0.551, 166.925, 1],
+  ['Noumea', 'South Province', 'New Caledonia', -22.274, 166.449, 93],
+  ['Saipan', 'Saipan', 'Northern Mariana Islands', 15.212, 145.755, 48],
+  ['Port Moresby', 'National Capital', 'Papua New Guinea', -9.477, 147.151, 284],
+  ['Apia', 'Tuamasaga', 'Samoa', -13.833, -171.767, 40],
+  ['Honiara', 'Honiara', 'Solomon Islands', -9.433, 159.95, 56],
+  ['Nuku\'alofa', 'Tongatapu', 'Tonga', -21.139, -175.202, 22],
+  ['Funafuti', 'Funafuti', 'Tuvalu', -8.524, 179.194, 4],
+  ['Port-Vila', 'Shefa', 'Vanuatu', -17.736, 168.314, 36],
+  ['Mata-Utu', 'Uvea', 'Wallis and Futuna', -13.282, -176.175, 1],
+  // Indian Ocean
+  ['Moroni', 'Grande Comore', 'Comoros', -11.702, 43.255, 43],
+  ['Antananarivo', 'Analamanga', 'Madagascar', -18.914, 47.536, 1391],
+  ['Mamoudzou', 'Mamoudzou', 'Mayotte', -12.782, 45.229, 55],
+  ['Saint-Denis', 'Reunion', 'Reunion', -20.882, 55.45, 137],
+  ['Victoria', 'La Riviere Anglaise', 'Seychelles', -4.62, 55.455, 23],
+  // Atlantic
+  ['Praia', 'Praia', 'Cape Verde', 14.932, -23.513, 113],
+  ['Stanley', 'Falkland Islands', 'Falkland Islands', -51.694, -57.857, 2],
+  ['Torshavn', 'Streymoy', 'Faroe Islands', 62.01, -6.772, 13],
+  ['Reykjavik', 'Capital Region', 'Iceland', 64.135, -21.895, 119],
+  // Arctic
+  ['Longyearbyen', 'Svalbard', 'Svalbard and Jan Mayen', 78.223, 15.647, 2],
+];
@@ -0,0 +1,75 @@
+import { AshtakavargaResult, GrahaPosition, Planet } from "../types";
+import { ZODIAC_SIGNS } from "../constants";
+import { dateToJulianDay, getSiderealLongitude, getSignNumber } from "./ephemerisService";
+
+export const ASHTAKAVARGA_PLANETS: Planet[] = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+type Contributor = Planet | 'Lagna';
+
+// Houses, counted from each contributor, in which it gives a bindu to the planet's Bhinnashtakavarga (BPHS)
+const BINDU_HOUSES: { [planet: string]: { [contributor: string]: number[] } } = {
+  Sun: {
+    Sun: [1, 2, 4, 7, 8, 9, 10, 11], Moon: [3, 6, 10, 11], Mars: [1, 2, 4, 7, 8, 9, 10, 11], Mercury: [3, 5, 6, 9, 10, 11, 12],
+    Jupiter: [5, 6, 9, 11], Venus: [6, 7, 12], Saturn: [1, 2, 4, 7, 8, 9, 10, 11], Lagna: [3, 4, 6, 10, 11, 12],
+  },
+  Moon: {
+    Sun: [3, 6, 7, 8, 10, 11], Moon: [1, 3, 6, 7, 10, 11], Mars: [2, 3, 5, 6, 9, 10, 11], Mercury: [1, 3, 4, 5, 7, 8, 10, 11],
+    Jupiter: [1, 4, 7, 8, 10, 11, 12], Venus: [3, 4, 5, 7, 9, 10, 11], Saturn: [3, 5, 6, 11], Lagna: [3, 6, 10, 11],
+  },
+  Mars: {
+    Sun: [3, 5, 6, 10, 11], Moon: [3, 6, 11], Mars: [1, 2, 4, 7, 8, 10, 11], Mercury: [3, 5, 6, 11],
+    Jupiter: [6, 10, 11, 12], Venus: [6, 8, 11, 12], Saturn: [1, 4, 7, 8, 9, 10, 11], Lagna: [1, 3, 6, 10, 11],
+  },
+  Mercury: {
+    Sun: [5, 6, 9, 11, 12], Moon: [2, 4, 6, 8, 10, 11], Mars: [1, 2, 4, 7, 8, 9, 10, 11], Mercury: [1, 3, 5, 6, 9, 10, 11, 12],
+    Jupiter: [6, 8, 11, 12], Venus: [1, 2, 3, 4, 5, 8, 9, 11], Saturn: [1, 2, 4, 7, 8, 9, 10, 11], Lagna: [1, 2, 4, 6, 8, 10, 11],
+  },
+  Jupiter: {
+    Sun: [1, 2, 3, 4, 7, 8, 9, 10, 11], Moon: [2, 5, 7, 9, 11], Mars: [1, 2, 4, 7, 8, 10, 11], Mercury: [1, 2, 4, 5, 6, 9, 10, 11],
+    Jupiter: [1, 2, 3, 4, 7, 8, 10, 11], Venus: [2, 5, 6, 9, 10, 11], Saturn: [3, 5, 6, 12], Lagna: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+  },
+  Venus: {
+    Sun: [8, 11, 12], Moon: [1, 2, 3, 4, 5, 8, 9, 11, 12], Mars: [3, 5, 6, 9, 11, 12], Mercury: [3, 5, 6, 9, 11],
+    Jupiter: [5, 8, 9, 10, 11], Venus: [1, 2, 3, 4, 5, 8, 9, 10, 11], Saturn: [3, 4, 5, 8, 9, 10, 11], Lagna: [1, 2, 3, 4, 5, 8, 9, 11],
+  },
+  Saturn: {
+    Sun: [1, 2, 4, 7, 8, 10, 11], Moon: [3, 6, 11], Mars: [3, 5, 6, 10, 11, 12], Mercury: [6, 8, 9, 10, 11, 12],
+    Jupiter: [5, 6, 11, 12], Venus: [6, 11, 12], Saturn: [3, 5, 6, 11], Lagna: [1, 3, 4, 6, 10, 11],
+  },
+};
+
+/**
+ * Bhinnashtakavarga of the seven planets and the Sarvashtakavarga, as bindus per sign (Aries first)
+ */
+export const computeAshtakavarga = (positions: GrahaPosition[], lagnaLongitude: number): AshtakavargaResult => {
+  const contributorSign = (c: Contributor) =>
+    getSignNumber(c === 'Lagna' ? lagnaLongitude : positions.find(p => p.planet === c)!.longitude);
+
+  const bhinna: { [planet: string]: number[] } = {};
+  ASHTAKAVARGA_PLANETS.forEach(planet => {
+    const bindus = new Array(12).fill(0);
+    Object.entries(BINDU_HOUSES[planet]).forEach(([contributor, houses]) => {
+      const from = contributorSign(contributor as Contributor);
+      houses.forEach(h => bindus[(from - 1 + h - 1) % 12]++);
+    });
+    bhinna[planet] = bindus;
+  });
+
+  const sarva = new Array(12).fill(0).map((_, sign) => ASHTAKAVARGA_PLANETS.reduce((sum, p) => sum + bhinna[p][sign], 0));
+  return { bhinna, sarva };
+};
+
+/**
+ * Today's sidereal transits scored against a natal Ashtakavarga, for AI prompts.
+ * 4+ bindus in the planet's own table and 28+ in the Sarvashtakavarga mark a supportive transit.
+ */
+export const formatTransitStrength = (ashtakavarga: AshtakavargaResult, date: Date = new Date()): string => {
+  const jd = dateToJulianDay(date);
+  return ASHTAKAVARGA_PLANETS.map(planet => {
+    const sign = getSignNumber(getSiderealLongitude(planet, jd));
+    const own = ashtakavarga.bhinna[planet][sign - 1];
+    const sav = ashtakavarga.sarva[sign - 1];
+    const verdict = own >= 4 && sav >= 28 ? 'strong' : own <= 2 || sav < 25 ? 'weak' : 'moderate';
+    return `${planet} transiting ${ZODIAC_SIGNS[sign - 1].name}: ${own}/8 bindus in its own Ashtakavarga, SAV ${sav} (${verdict})`;
+  }).join('\n');
+};
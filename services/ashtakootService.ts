@@ -0,0 +1,125 @@
+import { AshtakootResult, KootaScore } from "../types";
+import { NAKSHATRAS, ZODIAC_SIGNS } from "../constants";
+import { getNakshatraIndex, getSignNumber, normalize } from "./ephemerisService";
+import { SIGN_LORDS, NATURAL_RELATIONS } from "./dignityService";
+
+const VARNAS = ['Shudra', 'Vaishya', 'Kshatriya', 'Brahmin'];
+// Varna rank (index into VARNAS) of each sign, Aries first
+const SIGN_VARNA = [2, 1, 0, 3, 2, 1, 0, 3, 2, 1, 0, 3];
+
+const VASHYAS = ['Chatushpada', 'Manava', 'Jalachara', 'Vanachara', 'Keeta'];
+const VASHYA_POINTS = [
+  [2, 1, 1, 0.5, 1],
+  [1, 2, 0.5, 0, 1],
+  [1, 0.5, 2, 1, 1],
+  [0, 0, 0, 2, 0],
+  [1, 1, 1, 0, 2],
+];
+
+const YONIS = ['Horse', 'Elephant', 'Sheep', 'Serpent', 'Dog', 'Cat', 'Rat', 'Cow', 'Buffalo', 'Tiger', 'Deer', 'Monkey', 'Mongoose', 'Lion'];
+// Yoni animal of each nakshatra, Ashwini first
+const NAKSHATRA_YONI = [0, 1, 2, 3, 3, 4, 5, 2, 5, 6, 6, 7, 8, 9, 8, 9, 10, 10, 4, 11, 12, 11, 13, 0, 13, 7, 1];
+const YONI_POINTS = [
+  [4, 2, 2, 3, 2, 2, 2, 1, 0, 1, 3, 3, 2, 1],
+  [2, 4, 3, 3, 2, 2, 2, 2, 3, 1, 2, 3, 2, 0],
+  [2, 3, 4, 2, 1, 2, 1, 3, 3, 1, 2, 0, 3, 1],
+  [3, 3, 2, 4, 2, 1, 1, 1, 1, 2, 2, 2, 0, 2],
+  [2, 2, 1, 2, 4, 2, 1, 2, 2, 1, 0, 2, 1, 1],
+  [2, 2, 2, 1, 2, 4, 0, 2, 2, 1, 3, 3, 2, 1],
+  [2, 2, 1, 1, 1, 0, 4, 2, 2, 2, 2, 2, 1, 2],
+  [1, 2, 3, 1, 2, 2, 2, 4, 3, 0, 3, 2, 2, 1],
+  [0, 3, 3, 1, 2, 2, 2, 3, 4, 1, 2, 2, 2, 1],
+  [1, 1, 1, 2, 1, 1, 2, 0, 1, 4, 1, 1, 2, 1],
+  [3, 2, 2, 2, 0, 3, 2, 3, 2, 1, 4, 2, 2, 1],
+  [3, 3, 0, 2, 2, 3, 2, 2, 2, 1, 2, 4, 3, 2],
+  [2, 2, 3, 0, 1, 2, 1, 2, 2, 2, 2, 3, 4, 2],
+  [1, 0, 1, 2, 1, 1, 2, 1, 1, 1, 1, 2, 2, 4],
+];
+
+const GANAS = ['Deva', 'Manushya', 'Rakshasa'];
+// Gana of each nakshatra, Ashwini first
+const NAKSHATRA_GANA = [0, 1, 2, 1, 0, 1, 0, 0, 2, 2, 1, 1, 0, 2, 0, 2, 0, 2, 2, 1, 1, 0, 2, 2, 1, 1, 0];
+// Boy's gana by row, girl's by column
+const GANA_POINTS = [
+  [6, 6, 1],
+  [5, 6, 0],
+  [1, 0, 6],
+];
+
+const NADIS = ['Adi', 'Madhya', 'Antya'];
+
+const MAITRI_POINTS: { [pair: string]: number } = {
+  'friend-friend': 5, 'friend-neutral': 4, 'neutral-friend': 4, 'neutral-neutral': 3,
+  'friend-enemy': 1, 'enemy-friend': 1, 'neutral-enemy': 0.5, 'enemy-neutral': 0.5, 'enemy-enemy': 0,
+};
+
+// Sagittarius and Capricorn change Vashya at mid-sign
+const getVashya = (longitude: number) => {
+  const sign = getSignNumber(longitude);
+  const firstHalf = normalize(longitude) % 30 < 15;
+  if (sign === 9) return firstHalf ? 1 : 0;
+  if (sign === 10) return firstHalf ? 0 : 2;
+  return [0, 0, 1, 2, 3, 1, 1, 4, 1, 0, 1, 2][sign - 1];
+};
+
+const getNadi = (nakshatra: number) => [0, 1, 2, 2, 1, 0][nakshatra % 6];
+
+// Tara counted from one nakshatra to the other; the 3rd, 5th and 7th (Vipat, Pratyak, Vadha) are inauspicious
+const isAuspiciousTara = (from: number, to: number) => ![3, 5, 7].includes(((to - from + 27) % 27 + 1) % 9);
+
+/**
+ * Ashtakoot Guna Milan from the sidereal Moon longitudes of both partners, using the standard Parashari tables
+ */
+export const computeAshtakoot = (boyMoonLongitude: number, girlMoonLongitude: number): AshtakootResult => {
+  const boy = { moonLongitude: boyMoonLongitude, rashi: getSignNumber(boyMoonLongitude), nakshatra: getNakshatraIndex(boyMoonLongitude) };
+  const girl = { moonLongitude: girlMoonLongitude, rashi: getSignNumber(girlMoonLongitude), nakshatra: getNakshatraIndex(girlMoonLongitude) };
+
+  const boyVarna = SIGN_VARNA[boy.rashi - 1];
+  const girlVarna = SIGN_VARNA[girl.rashi - 1];
+  const boyVashya = getVashya(boyMoonLongitude);
+  const girlVashya = getVashya(girlMoonLongitude);
+  const taraPoints = (isAuspiciousTara(girl.nakshatra, boy.nakshatra) ? 1.5 : 0) + (isAuspiciousTara(boy.nakshatra, girl.nakshatra) ? 1.5 : 0);
+  const boyYoni = NAKSHATRA_YONI[boy.nakshatra];
+  const girlYoni = NAKSHATRA_YONI[girl.nakshatra];
+  const boyLord = SIGN_LORDS[boy.rashi - 1];
+  const girlLord = SIGN_LORDS[girl.rashi - 1];
+  const maitriPoints = boyLord === girlLord ? 5 : MAITRI_POINTS[`${NATURAL_RELATIONS[boyLord][girlLord]}-${NATURAL_RELATIONS[girlLord][boyLord]}`];
+  const boyGana = NAKSHATRA_GANA[boy.nakshatra];
+  const girlGana = NAKSHATRA_GANA[girl.nakshatra];
+  const bhakootDistance = ((boy.rashi - girl.rashi + 12) % 12) + 1;
+  const bhakootDosha = [2, 12, 5, 9, 6, 8].includes(bhakootDistance);
+  const boyNadi = getNadi(boy.nakshatra);
+  const girlNadi = getNadi(girl.nakshatra);
+
+  const kootas: KootaScore[] = [
+    { koota: 'Varna', score: boyVarna >= girlVarna ? 1 : 0, maxScore: 1, boy: VARNAS[boyVarna], girl: VARNAS[girlVarna] },
+    { koota: 'Vashya', score: VASHYA_POINTS[boyVashya][girlVashya], maxScore: 2, boy: VASHYAS[boyVashya], girl: VASHYAS[girlVashya] },
+    { koota: 'Tara', score: taraPoints, maxScore: 3, boy: NAKSHATRAS[boy.nakshatra], girl: NAKSHATRAS[girl.nakshatra] },
+    { koota: 'Yoni', score: YONI_POINTS[boyYoni][girlYoni], maxScore: 4, boy: YONIS[boyYoni], girl: YONIS[girlYoni] },
+    { koota: 'Graha Maitri', score: maitriPoints, maxScore: 5, boy: boyLord, girl: girlLord },
+    { koota: 'Gana', score: GANA_POINTS[boyGana][girlGana], maxScore: 6, boy: GANAS[boyGana], girl: GANAS[girlGana] },
+    { koota: 'Bhakoot', score: bhakootDosha ? 0 : 7, maxScore: 7, boy: ZODIAC_SIGNS[boy.rashi - 1].name, girl: ZODIAC_SIGNS[girl.rashi - 1].name },
+    { koota: 'Nadi', score: boyNadi === girlNadi ? 0 : 8, maxScore: 8, boy: NADIS[boyNadi], girl: NADIS[girlNadi] },
+  ];
+
+  const total = kootas.reduce((sum, k) => sum + k.score, 0);
+  return {
+    boy,
+    girl,
+    kootas,
+    total,
+    maxTotal: 36,
+    nadiDosha: boyNadi === girlNadi,
+    bhakootDosha,
+    verdict: total < 18 ? 'Not recommended' : total <= 24 ? 'Average' : total <= 32 ? 'Very good' : 'Excellent',
+  };
+};
+
+/**
+ * Text summary of the computed kootas for AI prompts
+ */
+export const formatAshtakootContext = (result: AshtakootResult): string => [
+  `Boy: Moon in ${ZODIAC_SIGNS[result.boy.rashi - 1].name}, ${NAKSHATRAS[result.boy.nakshatra]} nakshatra. Girl: Moon in ${ZODIAC_SIGNS[result.girl.rashi - 1].name}, ${NAKSHATRAS[result.girl.nakshatra]} nakshatra.`,
+  ...result.kootas.map(k => `${k.koota}: ${k.score}/${k.maxScore} (boy ${k.boy}, girl ${k.girl})`),
+  `Total: ${result.total}/${result.maxTotal} (${result.verdict})${result.nadiDosha ? ', Nadi Dosha present' : ''}${result.bhakootDosha ? ', Bhakoot Dosha present' : ''}`,
+].join('\n');
@@ -0,0 +1,393 @@
+import { CalendarEvent, EclipseContact, EclipseInfo, EclipseType, NatalProfile, ObservanceTime } from "../types";
+import { FESTIVALS, LUNAR_MONTHS, ZODIAC_SIGNS } from "../constants";
+import {
+  getTropicalLongitude, getSiderealLongitude, getMoonLatitude, getMoonDistance, getSunDistance,
+  getNakshatraIndex, getSignNumber, toJulianDay, julianDayToDate, dateToJulianDay, normalize,
+} from "./ephemerisService";
+import { getLocalSiderealTime, getObliquity } from "./lagnaService";
+import { getPaksha, getSunTimes, moonAltitude, sunAltitude } from "./panchangService";
+
+const RAD = Math.PI / 180;
+const sin = (deg: number) => Math.sin(deg * RAD);
+const cos = (deg: number) => Math.cos(deg * RAD);
+const asin = (x: number) => Math.asin(Math.max(-1, Math.min(1, x))) / RAD;
+const acos = (x: number) => Math.acos(Math.max(-1, Math.min(1, x))) / RAD;
+
+const SYNODIC_MONTH = 29.530589;
+const MINUTE = 1 / 1440;
+const EARTH_RADII_PER_AU = 23454.8;
+const MOON_RADIUS = 0.2725; // Earth radii
+const SHADOW_ENLARGEMENT = 1.02; // The atmosphere widens the Earth's shadow by about 2%
+
+const toIso = (jd: number) => julianDayToDate(jd).toISOString();
+const signedDelta = (deg: number) => ((deg % 360) + 540) % 360 - 180;
+
+const localDate = (jd: number, utcOffset: number) => toIso(jd + utcOffset / 24).slice(0, 10);
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+
+const elongation = (jd: number) => getTropicalLongitude('Moon', jd) - getTropicalLongitude('Sun', jd);
+
+// Moment nearest jd when the Moon is `target` degrees ahead of the Sun
+const findElongation = (target: number, jd: number): number => {
+  for (let i = 0; i < 30; i++) {
+    const delta = signedDelta(elongation(jd) - target);
+    jd -= delta / 12.19;
+    if (Math.abs(delta) < 1e-5) break;
+  }
+  return jd;
+};
+
+// Moment nearest jd when the sidereal Sun reaches `target`
+const findSolarIngress = (target: number, jd: number): number => {
+  for (let i = 0; i < 30; i++) {
+    const delta = signedDelta(getSiderealLongitude('Sun', jd) - target);
+    jd -= delta / 0.9856;
+    if (Math.abs(delta) < 1e-6) break;
+  }
+  return jd;
+};
+
+// Root of f between a and b, where f changes sign
+const bisect = (f: (jd: number) => number, a: number, b: number): number => {
+  const rising = f(a) < f(b);
+  while (b - a > MINUTE / 6) {
+    const mid = (a + b) / 2;
+    if ((f(mid) < 0) === rising) a = mid;
+    else b = mid;
+  }
+  return (a + b) / 2;
+};
+
+// Time of the smallest value of f in [from, to]: a 10-minute scan refined by golden section
+const minimize = (f: (jd: number) => number, from: number, to: number): number => {
+  let best = from;
+  for (let jd = from; jd <= to; jd += 10 * MINUTE) if (f(jd) < f(best)) best = jd;
+  let a = best - 10 * MINUTE;
+  let b = best + 10 * MINUTE;
+  const g = (Math.sqrt(5) - 1) / 2;
+  while (b - a > MINUTE / 6) {
+    const c = b - g * (b - a);
+    const d = a + g * (b - a);
+    if (f(c) < f(d)) b = d;
+    else a = c;
+  }
+  return (a + b) / 2;
+};
+
+const separation = (lon1: number, lat1: number, lon2: number, lat2: number) =>
+  acos(sin(lat1) * sin(lat2) + cos(lat1) * cos(lat2) * cos(lon1 - lon2));
+
+const moonRadiusAt = (jd: number) => asin(MOON_RADIUS / getMoonDistance(jd));
+const sunRadiusAt = (jd: number) => 959.63 / 3600 / getSunDistance(jd);
+const moonParallaxAt = (jd: number) => asin(1 / getMoonDistance(jd));
+const sunParallaxAt = (jd: number) => 8.794 / 3600 / getSunDistance(jd);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const natalHits = (nakshatra: number, profile?: NatalProfile | null): string[] => {
+  if (!profile) return [];
+  const hits: string[] = [];
+  if (profile.moonNakshatra === nakshatra) hits.push('Moon');
+  if (profile.lagnaNakshatra === nakshatra) hits.push('Lagna');
+  return hits;
+};
+
+/**
+ * Lunar eclipse around a full moon, or null. The Earth's shadow is the same for everyone;
+ * the place only decides which phases happen with the Moon above the horizon.
+ */
+const findLunarEclipse = (fullMoon: number, latitude: number, longitude: number): EclipseInfo | null => {
+  const sep = (jd: number) =>
+    separation(getTropicalLongitude('Moon', jd), getMoonLatitude(jd), getTropicalLongitude('Sun', jd) + 180, 0);
+  const umbra = (jd: number) => SHADOW_ENLARGEMENT * (moonParallaxAt(jd) + sunParallaxAt(jd) - sunRadiusAt(jd));
+  const penumbra = (jd: number) => SHADOW_ENLARGEMENT * (moonParallaxAt(jd) + sunParallaxAt(jd) + sunRadiusAt(jd));
+
+  const greatest = minimize(sep, fullMoon - 0.25, fullMoon + 0.25);
+  const closest = sep(greatest);
+  const sm = moonRadiusAt(greatest);
+  if (closest >= penumbra(greatest) + sm) return null;
+
+  const umbral = (umbra(greatest) + sm - closest) / (2 * sm);
+  const penumbral = (penumbra(greatest) + sm - closest) / (2 * sm);
+  const type: EclipseType = umbral >= 1 ? 'total' : umbral > 0 ? 'partial' : 'penumbral';
+
+  // Contacts come in pairs either side of greatest eclipse, each where the Moon's limb meets a shadow edge
+  const phase = (edge: (jd: number) => number) => {
+    const f = (jd: number) => sep(jd) - edge(jd);
+    return [bisect(f, greatest - 0.3, greatest), bisect(f, greatest, greatest + 0.3)];
+  };
+  const [p1, p4] = phase(jd => penumbra(jd) + moonRadiusAt(jd));
+  const [u1, u4] = type !== 'penumbral' ? phase(jd => umbra(jd) + moonRadiusAt(jd)) : [null, null];
+  const [u2, u3] = type === 'total' ? phase(jd => umbra(jd) - moonRadiusAt(jd)) : [null, null];
+
+  const moonUp = (from: number, to: number) => {
+    for (let jd = from; jd <= to; jd += 2 * MINUTE) if (moonAltitude(jd, latitude, longitude) > 0) return true;
+    return moonAltitude(to, latitude, longitude) > 0;
+  };
+  const localType: EclipseType | null =
+    u2 !== null && moonUp(u2, u3!) ? 'total'
+      : u1 !== null && moonUp(u1, u4!) ? 'partial'
+        : moonUp(p1, p4) ? 'penumbral'
+          : null;
+
+  const contacts: EclipseContact[] = ([
+    ['Penumbra begins', p1], ['Umbra begins', u1], ['Totality begins', u2], ['Greatest', greatest],
+    ['Totality ends', u3], ['Umbra ends', u4], ['Penumbra ends', p4],
+  ] as [string, number | null][])
+    .filter((c): c is [string, number] => c[1] !== null)
+    .map(([label, jd]) => ({ label, time: toIso(jd), altitude: moonAltitude(jd, latitude, longitude) }));
+
+  return {
+    body: 'lunar',
+    type,
+    localType,
+    magnitude: localType === null ? 0 : type === 'penumbral' ? penumbral : umbral,
+    greatest: toIso(greatest),
+    contacts,
+    nakshatra: getNakshatraIndex(getSiderealLongitude('Moon', greatest)),
+    natalHits: [],
+  };
+};
+
+// Geocentric equatorial position in Earth radii
+const toEquatorial = (lon: number, lat: number, distance: number, obliquity: number) => [
+  distance * cos(lat) * cos(lon),
+  distance * (cos(lat) * sin(lon) * cos(obliquity) - sin(lat) * sin(obliquity)),
+  distance * (cos(lat) * sin(lon) * sin(obliquity) + sin(lat) * cos(obliquity)),
+];
+
+/**
+ * Solar eclipse around a new moon, or null. Whether and how much of the Sun is covered depends on
+ * where one stands, so the local circumstances use the Moon's topocentric position. The Moon theory
+ * is good to a few arcminutes, too coarse for a central path a couple of hundred km wide, so the
+ * place only ever sees a partial phase of approximate magnitude; the type is the global one.
+ */
+const findSolarEclipse = (newMoon: number, latitude: number, longitude: number): EclipseInfo | null => {
+  const geoSep = (jd: number) =>
+    separation(getTropicalLongitude('Moon', jd), getMoonLatitude(jd), getTropicalLongitude('Sun', jd), 0);
+  const geoGreatest = minimize(geoSep, newMoon - 0.25, newMoon + 0.25);
+  const closest = geoSep(geoGreatest);
+  const sm = moonRadiusAt(geoGreatest);
+  const ss = sunRadiusAt(geoGreatest);
+  const axisReach = moonParallaxAt(geoGreatest) - sunParallaxAt(geoGreatest);
+  if (closest >= sm + ss + axisReach) return null;
+
+  // Central when the shadow axis meets the Earth; from the surface the Moon is about one Earth radius nearer
+  const type: EclipseType = closest >= axisReach
+    ? 'partial'
+    : asin(MOON_RADIUS / (getMoonDistance(geoGreatest) - 1)) > ss ? 'total' : 'annular';
+
+  const observed = (jd: number) => {
+    const eps = getObliquity(jd);
+    const lst = getLocalSiderealTime(jd, longitude);
+    const observer = [cos(latitude) * cos(lst), cos(latitude) * sin(lst), sin(latitude)];
+    const moon = toEquatorial(getTropicalLongitude('Moon', jd), getMoonLatitude(jd), getMoonDistance(jd), eps).map((v, i) => v - observer[i]);
+    const sun = toEquatorial(getTropicalLongitude('Sun', jd), 0, getSunDistance(jd) * EARTH_RADII_PER_AU, eps).map((v, i) => v - observer[i]);
+    const moonDistance = Math.hypot(moon[0], moon[1], moon[2]);
+    const sunDistance = Math.hypot(sun[0], sun[1], sun[2]);
+    const dot = moon[0] * sun[0] + moon[1] * sun[1] + moon[2] * sun[2];
+    return { sep: acos(dot / (moonDistance * sunDistance)), sm: asin(MOON_RADIUS / moonDistance), ss: sunRadiusAt(jd) };
+  };
+
+  const info: EclipseInfo = {
+    body: 'solar',
+    type,
+    localType: null,
+    magnitude: 0,
+    greatest: toIso(geoGreatest),
+    contacts: [],
+    nakshatra: getNakshatraIndex(getSiderealLongitude('Moon', geoGreatest)),
+    natalHits: [],
+  };
+
+  const greatest = minimize(jd => observed(jd).sep, geoGreatest - 0.3, geoGreatest + 0.3);
+  const local = observed(greatest);
+  if (local.sep >= local.sm + local.ss) return info;
+
+  const phase = (edge: (o: { sm: number; ss: number }) => number) => {
+    const f = (jd: number) => {
+      const o = observed(jd);
+      return o.sep - edge(o);
+    };
+    return [bisect(f, greatest - 0.3, greatest), bisect(f, greatest, greatest + 0.3)];
+  };
+  const [c1, c4] = phase(o => o.sm + o.ss);
+
+  // Only what happens with the Sun above the horizon counts
+  let magnitude = 0;
+  for (let jd = c1; jd <= c4; jd += 2 * MINUTE) {
+    if (sunAltitude(jd, latitude, longitude) <= 0) continue;
+    const o = observed(jd);
+    magnitude = Math.max(magnitude, (o.sm + o.ss - o.sep) / (2 * o.ss));
+  }
+  if (sunAltitude(greatest, latitude, longitude) > 0) {
+    magnitude = Math.max(magnitude, (local.sm + local.ss - local.sep) / (2 * local.ss));
+  }
+  if (magnitude <= 0) return info;
+
+  info.localType = 'partial';
+  info.magnitude = Math.min(magnitude, 1);
+  info.contacts = ([['Eclipse begins', c1], ['Greatest', greatest], ['Eclipse ends', c4]] as [string, number][])
+    .map(([label, jd]) => ({ label, time: toIso(jd), altitude: sunAltitude(jd, latitude, longitude) }));
+  return info;
+};
+
+/**
+ * Ekadashis, Purnimas, Amavasyas, tithi festivals, Sankrantis and eclipses of a civil year at a place,
+ * in date order. Tithi observances follow the amanta month and the tithi prevailing at the festival's
+ * reference moment; eclipses falling in the natal Moon or Lagna nakshatra of the profile are flagged.
+ * `utcOffsetOn` gives the offset in force on a local date, so daylight saving is followed through the year.
+ */
+export const computeCalendar = (
+  year: number,
+  latitude: number,
+  longitude: number,
+  utcOffsetOn: (date: string) => number,
+  profile?: NatalProfile | null
+): CalendarEvent[] => {
+  const offsets = new Map<string, number>();
+  const offsetOn = (date: string) => {
+    if (!offsets.has(date)) offsets.set(date, utcOffsetOn(date));
+    return offsets.get(date)!;
+  };
+  // Local date of a moment, taking the offset of its UTC date; they differ only for an hour or two around a change
+  const dateOf = (jd: number) => localDate(jd, offsetOn(toIso(jd).slice(0, 10)));
+
+  const startJd = toJulianDay(`${year}-01-01`, '00:00', offsetOn(`${year}-01-01`));
+  const endJd = toJulianDay(`${year + 1}-01-01`, '00:00', offsetOn(`${year + 1}-01-01`));
+  const inYear = (date: string) => date.startsWith(`${year}-`);
+  const events: CalendarEvent[] = [];
+
+  const sunTimes = new Map<string, { sunrise: number; sunset: number }>();
+  const sunTimesOn = (date: string) => {
+    if (!sunTimes.has(date)) {
+      const { sunrise, sunset } = getSunTimes(date, latitude, longitude, offsetOn(date));
+      // Polar days and nights have no sunrise or sunset; fall back to 6 AM and 6 PM
+      sunTimes.set(date, {
+        sunrise: sunrise ?? toJulianDay(date, '06:00', offsetOn(date)),
+        sunset: sunset ?? toJulianDay(date, '18:00', offsetOn(date)),
+      });
+    }
+    return sunTimes.get(date)!;
+  };
+  const momentOn = (date: string, at: ObservanceTime) => {
+    if (at === 'sunrise') return sunTimesOn(date).sunrise;
+    if (at === 'sunset') return sunTimesOn(date).sunset;
+    return (sunTimesOn(date).sunset + sunTimesOn(addDays(date, 1)).sunrise) / 2;
+  };
+
+  // The first day whose reference moment falls in the tithi; a tithi spanning none (kshaya) is kept on the day it begins
+  const observanceDay = (start: number, end: number, at: ObservanceTime) => {
+    const first = dateOf(start);
+    for (const date of [addDays(first, -1), first, addDays(first, 1)]) {
+      const moment = momentOn(date, at);
+      if (moment >= start && moment < end) return date;
+    }
+    return first;
+  };
+
+  const newMoons: number[] = [];
+  for (let jd = findElongation(0, startJd - SYNODIC_MONTH); jd < endJd + SYNODIC_MONTH; jd = findElongation(0, jd + SYNODIC_MONTH)) {
+    newMoons.push(jd);
+  }
+
+  for (let i = 0; i + 1 < newMoons.length; i++) {
+    // A month with no Sankranti repeats the name of the next and is Adhika (intercalary)
+    const sign = getSignNumber(getSiderealLongitude('Sun', newMoons[i]));
+    const adhika = sign === getSignNumber(getSiderealLongitude('Sun', newMoons[i + 1]));
+    const monthIndex = sign % 12;
+    const month = `${adhika ? 'Adhika ' : ''}${LUNAR_MONTHS[monthIndex]}`;
+
+    const bounds = [newMoons[i]];
+    for (let k = 1; k < 30; k++) bounds.push(findElongation(12 * k, newMoons[i] + k * SYNODIC_MONTH / 30));
+    bounds.push(newMoons[i + 1]);
+
+    for (let tithi = 0; tithi < 30; tithi++) {
+      const [start, end] = [bounds[tithi], bounds[tithi + 1]];
+      const add = (kind: CalendarEvent['kind'], name: string, at: ObservanceTime, days = 0) => {
+        const date = addDays(observanceDay(start, end, at), days);
+        if (inYear(date)) events.push({ kind, name, date, start: toIso(start), end: toIso(end), month, utcOffset: offsetOn(date) });
+      };
+      if (tithi === 10 || tithi === 25) add('ekadashi', `${getPaksha(tithi)} Ekadashi`, 'sunrise');
+      if (tithi === 14) add('purnima', 'Purnima', 'sunrise');
+      if (tithi === 29) add('amavasya', 'Amavasya', 'sunrise');
+      if (!adhika) {
+        FESTIVALS.filter(f => f.month === monthIndex && f.tithi === tithi).forEach(f => add('festival', f.name, f.at, f.days));
+      }
+    }
+
+    const eclipses = [findSolarEclipse(bounds[0], latitude, longitude), findLunarEclipse(bounds[15], latitude, longitude)];
+    for (const eclipse of eclipses) {
+      if (!eclipse) continue;
+      const date = dateOf(dateToJulianDay(new Date(eclipse.greatest)));
+      if (!inYear(date)) continue;
+      eclipse.natalHits = natalHits(eclipse.nakshatra, profile);
+      const seen = eclipse.contacts.length > 0;
+      events.push({
+        kind: 'eclipse',
+        name: `${capitalize(eclipse.type)} ${eclipse.body === 'solar' ? 'Solar Eclipse (Surya Grahan)' : 'Lunar Eclipse (Chandra Grahan)'}`,
+        date,
+        start: seen ? eclipse.contacts[0].time : eclipse.greatest,
+        end: seen ? eclipse.contacts[eclipse.contacts.length - 1].time : undefined,
+        month,
+        utcOffset: offsetOn(date),
+        eclipse,
+      });
+    }
+  }
+
+  ZODIAC_SIGNS.forEach((sign, index) => {
+    const target = index * 30;
+    const jd = findSolarIngress(target, startJd + normalize(target - getSiderealLongitude('Sun', startJd)) / 0.9856);
+    const date = dateOf(jd);
+    if (inYear(date)) events.push({ kind: 'sankranti', name: `${sign.moonSign} Sankranti`, date, start: toIso(jd), utcOffset: offsetOn(date) });
+  });
+
+  return events.sort((a, b) => a.date.localeCompare(b.date) || a.start.localeCompare(b.start));
+};
+
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+const icsDateTime = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Content lines longer than 75 characters continue on the next line after a leading space (RFC 5545)
+const foldLine = (line: string) => line.match(/.{1,74}/g)!.join('\r\n ');
+
+// YYYY-MM-DD HH:MM at the place, or only HH:MM
+const formatLocal = (iso: string, utcOffset: number, withDate = false) =>
+  new Date(Date.parse(iso) + utcOffset * 3600000).toISOString().slice(withDate ? 0 : 11, 16).replace('T', ' ');
+
+/**
+ * iCalendar (.ics) file of calendar events. Eclipses seen at the place are timed from first to last
+ * contact; everything else is an all-day event on its day of observance.
+ */
+export const buildIcs = (events: CalendarEvent[], location: string): string => {
+  const stamp = icsDateTime(new Date().toISOString());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Vedic Horoscope//Festival Calendar//EN', 'CALSCALE:GREGORIAN'];
+  events.forEach(event => {
+    const details = [event.month && `${event.month} month`];
+    if (event.eclipse) {
+      details.push(...event.eclipse.contacts.map(c => `${c.label} ${formatLocal(c.time, event.utcOffset)}`));
+      if (!event.eclipse.localType) details.push(`Not visible from ${location}`);
+      else if (event.eclipse.body === 'solar') details.push(`Magnitude about ${event.eclipse.magnitude.toFixed(2)} here`);
+      if (event.eclipse.natalHits.length) details.push(`Falls on the natal ${event.eclipse.natalHits.join(' and ')} nakshatra`);
+    } else if (event.kind === 'sankranti') {
+      details.push(`Ingress at ${formatLocal(event.start, event.utcOffset)}`);
+    } else {
+      details.push(`Tithi ${formatLocal(event.start, event.utcOffset, true)} to ${formatLocal(event.end!, event.utcOffset, true)}`);
+    }
+    const timed = event.eclipse?.localType && event.end;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.date}-${event.kind}-${event.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}@vedic-horoscope`,
+      `DTSTAMP:${stamp}`,
+      timed ? `DTSTART:${icsDateTime(event.start)}` : `DTSTART;VALUE=DATE:${event.date.replace(/-/g, '')}`,
+      timed ? `DTEND:${icsDateTime(event.end!)}` : `DTEND;VALUE=DATE:${addDays(event.date, 1).replace(/-/g, '')}`,
+      `SUMMARY:${icsText(event.name)}`,
+      `DESCRIPTION:${icsText(details.filter(Boolean).join('\n'))}`,
+      `LOCATION:${icsText(location)}`,
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,92 @@
+import { DashaLevel, DashaPeriod, Planet } from "../types";
+import { getNakshatraIndex, julianDayToDate, normalize } from "./ephemerisService";
+
+// Vimshottari order starting from Ashwini's lord, with Mahadasha lengths in years
+export const VIMSHOTTARI_SEQUENCE: { lord: Planet; years: number }[] = [
+  { lord: 'Ketu', years: 7 },
+  { lord: 'Venus', years: 20 },
+  { lord: 'Sun', years: 6 },
+  { lord: 'Moon', years: 10 },
+  { lord: 'Mars', years: 7 },
+  { lord: 'Rahu', years: 18 },
+  { lord: 'Jupiter', years: 16 },
+  { lord: 'Saturn', years: 19 },
+  { lord: 'Mercury', years: 17 },
+];
+
+const TOTAL_YEARS = 120;
+const YEAR_MS = 365.25 * 86400000;
+const NAKSHATRA_SPAN = 360 / 27;
+
+const LEVELS: DashaLevel[] = ['mahadasha', 'antardasha', 'pratyantardasha'];
+
+export const getNakshatraLord = (longitude: number): Planet =>
+  VIMSHOTTARI_SEQUENCE[getNakshatraIndex(longitude) % 9].lord;
+
+// Sub-periods run through the sequence starting from the parent lord, in proportion to each lord's years
+const buildPeriods = (startLord: Planet, start: number, spanYears: number, depth: number): DashaPeriod[] => {
+  const offset = VIMSHOTTARI_SEQUENCE.findIndex(s => s.lord === startLord);
+  const periods: DashaPeriod[] = [];
+  let cursor = start;
+  for (let i = 0; i < 9; i++) {
+    const { lord, years } = VIMSHOTTARI_SEQUENCE[(offset + i) % 9];
+    const duration = (spanYears * years) / TOTAL_YEARS;
+    const end = cursor + duration * YEAR_MS;
+    periods.push({
+      lord,
+      level: LEVELS[depth],
+      start: new Date(cursor).toISOString(),
+      end: new Date(end).toISOString(),
+      children: depth < LEVELS.length - 1 ? buildPeriods(lord, cursor, duration, depth + 1) : undefined,
+    });
+    cursor = end;
+  }
+  return periods;
+};
+
+/**
+ * Vimshottari Mahadasha → Antardasha → Pratyantardasha tree from the natal Moon.
+ * The first Mahadasha begins before birth by the portion of the Janma Nakshatra already traversed.
+ */
+export const computeVimshottariDasha = (moonLongitude: number, birthJd: number): DashaPeriod[] => {
+  const traversed = (normalize(moonLongitude) % NAKSHATRA_SPAN) / NAKSHATRA_SPAN;
+  const firstLord = getNakshatraLord(moonLongitude);
+  const firstYears = VIMSHOTTARI_SEQUENCE.find(s => s.lord === firstLord)!.years;
+  const cycleStart = julianDayToDate(birthJd).getTime() - traversed * firstYears * YEAR_MS;
+
+  return buildPeriods(firstLord, cycleStart, TOTAL_YEARS, 0);
+};
+
+/**
+ * Chain of periods running at a date, from Mahadasha down to Pratyantardasha
+ */
+export const getActiveDashaChain = (tree: DashaPeriod[], date: Date = new Date()): DashaPeriod[] => {
+  const chain: DashaPeriod[] = [];
+  let level: DashaPeriod[] | undefined = tree;
+  const time = date.getTime();
+  while (level) {
+    const current: DashaPeriod | undefined = level.find(p => new Date(p.start).getTime() <= time && time < new Date(p.end).getTime());
+    if (!current) break;
+    chain.push(current);
+    level = current.children;
+  }
+  return chain;
+};
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+/**
+ * Compact text summary of the dasha tree for AI prompts: all Mahadashas,
+ * the Antardashas of the running Mahadasha and the running chain.
+ */
+export const formatDashaContext = (tree: DashaPeriod[], date: Date = new Date()): string => {
+  const chain = getActiveDashaChain(tree, date);
+  const lines = [
+    'Vimshottari Mahadashas: ' + tree.map(p => `${p.lord} ${formatDate(p.start)} to ${formatDate(p.end)}`).join('; '),
+  ];
+  if (chain.length) {
+    lines.push(`Running now: ${chain.map(p => p.lord).join(' / ')} (${chain.map(p => `${p.level} until ${formatDate(p.end)}`).join(', ')})`);
+    lines.push(`Antardashas of ${chain[0].lord} Mahadasha: ` + (chain[0].children || []).map(p => `${p.lord} ${formatDate(p.start)} to ${formatDate(p.end)}`).join('; '));
+  }
+  return lines.join('\n');
+};
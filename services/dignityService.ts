@@ -0,0 +1,65 @@
+import { Dignity, Planet } from "../types";
+import { getSignNumber, normalize } from "./ephemerisService";
+
+type Relation = 'friend' | 'neutral' | 'enemy';
+
+// Lord of each sign, Aries first
+export const SIGN_LORDS: Planet[] = ['Mars', 'Venus', 'Mercury', 'Moon', 'Sun', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Saturn', 'Jupiter'];
+
+// Exaltation sign of each graha; debilitation is the seventh sign from it
+export const EXALTATION_SIGNS: { [planet: string]: number } = {
+  Sun: 1, Moon: 2, Mars: 10, Mercury: 6, Jupiter: 4, Venus: 12, Saturn: 7,
+};
+
+// Where the exaltation sign is also the moolatrikona sign, exaltation ends at this degree
+const EXALTATION_LIMITS: { [planet: string]: number } = { Moon: 3, Mercury: 15 };
+
+// Moolatrikona sign and degree range
+export const MOOLATRIKONA: { [planet: string]: [number, number, number] } = {
+  Sun: [5, 0, 20], Moon: [2, 3, 30], Mars: [1, 0, 12], Mercury: [6, 15, 20], Jupiter: [9, 0, 10], Venus: [7, 0, 15], Saturn: [11, 0, 20],
+};
+
+// Naisargika (natural) friendships of the seven grahas
+export const NATURAL_RELATIONS: { [planet: string]: { [other: string]: Relation } } = {
+  Sun: { Moon: 'friend', Mars: 'friend', Jupiter: 'friend', Mercury: 'neutral', Venus: 'enemy', Saturn: 'enemy' },
+  Moon: { Sun: 'friend', Mercury: 'friend', Mars: 'neutral', Jupiter: 'neutral', Venus: 'neutral', Saturn: 'neutral' },
+  Mars: { Sun: 'friend', Moon: 'friend', Jupiter: 'friend', Venus: 'neutral', Saturn: 'neutral', Mercury: 'enemy' },
+  Mercury: { Sun: 'friend', Venus: 'friend', Mars: 'neutral', Jupiter: 'neutral', Saturn: 'neutral', Moon: 'enemy' },
+  Jupiter: { Sun: 'friend', Moon: 'friend', Mars: 'friend', Saturn: 'neutral', Mercury: 'enemy', Venus: 'enemy' },
+  Venus: { Mercury: 'friend', Saturn: 'friend', Mars: 'neutral', Jupiter: 'neutral', Sun: 'enemy', Moon: 'enemy' },
+  Saturn: { Mercury: 'friend', Venus: 'friend', Jupiter: 'neutral', Sun: 'enemy', Moon: 'enemy', Mars: 'enemy' },
+};
+
+export const getSignLord = (sign: number): Planet => SIGN_LORDS[sign - 1];
+
+export const isOwnSign = (planet: Planet, sign: number) => SIGN_LORDS[sign - 1] === planet;
+
+export const isExalted = (planet: Planet, sign: number) => EXALTATION_SIGNS[planet] === sign;
+
+export const isDebilitated = (planet: Planet, sign: number) =>
+  EXALTATION_SIGNS[planet] !== undefined && ((EXALTATION_SIGNS[planet] + 5) % 12) + 1 === sign;
+
+/**
+ * Dignity of a graha at a sidereal longitude: exaltation, debilitation, moolatrikona and own sign
+ * first, otherwise its natural relationship with the sign lord. Rahu and Ketu own no sign here.
+ */
+export const getDignity = (planet: Planet, longitude: number): Dignity | null => {
+  if (!NATURAL_RELATIONS[planet]) return null;
+  const sign = getSignNumber(longitude);
+  const degree = normalize(longitude) % 30;
+  if (isExalted(planet, sign) && degree < (EXALTATION_LIMITS[planet] ?? 30)) return 'exalted';
+  if (isDebilitated(planet, sign)) return 'debilitated';
+  const [mtSign, mtFrom, mtTo] = MOOLATRIKONA[planet];
+  if (sign === mtSign && degree >= mtFrom && degree < mtTo) return 'moolatrikona';
+  if (isOwnSign(planet, sign)) return 'own';
+  return NATURAL_RELATIONS[planet][getSignLord(sign)];
+};
+
+// Signs (counted from the planet, 1 = its own) that each graha fully aspects
+const SPECIAL_ASPECTS: { [planet: string]: number[] } = { Mars: [4, 7, 8], Jupiter: [5, 7, 9], Saturn: [3, 7, 10] };
+
+/**
+ * Whether a graha in one sign casts a full Parashari aspect on another sign
+ */
+export const aspectsSign = (planet: Planet, fromSign: number, toSign: number) =>
+  (SPECIAL_ASPECTS[planet] || [7]).includes(((toSign - fromSign + 12) % 12) + 1);
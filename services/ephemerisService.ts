@@ -0,0 +1,283 @@
+import { AyanamsaType, GrahaPosition, NodeType, Planet } from "../types";
+import { NAKSHATRAS, ZODIAC_SIGNS } from "../constants";
+
+// Offset assumed for a birth time until the caller supplies one (IST)
+export const DEFAULT_UTC_OFFSET = 5.5;
+
+export const PLANET_ORDER: Planet[] = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ketu'];
+
+const NAKSHATRA_SPAN = 360 / 27;
+
+const RAD = Math.PI / 180;
+const sin = (deg: number) => Math.sin(deg * RAD);
+const cos = (deg: number) => Math.cos(deg * RAD);
+const atan2 = (y: number, x: number) => Math.atan2(y, x) / RAD;
+
+export const normalize = (deg: number) => ((deg % 360) + 360) % 360;
+
+/**
+ * Julian Day (UT) for a local civil date "YYYY-MM-DD" and time "HH:mm"
+ */
+export const toJulianDay = (dob: string, tob: string, utcOffset: number = DEFAULT_UTC_OFFSET): number => {
+  const [year, month, day] = dob.split('-').map(Number);
+  const [hour, minute] = (tob || '12:00').split(':').map(Number);
+  const ut = (hour || 0) + (minute || 0) / 60 - utcOffset;
+  return julianDayFromUT(year, month, day + ut / 24);
+};
+
+/**
+ * Meeus, Astronomical Algorithms ch. 7 (Gregorian calendar)
+ */
+export const julianDayFromUT = (year: number, month: number, day: number): number => {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+};
+
+export const julianDayToDate = (jd: number): Date => new Date((jd - 2440587.5) * 86400000);
+
+export const dateToJulianDay = (date: Date): number => date.getTime() / 86400000 + 2440587.5;
+
+/**
+ * Lahiri (Chitrapaksha) ayanamsa: 23°51'25.5" at J2000 plus general precession
+ */
+export const getLahiriAyanamsa = (jd: number): number => {
+  const t = (jd - 2451545.0) / 36525;
+  return 23.857092 + (5028.796195 * t + 1.1054348 * t * t) / 3600;
+};
+
+/**
+ * Krishnamurti ayanamsa: 22°21'50" at J1900 (Swiss Ephemeris value), precessing at the Lahiri rate
+ */
+export const getKrishnamurtiAyanamsa = (jd: number): number =>
+  getLahiriAyanamsa(jd) - getLahiriAyanamsa(2415020.0) + 22.363889;
+
+export const getAyanamsa = (jd: number, ayanamsaType: AyanamsaType = 'lahiri'): number =>
+  ayanamsaType === 'krishnamurti' ? getKrishnamurtiAyanamsa(jd) : getLahiriAyanamsa(jd);
+
+const solveKepler = (meanAnomaly: number, e: number): number => {
+  let E = meanAnomaly + (e / RAD) * sin(meanAnomaly) * (1 + e * cos(meanAnomaly));
+  for (let i = 0; i < 10; i++) {
+    const delta = (E - (e / RAD) * sin(E) - meanAnomaly) / (1 - e * cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-7) break;
+  }
+  return E;
+};
+
+interface OrbitalElements {
+  N: number; // Longitude of ascending node
+  i: number; // Inclination
+  w: number; // Argument of perihelion
+  a: number; // Semi-major axis (AU)
+  e: number; // Eccentricity
+  M: number; // Mean anomaly
+}
+
+// Orbital elements of date after Paul Schlyter, "Computing planetary positions"
+const ELEMENTS: { [key: string]: (d: number) => OrbitalElements } = {
+  Mercury: (d) => ({ N: 48.3313 + 3.24587e-5 * d, i: 7.0047 + 5.0e-8 * d, w: 29.1241 + 1.01444e-5 * d, a: 0.387098, e: 0.205635 + 5.59e-10 * d, M: 168.6562 + 4.0923344368 * d }),
+  Venus: (d) => ({ N: 76.6799 + 2.4659e-5 * d, i: 3.3946 + 2.75e-8 * d, w: 54.891 + 1.38374e-5 * d, a: 0.72333, e: 0.006773 - 1.302e-9 * d, M: 48.0052 + 1.6021302244 * d }),
+  Mars: (d) => ({ N: 49.5574 + 2.11081e-5 * d, i: 1.8497 - 1.78e-8 * d, w: 286.5016 + 2.92961e-5 * d, a: 1.523688, e: 0.093405 + 2.516e-9 * d, M: 18.6021 + 0.5240207766 * d }),
+  Jupiter: (d) => ({ N: 100.4542 + 2.76854e-5 * d, i: 1.303 - 1.557e-7 * d, w: 273.8777 + 1.64505e-5 * d, a: 5.20256, e: 0.048498 + 4.469e-9 * d, M: 19.895 + 0.0830853001 * d }),
+  Saturn: (d) => ({ N: 113.6634 + 2.3898e-5 * d, i: 2.4886 - 1.081e-7 * d, w: 339.3939 + 2.97661e-5 * d, a: 9.55475, e: 0.055546 - 9.499e-9 * d, M: 316.967 + 0.0334442282 * d }),
+};
+
+const sunPosition = (d: number) => {
+  const w = 282.9404 + 4.70935e-5 * d;
+  const e = 0.016709 - 1.151e-9 * d;
+  const M = normalize(356.047 + 0.9856002585 * d);
+  const E = solveKepler(M, e);
+  const xv = cos(E) - e;
+  const yv = Math.sqrt(1 - e * e) * sin(E);
+  const v = atan2(yv, xv);
+  const r = Math.sqrt(xv * xv + yv * yv);
+  const lon = normalize(v + w);
+  return { lon, r, M, meanLon: normalize(M + w), x: r * cos(lon), y: r * sin(lon) };
+};
+
+const moonPosition = (d: number) => {
+  const N = 125.1228 - 0.0529538083 * d;
+  const i = 5.1454;
+  const w = 318.0634 + 0.1643573223 * d;
+  const e = 0.0549;
+  const M = normalize(115.3654 + 13.0649929509 * d);
+  const E = solveKepler(M, e);
+  const xv = cos(E) - e;
+  const yv = Math.sqrt(1 - e * e) * sin(E);
+  const v = atan2(yv, xv);
+  const r = Math.sqrt(xv * xv + yv * yv);
+  const xh = r * (cos(N) * cos(v + w) - sin(N) * sin(v + w) * cos(i));
+  const yh = r * (sin(N) * cos(v + w) + cos(N) * sin(v + w) * cos(i));
+  const zh = r * sin(v + w) * sin(i);
+  const lon = atan2(yh, xh);
+  const lat = atan2(zh, Math.sqrt(xh * xh + yh * yh));
+
+  const sun = sunPosition(d);
+  const Ms = sun.M;
+  const Ls = sun.meanLon;
+  const Lm = normalize(M + w + N);
+  const D = Lm - Ls;
+  const F = Lm - N;
+
+  return {
+    lon: normalize(lon
+      - 1.274 * sin(M - 2 * D)
+      + 0.658 * sin(2 * D)
+      - 0.186 * sin(Ms)
+      - 0.059 * sin(2 * M - 2 * D)
+      - 0.057 * sin(M - 2 * D + Ms)
+      + 0.053 * sin(M + 2 * D)
+      + 0.046 * sin(2 * D - Ms)
+      + 0.041 * sin(M - Ms)
+      - 0.035 * sin(D)
+      - 0.031 * sin(M + Ms)
+      - 0.015 * sin(2 * F - 2 * D)
+      + 0.011 * sin(M - 4 * D)),
+    lat: lat
+      - 0.173 * sin(F - 2 * D)
+      - 0.055 * sin(M - F - 2 * D)
+      - 0.046 * sin(M + F - 2 * D)
+      + 0.033 * sin(F + 2 * D)
+      + 0.017 * sin(2 * M + F),
+    dist: 60.2666 * r - 0.58 * cos(M - 2 * D) - 0.46 * cos(2 * D), // Earth radii
+  };
+};
+
+const planetLongitude = (planet: string, d: number): number => {
+  const el = ELEMENTS[planet](d);
+  const M = normalize(el.M);
+  const E = solveKepler(M, el.e);
+  const xv = el.a * (cos(E) - el.e);
+  const yv = el.a * Math.sqrt(1 - el.e * el.e) * sin(E);
+  const v = atan2(yv, xv);
+  const r = Math.sqrt(xv * xv + yv * yv);
+  const xh = r * (cos(el.N) * cos(v + el.w) - sin(el.N) * sin(v + el.w) * cos(el.i));
+  const yh = r * (sin(el.N) * cos(v + el.w) + cos(el.N) * sin(v + el.w) * cos(el.i));
+  const zh = r * sin(v + el.w) * sin(el.i);
+
+  let lon = atan2(yh, xh);
+  let lat = atan2(zh, Math.sqrt(xh * xh + yh * yh));
+
+  // Mutual Jupiter-Saturn perturbations
+  if (planet === 'Jupiter' || planet === 'Saturn') {
+    const Mj = normalize(ELEMENTS.Jupiter(d).M);
+    const Msa = normalize(ELEMENTS.Saturn(d).M);
+    if (planet === 'Jupiter') {
+      lon += -0.332 * sin(2 * Mj - 5 * Msa - 67.6)
+        - 0.056 * sin(2 * Mj - 2 * Msa + 21)
+        + 0.042 * sin(3 * Mj - 5 * Msa + 21)
+        - 0.036 * sin(Mj - 2 * Msa)
+        + 0.022 * cos(Mj - Msa)
+        + 0.023 * sin(2 * Mj - 3 * Msa + 52)
+        - 0.016 * sin(Mj - 5 * Msa - 69);
+    } else {
+      lon += 0.812 * sin(2 * Mj - 5 * Msa - 67.6)
+        - 0.229 * cos(2 * Mj - 4 * Msa - 2)
+        + 0.119 * sin(Mj - 2 * Msa - 3)
+        + 0.046 * sin(2 * Mj - 6 * Msa - 69)
+        + 0.014 * sin(Mj - 3 * Msa + 32);
+      lat += -0.02 * cos(2 * Mj - 4 * Msa - 2) + 0.018 * sin(2 * Mj - 6 * Msa - 49);
+    }
+  }
+
+  // Heliocentric to geocentric
+  const sun = sunPosition(d);
+  const xg = r * cos(lon) * cos(lat) + sun.x;
+  const yg = r * sin(lon) * cos(lat) + sun.y;
+  return normalize(atan2(yg, xg));
+};
+
+/**
+ * Lunar node (Rahu). The true node adds the main periodic terms from Meeus ch. 47.
+ */
+const rahuLongitude = (jd: number, nodeType: NodeType): number => {
+  const t = (jd - 2451545.0) / 36525;
+  const mean = 125.0445479 - 1934.1362891 * t + 0.0020754 * t * t;
+  if (nodeType === 'mean') return normalize(mean);
+
+  const D = 297.8501921 + 445267.1114034 * t;
+  const M = 357.5291092 + 35999.0502909 * t;
+  const Mm = 134.9633964 + 477198.8675055 * t;
+  const F = 93.272095 + 483202.0175233 * t;
+  return normalize(mean
+    - 1.4979 * sin(2 * (D - F))
+    - 0.15 * sin(M)
+    - 0.1226 * sin(2 * D)
+    + 0.1176 * sin(2 * F)
+    + 0.0801 * sin(2 * (F - Mm)));
+};
+
+/**
+ * Tropical (equinox of date) geocentric longitude of a planet at a Julian Day (UT)
+ */
+export const getTropicalLongitude = (planet: Planet, jd: number, nodeType: NodeType = 'mean'): number => {
+  const d = jd - 2451543.5;
+  switch (planet) {
+    case 'Sun': return sunPosition(d).lon;
+    case 'Moon': return moonPosition(d).lon;
+    case 'Rahu': return rahuLongitude(jd, nodeType);
+    case 'Ketu': return normalize(rahuLongitude(jd, nodeType) + 180);
+    default: return planetLongitude(planet, d);
+  }
+};
+
+/**
+ * Geocentric ecliptic latitude of the Moon at a Julian Day (UT), needed for moonrise and eclipses
+ */
+export const getMoonLatitude = (jd: number): number => moonPosition(jd - 2451543.5).lat;
+
+// Geocentric distances, of the Moon in Earth radii and of the Sun in AU, for parallax and eclipse geometry
+export const getMoonDistance = (jd: number): number => moonPosition(jd - 2451543.5).dist;
+
+export const getSunDistance = (jd: number): number => sunPosition(jd - 2451543.5).r;
+
+export const getSiderealLongitude = (planet: Planet, jd: number, nodeType: NodeType = 'mean', ayanamsaType: AyanamsaType = 'lahiri'): number =>
+  normalize(getTropicalLongitude(planet, jd, nodeType) - getAyanamsa(jd, ayanamsaType));
+
+const angularDelta = (from: number, to: number) => ((to - from + 540) % 360) - 180;
+
+/**
+ * Sidereal positions and daily motion of all nine grahas
+ */
+export const getSiderealPositions = (jd: number, nodeType: NodeType = 'mean', ayanamsaType: AyanamsaType = 'lahiri'): GrahaPosition[] =>
+  PLANET_ORDER.map(planet => {
+    const longitude = getSiderealLongitude(planet, jd, nodeType, ayanamsaType);
+    const before = getSiderealLongitude(planet, jd - 0.5, nodeType, ayanamsaType);
+    const after = getSiderealLongitude(planet, jd + 0.5, nodeType, ayanamsaType);
+    return { planet, longitude, speed: angularDelta(before, after) };
+  });
+
+// Sign number 1-12 for a sidereal longitude
+export const getSignNumber = (longitude: number) => Math.floor(normalize(longitude) / 30) + 1;
+
+export const getSignName = (longitude: number) => ZODIAC_SIGNS[getSignNumber(longitude) - 1].name;
+
+export const getNakshatraIndex = (longitude: number) => Math.floor(normalize(longitude) / NAKSHATRA_SPAN);
+
+export const getNakshatraName = (longitude: number) => NAKSHATRAS[getNakshatraIndex(longitude)];
+
+// Quarter (1-4) of the nakshatra a longitude falls in
+export const getNakshatraPada = (longitude: number) =>
+  Math.floor((normalize(longitude) % NAKSHATRA_SPAN) / (NAKSHATRA_SPAN / 4)) + 1;
+
+export const formatDegree = (longitude: number): string => {
+  const inSign = normalize(longitude) % 30;
+  const deg = Math.floor(inSign);
+  const min = Math.floor((inSign - deg) * 60);
+  return `${deg}°${min.toString().padStart(2, '0')}'`;
+};
+
+/**
+ * Plain-text table used to ground the AI prompts in computed positions
+ */
+export const formatPositionsTable = (positions: GrahaPosition[]): string =>
+  positions.map(p =>
+    `${p.planet}: ${getSignName(p.longitude)} ${formatDegree(p.longitude)} (${p.longitude.toFixed(2)}°), Nakshatra ${getNakshatraName(p.longitude)}${p.speed < 0 && p.planet !== 'Rahu' && p.planet !== 'Ketu' ? ', Retrograde' : ''}`
+  ).join('\n');
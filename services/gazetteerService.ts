@@ -0,0 +1,128 @@
+import { BirthDetails, Place } from "../types";
+import { PLACES } from "../data/gazetteer";
+
+const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Abbreviations people commonly type after the city name
+const REGION_ABBREVIATIONS: { [region: string]: string } = {
+  'Uttar Pradesh': 'up', 'Madhya Pradesh': 'mp', 'Himachal Pradesh': 'hp', 'Andhra Pradesh': 'ap',
+  'Arunachal Pradesh': 'ap', 'Tamil Nadu': 'tn', 'West Bengal': 'wb', 'Jammu and Kashmir': 'jk',
+  'Maharashtra': 'mh', 'Karnataka': 'ka', 'Telangana': 'ts', 'Chhattisgarh': 'cg', 'Uttarakhand': 'uk',
+  'Gujarat': 'gj', 'Rajasthan': 'rj', 'Kerala': 'kl', 'Punjab': 'pb', 'Haryana': 'hr', 'Bihar': 'br',
+  'Jharkhand': 'jh', 'Odisha': 'od', 'Delhi': 'ncr', 'New York': 'ny', 'New Jersey': 'nj', 'California': 'ca',
+  'Texas': 'tx', 'Illinois': 'il', 'Massachusetts': 'ma', 'Oregon': 'or', 'Colorado': 'co', 'Washington': 'wa',
+  'Ontario': 'on', 'British Columbia': 'bc', 'New South Wales': 'nsw', 'Victoria': 'vic', 'Queensland': 'qld',
+};
+
+const COUNTRY_ABBREVIATIONS: { [country: string]: string } = {
+  'United Kingdom': 'uk gb britain', 'USA': 'us united states america', 'United Arab Emirates': 'uae',
+};
+
+interface IndexedPlace {
+  place: Place;
+  names: string[]; // Normalized name followed by aliases
+  qualifiers: string; // Normalized region and country
+}
+
+const INDEX: IndexedPlace[] = PLACES.map(([name, region, country, latitude, longitude, population, aliases = []]) => ({
+  place: { name, region, country, latitude, longitude, population },
+  names: [name, ...aliases].map(normalizeText),
+  qualifiers: ` ${normalizeText(`${region} ${country} ${REGION_ABBREVIATIONS[region] || ''} ${COUNTRY_ABBREVIATIONS[country] || ''}`)} `,
+}));
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = temp;
+    }
+  }
+  return row[b.length];
+};
+
+const nameScore = (query: string, name: string): number => {
+  if (name === query) return 100;
+  if (name.startsWith(query)) return 80 - Math.min(20, name.length - query.length);
+  if (name.split(' ').some(word => word.startsWith(query))) return 60;
+  // Typos are only tolerated once the query is long enough to be distinctive
+  const allowed = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+  if (!allowed) return 0;
+  const distance = Math.min(levenshtein(query, name), levenshtein(query, name.slice(0, query.length)));
+  return distance <= allowed ? 50 - distance * 10 : 0;
+};
+
+export const formatPlace = (place: Place) => `${place.name}, ${place.region}, ${place.country}`;
+
+export interface PlaceMatch {
+  place: Place;
+  score: number;
+  exact: boolean; // Query names this place (or one of its aliases) exactly
+}
+
+/**
+ * Fuzzy search over the bundled gazetteer. Text after the first comma
+ * ("Aurangabad, Bihar") narrows the results by state or country.
+ */
+export const searchPlaces = (query: string, limit = 8): PlaceMatch[] => {
+  const [head, ...rest] = query.split(',');
+  const nameQuery = normalizeText(head || '');
+  const qualifierTokens = normalizeText(rest.join(' ')).split(' ').filter(Boolean);
+  if (nameQuery.length < 2) return [];
+
+  const matches: PlaceMatch[] = [];
+  for (const entry of INDEX) {
+    const best = Math.max(...entry.names.map(n => nameScore(nameQuery, n)));
+    if (best === 0) continue;
+    const qualified = qualifierTokens.every(token => entry.qualifiers.includes(` ${token}`));
+    if (qualifierTokens.length && !qualified) continue;
+    matches.push({
+      place: entry.place,
+      score: best + (qualifierTokens.length ? 30 : 0) + Math.log10(1 + entry.place.population),
+      exact: best === 100,
+    });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * All places sharing the exact name the query resolves to, e.g. both Aurangabads
+ */
+export const getAmbiguousPlaces = (query: string): Place[] => {
+  const exact = searchPlaces(query, 20).filter(m => m.exact);
+  return exact.length > 1 ? exact.map(m => m.place) : [];
+};
+
+/**
+ * Offline geocoding of a free-text birth place against the gazetteer.
+ * Throws when the name is unknown or shared by several places, so the caller can
+ * ask the user to pick a suggestion or enter coordinates manually.
+ */
+export const getCoordinates = async (location: string) => {
+  const matches = searchPlaces(location, 20);
+  const exact = matches.filter(m => m.exact);
+
+  if (exact.length > 1) {
+    throw new Error(`"${location}" matches ${exact.length} places (${exact.map(m => m.place.region).join(', ')}). Please pick one from the suggestions.`);
+  }
+  const place = exact[0]?.place;
+  if (!place) {
+    const hint = matches.length ? ` Did you mean ${formatPlace(matches[0].place)}?` : '';
+    throw new Error(`"${location}" was not found in the place list.${hint} Pick a suggestion or enter latitude and longitude manually.`);
+  }
+  return { lat: place.latitude, lng: place.longitude, formattedAddress: formatPlace(place) };
+};
+
+/**
+ * Coordinates already picked or typed in by the user win over a name lookup
+ */
+export const getBirthCoordinates = async (details: BirthDetails) => {
+  if (details.latitude !== undefined && details.longitude !== undefined) {
+    return { lat: details.latitude, lng: details.longitude, formattedAddress: details.location };
+  }
+  return getCoordinates(details.location);
+};
@@ -1,7 +1,22 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { BirthDetails, MatchmakingDetails, MoonSign, Timeframe, Language, ChatMessage, KundaliResponse } from "../types";
+import { BirthDetails, MatchmakingDetails, MatchmakingResult, PredictionResult, MoonSign, Timeframe, Language, ChatMessage, KundaliResponse, NodeType, HouseSystem, DashaPeriod, YogaResult, AshtakavargaResult, VarshaphalResult, NumerologySystem, PythagoreanNumbers, NameCorrection } from "../types";
 import { StorageService } from "./storageService";
+import { ZODIAC_SIGNS } from "../constants";
+import { toJulianDay, getSiderealLongitude, getSiderealPositions, getLahiriAyanamsa, formatPositionsTable, formatDegree, getSignName, getNakshatraName } from "./ephemerisService";
+import { computeLagna, buildHouseChart } from "./lagnaService";
+import { formatUtcOffset } from "./timezoneService";
+import { computeVimshottariDasha, formatDashaContext } from "./dashaService";
+import { computeSadeSati, formatSadeSatiContext } from "./sadeSatiService";
+import { computeAshtakoot, formatAshtakootContext } from "./ashtakootService";
+import { computeManglik, matchManglik, formatManglikContext } from "./manglikService";
+import { detectYogas, formatYogaContext } from "./yogaService";
+import { computeAshtakavarga, formatTransitStrength } from "./ashtakavargaService";
+import { computeKeyTransits, formatTransitContext, TIMEFRAME_DAYS } from "./gocharService";
+import { computeShadbala, computeBhavaBala, getStrengthExtremes, formatShadbalaContext } from "./shadbalaService";
+import { formatVarshaphalContext } from "./varshaphalService";
+import { computePlanetPositions } from "./positionService";
+import { formatPythagoreanContext, formatCorrectionsContext } from "./numerologyService";
 
 const getCurrentDate = () => {
   const now = new Date();
@@ -32,34 +47,26 @@ async function withRetry<T>(fn: () => Promise<T>, retries = 2, delay = 2000): Pr
   }
 }
 
-export const getCoordinates = async (location: string) => {
-  const cacheKey = `coords_${location.toLowerCase().replace(/\s/g, '_')}`;
-  const cached = StorageService.get<any>(cacheKey) || null;
-  if (cached) return cached;
+export const getHoroscope = async (sign: string, timeframe: Timeframe, language: Language = 'English', natal?: AshtakavargaResult | null) => {
+  const cacheKey = StorageService.getKeys.horoscope(sign, timeframe, language) + (natal ? `_sav${natal.sarva.join('-')}` : '');
+  const cached = StorageService.get<PredictionResult>(cacheKey);
+  // Readings cached before transits were computed lack them; regenerate those
+  if (cached?.keyTransits) return cached;
 
-  const result = await withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Find lat/lng for: "${location}". Return JSON with keys: lat (number), lng (number), formattedAddress (string).`,
-      config: { responseMimeType: "application/json" }
-    });
-    return parseAIResponse(response.text || "{}");
-  });
-
-  StorageService.save(cacheKey, result, 720);
-  return result;
-};
-
-export const getHoroscope = async (sign: string, timeframe: Timeframe, language: Language = 'English') => {
-  const cacheKey = StorageService.getKeys.horoscope(sign, timeframe, language);
-  const cached = StorageService.get<any>(cacheKey);
-  if (cached) return cached;
+  const start = new Date();
+  const keyTransits = computeKeyTransits(start, new Date(start.getTime() + TIMEFRAME_DAYS[timeframe] * 86400000));
+  const moonSign = ZODIAC_SIGNS.findIndex(z => z.name === sign) + 1;
 
   const result = await withRetry(async () => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const prompt = `As a Master Vedic Astrologer, current date ${getCurrentDate()}. Provide a ${timeframe} horoscope for Moon Sign ${sign} in ${language}. 
-    Analyze precise planetary transits and their impact on Career, Health, Relationships, and Finance.`;
+    Analyze the planetary transits below and their impact on Career, Health, Relationships, and Finance.
+
+    COMPUTED SIDEREAL TRANSITS FOR THIS PERIOD (Lahiri; authoritative, base every statement about the sky on these and do not invent others):
+${formatTransitContext(start, keyTransits, moonSign)}${natal ? `
+
+    TRANSIT STRENGTH FROM THE NATAL ASHTAKAVARGA (authoritative; weigh each transit by these bindus, not by sign alone):
+${formatTransitStrength(natal)}` : ''}`;
     
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
@@ -85,33 +92,78 @@ export const getHoroscope = async (sign: string, timeframe: Timeframe, language:
     return parseAIResponse(response.text || "{}");
   });
 
-  StorageService.save(cacheKey, result, timeframe === 'daily' ? 12 : 168);
-  return result;
+  const prediction: PredictionResult = { ...result, keyTransits };
+  StorageService.save(cacheKey, prediction, timeframe === 'daily' ? 12 : 168);
+  return prediction;
 };
 
-export const getKundaliAnalysis = async (details: BirthDetails, language: Language): Promise<KundaliResponse> => {
-  return await withRetry(async () => {
+export const getKundaliAnalysis = async (
+  details: BirthDetails,
+  language: Language,
+  nodeType: NodeType = 'true',
+  houseSystem: HouseSystem = 'whole-sign'
+): Promise<KundaliResponse> => {
+  if (details.latitude === undefined || details.longitude === undefined) {
+    throw new Error("Birth coordinates are required to compute the Lagna.");
+  }
+  const jd = toJulianDay(details.dob, details.tob, details.utcOffset);
+  const positions = getSiderealPositions(jd, nodeType);
+  const lagna = computeLagna(jd, details.latitude, details.longitude, houseSystem);
+  const lagnaText = `${getSignName(lagna.lagnaLongitude)} ${formatDegree(lagna.lagnaLongitude)}`;
+  const moon = positions.find(p => p.planet === 'Moon')!;
+  const moonSign = getSignName(moon.longitude);
+  const nakshatra = getNakshatraName(moon.longitude);
+  const dasha = computeVimshottariDasha(moon.longitude, jd);
+  const sadeSati = computeSadeSati(moon.longitude, jd);
+  const manglik = computeManglik(positions, lagna.lagnaLongitude);
+  const yogas = detectYogas(positions, lagna.lagnaLongitude);
+  const ashtakavarga = computeAshtakavarga(positions, lagna.lagnaLongitude);
+  const shadbala = computeShadbala(positions, lagna, jd, details.latitude, details.longitude);
+  const bhavaBala = computeBhavaBala(shadbala, positions, lagna);
+  const { strongest, weakest } = getStrengthExtremes(shadbala);
+
+  const result = await withRetry(async () => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = `Generate a high-precision, technical Janma Kundali "Life Map" for: ${details.name}, DOB: ${details.dob}, TOB: ${details.tob}, Place: ${details.location}.
+    const prompt = `Generate a high-precision, technical Janma Kundali "Life Map" for: ${details.name}, DOB: ${details.dob}, TOB: ${details.tob}${details.utcOffset !== undefined ? ` (${formatUtcOffset(details.utcOffset)})` : ''}, Place: ${details.location}.
     Language: ${language}. Current Date: ${getCurrentDate()}.
+
+    COMPUTED SIDEREAL POSITIONS (Lahiri ayanamsa ${getLahiriAyanamsa(jd).toFixed(4)}°, ${nodeType} node). These are authoritative: do NOT recalculate, alter or contradict them.
+${formatPositionsTable(positions)}
+    Lagna (Ascendant): ${lagnaText}, Nakshatra ${getNakshatraName(lagna.lagnaLongitude)}. Houses: ${houseSystem}.
+${houseSystem === 'whole-sign' ? '' : lagna.cusps.map((c, i) => `    Bhava ${i + 1} cusp: ${getSignName(c)} ${formatDegree(c)}`).join('\n')}
+    Moon Sign: ${moonSign}, Janma Nakshatra: ${nakshatra}.
+
+    COMPUTED VIMSHOTTARI DASHA (authoritative, use these exact dates):
+${formatDashaContext(dasha)}
+
+    COMPUTED SATURN TRANSITS FROM THE MOON SIGN (authoritative, use these exact dates):
+${formatSadeSatiContext(sadeSati)}
+
+    COMPUTED MANGLIK (KUJA) DOSHA (authoritative): ${formatManglikContext(manglik)}
+
+    YOGAS PRESENT (detected by rule from the positions above; discuss these and do not claim others):
+${formatYogaContext(yogas)}
+
+    COMPUTED SARVASHTAKAVARGA (authoritative bindus per sign, Aries to Pisces; 28+ is strong): ${ashtakavarga.sarva.join(', ')}
+
+    COMPUTED SHADBALA AND BHAVA BALA (authoritative):
+${formatShadbalaContext(shadbala, bhavaBala)}
     
     CRITICAL: This is a professional-grade Life Analysis. You MUST include:
-    1. **Vedic Profile**: Detailed Varna, Gana, Nakshatra, and Moon Sign.
-    2. **Planetary Positions Table**: Degrees, Minutes, Rashi, and Nakshatra for Sun, Moon, Mars, Mercury, Jupiter, Venus, Saturn, Rahu, Ketu.
+    1. **Vedic Profile**: Lagna with its degree (${lagnaText}), Varna, Gana, Nakshatra, and Moon Sign.
+    2. **Planetary Positions Table**: Reproduce the computed positions above exactly (Degrees, Minutes, Rashi, Nakshatra) for Lagna, Sun, Moon, Mars, Mercury, Jupiter, Venus, Saturn, Rahu, Ketu.
     3. **Complete Life Report (NOT limited to current year)**:
        - **12 House Analysis**: Detailed impact of planets on each house for the entire life.
-       - **Vimshottari Mahadasha Timeline**: A structured list of major planetary periods (Dasha) and their durations throughout the user's life.
-       - **Comprehensive Shani Sade Sati Analysis**: A detailed timeline of all three phases of Sade Sati (past, current, and future cycles).
-       - **Remedies & Gemstones**: Specific rituals and stones for lifetime benefit.
+       - **Yogas**: Interpret each detected yoga above and the planets that form it.
+       - **Vimshottari Mahadasha Timeline**: Interpret each computed Mahadasha above and the running Antardasha; do not invent other dates.
+       - **Comprehensive Shani Sade Sati Analysis**: Interpret each computed cycle and phase above (past, current and future) and the Kantaka and Ashtama Dhaiyyas; do not invent other dates.
+       - **Manglik Dosha**: Interpret the computed result above, including any cancellation.
+       - **Remedies & Gemstones**: Specific rituals and stones for lifetime benefit. Base them on the computed Shadbala: the weakest planet is ${weakest.planet} (${(weakest.ratio * 100).toFixed(0)}% of required strength) and needs strengthening; the strongest is ${strongest.planet} (${(strongest.ratio * 100).toFixed(0)}%).
     
     Return a JSON object:
     - "report": (Professional Markdown string with bold headers and tables)
-    - "chart": (object) {"1": ["Planets"], ...}
-    - "lagnaSign": (number 1-12)
     - "varna": (string)
-    - "gana": (string)
-    - "nakshatra": (string)
-    - "moonSign": (string)`;
+    - "gana": (string)`;
 
     const response = await ai.models.generateContent({
       model: 'gemini-3-pro-preview',
@@ -123,58 +175,136 @@ export const getKundaliAnalysis = async (details: BirthDetails, language: Langua
     });
     return parseAIResponse(response.text || "{}");
   });
+
+  return {
+    ...result,
+    chart: buildHouseChart(positions, lagna),
+    positions,
+    lagnaSign: lagna.lagnaSign,
+    lagna,
+    planets: computePlanetPositions(positions, lagna),
+    dasha,
+    sadeSati,
+    manglik,
+    yogas,
+    ashtakavarga,
+    shadbala,
+    bhavaBala,
+    ayanamsa: getLahiriAyanamsa(jd),
+    nakshatra,
+    moonSign,
+  };
 };
 
-export const askKundaliQuestion = async (q: string, context: string, history: ChatMessage[], lang: Language) => {
+export const askKundaliQuestion = async (q: string, context: string, history: ChatMessage[], lang: Language, dasha?: DashaPeriod[], yogas?: YogaResult[]) => {
+  const dashaContext = dasha ? ` Computed Vimshottari Dasha (use these dates for any question about timing): ${formatDashaContext(dasha)}` : '';
+  const yogaContext = yogas ? ` Yogas detected by rule in this chart (answer yoga questions only from this list): ${formatYogaContext(yogas)}` : '';
   return await withRetry(async () => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const chatHistory = history.map(msg => ({ role: msg.role === 'user' ? 'user' : 'model', parts: [{ text: msg.text }] }));
     const response = await ai.models.generateContent({
       model: 'gemini-3-pro-preview',
       contents: [...chatHistory, { role: 'user', parts: [{ text: q }] }],
-      config: { systemInstruction: `You are the User's Personal Vedic Guide. Use the provided Kundali context: ${context}. Language: ${lang}. Current Date: ${getCurrentDate()}. Focus on providing life-long guidance.` }
+      config: { systemInstruction: `You are the User's Personal Vedic Guide. Use the provided Kundali context: ${context}.${dashaContext}${yogaContext} Language: ${lang}. Current Date: ${getCurrentDate()}. Focus on providing life-long guidance.` }
     });
     return response.text || "The cosmos is currently silent.";
   });
 };
 
-export const askNumerologyQuestion = async (q: string, dob: string, mulank: number, bhagyank: number, loshu: any, history: ChatMessage[], lang: Language) => {
+export const getVarshaphalReading = async (details: BirthDetails, varsha: VarshaphalResult, lang: Language, dasha?: DashaPeriod[]) => {
+  return await withRetry(async () => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const prompt = `Interpret the Tajik Varshaphal (annual solar-return chart) of ${details.name}, born ${details.dob} ${details.tob} at ${details.location}.
+
+    COMPUTED ANNUAL CHART (Lahiri; authoritative: do NOT recalculate, alter or contradict any of it):
+${formatVarshaphalContext(varsha)}${dasha ? `
+
+    NATAL VIMSHOTTARI DASHA (authoritative):
+${formatDashaContext(dasha, new Date(varsha.start))}` : ''}
+
+    TASK:
+    1. Judge the year through the Varsheshwara and its strength, and the house the Muntha falls in.
+    2. Read the Varsha Lagna and the houses the planets occupy in the annual chart for career, health, relationships and finance.
+    3. Walk through each Mudda dasha period above in order with its exact dates.
+    4. Note where the annual chart agrees or conflicts with the running natal dasha.
+
+    Language: ${lang}. Current Date: ${getCurrentDate()}. Return as Markdown.`;
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: prompt,
+      config: {
+        thinkingConfig: { thinkingBudget: 5000 }
+      }
+    });
+    return response.text || "";
+  });
+};
+
+export const askNumerologyQuestion = async (
+  q: string,
+  dob: string,
+  mulank: number,
+  bhagyank: number,
+  loshu: any,
+  history: ChatMessage[],
+  lang: Language,
+  system: NumerologySystem = 'chaldean',
+  pythagorean?: PythagoreanNumbers
+) => {
   return await withRetry(async () => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const chatHistory = history.map(msg => ({ role: msg.role === 'user' ? 'user' : 'model', parts: [{ text: msg.text }] }));
-    const context = `User DOB: ${dob}, Mulank: ${mulank}, Bhagyank: ${bhagyank}, Loshu Grid: ${JSON.stringify(loshu)}`;
+    const instruction = system === 'pythagorean' && pythagorean
+      ? `You are a Master Numerologist of the Pythagorean (Western) school. Answer questions based on the computed core numbers: ${formatPythagoreanContext(pythagorean)} (User DOB: ${dob}). Treat 11, 22 and 33 as master numbers and use Pythagorean letter values (A=1 ... I=9, J=1 ...) for any spelling advice.`
+      : `You are a Master Numerologist. Answer questions based on Mulank, Bhagyank and Loshu Grid context: User DOB: ${dob}, Mulank: ${mulank}, Bhagyank: ${bhagyank}, Loshu Grid: ${JSON.stringify(loshu)}. Use Chaldean letter values for any spelling advice.`;
     const response = await ai.models.generateContent({
       model: 'gemini-3-pro-preview',
       contents: [...chatHistory, { role: 'user', parts: [{ text: q }] }],
-      config: { systemInstruction: `You are a Master Numerologist. Answer questions based on Mulank, Bhagyank and Loshu Grid context: ${context}. Language: ${lang}.` }
+      config: { systemInstruction: `${instruction} Language: ${lang}.` }
     });
     return response.text || "The numbers are currently unclear.";
   });
 };
 
-export const getMatchmaking = async (details: MatchmakingDetails, language: Language) => {
-  return await withRetry(async () => {
+export const getMatchmaking = async (details: MatchmakingDetails, language: Language): Promise<MatchmakingResult> => {
+  const moonOf = (d: BirthDetails) => getSiderealLongitude('Moon', toJulianDay(d.dob, d.tob, d.utcOffset));
+  const ashtakoot = computeAshtakoot(moonOf(details.boy), moonOf(details.girl));
+  const manglikOf = (d: BirthDetails) => {
+    const jd = toJulianDay(d.dob, d.tob, d.utcOffset);
+    return computeManglik(getSiderealPositions(jd), computeLagna(jd, d.latitude!, d.longitude!).lagnaLongitude);
+  };
+  const manglik = matchManglik(manglikOf(details.boy), manglikOf(details.girl));
+
+  const report = await withRetry(async () => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const prompt = `Perform a high-precision Vedic Ashtakoot Milan (Matchmaking) compatibility analysis (36 Guna) between two individuals:
 
     Groom (Boy):
     Name: ${details.boy.name}
     DOB: ${details.boy.dob}
-    TOB: ${details.boy.tob}
+    TOB: ${details.boy.tob}${details.boy.utcOffset !== undefined ? ` (${formatUtcOffset(details.boy.utcOffset)})` : ''}
     Birth Location: ${details.boy.location}
     
     Bride (Girl):
     Name: ${details.girl.name}
     DOB: ${details.girl.dob}
-    TOB: ${details.girl.tob}
+    TOB: ${details.girl.tob}${details.girl.utcOffset !== undefined ? ` (${formatUtcOffset(details.girl.utcOffset)})` : ''}
     Birth Location: ${details.girl.location}
 
+    COMPUTED ASHTAKOOT SCORES (authoritative: do NOT recalculate, alter or contradict these numbers):
+${formatAshtakootContext(ashtakoot)}
+
+    COMPUTED MANGLIK DOSHA (authoritative):
+    Boy: ${formatManglikContext(manglik.boy)}
+    Girl: ${formatManglikContext(manglik.girl)}
+    Couple: ${manglik.rule}.
+
     TASK:
-    1. Calculate Nakshatra and Moon Sign for both based on their specific birth details.
-    2. Provide technical scores for all 8 Kootas: Varna (1), Vashya (2), Tara (3), Yoni (4), Maitri (5), Gana (6), Bhakoot (7), and Nadi (8).
-    3. Calculate the total score out of 36 Gunas.
-    4. Analyze Manglik Dosha compatibility.
-    5. Provide a detailed final relationship compatibility summary.
+    1. Explain what each Koota score above means for this couple, using the attributes given.
+    2. Discuss the total of ${ashtakoot.total}/36 and any Nadi or Bhakoot Dosha with its traditional remedies.
+    3. Interpret the computed Manglik result above, with remedies only if the couple is not compatible.
+    4. Provide a detailed final relationship compatibility summary.
+    Do not print your own score table; the app renders the computed scores.
     
     Language: ${language}. Current Date: ${getCurrentDate()}.
     Return the response as a professional Markdown report.`;
@@ -188,20 +318,52 @@ export const getMatchmaking = async (details: MatchmakingDetails, language: Lang
     });
     return response.text || "";
   });
+
+  return { report, ashtakoot, manglik };
 };
 
-export const getNumerologyAnalysis = async (dob: string, m: number, b: number, n: number, name: string, loshu: any, lang: Language) => {
+export const getNumerologyAnalysis = async (
+  dob: string,
+  m: number,
+  b: number,
+  n: number,
+  name: string,
+  loshu: any,
+  lang: Language,
+  system: NumerologySystem = 'chaldean',
+  pythagorean?: PythagoreanNumbers,
+  corrections: NameCorrection[] = []
+) => {
   return await withRetry(async () => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = `Technical Numerology analysis for:
+    const prompt = system === 'pythagorean' && pythagorean
+      ? `Pythagorean (Western) Numerology analysis for:
+    Name: ${name}
+    DOB: ${dob}
+
+    COMPUTED CORE NUMBERS (authoritative: do NOT recalculate or contradict these; 11, 22 and 33 are master numbers and are not reduced):
+    ${formatPythagoreanContext(pythagorean)}
+
+    TASK:
+    1. Interpret the Life Path and Birthday numbers as the path and natural gifts.
+    2. Interpret the Expression, Soul Urge (vowels) and Personality (consonants) numbers, and how the inner and outer selves agree or pull apart.
+    3. Analyze the harmony between the Expression number (${pythagorean.expression}) and the Life Path (${pythagorean.lifePath}).
+    4. SUGGEST SPELLING CHANGES only if the Expression number clashes with the Life Path, using Pythagorean letter values (A=1 ... I=9, J=1 ...).
+    5. Provide detailed predictions for personality, relationships and career.
+
+    Language: ${lang}. Return as Markdown.`
+      : `Technical Numerology analysis for:
     Name: ${name} (Name Number: ${n})
     DOB: ${dob} (Mulank: ${m}, Bhagyank: ${b})
     Interpret the Loshu grid: ${JSON.stringify(loshu)}. 
+
+    VERIFIED SPELLING VARIANTS (Chaldean numbers computed exactly, smallest changes first):
+    ${corrections.length > 0 ? formatCorrectionsContext(corrections) : 'None: no respelling within two small edits reaches a compatible number.'}
     
     TASK:
     1. Analyze the compatibility between Name Number (${n}) and Mulank (${m})/Bhagyank (${b}).
     2. Evaluate if the name is harmonious or if it creates obstacles.
-    3. SUGGEST SPELLING CHANGES: Provide specific name spelling adjustments (adding/removing letters) to make the name vibration compatible with ${b} (Bhagyank).
+    3. SPELLING CHANGES: Comment only on the verified variants above (which read most naturally, what each number brings). Do NOT invent other spellings or recalculate their numbers; if there are none, say that no small respelling fits.
     4. Provide detailed predictions for personality, health, and career.
     
     Language: ${lang}. Return as Markdown.`;
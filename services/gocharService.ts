@@ -0,0 +1,147 @@
+import { DashaPeriod, GrahaPosition, KeyTransit, NodeType, Planet, Timeframe, TransitContact, TransitPoint } from "../types";
+import { ZODIAC_SIGNS } from "../constants";
+import {
+  PLANET_ORDER, dateToJulianDay, julianDayToDate, getSiderealPositions, getSiderealLongitude,
+  getSignNumber, getNakshatraIndex, getNakshatraName, formatDegree, normalize,
+} from "./ephemerisService";
+import { getActiveDashaChain } from "./dashaService";
+
+// A transit counts as crossing a natal point within this many degrees of exact conjunction
+export const TRANSIT_ORB = 3;
+
+const DAY_MS = 86400000;
+
+export const getTransitPositions = (date: Date, nodeType: NodeType = 'true'): GrahaPosition[] =>
+  getSiderealPositions(dateToJulianDay(date), nodeType);
+
+/**
+ * Natal points a consultation watches on a date: the Moon, the Lagna and the
+ * natal places of the Mahadasha and Antardasha lords running then
+ */
+export const getTransitPoints = (positions: GrahaPosition[], lagnaLongitude: number, dasha: DashaPeriod[], date: Date): TransitPoint[] => {
+  const natal = (planet: string) => positions.find(p => p.planet === planet)!.longitude;
+  const points: TransitPoint[] = [
+    { label: 'Natal Moon', longitude: natal('Moon') },
+    { label: 'Lagna', longitude: lagnaLongitude },
+  ];
+  const [maha, antar] = getActiveDashaChain(dasha, date);
+  if (maha && antar && maha.lord === antar.lord) {
+    points.push({ label: `Mahadasha and Antardasha lord ${maha.lord}`, longitude: natal(maha.lord) });
+  } else {
+    if (maha) points.push({ label: `Mahadasha lord ${maha.lord}`, longitude: natal(maha.lord) });
+    if (antar) points.push({ label: `Antardasha lord ${antar.lord}`, longitude: natal(antar.lord) });
+  }
+  // A Moon dasha adds nothing beyond the natal Moon already watched
+  return points.filter((p, i) => i === 0 || !p.label.endsWith('lord Moon'));
+};
+
+/**
+ * Transiting grahas within the orb of a natal point
+ */
+export const findTransitContacts = (transits: GrahaPosition[], points: TransitPoint[]): TransitContact[] =>
+  transits.flatMap(t => points
+    .map(point => {
+      const d = normalize(t.longitude - point.longitude);
+      return { planet: t.planet, point, orb: Math.min(d, 360 - d) };
+    })
+    .filter(c => c.orb <= TRANSIT_ORB));
+
+/**
+ * First day after a date on which a graha other than the Moon comes within orb of a natal point
+ * it was not already touching, scanning up to two years ahead
+ */
+export const findNextContact = (
+  positions: GrahaPosition[],
+  lagnaLongitude: number,
+  dasha: DashaPeriod[],
+  from: Date,
+  nodeType: NodeType = 'true'
+): { date: Date; contacts: TransitContact[] } | null => {
+  const key = (c: TransitContact) => `${c.planet}-${c.point.label}`;
+  const contactsOn = (date: Date) =>
+    findTransitContacts(getTransitPositions(date, nodeType), getTransitPoints(positions, lagnaLongitude, dasha, date))
+      .filter(c => c.planet !== 'Moon');
+
+  let previous = new Set(contactsOn(from).map(key));
+  for (let day = 1; day <= 730; day++) {
+    const date = new Date(from.getTime() + day * DAY_MS);
+    const contacts = contactsOn(date);
+    const fresh = contacts.filter(c => !previous.has(key(c)));
+    if (fresh.length) return { date, contacts: fresh };
+    previous = new Set(contacts.map(key));
+  }
+  return null;
+};
+
+export const TIMEFRAME_DAYS: { [key in Timeframe]: number } = { daily: 1, weekly: 7, monthly: 30 };
+
+const MINUTE = 1 / 1440;
+
+const speedAt = (planet: Planet, jd: number, nodeType: NodeType) =>
+  ((getSiderealLongitude(planet, jd + 0.5, nodeType) - getSiderealLongitude(planet, jd - 0.5, nodeType) + 540) % 360) - 180;
+
+// Moment, to the minute, at which a stepped quantity changes between two Julian Days
+const bisectChange = <T>(valueAt: (jd: number) => T, lo: number, hi: number): number => {
+  const before = valueAt(lo);
+  while (hi - lo > MINUTE) {
+    const mid = (lo + hi) / 2;
+    if (valueAt(mid) === before) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+};
+
+/**
+ * Sign ingresses, retrograde and direct stations, and the Moon's nakshatras between two dates,
+ * in time order. The nodes' stations are skipped: the true node wobbles back and forth constantly.
+ */
+export const computeKeyTransits = (start: Date, end: Date, nodeType: NodeType = 'true'): KeyTransit[] => {
+  const startJd = dateToJulianDay(start);
+  const endJd = dateToJulianDay(end);
+  const at = (jd: number) => julianDayToDate(jd).toISOString();
+  const moonNakshatra = (jd: number) => getNakshatraIndex(getSiderealLongitude('Moon', jd, nodeType));
+
+  const events: KeyTransit[] = [{
+    date: at(startJd),
+    planet: 'Moon',
+    kind: 'nakshatra',
+    description: `Moon in ${getNakshatraName(getSiderealLongitude('Moon', startJd, nodeType))} nakshatra`,
+  }];
+
+  PLANET_ORDER.forEach(planet => {
+    const step = planet === 'Moon' ? 1 / 24 : 1;
+    const sign = (jd: number) => getSignNumber(getSiderealLongitude(planet, jd, nodeType));
+    const retrograde = (jd: number) => speedAt(planet, jd, nodeType) < 0;
+    const hasStations = planet !== 'Sun' && planet !== 'Moon' && planet !== 'Rahu' && planet !== 'Ketu';
+
+    for (let jd = startJd; jd < endJd; jd += step) {
+      const next = Math.min(jd + step, endJd);
+      if (sign(next) !== sign(jd)) {
+        const t = bisectChange(sign, jd, next);
+        events.push({ date: at(t), planet, kind: 'ingress', description: `${planet} enters ${ZODIAC_SIGNS[sign(t) - 1].name}` });
+      }
+      if (hasStations && retrograde(next) !== retrograde(jd)) {
+        const t = bisectChange(retrograde, jd, next);
+        const kind = retrograde(t) ? 'retrograde' : 'direct';
+        events.push({ date: at(t), planet, kind, description: `${planet} turns ${kind} in ${ZODIAC_SIGNS[sign(t) - 1].name}` });
+      }
+      if (planet === 'Moon' && moonNakshatra(next) !== moonNakshatra(jd)) {
+        const t = bisectChange(moonNakshatra, jd, next);
+        events.push({ date: at(t), planet, kind: 'nakshatra', description: `Moon enters ${getNakshatraName(getSiderealLongitude('Moon', t, nodeType))} nakshatra` });
+      }
+    }
+  });
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Sky at a moment and the events of a period, for AI prompts, with houses counted from a Moon sign
+ */
+export const formatTransitContext = (start: Date, events: KeyTransit[], moonSign: number, nodeType: NodeType = 'true'): string => [
+  ...getTransitPositions(start, nodeType).map(p => {
+    const house = ((getSignNumber(p.longitude) - moonSign + 12) % 12) + 1;
+    return `${p.planet}: ${ZODIAC_SIGNS[getSignNumber(p.longitude) - 1].name} ${formatDegree(p.longitude)}${p.speed < 0 && p.planet !== 'Rahu' && p.planet !== 'Ketu' ? ' (R)' : ''}, house ${house} from the Moon sign`;
+  }),
+  ...events.map(e => `${e.date.slice(0, 16).replace('T', ' ')} UTC: ${e.description}`),
+].join('\n');
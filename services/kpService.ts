@@ -0,0 +1,74 @@
+import { KpLords, KpPoint, KpResult, KpRulingPlanet, KpSignificators, NodeType, Planet } from "../types";
+import { getSiderealLongitude, getSiderealPositions, getNakshatraIndex, getSignNumber, dateToJulianDay, normalize } from "./ephemerisService";
+import { computeLagna, buildHouseChart, getHouseOf } from "./lagnaService";
+import { getSignLord } from "./dignityService";
+import { VIMSHOTTARI_SEQUENCE } from "./dashaService";
+import { getVedicDay } from "./panchangService";
+import { WEEKDAY_LORDS, weekdayAt } from "./shadbalaService";
+
+const NAKSHATRA_SPAN = 360 / 27;
+
+// Splits an arc into nine parts in proportion to the Vimshottari years, starting from its own lord,
+// and returns the part containing the longitude
+const subdivide = (start: number, span: number, lord: Planet, longitude: number) => {
+  const offset = VIMSHOTTARI_SEQUENCE.findIndex(s => s.lord === lord);
+  const within = normalize(longitude - start);
+  let cursor = 0;
+  for (let i = 0; ; i++) {
+    const { lord: part, years } = VIMSHOTTARI_SEQUENCE[(offset + i) % 9];
+    const width = (span * years) / 120;
+    if (within < cursor + width || i === 8) return { lord: part, start: normalize(start + cursor), span: width };
+    cursor += width;
+  }
+};
+
+/**
+ * Sign, star (nakshatra), sub and sub-sub lords of a sidereal longitude
+ */
+export const getKpLords = (longitude: number): KpLords => {
+  const index = getNakshatraIndex(longitude);
+  const star = VIMSHOTTARI_SEQUENCE[index % 9].lord;
+  const sub = subdivide(index * NAKSHATRA_SPAN, NAKSHATRA_SPAN, star, longitude);
+  const subSub = subdivide(sub.start, sub.span, sub.lord, longitude);
+  return { sign: getSignLord(getSignNumber(longitude)), star, sub: sub.lord, subSub: subSub.lord };
+};
+
+/**
+ * Krishnamurti Paddhati chart: Placidus cusps and grahas under the Krishnamurti ayanamsa, the lords of
+ * every cusp and graha, and the four levels of house significators. Levels A to D run strongest to weakest.
+ */
+export const computeKp = (jd: number, latitude: number, longitude: number, nodeType: NodeType = 'mean'): KpResult => {
+  const positions = getSiderealPositions(jd, nodeType, 'krishnamurti');
+  const lagna = computeLagna(jd, latitude, longitude, 'placidus', 'krishnamurti');
+  const planets: KpPoint[] = positions.map(p => ({ label: p.planet, longitude: p.longitude, lords: getKpLords(p.longitude) }));
+  const cusps: KpPoint[] = lagna.cusps.map((c, i) => ({ label: `Cusp ${i + 1}`, longitude: c, lords: getKpLords(c) }));
+
+  const inStarOf = (lords: Planet[]) => planets.filter(p => lords.includes(p.lords.star)).map(p => p.label as Planet);
+  const significators: KpSignificators[] = cusps.map((cusp, i) => {
+    const occupants = positions.filter(p => getHouseOf(p.longitude, lagna) === i + 1).map(p => p.planet);
+    const owner = cusp.lords.sign;
+    return { house: i + 1, a: inStarOf(occupants), b: occupants, c: inStarOf([owner]), d: [owner] };
+  });
+
+  return { lagna, chart: buildHouseChart(positions, lagna), cusps, planets, significators };
+};
+
+/**
+ * Ruling planets at a moment and place: the day lord (the weekday from sunrise) and the sign,
+ * star and sub lords of the rising degree and of the Moon.
+ */
+export const computeRulingPlanets = (date: Date, latitude: number, longitude: number): KpRulingPlanet[] => {
+  const jd = dateToJulianDay(date);
+  const day = getVedicDay(jd, latitude, longitude);
+  const lagna = getKpLords(computeLagna(jd, latitude, longitude, 'whole-sign', 'krishnamurti').lagnaLongitude);
+  const moon = getKpLords(getSiderealLongitude('Moon', jd, 'mean', 'krishnamurti'));
+  return [
+    { role: 'Day lord', planet: WEEKDAY_LORDS[weekdayAt(day ? day.sunrise : jd, longitude)] },
+    { role: 'Lagna sign lord', planet: lagna.sign },
+    { role: 'Lagna star lord', planet: lagna.star },
+    { role: 'Lagna sub lord', planet: lagna.sub },
+    { role: 'Moon sign lord', planet: moon.sign },
+    { role: 'Moon star lord', planet: moon.star },
+    { role: 'Moon sub lord', planet: moon.sub },
+  ];
+};
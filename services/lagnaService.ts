@@ -0,0 +1,152 @@
+import { AyanamsaType, GrahaPosition, HouseSystem, KundaliChartData, LagnaResult } from "../types";
+import { getAyanamsa, getSignNumber, normalize } from "./ephemerisService";
+
+const RAD = Math.PI / 180;
+const sin = (deg: number) => Math.sin(deg * RAD);
+const cos = (deg: number) => Math.cos(deg * RAD);
+const tan = (deg: number) => Math.tan(deg * RAD);
+const atan2 = (y: number, x: number) => Math.atan2(y, x) / RAD;
+const asin = (x: number) => Math.asin(Math.max(-1, Math.min(1, x))) / RAD;
+
+/**
+ * Greenwich Mean Sidereal Time in degrees (Meeus 12.4)
+ */
+export const getGreenwichSiderealTime = (jd: number): number => {
+  const t = (jd - 2451545.0) / 36525;
+  return normalize(280.46061837 + 360.98564736629 * (jd - 2451545.0) + 0.000387933 * t * t - (t * t * t) / 38710000);
+};
+
+/**
+ * Mean obliquity of the ecliptic in degrees (Meeus 22.2)
+ */
+export const getObliquity = (jd: number): number => {
+  const t = (jd - 2451545.0) / 36525;
+  return 23.4392911 - (46.815 * t + 0.00059 * t * t - 0.001813 * t * t * t) / 3600;
+};
+
+// Local sidereal time (RAMC) in degrees, east longitude positive
+export const getLocalSiderealTime = (jd: number, longitude: number) => normalize(getGreenwichSiderealTime(jd) + longitude);
+
+// Tropical longitude of the eastern horizon
+const ascendantFromRamc = (ramc: number, eps: number, lat: number) =>
+  normalize(atan2(cos(ramc), -(sin(ramc) * cos(eps) + tan(lat) * sin(eps))));
+
+// Tropical longitude of the upper meridian
+const midheavenFromRamc = (ramc: number, eps: number) =>
+  normalize(atan2(sin(ramc), cos(ramc) * cos(eps)));
+
+// Ecliptic longitude of the point with the given right ascension
+const eclipticFromRa = (ra: number, eps: number) => normalize(atan2(sin(ra), cos(ra) * cos(eps)));
+
+/**
+ * Placidus intermediate cusp: iterates until the cusp sits at the required fraction of
+ * its diurnal (above horizon) or nocturnal (below horizon) semi-arc.
+ */
+const placidusCusp = (ramc: number, eps: number, lat: number, base: number, fraction: number, diurnal: boolean): number => {
+  let lon = eclipticFromRa(ramc + base, eps);
+  for (let i = 0; i < 50; i++) {
+    const decl = asin(sin(eps) * sin(lon));
+    const ad = asin(tan(lat) * tan(decl));
+    const ra = diurnal
+      ? ramc + fraction * (90 + ad)
+      : ramc + 90 + ad + fraction * (90 - ad);
+    const next = eclipticFromRa(ra, eps);
+    if (Math.abs(((next - lon + 540) % 360) - 180) < 1e-6) return next;
+    lon = next;
+  }
+  return lon;
+};
+
+const tropicalCusps = (system: HouseSystem, ramc: number, eps: number, lat: number, asc: number, mc: number): number[] => {
+  const cusps: number[] = new Array(12);
+  cusps[0] = asc;
+  cusps[9] = mc;
+
+  if (system === 'placidus' && Math.abs(lat) < 66) {
+    cusps[10] = placidusCusp(ramc, eps, lat, 30, 1 / 3, true);
+    cusps[11] = placidusCusp(ramc, eps, lat, 60, 2 / 3, true);
+    cusps[1] = placidusCusp(ramc, eps, lat, 120, 1 / 3, false);
+    cusps[2] = placidusCusp(ramc, eps, lat, 150, 2 / 3, false);
+  } else {
+    // Sripati (and Placidus fallback in polar latitudes): trisect each quadrant along the ecliptic
+    const q1 = normalize(asc - mc) / 3;
+    const q2 = normalize(mc + 180 - asc) / 3;
+    cusps[10] = normalize(mc + q1);
+    cusps[11] = normalize(mc + 2 * q1);
+    cusps[1] = normalize(asc + q2);
+    cusps[2] = normalize(asc + 2 * q2);
+  }
+
+  for (const h of [3, 4, 5, 6, 7, 8]) {
+    cusps[h] = normalize(cusps[(h + 6) % 12] + 180);
+  }
+  return cusps;
+};
+
+/**
+ * Sidereal Lagna, Midheaven and the twelve house cusps for a moment and place.
+ * Whole sign cusps start at 0° of each sign counted from the Lagna sign;
+ * Sripati cusps are the bhava madhya (mid-points) of each house.
+ */
+export const computeLagna = (
+  jd: number,
+  latitude: number,
+  longitude: number,
+  houseSystem: HouseSystem = 'whole-sign',
+  ayanamsaType: AyanamsaType = 'lahiri'
+): LagnaResult => {
+  const eps = getObliquity(jd);
+  const ramc = getLocalSiderealTime(jd, longitude);
+  const ayanamsa = getAyanamsa(jd, ayanamsaType);
+  const asc = ascendantFromRamc(ramc, eps, latitude);
+  const mc = midheavenFromRamc(ramc, eps);
+
+  const lagnaLongitude = normalize(asc - ayanamsa);
+  const lagnaSign = getSignNumber(lagnaLongitude);
+
+  const cusps = houseSystem === 'whole-sign'
+    ? Array.from({ length: 12 }, (_, i) => normalize((lagnaSign - 1 + i) * 30))
+    : tropicalCusps(houseSystem, ramc, eps, latitude, asc, mc).map(c => normalize(c - ayanamsa));
+
+  return {
+    lagnaSign,
+    lagnaLongitude,
+    mcLongitude: normalize(mc - ayanamsa),
+    houseSystem,
+    cusps,
+  };
+};
+
+/**
+ * House (1-12) occupied by a sidereal longitude under the given Lagna result
+ */
+export const getHouseOf = (longitude: number, lagna: LagnaResult): number => {
+  if (lagna.houseSystem === 'whole-sign') {
+    return ((getSignNumber(longitude) - lagna.lagnaSign + 12) % 12) + 1;
+  }
+  // Sripati cusps are house mid-points, so the house begins half way back to the previous cusp
+  const starts = lagna.houseSystem === 'sripati'
+    ? lagna.cusps.map((c, i) => {
+        const prev = lagna.cusps[(i + 11) % 12];
+        return normalize(prev + normalize(c - prev) / 2);
+      })
+    : lagna.cusps;
+  for (let i = 0; i < 12; i++) {
+    const start = starts[i];
+    const end = starts[(i + 1) % 12];
+    if (normalize(longitude - start) < normalize(end - start)) return i + 1;
+  }
+  return 1;
+};
+
+/**
+ * Places every graha into its house under the Lagna's house system
+ */
+export const buildHouseChart = (positions: GrahaPosition[], lagna: LagnaResult): KundaliChartData => {
+  const chart: KundaliChartData = {};
+  for (let house = 1; house <= 12; house++) chart[house] = [];
+  positions.forEach(({ planet, longitude }) => {
+    chart[getHouseOf(longitude, lagna)].push(planet);
+  });
+  return chart;
+};
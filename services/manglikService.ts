@@ -0,0 +1,81 @@
+import { GrahaPosition, ManglikMatch, ManglikReport, ManglikSeverity } from "../types";
+import { ZODIAC_SIGNS } from "../constants";
+import { getSignNumber } from "./ephemerisService";
+import { isExalted, isOwnSign } from "./dignityService";
+
+// Houses counted from the reference point in which Mars causes Kuja Dosha
+const DOSHA_HOUSES = [1, 2, 4, 7, 8, 12];
+
+const SEVERITIES: ManglikSeverity[] = ['none', 'mild', 'moderate', 'high'];
+
+// Signs that exempt Mars in a given house from Lagna
+const HOUSE_SIGN_EXEMPTIONS: { [house: number]: number[] } = {
+  2: [3, 6],
+  4: [1, 8],
+  7: [4, 10],
+  8: [9, 12],
+  12: [2, 7],
+};
+
+const houseFrom = (sign: number, reference: number) => ((sign - reference + 12) % 12) + 1;
+
+const ordinal = (n: number) => `${n}${n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th'}`;
+
+// First cancellation rule that applies to Mars, or null
+const findCancellation = (marsSign: number, lagnaHouse: number, jupiterSign: number): string | null => {
+  if (isOwnSign('Mars', marsSign)) return `Mars in its own sign ${ZODIAC_SIGNS[marsSign - 1].name}`;
+  if (isExalted('Mars', marsSign)) return 'Mars exalted in Capricorn';
+  if (HOUSE_SIGN_EXEMPTIONS[lagnaHouse]?.includes(marsSign)) {
+    return `Mars in the ${ordinal(lagnaHouse)} house in ${ZODIAC_SIGNS[marsSign - 1].name} is exempt`;
+  }
+  const fromJupiter = houseFrom(marsSign, jupiterSign);
+  if (fromJupiter === 1) return 'Mars conjunct Jupiter';
+  if ([5, 7, 9].includes(fromJupiter)) return `Mars aspected by Jupiter (${ordinal(fromJupiter)} aspect)`;
+  return null;
+};
+
+/**
+ * Kuja (Manglik) Dosha from Mars' house counted from the Lagna, Moon and Venus.
+ * Severity grows with the number of reference points affected; a cancellation rule clears it.
+ */
+export const computeManglik = (positions: GrahaPosition[], lagnaLongitude: number): ManglikReport => {
+  const signOf = (planet: string) => getSignNumber(positions.find(p => p.planet === planet)!.longitude);
+  const marsSign = signOf('Mars');
+
+  const houses = ([
+    ['Lagna', getSignNumber(lagnaLongitude)],
+    ['Moon', signOf('Moon')],
+    ['Venus', signOf('Venus')],
+  ] as const).map(([from, sign]) => {
+    const house = houseFrom(marsSign, sign);
+    return { from, house, dosha: DOSHA_HOUSES.includes(house) };
+  });
+
+  const severity = SEVERITIES[houses.filter(h => h.dosha).length];
+  const cancellation = severity === 'none' ? null : findCancellation(marsSign, houses[0].house, signOf('Jupiter'));
+
+  return { marsSign, houses, severity, isManglik: severity !== 'none' && !cancellation, cancellation };
+};
+
+/**
+ * Manglik compatibility of a couple: the dosha is a concern only when one partner carries it
+ */
+export const matchManglik = (boy: ManglikReport, girl: ManglikReport): ManglikMatch => {
+  if (boy.isManglik && girl.isManglik) {
+    return { boy, girl, compatible: true, rule: 'Mutual Manglik: both partners carry the dosha, so it cancels out' };
+  }
+  if (!boy.isManglik && !girl.isManglik) {
+    return { boy, girl, compatible: true, rule: 'Neither partner is Manglik' };
+  }
+  return { boy, girl, compatible: false, rule: `Only the ${boy.isManglik ? 'boy' : 'girl'} is Manglik` };
+};
+
+/**
+ * Text summary of a Manglik report for AI prompts
+ */
+export const formatManglikContext = (report: ManglikReport): string =>
+  `Mars in ${ZODIAC_SIGNS[report.marsSign - 1].name}; ` +
+  report.houses.map(h => `${ordinal(h.house)} from ${h.from}${h.dosha ? ' (dosha)' : ''}`).join(', ') +
+  `. Severity before cancellation: ${report.severity}. ` +
+  (report.cancellation ? `Cancelled: ${report.cancellation}. ` : '') +
+  `Manglik: ${report.isManglik ? 'yes' : 'no'}.`;
@@ -0,0 +1,239 @@
+import { BirthDetails, MuhurtaCheck, MuhurtaEvent, MuhurtaWindow } from "../types";
+import { NAKSHATRAS, VARAS, YOGAS, ZODIAC_SIGNS } from "../constants";
+import { toJulianDay, julianDayToDate, getSiderealLongitude, getTropicalLongitude, getNakshatraIndex, getSignNumber, normalize } from "./ephemerisService";
+import { getVedicDay, getTithiName, getPaksha, getKaranaName } from "./panchangService";
+
+interface MuhurtaRules {
+  tithis: number[]; // Tithi numbers within a paksha (1-15); Amavasya is never allowed
+  nakshatras: number[]; // Indices into NAKSHATRAS
+  varas: number[]; // Weekdays, 0 = Sunday
+  daytimeOnly: boolean;
+}
+
+// Classical Muhurta rules for each event (Muhurta Chintamani)
+const EVENT_RULES: { [key in MuhurtaEvent]: MuhurtaRules } = {
+  marriage: {
+    tithis: [2, 3, 5, 7, 10, 11, 12, 13, 15],
+    nakshatras: [3, 4, 9, 11, 12, 14, 16, 18, 20, 25, 26],
+    varas: [1, 3, 4, 5],
+    daytimeOnly: false,
+  },
+  'griha-pravesh': {
+    tithis: [2, 3, 5, 7, 10, 11, 12, 13],
+    nakshatras: [3, 4, 11, 13, 16, 20, 22, 23, 25, 26],
+    varas: [1, 3, 4, 5, 6],
+    daytimeOnly: true,
+  },
+  vehicle: {
+    tithis: [1, 2, 3, 5, 6, 7, 10, 11, 12, 13, 15],
+    nakshatras: [0, 4, 6, 7, 12, 13, 14, 16, 21, 22, 23, 26],
+    varas: [1, 3, 4, 5],
+    daytimeOnly: true,
+  },
+  business: {
+    tithis: [2, 3, 5, 6, 7, 10, 11, 12, 13],
+    nakshatras: [0, 3, 7, 11, 12, 13, 16, 20, 21, 22, 26],
+    varas: [1, 3, 4, 5],
+    daytimeOnly: true,
+  },
+};
+
+// Vishkambha, Atiganda, Shula, Ganda, Vyaghata, Vajra, Vyatipata, Parigha and Vaidhriti
+const INAUSPICIOUS_YOGAS = [0, 5, 8, 9, 12, 14, 16, 18, 26];
+
+// Eighth of the daytime (1-8) ruled by Rahu on each weekday, Sunday first
+const RAHU_KAAL_PART = [8, 2, 7, 5, 6, 4, 3];
+
+const TARAS = ['Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyari', 'Sadhaka', 'Vadha', 'Mitra', 'Parama Mitra'];
+const BAD_TARAS = [3, 5, 7];
+const CHANDRABALA_HOUSES = [1, 3, 6, 7, 10, 11];
+
+export const MAX_MUHURTA_DAYS = 92;
+
+const MINUTE = 1 / 1440;
+const STEP = 15 * MINUTE;
+
+const ordinal = (n: number) => `${n}${n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th'}`;
+
+interface MomentState {
+  tithi: number; // 0-29
+  nakshatra: number;
+  yoga: number;
+  karana: number; // 0-59
+  moonSign: number;
+}
+
+const stateAt = (jd: number): MomentState => {
+  const elongation = normalize(getTropicalLongitude('Moon', jd) - getTropicalLongitude('Sun', jd));
+  const moon = getSiderealLongitude('Moon', jd);
+  const sun = getSiderealLongitude('Sun', jd);
+  return {
+    tithi: Math.floor(elongation / 12),
+    nakshatra: getNakshatraIndex(moon),
+    yoga: Math.floor(normalize(sun + moon) / (360 / 27)),
+    karana: Math.floor(elongation / 6),
+    moonSign: getSignNumber(moon),
+  };
+};
+
+const stateKey = (s: MomentState) => `${s.tithi}-${s.nakshatra}-${s.yoga}-${s.karana}-${s.moonSign}`;
+
+// Moments between two Julian Days at which any limb of the Panchang or the Moon's sign changes
+const findChanges = (startJd: number, endJd: number): number[] => {
+  const changes: number[] = [];
+  let prev = stateKey(stateAt(startJd));
+  for (let jd = startJd + STEP; jd < endJd + STEP; jd += STEP) {
+    const t = Math.min(jd, endJd);
+    const key = stateKey(stateAt(t));
+    if (key !== prev) {
+      let lo = t - STEP;
+      let hi = t;
+      while (hi - lo > MINUTE) {
+        const mid = (lo + hi) / 2;
+        if (stateKey(stateAt(mid)) === prev) lo = mid;
+        else hi = mid;
+      }
+      changes.push(hi);
+      prev = key;
+    }
+  }
+  return changes;
+};
+
+const evaluate = (
+  event: MuhurtaEvent,
+  state: MomentState,
+  vara: number,
+  inRahuKaal: boolean,
+  isDaytime: boolean,
+  natalNakshatra: number,
+  natalMoonSign: number
+): MuhurtaCheck[] => {
+  const rules = EVENT_RULES[event];
+  const pakshaTithi = (state.tithi % 15) + 1;
+  const tithiName = `${getPaksha(state.tithi)} ${getTithiName(state.tithi)}`;
+  const tara = ((state.nakshatra - natalNakshatra + 27) % 27) % 9 + 1;
+  const chandraHouse = ((state.moonSign - natalMoonSign + 12) % 12) + 1;
+  const karana = getKaranaName(state.karana);
+
+  const checks: MuhurtaCheck[] = [
+    {
+      rule: 'Tithi',
+      passed: state.tithi !== 29 && rules.tithis.includes(pakshaTithi),
+      detail: state.tithi === 29 ? 'Amavasya is avoided for all auspicious work' : `${tithiName}${rules.tithis.includes(pakshaTithi) ? ' is favourable' : ' is not prescribed for this event'}`,
+    },
+    {
+      rule: 'Nakshatra',
+      passed: rules.nakshatras.includes(state.nakshatra),
+      detail: `${NAKSHATRAS[state.nakshatra]}${rules.nakshatras.includes(state.nakshatra) ? ' is favourable' : ' is not prescribed for this event'}`,
+    },
+    {
+      rule: 'Vara',
+      passed: rules.varas.includes(vara),
+      detail: `${VARAS[vara]}${rules.varas.includes(vara) ? ' is favourable' : ' is avoided for this event'}`,
+    },
+    {
+      rule: 'Yoga',
+      passed: !INAUSPICIOUS_YOGAS.includes(state.yoga),
+      detail: `${YOGAS[state.yoga]}${INAUSPICIOUS_YOGAS.includes(state.yoga) ? ' is an inauspicious yoga' : ' is not obstructive'}`,
+    },
+    {
+      rule: 'Karana',
+      passed: karana !== 'Vishti',
+      detail: karana === 'Vishti' ? 'Vishti (Bhadra) karana is avoided' : `${karana} karana`,
+    },
+    {
+      rule: 'Rahu Kaal',
+      passed: !inRahuKaal,
+      detail: inRahuKaal ? 'Falls in Rahu Kaal' : 'Clear of Rahu Kaal',
+    },
+    {
+      rule: 'Tarabala',
+      passed: !BAD_TARAS.includes(tara),
+      detail: `${TARAS[tara - 1]} tara from the birth nakshatra ${NAKSHATRAS[natalNakshatra]}`,
+    },
+    {
+      rule: 'Chandrabala',
+      passed: CHANDRABALA_HOUSES.includes(chandraHouse),
+      detail: `Moon in ${ZODIAC_SIGNS[state.moonSign - 1].name}, ${ordinal(chandraHouse)} from the natal Moon`,
+    },
+  ];
+  if (rules.daytimeOnly) {
+    checks.push({ rule: 'Daytime', passed: isDaytime, detail: isDaytime ? 'Between sunrise and sunset' : 'After sunset; this event is begun by day' });
+  }
+  return checks;
+};
+
+/**
+ * Scans a date range at a place for Muhurta windows for an event. Each window is a stretch in which
+ * every Panchang limb, the Moon's sign and Rahu Kaal stay the same, checked against the event's rules
+ * and the person's Tarabala and Chandrabala. Windows are ranked with fully passing ones first.
+ * `utcOffsetOn` gives the offset in force on a local date, so a search across a clock change follows it.
+ */
+export const findMuhurtas = (
+  event: MuhurtaEvent,
+  person: BirthDetails,
+  fromDate: string,
+  toDate: string,
+  latitude: number,
+  longitude: number,
+  utcOffsetOn: (date: string) => number
+): MuhurtaWindow[] => {
+  const offsets = new Map<string, number>();
+  const offsetOn = (date: string) => {
+    if (!offsets.has(date)) offsets.set(date, utcOffsetOn(date));
+    return offsets.get(date)!;
+  };
+  // Offset at a moment, taken from its UTC date; they differ only for an hour or two around a change
+  const offsetAt = (jd: number) => offsetOn(julianDayToDate(jd).toISOString().slice(0, 10));
+
+  const fromJd = toJulianDay(fromDate, '00:00', offsetOn(fromDate));
+  const toJd = toJulianDay(toDate, '23:59', offsetOn(toDate));
+  if (toJd < fromJd) throw new Error("The end date must be on or after the start date.");
+  if (toJd - fromJd > MAX_MUHURTA_DAYS) throw new Error(`Please search at most ${MAX_MUHURTA_DAYS} days at a time.`);
+
+  const natalMoon = getSiderealLongitude('Moon', toJulianDay(person.dob, person.tob, person.utcOffset));
+  const natalNakshatra = getNakshatraIndex(natalMoon);
+  const natalMoonSign = getSignNumber(natalMoon);
+
+  const windows: MuhurtaWindow[] = [];
+  let day = getVedicDay(fromJd + 1 - MINUTE, latitude, longitude);
+  if (!day) throw new Error("The Sun does not rise and set at this place on these dates.");
+
+  while (day && day.sunrise <= toJd) {
+    const utcOffset = offsetAt(day.sunrise);
+    const vara = new Date(julianDayToDate(day.sunrise).getTime() + utcOffset * 3600000).getUTCDay();
+    const dayLength = (day.sunset - day.sunrise) / 8;
+    const rahuStart = day.sunrise + (RAHU_KAAL_PART[vara] - 1) * dayLength;
+    const rahuEnd = rahuStart + dayLength;
+
+    const bounds = [day.sunrise, ...findChanges(day.sunrise, day.nextSunrise), rahuStart, rahuEnd, day.sunset, day.nextSunrise]
+      .filter((t, i, all) => t >= day!.sunrise && t <= day!.nextSunrise && all.indexOf(t) === i)
+      .sort((a, b) => a - b);
+
+    for (let i = 0; i < bounds.length - 1; i++) {
+      const start = bounds[i];
+      const end = bounds[i + 1];
+      if (end - start < MINUTE) continue;
+      const mid = (start + end) / 2;
+      const state = stateAt(mid);
+      const checks = evaluate(event, state, vara, mid >= rahuStart && mid < rahuEnd, mid < day.sunset, natalNakshatra, natalMoonSign);
+      const passed = checks.every(c => c.passed);
+      const shukla = state.tithi < 15;
+      windows.push({
+        start: julianDayToDate(start).toISOString(),
+        end: julianDayToDate(end).toISOString(),
+        utcOffset: offsetAt(start),
+        passed,
+        // Each rule passed counts most; Shukla paksha and longer windows break ties
+        score: checks.filter(c => c.passed).length * 10 + (shukla ? 2 : 0) + Math.min((end - start) * 24, 6) / 3,
+        checks,
+      });
+    }
+    day = getVedicDay(day.nextSunrise + MINUTE, latitude, longitude);
+  }
+
+  return windows
+    .filter(w => new Date(w.end).getTime() > julianDayToDate(fromJd).getTime() && new Date(w.start).getTime() < julianDayToDate(toJd).getTime())
+    .sort((a, b) => Number(b.passed) - Number(a.passed) || b.score - a.score || a.start.localeCompare(b.start));
+};
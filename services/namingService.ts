@@ -0,0 +1,42 @@
+import { NameGender, NameOrigin, NameSuggestion } from "../types";
+import { BABY_NAMES, NAMAKSHAR } from "../constants";
+import { getNakshatraIndex, getNakshatraPada } from "./ephemerisService";
+import { calculateNameNumber, getNumberHarmony } from "./numerologyService";
+
+/**
+ * Nakshatra and pada of the Moon with the syllables its name should begin with. The first
+ * syllable belongs to the pada; the rest are alternatives read in some regions.
+ */
+export const getNamakshar = (moonLongitude: number) => {
+  const nakshatraIndex = getNakshatraIndex(moonLongitude);
+  const pada = getNakshatraPada(moonLongitude);
+  return { nakshatraIndex, pada, syllables: NAMAKSHAR[nakshatraIndex][pada - 1].split('/') };
+};
+
+/**
+ * Names beginning with any of the syllables, ranked by how their Chaldean number sits with the
+ * Bhagyank and the Mulank. Boy and girl filters keep unisex names.
+ */
+export const suggestNames = (
+  syllables: string[],
+  mulank: number,
+  bhagyank: number,
+  gender?: NameGender,
+  origin?: NameOrigin
+): NameSuggestion[] => {
+  const suggestions: NameSuggestion[] = [];
+  for (const name of BABY_NAMES) {
+    if (gender && name.gender !== gender && name.gender !== 'unisex') continue;
+    if (origin && name.origin !== origin) continue;
+    const syllable = syllables.find(s => name.name.toLowerCase().startsWith(s.toLowerCase()));
+    if (!syllable) continue;
+    const nameNumber = calculateNameNumber(name.name);
+    suggestions.push({
+      name,
+      syllable,
+      nameNumber,
+      score: getNumberHarmony(nameNumber, bhagyank) + getNumberHarmony(nameNumber, mulank),
+    });
+  }
+  return suggestions.sort((a, b) => b.score - a.score || a.name.name.localeCompare(b.name.name));
+};
@@ -0,0 +1,157 @@
+import { NameCorrection, Planet, PythagoreanNumbers } from "../types";
+import { NATURAL_RELATIONS } from "./dignityService";
+
+export const CHALDEAN_MAP: { [key: string]: number } = {
+  a: 1, i: 1, j: 1, q: 1, y: 1,
+  b: 2, k: 2, r: 2,
+  c: 3, g: 3, l: 3, s: 3,
+  d: 4, m: 4, t: 4,
+  e: 5, h: 5, n: 5, x: 5,
+  u: 6, v: 6, w: 6,
+  o: 7, z: 7,
+  f: 8, p: 8
+};
+
+// Letters numbered 1-9 in alphabetical order, over and over
+export const PYTHAGOREAN_MAP: { [key: string]: number } = Object.fromEntries(
+  'abcdefghijklmnopqrstuvwxyz'.split('').map((char, i) => [char, (i % 9) + 1])
+);
+
+const VOWELS = 'aeiou';
+const MASTER_NUMBERS = [11, 22, 33];
+
+// Graha ruling each root number
+const NUMBER_RULERS: Planet[] = ['Sun', 'Moon', 'Jupiter', 'Rahu', 'Mercury', 'Venus', 'Ketu', 'Saturn', 'Mars'];
+
+export const sumDigits = (num: number): number => {
+  if (num === 0) return 0;
+  let sum = num.toString().split('').reduce((acc, digit) => acc + (parseInt(digit) || 0), 0);
+  return sum > 9 ? sumDigits(sum) : sum;
+};
+
+export const calculateNameNumber = (fullName: string): number => {
+  if (!fullName) return 0;
+  const normalized = fullName.toLowerCase().replace(/[^a-z]/g, '');
+  let total = 0;
+  for (const char of normalized) {
+    total += CHALDEAN_MAP[char] || 0;
+  }
+  return sumDigits(total);
+};
+
+// Root of the day of birth
+export const calculateMulank = (dob: string): number => sumDigits(parseInt(dob.split('-')[2]));
+
+// Root of every digit of the full date of birth
+export const calculateBhagyank = (dob: string): number =>
+  sumDigits(dob.replace(/-/g, '').split('').reduce((acc, digit) => acc + parseInt(digit), 0));
+
+/**
+ * How well a name number sits with a birth number, 0 (hostile) to 3 (the same number), from the natural
+ * friendship of their ruling grahas. Rahu is read as Saturn and Ketu as Mars.
+ */
+export const getNumberHarmony = (nameNumber: number, birthNumber: number): number => {
+  if (nameNumber === birthNumber) return 3;
+  const asGraha = (n: number) => {
+    const ruler = NUMBER_RULERS[n - 1];
+    return ruler === 'Rahu' ? 'Saturn' : ruler === 'Ketu' ? 'Mars' : ruler;
+  };
+  const from = asGraha(birthNumber);
+  const to = asGraha(nameNumber);
+  if (from === to) return 2;
+  return { friend: 2, neutral: 1, enemy: 0 }[NATURAL_RELATIONS[from][to]];
+};
+
+// Digit sum down to one digit, stopping at a master number
+export const reduceNumber = (num: number): number => {
+  if (num <= 9 || MASTER_NUMBERS.includes(num)) return num;
+  return reduceNumber(num.toString().split('').reduce((acc, digit) => acc + parseInt(digit), 0));
+};
+
+/**
+ * Pythagorean core numbers. Y counts as a consonant; master numbers 11, 22 and 33 are kept.
+ */
+export const calculatePythagorean = (fullName: string, dob: string): PythagoreanNumbers => {
+  const letters = fullName.toLowerCase().replace(/[^a-z]/g, '').split('');
+  const total = (chars: string[]) => reduceNumber(chars.reduce((acc, char) => acc + PYTHAGOREAN_MAP[char], 0));
+  const [year, month, day] = dob.split('-').map(Number);
+  return {
+    expression: total(letters),
+    soulUrge: total(letters.filter(char => VOWELS.includes(char))),
+    personality: total(letters.filter(char => !VOWELS.includes(char))),
+    lifePath: reduceNumber(reduceNumber(month) + reduceNumber(day) + reduceNumber(year)),
+    birthday: reduceNumber(day),
+  };
+};
+
+export const formatPythagoreanContext = (numbers: PythagoreanNumbers): string =>
+  `Expression ${numbers.expression}, Soul Urge ${numbers.soulUrge}, Personality ${numbers.personality}, ` +
+  `Life Path ${numbers.lifePath}, Birthday ${numbers.birthday}`;
+
+// Letters that read naturally when doubled, and consonants that take an "h" (Amit, Amith)
+const DOUBLING = 'aeolnrstmdkp';
+const ASPIRABLE = 'tdbgkpsj';
+const CONSONANTS = 'bcdfgjklmnpqrstvwxz';
+const MAX_EDITS = 2;
+
+// Every single-step respelling of a lowercase name; the first letter of each word is left alone
+const respell = (name: string): { spelling: string; edit: string }[] => {
+  const variants: { spelling: string; edit: string }[] = [];
+  const words = name.split(' ');
+  words.forEach((word, w) => {
+    const replace = (next: string, edit: string) =>
+      variants.push({ spelling: [...words.slice(0, w), next, ...words.slice(w + 1)].join(' '), edit });
+    for (let i = 1; i < word.length; i++) {
+      const [before, char, after] = [word.slice(0, i), word[i], word.slice(i + 1)];
+      if (DOUBLING.includes(char) && word[i - 1] !== char && word[i + 1] !== char) replace(`${before}${char}${char}${after}`, `double "${char}"`);
+      // Ajay and Ajai; Amit and Ameet
+      if (char === 'y' && !after) replace(`${before}i`, 'y → i');
+      if (char === 'i' && !after) replace(`${before}y`, 'i → y');
+      if (char === 'i' && CONSONANTS.includes(word[i - 1]) && !VOWELS.includes(word[i + 1] ?? '')) replace(`${before}ee${after}`, 'i → ee');
+      if (ASPIRABLE.includes(char) && word[i + 1] !== 'h') replace(`${before}${char}h${after}`, `add "h" after "${char}"`);
+      if (char === 'h' && CONSONANTS.includes(word[i - 1])) replace(`${before}${after}`, 'drop "h"');
+    }
+    if (CONSONANTS.includes(word[word.length - 1])) replace(`${word}a`, 'add "a" at the end');
+  });
+  return variants;
+};
+
+/**
+ * Spelling variants of a name, at most two small edits away, that change its Chaldean number to one
+ * friendly with the Bhagyank and not hostile to the Mulank. Fewest edits first, then the best harmony.
+ */
+export const generateNameCorrections = (fullName: string, mulank: number, bhagyank: number, limit = 12): NameCorrection[] => {
+  const original = fullName.toLowerCase().replace(/[^a-z ]/g, '').trim().replace(/\s+/g, ' ');
+  if (!original) return [];
+  const edits = new Map<string, string[]>([[original, []]]);
+  let frontier = [original];
+  for (let depth = 0; depth < MAX_EDITS; depth++) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      for (const { spelling, edit } of respell(name)) {
+        if (edits.has(spelling)) continue;
+        edits.set(spelling, [...edits.get(name)!, edit]);
+        next.push(spelling);
+      }
+    }
+    frontier = next;
+  }
+
+  const titleCase = (name: string) => name.split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+  const current = calculateNameNumber(original);
+  const corrections: NameCorrection[] = [];
+  edits.forEach((steps, spelling) => {
+    const nameNumber = calculateNameNumber(spelling);
+    if (nameNumber === current) return;
+    const withBhagyank = getNumberHarmony(nameNumber, bhagyank);
+    const withMulank = getNumberHarmony(nameNumber, mulank);
+    if (withBhagyank < 2 || withMulank < 1) return;
+    corrections.push({ spelling: titleCase(spelling), nameNumber, edits: steps, score: withBhagyank + withMulank });
+  });
+  return corrections
+    .sort((a, b) => a.edits.length - b.edits.length || b.score - a.score || a.spelling.localeCompare(b.spelling))
+    .slice(0, limit);
+};
+
+export const formatCorrectionsContext = (corrections: NameCorrection[]): string =>
+  corrections.map(c => `- ${c.spelling}: name number ${c.nameNumber} (${c.edits.join(', ')})`).join('\n');
@@ -0,0 +1,163 @@
+import { PanchangResult, PanchangSpan } from "../types";
+import { TITHIS, KARANAS } from "../constants";
+import { getTropicalLongitude, getSiderealLongitude, getMoonLatitude, toJulianDay, julianDayToDate, normalize } from "./ephemerisService";
+import { getLocalSiderealTime, getObliquity } from "./lagnaService";
+
+const RAD = Math.PI / 180;
+const sin = (deg: number) => Math.sin(deg * RAD);
+const cos = (deg: number) => Math.cos(deg * RAD);
+const atan2 = (y: number, x: number) => Math.atan2(y, x) / RAD;
+const asin = (x: number) => Math.asin(Math.max(-1, Math.min(1, x))) / RAD;
+
+const HOUR = 1 / 24;
+const MINUTE = 1 / 1440;
+
+// Altitude of the centre at rise/set: refraction and semi-diameter for the Sun, plus mean parallax for the Moon
+const SUN_HORIZON = -0.833;
+const MOON_HORIZON = 0.125;
+
+const toIso = (jd: number) => julianDayToDate(jd).toISOString();
+
+const getAltitude = (eclipticLon: number, eclipticLat: number, jd: number, latitude: number, longitude: number) => {
+  const eps = getObliquity(jd);
+  const ra = atan2(sin(eclipticLon) * cos(eps) - Math.tan(eclipticLat * RAD) * sin(eps), cos(eclipticLon));
+  const dec = asin(sin(eclipticLat) * cos(eps) + cos(eclipticLat) * sin(eps) * sin(eclipticLon));
+  const hourAngle = getLocalSiderealTime(jd, longitude) - ra;
+  return asin(sin(latitude) * sin(dec) + cos(latitude) * cos(dec) * cos(hourAngle));
+};
+
+// Altitudes above the rise/set horizon, so positive while the body is up
+export const sunAltitude = (jd: number, lat: number, lng: number) =>
+  getAltitude(getTropicalLongitude('Sun', jd), 0, jd, lat, lng) - SUN_HORIZON;
+
+export const moonAltitude = (jd: number, lat: number, lng: number) =>
+  getAltitude(getTropicalLongitude('Moon', jd), getMoonLatitude(jd), jd, lat, lng) - MOON_HORIZON;
+
+// First time after startJd (within a day) a body crosses the horizon upwards or downwards
+const findHorizonCrossing = (altitude: (jd: number) => number, startJd: number, rising: boolean, stepJd = 10 * MINUTE): number | null => {
+  let prev = altitude(startJd);
+  for (let jd = startJd + stepJd; jd <= startJd + 1; jd += stepJd) {
+    const alt = altitude(jd);
+    if (rising ? prev < 0 && alt >= 0 : prev >= 0 && alt < 0) {
+      let lo = jd - stepJd;
+      let hi = jd;
+      while (hi - lo > MINUTE / 4) {
+        const mid = (lo + hi) / 2;
+        if ((altitude(mid) >= 0) === rising) hi = mid;
+        else lo = mid;
+      }
+      return hi;
+    }
+    prev = alt;
+  }
+  return null;
+};
+
+/**
+ * Every element (tithi, nakshatra, ...) running between two Julian Days, with the time each one ends.
+ * The angle is divided into `count` equal parts; the last span's end may fall after endJd.
+ */
+const findSpans = (angleAt: (jd: number) => number, count: number, startJd: number, endJd: number): PanchangSpan[] => {
+  const indexAt = (jd: number) => Math.floor(normalize(angleAt(jd)) / (360 / count)) % count;
+  const spans: PanchangSpan[] = [];
+  let index = indexAt(startJd);
+  let jd = startJd;
+
+  // Every element lasts well over an hour, so hourly steps cannot skip one
+  while (spans.length < 6) {
+    let next = jd + HOUR;
+    while (indexAt(next) === index) next += HOUR;
+    let lo = next - HOUR;
+    let hi = next;
+    while (hi - lo > MINUTE / 4) {
+      const mid = (lo + hi) / 2;
+      if (indexAt(mid) === index) lo = mid;
+      else hi = mid;
+    }
+    spans.push({ index, end: toIso(hi) });
+    if (hi >= endJd) break;
+    index = indexAt(hi);
+    jd = hi;
+  }
+  return spans;
+};
+
+const tithiAngle = (jd: number) => getTropicalLongitude('Moon', jd) - getTropicalLongitude('Sun', jd);
+
+export const getTithiName = (index: number) => TITHIS[index];
+
+export const getPaksha = (tithiIndex: number) => (tithiIndex < 15 ? 'Shukla' : 'Krishna');
+
+/**
+ * Karana from its position (0-59) in the lunar month: Kimstughna first, then the
+ * seven movable karanas eight times over, then Shakuni, Chatushpada and Naga
+ */
+export const getKaranaName = (index: number) => {
+  if (index === 0) return KARANAS[10];
+  if (index >= 57) return KARANAS[index - 50];
+  return KARANAS[(index - 1) % 7];
+};
+
+/**
+ * Sunrise on or before a moment, the sunset after it and the following sunrise, as Julian Days (UT).
+ * These bound the Vedic day containing the moment; null where the Sun does not rise or set.
+ */
+export const getVedicDay = (jd: number, latitude: number, longitude: number) => {
+  const sunAlt = (t: number) => sunAltitude(t, latitude, longitude);
+  let sunrise = findHorizonCrossing(sunAlt, jd - 1.1, true);
+  if (sunrise === null) return null;
+  let nextSunrise = findHorizonCrossing(sunAlt, sunrise + 0.5, true);
+  // The search starts a little over a day back, so step forward to the last sunrise not after the moment
+  while (nextSunrise !== null && nextSunrise <= jd) {
+    sunrise = nextSunrise;
+    nextSunrise = findHorizonCrossing(sunAlt, sunrise + 0.5, true);
+  }
+  const sunset = findHorizonCrossing(sunAlt, sunrise, false);
+  if (sunset === null || nextSunrise === null || sunrise > jd) return null;
+  return { sunrise, sunset, nextSunrise };
+};
+
+/**
+ * Sunrise and sunset on a civil date at a place as Julian Days (UT); null where the Sun does not rise or set
+ */
+export const getSunTimes = (date: string, latitude: number, longitude: number, utcOffset: number) => {
+  const midnight = toJulianDay(date, '00:00', utcOffset);
+  const sunAlt = (jd: number) => sunAltitude(jd, latitude, longitude);
+  return { sunrise: findHorizonCrossing(sunAlt, midnight, true), sunset: findHorizonCrossing(sunAlt, midnight, false) };
+};
+
+/**
+ * Panchang for a civil date at a place: the five limbs from sunrise to the next sunrise,
+ * plus rise and set times of the Sun and Moon. Times are ISO strings (UTC).
+ */
+export const computePanchang = (date: string, latitude: number, longitude: number, utcOffset: number): PanchangResult => {
+  const midnight = toJulianDay(date, '00:00', utcOffset);
+  const sunAlt = (jd: number) => sunAltitude(jd, latitude, longitude);
+  const moonAlt = (jd: number) => moonAltitude(jd, latitude, longitude);
+
+  const { sunrise, sunset } = getSunTimes(date, latitude, longitude, utcOffset);
+  const moonrise = findHorizonCrossing(moonAlt, midnight, true);
+  const moonset = findHorizonCrossing(moonAlt, midnight, false);
+
+  // Polar days and nights have no sunrise; fall back to the civil day
+  const dayStart = sunrise ?? midnight;
+  const dayEnd = (sunrise !== null ? findHorizonCrossing(sunAlt, sunrise + 0.5, true) : null) ?? dayStart + 1;
+
+  const sidereal = (jd: number) => getSiderealLongitude('Sun', jd) + getSiderealLongitude('Moon', jd);
+
+  return {
+    date,
+    latitude,
+    longitude,
+    utcOffset,
+    sunrise: sunrise !== null ? toIso(sunrise) : null,
+    sunset: sunset !== null ? toIso(sunset) : null,
+    moonrise: moonrise !== null ? toIso(moonrise) : null,
+    moonset: moonset !== null ? toIso(moonset) : null,
+    vara: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    tithi: findSpans(tithiAngle, 30, dayStart, dayEnd),
+    nakshatra: findSpans(jd => getSiderealLongitude('Moon', jd), 27, dayStart, dayEnd),
+    yoga: findSpans(sidereal, 27, dayStart, dayEnd),
+    karana: findSpans(tithiAngle, 60, dayStart, dayEnd),
+  };
+};
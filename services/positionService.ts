@@ -0,0 +1,37 @@
+import { GrahaPosition, LagnaResult, PlanetPosition } from "../types";
+import { getSignNumber, getNakshatraName, getNakshatraPada, normalize } from "./ephemerisService";
+import { getHouseOf } from "./lagnaService";
+import { getDignity } from "./dignityService";
+
+// Distance from the Sun within which a graha is combust (Surya Siddhanta); Mercury and Venus are closer when retrograde
+const COMBUSTION_ORBS: { [planet: string]: [number, number] } = {
+  Moon: [12, 12], Mars: [17, 17], Mercury: [14, 12], Jupiter: [11, 11], Venus: [10, 8], Saturn: [15, 15],
+};
+
+const isNode = (planet: string) => planet === 'Rahu' || planet === 'Ketu';
+
+/**
+ * Full position record of every graha: sign, degree, nakshatra pada, motion, combustion,
+ * dignity and house under the Lagna's house system
+ */
+export const computePlanetPositions = (positions: GrahaPosition[], lagna: LagnaResult): PlanetPosition[] => {
+  const sun = positions.find(p => p.planet === 'Sun')!.longitude;
+  return positions.map(({ planet, longitude, speed }) => {
+    const retrograde = speed < 0 && !isNode(planet);
+    const orbs = COMBUSTION_ORBS[planet];
+    const fromSun = Math.min(normalize(longitude - sun), normalize(sun - longitude));
+    return {
+      planet,
+      longitude,
+      sign: getSignNumber(longitude),
+      degree: normalize(longitude) % 30,
+      nakshatra: getNakshatraName(longitude),
+      pada: getNakshatraPada(longitude),
+      speed,
+      retrograde,
+      combust: orbs !== undefined && fromSun < orbs[retrograde ? 1 : 0],
+      dignity: getDignity(planet, longitude),
+      house: getHouseOf(longitude, lagna),
+    };
+  });
+};
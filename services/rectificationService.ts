@@ -0,0 +1,137 @@
+import { GrahaPosition, LifeEvent, LifeEventKind, NodeType, Planet, RectificationCandidate } from "../types";
+import { NAKSHATRAS, ZODIAC_SIGNS } from "../constants";
+import { toJulianDay, getSiderealPositions, getSiderealLongitude, getSignNumber, getNakshatraIndex } from "./ephemerisService";
+import { computeLagna } from "./lagnaService";
+import { getVargaSign } from "./vargaService";
+import { computeVimshottariDasha, getActiveDashaChain } from "./dashaService";
+import { SIGN_LORDS, aspectsSign } from "./dignityService";
+
+// Houses (from the Lagna) and natural karakas that signify each life event; the first house is the primary one
+const EVENT_SIGNIFICATORS: { [key in LifeEventKind]: { houses: number[]; karakas: Planet[] } } = {
+  marriage: { houses: [7, 2, 11], karakas: ['Venus'] },
+  career: { houses: [10, 6, 11], karakas: ['Saturn', 'Sun'] },
+  childbirth: { houses: [5, 9, 11], karakas: ['Jupiter'] },
+};
+
+export const LIFE_EVENT_LABELS: { [key in LifeEventKind]: string } = {
+  marriage: 'Marriage',
+  career: 'First job',
+  childbirth: 'Birth of a child',
+};
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const toHhmm = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const houseSign = (lagnaSign: number, house: number) => ((lagnaSign + house - 2) % 12) + 1;
+
+/**
+ * Dasha and transit agreement between a candidate chart and the person's life events.
+ * The running Mahadasha and Antardasha lords score when they rule or occupy a house of the event,
+ * or are its karaka; Jupiter and Saturn score when they occupy or aspect its primary house, and
+ * both together (the double transit) score once more.
+ */
+const scoreCandidate = (positions: GrahaPosition[], lagnaSign: number, birthJd: number, events: LifeEvent[]) => {
+  const moon = positions.find(p => p.planet === 'Moon')!.longitude;
+  const dasha = computeVimshottariDasha(moon, birthJd);
+  const houseOf = (planet: Planet) => ((getSignNumber(positions.find(p => p.planet === planet)!.longitude) - lagnaSign + 12) % 12) + 1;
+  let score = 0;
+  const hits: string[] = [];
+
+  events.forEach(event => {
+    const { houses, karakas } = EVENT_SIGNIFICATORS[event.kind];
+    const date = new Date(`${event.date}T12:00:00Z`);
+    const label = LIFE_EVENT_LABELS[event.kind];
+
+    getActiveDashaChain(dasha, date).slice(0, 2).forEach(period => {
+      const ruled = houses.filter(h => SIGN_LORDS[houseSign(lagnaSign, h) - 1] === period.lord);
+      const level = period.level === 'mahadasha' ? 'Mahadasha' : 'Antardasha';
+      if (ruled.length) {
+        score += 2;
+        hits.push(`${label}: ${level} lord ${period.lord} rules house ${ruled.join(', ')}`);
+      } else if (houses.includes(houseOf(period.lord))) {
+        score += 2;
+        hits.push(`${label}: ${level} lord ${period.lord} occupies house ${houseOf(period.lord)}`);
+      }
+      if (karakas.includes(period.lord)) {
+        score += 1;
+        hits.push(`${label}: ${level} lord ${period.lord} is the karaka`);
+      }
+    });
+
+    const jd = toJulianDay(event.date, '12:00', 0);
+    const target = houseSign(lagnaSign, houses[0]);
+    const touching = (['Jupiter', 'Saturn'] as Planet[]).filter(planet => {
+      const sign = getSignNumber(getSiderealLongitude(planet, jd));
+      return sign === target || aspectsSign(planet, sign, target);
+    });
+    touching.forEach(planet => hits.push(`${label}: transit ${planet} on house ${houses[0]}`));
+    score += touching.length + (touching.length === 2 ? 1 : 0);
+  });
+
+  return { score, hits };
+};
+
+/**
+ * Sweeps a birth time range minute by minute and returns each stretch over which the Lagna,
+ * the Navamsa Lagna, the Moon's nakshatra and the UTC offset all stay the same, scored against
+ * the life events. The offset is looked up per minute so a range across a clock change splits there.
+ */
+export const sweepBirthTime = (
+  dob: string,
+  fromTime: string,
+  toTime: string,
+  latitude: number,
+  longitude: number,
+  utcOffsetAt: (tob: string) => number,
+  events: LifeEvent[],
+  nodeType: NodeType = 'mean'
+): RectificationCandidate[] => {
+  const from = toMinutes(fromTime);
+  const to = toMinutes(toTime);
+  if (to < from) throw new Error("The end of the time range must be after its start.");
+
+  const jdAt = (minute: number, utcOffset: number) => toJulianDay(dob, toHhmm(minute), utcOffset);
+  const stateAt = (minute: number) => {
+    const utcOffset = utcOffsetAt(toHhmm(minute));
+    const jd = jdAt(minute, utcOffset);
+    const lagna = computeLagna(jd, latitude, longitude);
+    return {
+      utcOffset,
+      lagnaSign: lagna.lagnaSign,
+      navamsaLagnaSign: getVargaSign(lagna.lagnaLongitude, 9),
+      nakshatra: getNakshatraIndex(getSiderealLongitude('Moon', jd)),
+    };
+  };
+  const sameState = (a: ReturnType<typeof stateAt>, b: ReturnType<typeof stateAt>) =>
+    a.utcOffset === b.utcOffset && a.lagnaSign === b.lagnaSign && a.navamsaLagnaSign === b.navamsaLagnaSign && a.nakshatra === b.nakshatra;
+
+  const stretches: { start: number; end: number; state: ReturnType<typeof stateAt> }[] = [];
+  let current = { start: from, end: from, state: stateAt(from) };
+  for (let minute = from + 1; minute <= to; minute++) {
+    const state = stateAt(minute);
+    if (sameState(state, current.state)) {
+      current.end = minute;
+    } else {
+      stretches.push(current);
+      current = { start: minute, end: minute, state };
+    }
+  }
+  stretches.push(current);
+
+  return stretches.map(({ start, end, state }) => {
+    const middle = Math.round((start + end) / 2);
+    const jd = jdAt(middle, state.utcOffset);
+    const { score, hits } = scoreCandidate(getSiderealPositions(jd, nodeType), state.lagnaSign, jd, events);
+    return { start: toHhmm(start), end: toHhmm(end), time: toHhmm(middle), ...state, score, hits };
+  });
+};
+
+/**
+ * One-line description of a candidate's chart markers
+ */
+export const describeCandidate = (c: RectificationCandidate) =>
+  `${ZODIAC_SIGNS[c.lagnaSign - 1].name} Lagna, ${ZODIAC_SIGNS[c.navamsaLagnaSign - 1].name} Navamsa, Moon in ${NAKSHATRAS[c.nakshatra]}`;
@@ -0,0 +1,110 @@
+import { SadeSatiCycle, SadeSatiReport, SaturnTransitPeriod, SaturnTransitPhase } from "../types";
+import { getSiderealLongitude, getSignNumber, julianDayToDate } from "./ephemerisService";
+
+const SCAN_STEP_DAYS = 5;
+const WINDOW_YEARS = 100;
+
+// Saturn's position counted from the Moon sign (1 = over the Moon) that each phase covers
+const PHASE_BY_HOUSE: { [house: number]: SaturnTransitPhase } = {
+  12: 'rising',
+  1: 'peak',
+  2: 'setting',
+  4: 'kantaka',
+  8: 'ashtama',
+};
+
+const saturnSign = (jd: number) => getSignNumber(getSiderealLongitude('Saturn', jd));
+
+// Narrows a sign change between two Julian Days down to about a minute
+const refineIngress = (before: number, after: number): number => {
+  const startSign = saturnSign(before);
+  let lo = before;
+  let hi = after;
+  while (hi - lo > 1 / 1440) {
+    const mid = (lo + hi) / 2;
+    if (saturnSign(mid) === startSign) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+};
+
+/**
+ * Every stay of Saturn in a sidereal sign between two Julian Days,
+ * including the short re-entries caused by retrograde motion
+ */
+export const getSaturnSignStints = (startJd: number, endJd: number) => {
+  const stints: { sign: number; start: number; end: number }[] = [];
+  let currentSign = saturnSign(startJd);
+  let stintStart = startJd;
+  for (let jd = startJd + SCAN_STEP_DAYS; jd <= endJd; jd += SCAN_STEP_DAYS) {
+    const sign = saturnSign(jd);
+    if (sign !== currentSign) {
+      const ingress = refineIngress(jd - SCAN_STEP_DAYS, jd);
+      stints.push({ sign: currentSign, start: stintStart, end: ingress });
+      currentSign = sign;
+      stintStart = ingress;
+    }
+  }
+  stints.push({ sign: currentSign, start: stintStart, end: endJd });
+  return stints;
+};
+
+const toIso = (jd: number) => julianDayToDate(jd).toISOString();
+
+/**
+ * Sade Sati cycles (Saturn in the 12th, 1st and 2nd from the natal Moon) and the
+ * Kantaka (4th) and Ashtama (8th) Dhaiyyas over a 100 year window from birth
+ */
+export const computeSadeSati = (moonLongitude: number, birthJd: number): SadeSatiReport => {
+  const moonSign = getSignNumber(moonLongitude);
+  const stints = getSaturnSignStints(birthJd, birthJd + WINDOW_YEARS * 365.25);
+
+  const cycles: SadeSatiCycle[] = [];
+  const dhaiyyas: SaturnTransitPeriod[] = [];
+  let openCycle: SadeSatiCycle | null = null;
+
+  for (const stint of stints) {
+    const house = ((stint.sign - moonSign + 12) % 12) + 1;
+    const phase = PHASE_BY_HOUSE[house];
+    const period: SaturnTransitPeriod | null = phase
+      ? { phase, sign: stint.sign, start: toIso(stint.start), end: toIso(stint.end) }
+      : null;
+
+    if (period && (phase === 'rising' || phase === 'peak' || phase === 'setting')) {
+      if (!openCycle) {
+        openCycle = { start: period.start, end: period.end, periods: [] };
+        cycles.push(openCycle);
+      }
+      openCycle.periods.push(period);
+      openCycle.end = period.end;
+      continue;
+    }
+
+    // A short retrograde dip into the 11th or 3rd keeps the cycle open; anything else closes it
+    if (openCycle && !((house === 11 || house === 3) && stint.end - stint.start < 365)) {
+      openCycle = null;
+    }
+    if (period) dhaiyyas.push(period);
+  }
+
+  return { moonSign, cycles, dhaiyyas };
+};
+
+export const PHASE_LABELS: { [phase in SaturnTransitPhase]: string } = {
+  rising: 'Rising (12th from Moon)',
+  peak: 'Peak (over Moon)',
+  setting: 'Setting (2nd from Moon)',
+  kantaka: 'Kantaka Dhaiyya (4th)',
+  ashtama: 'Ashtama Dhaiyya (8th)',
+};
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+/**
+ * Text summary of the computed Saturn periods for AI prompts
+ */
+export const formatSadeSatiContext = (report: SadeSatiReport): string => [
+  ...report.cycles.map((c, i) =>
+    `Sade Sati cycle ${i + 1}: ${formatDate(c.start)} to ${formatDate(c.end)} (${c.periods.map(p => `${p.phase} ${formatDate(p.start)} to ${formatDate(p.end)}`).join('; ')})`),
+  ...report.dhaiyyas.map(d => `${PHASE_LABELS[d.phase]}: ${formatDate(d.start)} to ${formatDate(d.end)}`),
+].join('\n');
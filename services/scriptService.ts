@@ -0,0 +1,49 @@
+import { Language } from "../types";
+import { SANSKRIT_TERMS } from "../constants";
+
+// Unicode block start of each Indic script; the blocks share Devanagari's layout letter for letter
+const SCRIPT_BASE: { [key in Language]?: number } = {
+  Hindi: 0x0900,
+  Marathi: 0x0900,
+  Bengali: 0x0980,
+  Punjabi: 0x0a00,
+  Gujarati: 0x0a80,
+  Odia: 0x0b00,
+  Tamil: 0x0b80,
+  Telugu: 0x0c00,
+  Kannada: 0x0c80,
+  Malayalam: 0x0d00,
+};
+
+// Letters a script lacks, replaced by the closest letter it has before shifting blocks
+const SUBSTITUTIONS: { [key in Language]?: { [devanagari: string]: string } } = {
+  Tamil: {
+    'ख': 'क', 'ग': 'क', 'घ': 'क', 'छ': 'च', 'झ': 'ज', 'ठ': 'ट', 'ड': 'ट', 'ढ': 'ट',
+    'थ': 'त', 'द': 'त', 'ध': 'त', 'फ': 'प', 'ब': 'प', 'भ': 'प',
+    'ऋ': 'रु', '\u0943': '\u094dरु', '\u0902': 'म\u094d', '\u0903': '', // vocalic r, anusvara, visarga
+  },
+  Punjabi: { 'ऋ': 'रि', '\u0943': '\u094dरि', 'ष': 'श' },
+  Bengali: { 'व': 'ब', 'ळ': 'ल' },
+};
+
+/**
+ * Renders Devanagari Sanskrit in the script of an Indic language
+ */
+export const transliterate = (devanagari: string, language: Language): string => {
+  const base = SCRIPT_BASE[language];
+  if (base === undefined) return devanagari;
+  const substitutions = SUBSTITUTIONS[language] || {};
+  return Array.from(devanagari)
+    .map(ch => substitutions[ch] ?? ch)
+    .join('')
+    .replace(/[\u0900-\u097f]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x0900 + base));
+};
+
+/**
+ * A Sanskrit term such as a tithi or nakshatra name in the selected language's script,
+ * or its romanized form for English
+ */
+export const localizeTerm = (latin: string, language: Language): string => {
+  const devanagari = SANSKRIT_TERMS[latin];
+  return devanagari && SCRIPT_BASE[language] !== undefined ? transliterate(devanagari, language) : latin;
+};
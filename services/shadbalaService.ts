@@ -0,0 +1,255 @@
+import { BhavaBalaResult, GrahaPosition, LagnaResult, Planet, ShadbalaResult, VargaDivision } from "../types";
+import { getSiderealLongitude, getTropicalLongitude, getSignNumber, normalize } from "./ephemerisService";
+import { getObliquity } from "./lagnaService";
+import { getVargaSign } from "./vargaService";
+import { SIGN_LORDS, NATURAL_RELATIONS, MOOLATRIKONA } from "./dignityService";
+import { getVedicDay } from "./panchangService";
+
+export const SHADBALA_PLANETS: Planet[] = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+const RAD = Math.PI / 180;
+
+// Deep exaltation points; the deep debilitation point is 180° away
+const EXALTATION_DEGREES: { [planet: string]: number } = {
+  Sun: 10, Moon: 33, Mars: 298, Mercury: 165, Jupiter: 95, Venus: 357, Saturn: 200,
+};
+
+const SAPTAVARGAS: VargaDivision[] = [1, 2, 3, 7, 9, 12, 30];
+
+const NAISARGIKA: { [planet: string]: number } = {
+  Sun: 60, Moon: 51.43, Venus: 42.86, Jupiter: 34.29, Mercury: 25.71, Mars: 17.14, Saturn: 8.57,
+};
+
+// Minimum Shadbala in rupas (BPHS)
+const REQUIRED_RUPAS: { [planet: string]: number } = {
+  Sun: 5, Moon: 6, Mars: 5, Mercury: 7, Jupiter: 6.5, Venus: 5.5, Saturn: 5,
+};
+
+// Mean geocentric daily motion, against which Chesta (motional) strength is judged
+const MEAN_MOTION: { [planet: string]: number } = {
+  Mars: 0.524, Mercury: 0.9856, Jupiter: 0.0831, Venus: 0.9856, Saturn: 0.0335,
+};
+
+export const WEEKDAY_LORDS: Planet[] = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+const CHALDEAN_ORDER: Planet[] = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon'];
+
+const arc = (a: number, b: number) => {
+  const d = normalize(a - b);
+  return d > 180 ? 360 - d : d;
+};
+
+// Weekday (0 = Sunday) of the local civil date at a moment
+export const weekdayAt = (jd: number, longitude: number) => Math.floor(jd + 1.5 + longitude / 360) % 7;
+
+// Last time before jd the sidereal Sun stood at the given longitude
+const sunIngressBefore = (jd: number, target: number) => {
+  let t = jd - normalize(getSiderealLongitude('Sun', jd) - target) / 0.9856;
+  for (let i = 0; i < 4; i++) {
+    t -= (((getSiderealLongitude('Sun', t) - target + 540) % 360) - 180) / 0.9856;
+  }
+  return t;
+};
+
+/**
+ * Parashari aspect value in virupas cast by a graha on a longitude, with the
+ * special aspects of Mars (4th, 8th), Jupiter (5th, 9th) and Saturn (3rd, 10th)
+ */
+const drishtiValue = (planet: Planet, from: number, to: number) => {
+  const d = normalize(to - from);
+  let value = 0;
+  if (d >= 30 && d < 60) value = (d - 30) / 2;
+  else if (d >= 60 && d < 90) value = d - 45;
+  else if (d >= 90 && d < 120) value = (120 - d) / 2 + 30;
+  else if (d >= 120 && d < 150) value = 150 - d;
+  else if (d >= 150 && d < 180) value = (d - 150) * 2;
+  else if (d >= 180 && d < 300) value = (300 - d) / 2;
+
+  if (planet === 'Mars' && ((d >= 90 && d < 120) || (d >= 210 && d < 240))) value += 15;
+  if (planet === 'Jupiter' && ((d >= 120 && d < 150) || (d >= 240 && d < 270))) value += 30;
+  if (planet === 'Saturn' && ((d >= 60 && d < 90) || (d >= 270 && d < 300))) value += 45;
+  return Math.min(value, 60);
+};
+
+const saptavargajaPoints = (planet: Planet, longitude: number, division: VargaDivision, d1Signs: { [planet: string]: number }) => {
+  const sign = getVargaSign(longitude, division);
+  const [mtSign, mtFrom, mtTo] = MOOLATRIKONA[planet];
+  const degree = normalize(longitude) % 30;
+  if (division === 1 && sign === mtSign && degree >= mtFrom && degree < mtTo) return 45;
+
+  const lord = SIGN_LORDS[sign - 1];
+  if (lord === planet) return 30;
+
+  // Compound relationship: natural friendship plus the temporal one from the lord's Rasi placement
+  const distance = ((d1Signs[lord] - d1Signs[planet] + 12) % 12) + 1;
+  const temporal = [2, 3, 4, 10, 11, 12].includes(distance) ? 1 : -1;
+  const natural = { friend: 1, neutral: 0, enemy: -1 }[NATURAL_RELATIONS[planet][lord]];
+  return { 2: 22.5, 1: 15, 0: 7.5, [-1]: 3.75, [-2]: 1.875 }[natural + temporal]!;
+};
+
+const chestaPoints = (position: GrahaPosition) => {
+  if (position.speed < 0) return 60;
+  const ratio = position.speed / MEAN_MOTION[position.planet];
+  if (ratio < 0.5) return 15;
+  if (ratio < 0.9) return 30;
+  if (ratio <= 1.1) return 7.5;
+  if (ratio < 1.5) return 45;
+  return 30;
+};
+
+/**
+ * Six-fold strength (Shadbala) of the seven grahas after BPHS, in rupas.
+ * Needs the birth moment and place for the time-based Kala Bala; Yuddha (planetary war) bala is not applied.
+ */
+export const computeShadbala = (
+  positions: GrahaPosition[],
+  lagna: LagnaResult,
+  jd: number,
+  latitude: number,
+  longitude: number
+): ShadbalaResult[] => {
+  const lon: { [planet: string]: number } = {};
+  const d1Signs: { [planet: string]: number } = {};
+  positions.forEach(p => {
+    lon[p.planet] = p.longitude;
+    d1Signs[p.planet] = getSignNumber(p.longitude);
+  });
+
+  const elongation = normalize(lon.Moon - lon.Sun);
+  const waxing = elongation < 180;
+  const isBenefic = (p: Planet) => p === 'Jupiter' || p === 'Venus' || p === 'Mercury' || (p === 'Moon' && waxing);
+
+  // Day and night run from sunrise; without one (polar latitudes) fall back to 6:00 and 18:00 local mean time
+  const localMidnight = Math.floor(jd + 0.5 + longitude / 360) - 0.5 - longitude / 360;
+  const fallbackRise = localMidnight + 0.25 - (jd < localMidnight + 0.25 ? 1 : 0);
+  const day = getVedicDay(jd, latitude, longitude) ?? { sunrise: fallbackRise, sunset: fallbackRise + 0.5, nextSunrise: fallbackRise + 1 };
+  const isDaytime = jd < day.sunset;
+  const noon = (day.sunrise + day.sunset) / 2;
+  const hoursFromMidnight = 12 - arc((jd - noon) * 360, 0) / 15;
+
+  const pakshaBenefic = arc(lon.Moon, lon.Sun) / 3;
+  const varaLord = WEEKDAY_LORDS[weekdayAt(day.sunrise, longitude)];
+  const horaLength = isDaytime ? (day.sunset - day.sunrise) / 12 : (day.nextSunrise - day.sunset) / 12;
+  const horaIndex = Math.floor((jd - (isDaytime ? day.sunrise : day.sunset)) / horaLength) + (isDaytime ? 0 : 12);
+  const horaLord = CHALDEAN_ORDER[(CHALDEAN_ORDER.indexOf(varaLord) + horaIndex) % 7];
+  const abdaLord = WEEKDAY_LORDS[weekdayAt(sunIngressBefore(jd, 0), longitude)];
+  const masaLord = WEEKDAY_LORDS[weekdayAt(sunIngressBefore(jd, Math.floor(lon.Sun / 30) * 30), longitude)];
+  const part = isDaytime
+    ? Math.floor((jd - day.sunrise) / ((day.sunset - day.sunrise) / 3))
+    : Math.floor((jd - day.sunset) / ((day.nextSunrise - day.sunset) / 3));
+  const tribhagaLord = (isDaytime ? ['Mercury', 'Sun', 'Saturn'] : ['Moon', 'Venus', 'Mars'])[Math.min(part, 2)];
+
+  const eps = getObliquity(jd);
+  const ayanaBala = (planet: Planet) => {
+    const kranti = Math.asin(Math.sin(eps * RAD) * Math.sin(getTropicalLongitude(planet, jd) * RAD)) / RAD;
+    const signed = planet === 'Mercury' ? Math.abs(kranti) : planet === 'Moon' || planet === 'Saturn' ? -kranti : kranti;
+    return Math.max(0, Math.min(60, ((24 + signed) / 48) * 60));
+  };
+
+  const digPoints: { [planet: string]: number } = {
+    Sun: lagna.mcLongitude, Mars: lagna.mcLongitude,
+    Jupiter: lagna.lagnaLongitude, Mercury: lagna.lagnaLongitude,
+    Moon: lagna.mcLongitude + 180, Venus: lagna.mcLongitude + 180,
+    Saturn: lagna.lagnaLongitude + 180,
+  };
+
+  return SHADBALA_PLANETS.map(planet => {
+    const l = lon[planet];
+
+    const uchcha = arc(l, EXALTATION_DEGREES[planet] + 180) / 3;
+    const saptavargaja = SAPTAVARGAS.reduce((sum, division) => sum + saptavargajaPoints(planet, l, division, d1Signs), 0);
+    const prefersEven = planet === 'Moon' || planet === 'Venus';
+    const ojhayugma = [getSignNumber(l), getVargaSign(l, 9)].filter(s => (s % 2 === 0) === prefersEven).length * 15;
+    const house = ((d1Signs[planet] - lagna.lagnaSign + 12) % 12) + 1;
+    const kendradi = [1, 4, 7, 10].includes(house) ? 60 : [2, 5, 8, 11].includes(house) ? 30 : 15;
+    const decanate = Math.floor((normalize(l) % 30) / 10);
+    const drekkanaDecanate = ['Sun', 'Mars', 'Jupiter'].includes(planet) ? 0 : planet === 'Mercury' || planet === 'Saturn' ? 1 : 2;
+    const sthana = uchcha + saptavargaja + ojhayugma + kendradi + (decanate === drekkanaDecanate ? 15 : 0);
+
+    const dig = (180 - arc(l, digPoints[planet])) / 3;
+
+    const dayPlanet = planet === 'Sun' || planet === 'Jupiter' || planet === 'Venus';
+    const nathonnata = planet === 'Mercury' ? 60 : dayPlanet ? hoursFromMidnight * 5 : 60 - hoursFromMidnight * 5;
+    const paksha = planet === 'Moon' ? pakshaBenefic * 2 : isBenefic(planet) ? pakshaBenefic : 60 - pakshaBenefic;
+    const tribhaga = planet === 'Jupiter' || planet === tribhagaLord ? 60 : 0;
+    const lordships = (planet === abdaLord ? 15 : 0) + (planet === masaLord ? 30 : 0) + (planet === varaLord ? 45 : 0) + (planet === horaLord ? 60 : 0);
+    const ayana = ayanaBala(planet) * (planet === 'Sun' ? 2 : 1);
+    const kala = nathonnata + paksha + tribhaga + lordships + ayana;
+
+    // The luminaries never retrogress; the Sun takes its Ayana Bala and the Moon its Paksha Bala instead
+    const chesta = planet === 'Sun' ? ayanaBala('Sun') : planet === 'Moon' ? pakshaBenefic : chestaPoints(positions.find(p => p.planet === planet)!);
+
+    const drik = SHADBALA_PLANETS.filter(p => p !== planet)
+      .reduce((sum, p) => sum + (isBenefic(p) ? 1 : -1) * drishtiValue(p, lon[p], l), 0) / 4;
+
+    const virupas = { sthana, dig, kala, chesta, naisargika: NAISARGIKA[planet], drik };
+    const total = Object.values(virupas).reduce((sum, v) => sum + v, 0) / 60;
+    return {
+      planet,
+      sthana: sthana / 60,
+      dig: dig / 60,
+      kala: kala / 60,
+      chesta: chesta / 60,
+      naisargika: NAISARGIKA[planet] / 60,
+      drik: drik / 60,
+      total,
+      required: REQUIRED_RUPAS[planet],
+      ratio: total / REQUIRED_RUPAS[planet],
+    };
+  });
+};
+
+// House (counted from the Lagna) in which a bhava's sign type is strongest: human, watery, Scorpio, quadruped
+const bhavaDigHouse = (longitude: number) => {
+  const sign = getSignNumber(longitude);
+  const firstHalf = normalize(longitude) % 30 < 15;
+  if ([3, 6, 7, 11].includes(sign) || (sign === 9 && firstHalf)) return 1;
+  if ([4, 12].includes(sign) || (sign === 10 && !firstHalf)) return 4;
+  if (sign === 8) return 7;
+  return 10;
+};
+
+/**
+ * Strength of each house: its lord's Shadbala, the directional strength of its sign and the aspects on it.
+ * Whole sign houses are measured at the Lagna degree of each sign; other systems at their cusps.
+ */
+export const computeBhavaBala = (shadbala: ShadbalaResult[], positions: GrahaPosition[], lagna: LagnaResult): BhavaBalaResult[] => {
+  const moon = positions.find(p => p.planet === 'Moon')!.longitude;
+  const sun = positions.find(p => p.planet === 'Sun')!.longitude;
+  const waxing = normalize(moon - sun) < 180;
+
+  return Array.from({ length: 12 }, (_, i) => {
+    const house = i + 1;
+    const point = lagna.houseSystem === 'whole-sign' ? normalize(lagna.lagnaLongitude + i * 30) : lagna.cusps[i];
+    const lord = SIGN_LORDS[getSignNumber(point) - 1];
+    const adhipati = shadbala.find(s => s.planet === lord)!.total;
+
+    const away = Math.abs(house - bhavaDigHouse(point));
+    const dig = (6 - Math.min(away, 12 - away)) * 10;
+
+    // Jupiter and Mercury count in full, other benefics and the malefics a quarter
+    const drishti = positions.filter(p => SHADBALA_PLANETS.includes(p.planet)).reduce((sum, p) => {
+      const value = drishtiValue(p.planet, p.longitude, point);
+      if (p.planet === 'Jupiter' || p.planet === 'Mercury') return sum + value;
+      const benefic = p.planet === 'Venus' || (p.planet === 'Moon' && waxing);
+      return sum + (benefic ? value : -value) / 4;
+    }, 0);
+
+    return { house, lord, adhipati, dig: dig / 60, drishti: drishti / 60, total: adhipati + (dig + drishti) / 60 };
+  });
+};
+
+/**
+ * Strongest and weakest grahas relative to their required Shadbala
+ */
+export const getStrengthExtremes = (shadbala: ShadbalaResult[]) => {
+  const sorted = [...shadbala].sort((a, b) => b.ratio - a.ratio);
+  return { strongest: sorted[0], weakest: sorted[sorted.length - 1] };
+};
+
+/**
+ * Text summary of Shadbala and Bhava Bala for AI prompts
+ */
+export const formatShadbalaContext = (shadbala: ShadbalaResult[], bhavaBala: BhavaBalaResult[]): string => [
+  ...shadbala.map(s => `${s.planet}: ${s.total.toFixed(2)} rupas of ${s.required} required (${(s.ratio * 100).toFixed(0)}%${s.ratio < 1 ? ', weak' : ''})`),
+  `Bhava Bala (rupas): ${bhavaBala.map(b => `H${b.house} ${b.total.toFixed(2)}`).join(', ')}`,
+].join('\n');
@@ -1,5 +1,5 @@
 
-import { Language } from "../types";
+import { AshtakavargaResult, ChartStyle, Language, NatalProfile } from "../types";
 
 const CACHE_PREFIX = 'jyotish_cache_';
 
@@ -55,5 +55,35 @@ export const StorageService = {
   },
 
   setUserSign: (sign: string) => localStorage.setItem(CACHE_PREFIX + 'pref_sign', sign),
-  getUserSign: () => localStorage.getItem(CACHE_PREFIX + 'pref_sign')
+  getUserSign: () => localStorage.getItem(CACHE_PREFIX + 'pref_sign'),
+
+  setChartStyle: (style: ChartStyle) => localStorage.setItem(CACHE_PREFIX + 'pref_chart_style', style),
+  getChartStyle: () => localStorage.getItem(CACHE_PREFIX + 'pref_chart_style') as ChartStyle | null,
+
+  // Natal bindus of the most recently cast Kundali, keyed by its Moon sign so horoscopes only use them for that sign
+  setNatalAshtakavarga: (moonSign: string, ashtakavarga: AshtakavargaResult) =>
+    localStorage.setItem(CACHE_PREFIX + 'natal_ashtakavarga', JSON.stringify({ moonSign, ashtakavarga })),
+  getNatalAshtakavarga: (moonSign: string): AshtakavargaResult | null => {
+    const raw = localStorage.getItem(CACHE_PREFIX + 'natal_ashtakavarga');
+    if (!raw) return null;
+    try {
+      const stored = JSON.parse(raw);
+      return stored.moonSign === moonSign ? stored.ashtakavarga : null;
+    } catch (e) {
+      return null;
+    }
+  },
+
+  // Natal nakshatras of the most recently cast Kundali, used to flag eclipses that fall on them
+  setNatalProfile: (profile: NatalProfile) =>
+    localStorage.setItem(CACHE_PREFIX + 'natal_profile', JSON.stringify(profile)),
+  getNatalProfile: (): NatalProfile | null => {
+    const raw = localStorage.getItem(CACHE_PREFIX + 'natal_profile');
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      return null;
+    }
+  }
 };
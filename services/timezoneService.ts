@@ -0,0 +1,507 @@
+import { TimeZoneInfo } from "../types";
+
+/**
+ * Offline historical time zone resolution for birth times.
+ * Offsets are hours east of UTC; rules follow the IANA tz database history for
+ * the regions our users are born in, with a nautical fallback everywhere else.
+ */
+
+interface LocalMoment {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+interface ZoneResult {
+  offset: number;
+  label: string;
+  isDst?: boolean;
+  approximate?: boolean;
+}
+
+interface ZoneDefinition {
+  id: string;
+  country: string;
+  keywords: string[]; // Matched against the formatted address / country
+  boxes: [number, number, number, number][]; // [latMin, latMax, lngMin, lngMax]
+  outlines?: [number, number][][]; // [lat, lng] rings for borders a box cannot follow
+  resolve: (t: LocalMoment, lat: number, lng: number) => ZoneResult;
+}
+
+// Local clock value comparable across rules (minutes since epoch, ignoring zone)
+const stamp = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  Date.UTC(year, month - 1, day, hour, minute) / 60000;
+
+const momentStamp = (t: LocalMoment) => stamp(t.year, t.month, t.day, t.hour, t.minute);
+
+const inBox = (lat: number, lng: number, [latMin, latMax, lngMin, lngMax]: [number, number, number, number]) =>
+  lat >= latMin && lat <= latMax && lng >= lngMin && lng <= lngMax;
+
+// Even-odd ray cast along the latitude
+const inOutline = (lat: number, lng: number, ring: [number, number][]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lngI] = ring[i];
+    const [latJ, lngJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lng < lngI + ((lat - latI) / (latJ - latI)) * (lngJ - lngI)) inside = !inside;
+  }
+  return inside;
+};
+
+// Day of month of the nth (1-based) Sunday, or the last one when n is -1
+const sunday = (year: number, month: number, n: number): number => {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month, 0));
+    return last.getUTCDate() - last.getUTCDay();
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((7 - first) % 7) + (n - 1) * 7;
+};
+
+// Day of month of the first Sunday on or after a day
+const sundayFrom = (year: number, month: number, day: number): number =>
+  day + ((7 - new Date(Date.UTC(year, month - 1, day)).getUTCDay()) % 7);
+
+const between = (t: LocalMoment, start: number, end: number) => {
+  const s = momentStamp(t);
+  return s >= start && s < end;
+};
+
+// Ordered list of [start stamp, offset, label]; the last entry whose start has passed applies
+type Era = [number, number, string];
+
+const fromEras = (t: LocalMoment, eras: Era[]) => {
+  const s = momentStamp(t);
+  let current = eras[0];
+  for (const era of eras) {
+    if (s >= era[0]) current = era;
+  }
+  return { offset: current[1], label: current[2] };
+};
+
+const HM = (h: number, m: number, s = 0) => h + m / 60 + s / 3600;
+
+// British Raj local times, the 1941-45 war time and the switch to IST
+const INDIA_WAR_TIME: Era[] = [
+  [stamp(1941, 10, 1), HM(6, 30), 'War Time (IST+1)'],
+  [stamp(1942, 5, 15), HM(5, 30), 'Indian Standard Time'],
+  [stamp(1942, 9, 1), HM(6, 30), 'War Time (IST+1)'],
+  [stamp(1945, 10, 15), HM(5, 30), 'Indian Standard Time'],
+];
+
+const resolveIndia = (t: LocalMoment, lat: number, lng: number) => {
+  // Calcutta kept its own time until 1948 outside the war years
+  if (inBox(lat, lng, [21.5, 27.3, 85.8, 89.9])) {
+    return fromEras(t, [
+      [-Infinity, HM(5, 53, 20), 'Calcutta Time'],
+      ...INDIA_WAR_TIME.slice(0, 3),
+      [stamp(1945, 10, 15), HM(5, 53, 20), 'Calcutta Time'],
+      [stamp(1948, 1, 1), HM(5, 30), 'Indian Standard Time'],
+    ]);
+  }
+  // Bombay Time remained in civil use until 1955
+  if (inBox(lat, lng, [15.6, 22.0, 72.6, 76.0])) {
+    return fromEras(t, [
+      [-Infinity, HM(4, 51), 'Bombay Time'],
+      ...INDIA_WAR_TIME.slice(0, 3),
+      [stamp(1945, 10, 15), HM(4, 51), 'Bombay Time'],
+      [stamp(1955, 1, 1), HM(5, 30), 'Indian Standard Time'],
+    ]);
+  }
+  return fromEras(t, [
+    [-Infinity, HM(5, 21, 10), 'Madras Time'],
+    [stamp(1906, 1, 1), HM(5, 30), 'Indian Standard Time'],
+    ...INDIA_WAR_TIME,
+  ]);
+};
+
+// US rules (2am local): 1967-86 last Sun Apr (1974 Jan 6 and 1975 Feb 23 in the energy crisis),
+// 1987-2006 first Sun Apr, since 2007 second Sun Mar
+const usDst = (t: LocalMoment) => {
+  const y = t.year;
+  if (y < 1967) return false;
+  const start = y >= 2007 ? stamp(y, 3, sunday(y, 3, 2), 2)
+    : y >= 1987 ? stamp(y, 4, sunday(y, 4, 1), 2)
+    : y === 1974 ? stamp(y, 1, 6, 2)
+    : y === 1975 ? stamp(y, 2, 23, 2)
+    : stamp(y, 4, sunday(y, 4, -1), 2);
+  const end = y >= 2007 ? stamp(y, 11, sunday(y, 11, 1), 2) : stamp(y, 10, sunday(y, 10, -1), 2);
+  return between(t, start, end);
+};
+
+/**
+ * US clocks before the Uniform Time Act: national DST in 1918-19, War Time (+1 all year) from
+ * February 1942 to September 1945, and between those a local option. The big eastern cities
+ * kept last Sunday in April to the last Sunday in September (October from 1955); elsewhere
+ * most places did not, so those years are estimates.
+ */
+const resolveUs = (t: LocalMoment, standard: number, label: string): ZoneResult => {
+  const y = t.year;
+  if (between(t, stamp(1942, 2, 9, 2), stamp(1945, 9, 30, 2))) {
+    return { offset: standard + 1, label: label.replace(' Time', ' War Time'), isDst: true };
+  }
+  if (y >= 1967) return withDst(standard, label, usDst(t));
+  if (y === 1918 || y === 1919) {
+    return withDst(standard, label, between(t, stamp(y, 3, sunday(y, 3, -1), 2), stamp(y, 10, sunday(y, 10, -1), 2)));
+  }
+  if (y < 1920) return { offset: standard, label };
+  const end = y >= 1955 ? stamp(y, 10, sunday(y, 10, -1), 2) : stamp(y, 9, sunday(y, 9, -1), 2);
+  const dst = standard === -5 && between(t, stamp(y, 4, sunday(y, 4, -1), 2), end);
+  return { ...withDst(standard, label, dst), approximate: true };
+};
+
+// British Summer Time (+1) as [start, end] month and day, where the rules did not follow a fixed Sunday
+const GB_SUMMER: { [year: number]: [number, number, number, number] } = {
+  1946: [4, 14, 10, 6], 1947: [3, 16, 11, 2], 1948: [3, 14, 10, 31], 1949: [4, 3, 10, 30],
+  1950: [4, 16, 10, 22], 1951: [4, 15, 10, 21], 1952: [4, 20, 10, 26], 1953: [4, 19, 10, 4],
+  1954: [4, 11, 10, 3], 1955: [4, 17, 10, 2], 1956: [4, 22, 10, 7], 1957: [4, 14, 10, 6],
+  1958: [4, 20, 10, 5], 1959: [4, 19, 10, 4], 1960: [4, 10, 10, 2],
+};
+
+// British Double Summer Time (+2) during and just after the war
+const GB_DOUBLE_SUMMER: [number, number][] = [
+  [stamp(1941, 5, 4, 2), stamp(1941, 8, 10, 3)],
+  [stamp(1942, 4, 5, 2), stamp(1942, 8, 9, 3)],
+  [stamp(1943, 4, 4, 2), stamp(1943, 8, 15, 3)],
+  [stamp(1944, 4, 2, 2), stamp(1944, 9, 17, 3)],
+  [stamp(1945, 4, 2, 2), stamp(1945, 7, 15, 3)],
+  [stamp(1947, 4, 13, 2), stamp(1947, 8, 10, 3)],
+];
+
+/**
+ * UK clocks: summer time since 1916, BST all year through the war with Double Summer Time on top,
+ * the 1968-71 British Standard Time experiment, and the EU Sundays from 1981 (October ends until 1995
+ * fell on the Sunday after the fourth Saturday). 1916-39 used shifting dates, estimated by the
+ * 1925 Act's rule (the day after the third Saturday in April to the day after the first in October).
+ */
+const resolveBritain = (t: LocalMoment): ZoneResult => {
+  const y = t.year;
+  const s = momentStamp(t);
+  if (GB_DOUBLE_SUMMER.some(([start, end]) => s >= start && s < end)) {
+    return { offset: 2, label: 'British Double Summer Time', isDst: true };
+  }
+  if (between(t, stamp(1940, 2, 25, 2), stamp(1945, 10, 7, 3))) return withDst(0, 'GMT', true);
+  if (between(t, stamp(1968, 2, 18, 2), stamp(1971, 10, 31, 3))) return { offset: 1, label: 'British Standard Time' };
+  if (y < 1916) return { offset: 0, label: 'GMT' };
+  if (y < 1940) {
+    return { ...withDst(0, 'GMT', between(t, stamp(y, 4, sundayFrom(y, 4, 16), 2), stamp(y, 10, sundayFrom(y, 10, 2), 3))), approximate: true };
+  }
+  if (y >= 1996) return withDst(0, 'GMT', euDst(t, 0));
+  if (GB_SUMMER[y]) {
+    const [sm, sd, em, ed] = GB_SUMMER[y];
+    return withDst(0, 'GMT', between(t, stamp(y, sm, sd, 2), stamp(y, em, ed, 3)));
+  }
+  const start = y >= 1981 ? sunday(y, 3, -1)
+    : y >= 1972 ? sundayFrom(y, 3, 16)
+    : y >= 1964 ? sundayFrom(y, 3, 19)
+    : sunday(y, 3, -1);
+  const end = sundayFrom(y, 10, y >= 1990 ? 22 : 23);
+  return withDst(0, 'GMT', between(t, stamp(y, 3, start, y >= 1981 ? 1 : 2), stamp(y, 10, end, y >= 1981 ? 2 : 3)));
+};
+
+/**
+ * Irish clocks: Dublin Mean Time until October 1916, then the UK dates except that the war years
+ * were spent on Irish Summer Time all year with no double summer time, and the 1968-71 all-year
+ * Irish Standard Time ended with Britain's.
+ */
+const resolveIreland = (t: LocalMoment): ZoneResult => {
+  if (between(t, stamp(1916, 5, 21, 2), stamp(1916, 10, 1, 3))) return { offset: HM(0, 34, 39), label: 'Irish Summer Time', isDst: true };
+  if (momentStamp(t) < stamp(1916, 10, 1, 3)) return { offset: -HM(0, 25, 21), label: 'Dublin Mean Time' };
+  if (between(t, stamp(1940, 2, 25, 2), stamp(1946, 10, 6, 3))) return { offset: 1, label: 'Irish Summer Time', isDst: true };
+  if (between(t, stamp(1968, 10, 27), stamp(1971, 10, 31, 3))) return { offset: 1, label: 'Irish Standard Time' };
+  const uk = resolveBritain(t);
+  if (uk.offset === 0) return uk;
+  return { ...uk, offset: 1, label: t.year < 1972 ? 'Irish Summer Time' : 'Irish Standard Time', isDst: true };
+};
+
+// EU rules since 1981 (switching at 01:00 UTC); 1977-80 national rules mostly used the same Sundays
+const euDst = (t: LocalMoment, standard: number) => {
+  const y = t.year;
+  if (y < 1977) return false;
+  const endMonth = y >= 1996 || standard === 0 ? 10 : 9;
+  const start = stamp(y, 3, sunday(y, 3, -1), 1 + standard);
+  const end = stamp(y, endMonth, sunday(y, endMonth, -1), 1 + standard + 1);
+  return between(t, start, end);
+};
+
+// Southern hemisphere: DST spans the new year
+const ausDst = (t: LocalMoment) => {
+  const y = t.year;
+  if (y < 1972) return false;
+  const end = y >= 2008 ? stamp(y, 4, sunday(y, 4, 1), 3) : stamp(y, 3, sunday(y, 3, -1), 3);
+  const start = y >= 2008 ? stamp(y, 10, sunday(y, 10, 1), 2) : stamp(y, 10, sunday(y, 10, -1), 2);
+  const s = momentStamp(t);
+  return s < end || s >= start;
+};
+
+const withDst = (standard: number, label: string, dst: boolean) =>
+  ({ offset: dst ? standard + 1 : standard, label: dst ? `${label} (DST)` : label, isDst: dst });
+
+const ZONES: ZoneDefinition[] = [
+  {
+    id: 'Asia/Kathmandu',
+    country: 'NP',
+    keywords: ['nepal'],
+    boxes: [],
+    // The Terai border runs between Raxaul and Birgunj, Jogbani and Biratnagar
+    outlines: [[
+      [28.9, 80.06], [29.57, 80.35], [29.9, 80.55], [30.2, 80.95], [30.45, 81.3], [30.0, 82.1], [29.5, 83.3],
+      [29.2, 84.1], [28.6, 85.2], [28.3, 85.9], [27.95, 86.6], [27.9, 87.9], [27.8, 88.17], [27.1, 88.15],
+      [26.65, 88.12], [26.35, 88.0], [26.43, 87.26], [26.63, 86.14], [26.78, 85.5], [27.0, 84.87], [27.35, 84.05],
+      [27.48, 83.45], [27.6, 82.9], [27.85, 82.3], [28.04, 81.62], [28.45, 81.1], [28.68, 80.6],
+    ]],
+    resolve: (t) => fromEras(t, [[-Infinity, HM(5, 30), 'Nepal Time'], [stamp(1986, 1, 1), HM(5, 45), 'Nepal Time']]),
+  },
+  {
+    id: 'Asia/Dhaka',
+    country: 'BD',
+    keywords: ['bangladesh', 'dhaka'],
+    boxes: [],
+    // Leaves out Cooch Behar, Balurghat, Meghalaya, Tripura and Barak Valley
+    outlines: [[
+      [20.7, 92.35], [21.0, 90.5], [21.6, 89.1], [22.5, 89.0], [23.04, 88.89], [23.6, 88.6], [24.05, 88.75],
+      [24.6, 88.05], [24.85, 88.15], [25.1, 88.55], [25.1, 89.05], [25.55, 89.05], [25.6, 88.45], [26.1, 88.25],
+      [26.63, 88.43], [26.35, 88.95], [26.1, 89.35], [26.0, 89.85], [25.2, 89.85], [25.2, 90.0], [25.15, 91.0],
+      [25.2, 92.05], [25.1, 92.45], [24.85, 92.3], [24.45, 91.95], [24.15, 91.72], [23.95, 91.35], [23.8, 91.22],
+      [23.4, 91.2], [23.05, 91.38], [22.92, 91.7], [23.35, 91.95], [23.7, 92.3], [22.9, 92.4], [22.1, 92.6],
+      [21.3, 92.65],
+    ]],
+    resolve: (t) => {
+      const base = fromEras(t, [
+        [-Infinity, HM(5, 53, 20), 'Calcutta Time'],
+        ...INDIA_WAR_TIME.slice(0, 3),
+        [stamp(1951, 9, 30), 6, 'Bangladesh Time'],
+      ]);
+      return between(t, stamp(2009, 6, 19, 23), stamp(2010, 1, 1)) ? withDst(6, 'Bangladesh Time', true) : base;
+    },
+  },
+  {
+    id: 'Asia/Colombo',
+    country: 'LK',
+    keywords: ['sri lanka', 'ceylon'],
+    boxes: [[5.9, 9.9, 79.5, 81.9]],
+    resolve: (t) => fromEras(t, [
+      [-Infinity, HM(5, 30), 'Sri Lanka Time'],
+      [stamp(1942, 1, 5), 6, 'War Time'],
+      [stamp(1942, 9, 1), HM(6, 30), 'War Time'],
+      [stamp(1945, 10, 16, 2), HM(5, 30), 'Sri Lanka Time'],
+      [stamp(1996, 5, 25), HM(6, 30), 'Sri Lanka Time'],
+      [stamp(1996, 10, 26, 0, 30), 6, 'Sri Lanka Time'],
+      [stamp(2006, 4, 15, 0, 30), HM(5, 30), 'Sri Lanka Time'],
+    ]),
+  },
+  {
+    id: 'Asia/Karachi',
+    country: 'PK',
+    keywords: ['pakistan'],
+    boxes: [],
+    // Follows the Radcliffe line and the Line of Control, leaving Kutch, Punjab and Kashmir to India
+    outlines: [[
+      [23.6, 68.1], [24.3, 68.8], [24.25, 69.6], [24.2, 71.0], [24.6, 71.1], [25.7, 70.25], [26.6, 69.9],
+      [27.3, 69.75], [27.9, 70.6], [28.2, 71.3], [28.6, 72.2], [29.19, 73.0], [29.9, 73.6], [30.4, 73.95],
+      [31.0, 74.52], [31.6, 74.57], [32.05, 74.95], [32.5, 74.68], [32.75, 74.62], [33.2, 74.1], [33.8, 73.98],
+      [34.1, 73.98], [34.65, 73.95], [34.8, 74.4], [34.85, 75.5], [34.75, 76.3], [35.5, 77.8], [36.3, 76.0],
+      [37.1, 75.0], [37.0, 73.0], [36.5, 71.3], [35.2, 71.0], [34.0, 70.0], [33.0, 69.5], [31.5, 69.0],
+      [31.0, 67.0], [29.8, 66.0], [29.5, 64.0], [29.85, 60.9], [27.2, 62.8], [26.5, 63.2], [25.3, 61.6],
+      [25.0, 61.6], [24.5, 66.5],
+    ]],
+    resolve: (t) => {
+      const dst = between(t, stamp(2002, 4, 7), stamp(2002, 10, 6))
+        || between(t, stamp(2008, 6, 1), stamp(2008, 11, 1))
+        || between(t, stamp(2009, 4, 15), stamp(2009, 11, 1));
+      if (dst) return withDst(5, 'Pakistan Time', true);
+      return fromEras(t, [
+        [-Infinity, HM(5, 30), 'Indian Standard Time'],
+        ...INDIA_WAR_TIME.slice(0, 3),
+        [stamp(1945, 10, 15), HM(5, 30), 'Indian Standard Time'],
+        [stamp(1951, 9, 30), 5, 'Pakistan Time'],
+      ]);
+    },
+  },
+  {
+    id: 'Asia/Kolkata',
+    country: 'IN',
+    keywords: ['india', 'bharat'],
+    boxes: [[6.5, 35.7, 68.0, 97.5]],
+    resolve: resolveIndia,
+  },
+  {
+    id: 'Asia/Dubai',
+    country: 'AE',
+    keywords: ['united arab emirates', 'uae', 'dubai', 'abu dhabi', 'oman', 'muscat'],
+    boxes: [[16.6, 26.4, 51.5, 59.9]],
+    resolve: () => ({ offset: 4, label: 'Gulf Time' }),
+  },
+  {
+    id: 'Asia/Riyadh',
+    country: 'SA',
+    keywords: ['saudi', 'qatar', 'kuwait', 'bahrain'],
+    boxes: [[16.3, 32.2, 34.5, 51.5]],
+    resolve: () => ({ offset: 3, label: 'Arabia Time' }),
+  },
+  {
+    id: 'Asia/Singapore',
+    country: 'SG',
+    keywords: ['singapore', 'malaysia', 'kuala lumpur'],
+    boxes: [[1.1, 7.4, 99.6, 104.5]],
+    resolve: (t) => fromEras(t, [[-Infinity, HM(7, 30), 'Malaya Time'], [stamp(1982, 1, 1), 8, 'Singapore Time']]),
+  },
+  {
+    id: 'Europe/Dublin',
+    country: 'IE',
+    keywords: ['ireland', 'eire', 'dublin'],
+    boxes: [],
+    // The Republic only; Northern Ireland falls through to the UK
+    outlines: [[
+      [51.4, -10.7], [51.4, -6.0], [53.3, -5.9], [54.05, -6.1], [54.15, -6.65], [54.4, -7.0], [54.15, -7.3],
+      [54.1, -7.7], [54.3, -7.87], [54.47, -8.15], [54.65, -7.75], [54.83, -7.47], [55.0, -7.36], [55.2, -6.95],
+      [55.45, -7.3], [55.45, -10.7],
+    ]],
+    resolve: resolveIreland,
+  },
+  {
+    id: 'Europe/London',
+    country: 'GB',
+    keywords: ['united kingdom', 'uk', 'england', 'scotland', 'wales', 'northern ireland', 'london'],
+    boxes: [[49.8, 60.9, -10.7, 1.8]],
+    resolve: resolveBritain,
+  },
+  {
+    id: 'Europe/Berlin',
+    country: 'EU',
+    keywords: ['germany', 'france', 'italy', 'spain', 'netherlands', 'belgium', 'switzerland', 'austria', 'sweden', 'norway', 'denmark', 'poland'],
+    boxes: [[36.0, 71.2, -9.5, 24.2]],
+    // National summer times before 1981 (the wars, Italy 1966-79 and others) are not modelled
+    resolve: (t) => ({ ...withDst(1, 'Central European Time', euDst(t, 1)), approximate: t.year < 1981 }),
+  },
+  {
+    id: 'Australia/Perth',
+    country: 'AU',
+    keywords: ['western australia', 'perth', 'australia'],
+    boxes: [[-35.2, -13.7, 112.9, 129.0]],
+    resolve: () => ({ offset: 8, label: 'AWST' }),
+  },
+  {
+    id: 'Australia/Adelaide',
+    country: 'AU',
+    keywords: ['south australia', 'adelaide', 'northern territory', 'darwin', 'australia'],
+    boxes: [[-38.1, -10.9, 129.0, 141.0]],
+    resolve: (t, lat) => lat > -26 ? { offset: HM(9, 30), label: 'ACST' } : withDst(HM(9, 30), 'ACST', ausDst(t)),
+  },
+  {
+    id: 'Australia/Sydney',
+    country: 'AU',
+    keywords: ['australia', 'sydney', 'melbourne', 'brisbane', 'queensland', 'victoria', 'new south wales', 'tasmania'],
+    boxes: [[-43.7, -9.1, 141.0, 153.7]],
+    resolve: (t, lat) => lat > -28.2 ? { offset: 10, label: 'AEST' } : withDst(10, 'AEST', ausDst(t)),
+  },
+  {
+    id: 'America/New_York',
+    country: 'US',
+    keywords: ['usa', 'united states', 'u.s.', 'canada'],
+    boxes: [[24.5, 49.5, -125.0, -66.9], [49.5, 60, -141.0, -52.6]],
+    resolve: (t, lat, lng) => {
+      // Arizona does not observe DST
+      if (inBox(lat, lng, [31.3, 37.0, -114.8, -109.0])) return { offset: -7, label: 'Mountain Standard Time' };
+      const [standard, label] = lng > -87.5 ? [-5, 'Eastern Time']
+        : lng > -101.5 ? [-6, 'Central Time']
+        : lng > -114.5 ? [-7, 'Mountain Time']
+        : [-8, 'Pacific Time'];
+      return resolveUs(t, standard, label);
+    },
+  },
+  {
+    id: 'Asia/Shanghai',
+    country: 'CN',
+    keywords: ['china', 'beijing', 'shanghai', 'hong kong'],
+    boxes: [[18.1, 53.6, 97.5, 134.8]],
+    resolve: () => ({ offset: 8, label: 'China Standard Time' }),
+  },
+  {
+    id: 'Asia/Tokyo',
+    country: 'JP',
+    keywords: ['japan', 'tokyo'],
+    boxes: [[24.0, 45.6, 129.4, 145.9]],
+    resolve: () => ({ offset: 9, label: 'Japan Standard Time' }),
+  },
+];
+
+const covers = (zone: ZoneDefinition, lat: number, lng: number) =>
+  zone.boxes.some(b => inBox(lat, lng, b)) || !!zone.outlines?.some(ring => inOutline(lat, lng, ring));
+
+// Zones are tried in order, neighbours before the larger country whose box encloses them
+const matchZone = (latitude: number, longitude: number, address?: string): ZoneDefinition | undefined => {
+  const candidates = ZONES.filter(z => covers(z, latitude, longitude));
+  if (address) {
+    // The address only chooses among zones that contain the point ("London, Ontario" stays in Canada)
+    const haystack = ` ${address.toLowerCase().replace(/[^a-z. ]/g, ' ')} `;
+    const byKeyword = candidates.find(z => z.keywords.some(k => haystack.includes(` ${k} `)));
+    if (byKeyword) return byKeyword;
+  }
+  return candidates[0];
+};
+
+/**
+ * Historical UTC offset in force at a birthplace on the local birth date and time
+ */
+export const resolveTimeZone = (latitude: number, longitude: number, dob: string, tob: string, address?: string): TimeZoneInfo => {
+  const [year, month, day] = dob.split('-').map(Number);
+  const [hour, minute] = (tob || '12:00').split(':').map(Number);
+  const moment: LocalMoment = { year, month, day, hour: hour || 0, minute: minute || 0 };
+
+  const zone = matchZone(latitude, longitude, address);
+  if (!zone) {
+    // Nautical time from longitude
+    return { utcOffset: Math.round(longitude / 15), zone: 'Nautical', label: 'Estimated from longitude', isDst: false, approximate: true, source: 'resolved' };
+  }
+  const result = zone.resolve(moment, latitude, longitude);
+  return {
+    utcOffset: result.offset,
+    zone: zone.id,
+    label: result.approximate ? `${result.label}, approximate` : result.label,
+    isDst: !!result.isDst,
+    approximate: !!result.approximate,
+    source: 'resolved',
+  };
+};
+
+/**
+ * A user-entered offset, recorded as such rather than as a resolved zone
+ */
+export const manualTimeZone = (utcOffset: number): TimeZoneInfo => ({
+  utcOffset,
+  zone: 'Manual',
+  label: 'Manual override',
+  isDst: false,
+  approximate: false,
+  source: 'manual',
+});
+
+export const formatUtcOffset = (offset: number): string => {
+  const sign = offset < 0 ? '-' : '+';
+  const totalSeconds = Math.round(Math.abs(offset) * 3600);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `UTC${sign}${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}${s ? `:${s.toString().padStart(2, '0')}` : ''}`;
+};
+
+/**
+ * Parses a user-entered offset such as "+5:30", "-04:00", "5.5" or "UTC+05:53:20".
+ * Two digits after a point are minutes ("+5.30" is 5:30); one digit is a decimal hour.
+ */
+export const parseUtcOffset = (value: string): number | null => {
+  const cleaned = value.trim().toUpperCase().replace(/^(UTC|GMT)/, '');
+  if (!cleaned) return null;
+  const match = cleaned.match(/^([+-])?(\d{1,2})(?:[:.](\d{1,2}))?(?::(\d{1,2}))?$/);
+  if (!match) return null;
+  const sign = match[1] === '-' ? -1 : 1;
+  if (cleaned.includes('.') && !cleaned.includes(':') && (match[3].length === 1 || parseInt(match[3]) >= 60)) {
+    const decimal = parseFloat(cleaned);
+    return Math.abs(decimal) <= 14 ? decimal : null;
+  }
+  const hours = parseInt(match[2]) + parseInt(match[3] || '0') / 60 + parseInt(match[4] || '0') / 3600;
+  return hours <= 14 ? sign * hours : null;
+};
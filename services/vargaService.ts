@@ -0,0 +1,89 @@
+import { GrahaPosition, KundaliChartData, Planet, VargaDivision } from "../types";
+import { getSignNumber, normalize } from "./ephemerisService";
+
+export const VARGAS: { division: VargaDivision; name: string; signifies: string }[] = [
+  { division: 1, name: 'Rasi', signifies: 'Body & overall life' },
+  { division: 2, name: 'Hora', signifies: 'Wealth' },
+  { division: 3, name: 'Drekkana', signifies: 'Siblings & courage' },
+  { division: 7, name: 'Saptamsa', signifies: 'Children' },
+  { division: 9, name: 'Navamsa', signifies: 'Marriage & dharma' },
+  { division: 10, name: 'Dashamsa', signifies: 'Career' },
+  { division: 12, name: 'Dwadasamsa', signifies: 'Parents' },
+  { division: 16, name: 'Shodasamsa', signifies: 'Vehicles & comforts' },
+  { division: 20, name: 'Vimsamsa', signifies: 'Spiritual practice' },
+  { division: 24, name: 'Chaturvimsamsa', signifies: 'Education' },
+  { division: 30, name: 'Trimsamsa', signifies: 'Misfortunes' },
+  { division: 60, name: 'Shashtiamsa', signifies: 'Past karma' },
+];
+
+// Trimsamsa spans (degrees) and the signs ruled by Mars, Saturn, Jupiter, Mercury and Venus in odd signs
+const TRIMSAMSA_ODD: [number, number][] = [[5, 1], [10, 11], [18, 9], [25, 3], [30, 7]];
+const TRIMSAMSA_EVEN: [number, number][] = [[5, 2], [12, 6], [20, 12], [25, 10], [30, 8]];
+
+const signAt = (sign: number, offset: number) => ((sign - 1 + offset) % 12 + 12) % 12 + 1;
+
+// Sign from which counting starts for movable (1), fixed (2) and dual (0) signs
+const byModality = (sign: number, movable: number, fixed: number, dual: number) =>
+  [dual, movable, fixed][sign % 3];
+
+/**
+ * Sign (1-12) a sidereal longitude falls in for a Parashari divisional chart
+ */
+export const getVargaSign = (longitude: number, division: VargaDivision): number => {
+  const lon = normalize(longitude);
+  const sign = getSignNumber(lon);
+  const degree = lon % 30;
+  const part = Math.floor(degree / (30 / division));
+  const odd = sign % 2 === 1;
+
+  switch (division) {
+    case 1:
+      return sign;
+    case 2:
+      return (degree < 15) === odd ? 5 : 4;
+    case 3:
+      return signAt(sign, part * 4);
+    case 7:
+      return signAt(odd ? sign : signAt(sign, 6), part);
+    case 9:
+      return signAt(1, Math.floor(lon / (30 / 9)));
+    case 10:
+      return signAt(odd ? sign : signAt(sign, 8), part);
+    case 12:
+      return signAt(sign, part);
+    case 16:
+      return signAt(byModality(sign, 1, 5, 9), part);
+    case 20:
+      return signAt(byModality(sign, 1, 9, 5), part);
+    case 24:
+      return signAt(odd ? 5 : 4, part);
+    case 30:
+      return (odd ? TRIMSAMSA_ODD : TRIMSAMSA_EVEN).find(([limit]) => degree < limit)![1];
+    case 60:
+      return signAt(sign, part);
+  }
+};
+
+/**
+ * Whole-sign chart for a varga, with houses counted from the varga Lagna
+ */
+export const buildVargaChart = (positions: GrahaPosition[], lagnaLongitude: number, division: VargaDivision) => {
+  const lagnaSign = getVargaSign(lagnaLongitude, division);
+  const chart: KundaliChartData = {};
+  for (let house = 1; house <= 12; house++) chart[house] = [];
+  positions.forEach(({ planet, longitude }) => {
+    const sign = getVargaSign(longitude, division);
+    chart[((sign - lagnaSign + 12) % 12) + 1].push(planet);
+  });
+  return { lagnaSign, chart };
+};
+
+/**
+ * Planets occupying the same sign in the Rasi and the given varga (Navamsa for the Rasi itself)
+ */
+export const getVargottamaPlanets = (positions: GrahaPosition[], division: VargaDivision): Planet[] => {
+  const compareWith = division === 1 ? 9 : division;
+  return positions
+    .filter(p => getSignNumber(p.longitude) === getVargaSign(p.longitude, compareWith))
+    .map(p => p.planet);
+};
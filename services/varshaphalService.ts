@@ -0,0 +1,138 @@
+import { GrahaPosition, HouseSystem, LagnaResult, MuddaPeriod, NodeType, Planet, VarshaOfficer, VarshaphalResult } from "../types";
+import { ZODIAC_SIGNS } from "../constants";
+import { getSiderealLongitude, getSiderealPositions, getSignNumber, getSignName, getNakshatraIndex, formatDegree, formatPositionsTable, julianDayToDate, dateToJulianDay, normalize } from "./ephemerisService";
+import { computeLagna, buildHouseChart } from "./lagnaService";
+import { getSignLord } from "./dignityService";
+import { computeShadbala } from "./shadbalaService";
+import { VIMSHOTTARI_SEQUENCE } from "./dashaService";
+
+const SIDEREAL_YEAR = 365.25636;
+const SUN_MEAN_MOTION = 0.9856;
+
+// Tri-Rashi lords of each Varsha Lagna sign, Aries first, for day and night returns (Tajik Neelakanthi)
+const TRI_RASHI_LORDS: [Planet, Planet][] = [
+  ['Sun', 'Jupiter'], ['Venus', 'Moon'], ['Saturn', 'Mercury'], ['Venus', 'Mars'],
+  ['Jupiter', 'Sun'], ['Moon', 'Venus'], ['Mercury', 'Saturn'], ['Mars', 'Venus'],
+  ['Saturn', 'Saturn'], ['Mars', 'Mars'], ['Jupiter', 'Jupiter'], ['Moon', 'Moon'],
+];
+
+// Houses counted from a planet that it aspects in Tajik: 3/11 and 5/9 openly friendly, 1/7 and 4/10 inimical
+const TAJIK_ASPECT_HOUSES = [1, 3, 4, 5, 7, 9, 10, 11];
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+/**
+ * Moment, as a Julian Day, at which the Sun regains its natal sidereal longitude after `age` years
+ */
+export const findSolarReturn = (natalSun: number, birthJd: number, age: number): number => {
+  let jd = birthJd + age * SIDEREAL_YEAR;
+  for (let i = 0; i < 8; i++) {
+    const diff = normalize(natalSun - getSiderealLongitude('Sun', jd) + 180) - 180;
+    jd += diff / SUN_MEAN_MOTION;
+    if (Math.abs(diff) < 1e-6) break;
+  }
+  return jd;
+};
+
+/**
+ * Completed years of age on a date, counted in solar returns
+ */
+export const getCompletedYears = (natalSun: number, birthJd: number, date: Date = new Date()): number => {
+  const jd = dateToJulianDay(date);
+  let age = Math.max(0, Math.floor((jd - birthJd) / SIDEREAL_YEAR));
+  if (findSolarReturn(natalSun, birthJd, age + 1) <= jd) age++;
+  else if (age > 0 && findSolarReturn(natalSun, birthJd, age) > jd) age--;
+  return age;
+};
+
+// Vimshottari compressed into the solar year, beginning from the lord the Janma Nakshatra reaches after `age` steps
+const computeMuddaDasha = (natalMoon: number, age: number, startJd: number, endJd: number): MuddaPeriod[] => {
+  const offset = (getNakshatraIndex(natalMoon) + age) % 9;
+  const periods: MuddaPeriod[] = [];
+  let cursor = startJd;
+  for (let i = 0; i < 9; i++) {
+    const { lord, years } = VIMSHOTTARI_SEQUENCE[(offset + i) % 9];
+    const end = cursor + ((endJd - startJd) * years) / 120;
+    periods.push({ lord, start: julianDayToDate(cursor).toISOString(), end: julianDayToDate(end).toISOString() });
+    cursor = end;
+  }
+  return periods;
+};
+
+/**
+ * Tajik annual chart (Varshaphal) for the year of life beginning after `age` completed years:
+ * the chart of the solar return at the birth place, the Muntha (progressed one sign a year from the
+ * natal Lagna), the five office-bearers (Panchadhikari) and the Varsheshwara, the strongest of them
+ * by Shadbala that aspects the Varsha Lagna, with the Mudda dasha running through the year.
+ */
+export const computeVarshaphal = (
+  natalPositions: GrahaPosition[],
+  natalLagna: LagnaResult,
+  birthJd: number,
+  age: number,
+  latitude: number,
+  longitude: number,
+  nodeType: NodeType = 'true',
+  houseSystem: HouseSystem = 'whole-sign'
+): VarshaphalResult => {
+  const natalSun = natalPositions.find(p => p.planet === 'Sun')!.longitude;
+  const natalMoon = natalPositions.find(p => p.planet === 'Moon')!.longitude;
+  const startJd = findSolarReturn(natalSun, birthJd, age);
+  const endJd = findSolarReturn(natalSun, birthJd, age + 1);
+
+  const positions = getSiderealPositions(startJd, nodeType);
+  const lagna = computeLagna(startJd, latitude, longitude, houseSystem);
+  const signOf = (planet: Planet) => getSignNumber(positions.find(p => p.planet === planet)!.longitude);
+
+  // Houses 7-12 lie above the horizon, behind the Ascendant in longitude
+  const daytime = normalize(positions.find(p => p.planet === 'Sun')!.longitude - lagna.lagnaLongitude) >= 180;
+  const munthaSign = ((natalLagna.lagnaSign - 1 + age) % 12) + 1;
+  const munthaHouse = ((munthaSign - lagna.lagnaSign + 12) % 12) + 1;
+
+  const shadbala = computeShadbala(positions, lagna, startJd, latitude, longitude);
+  const officer = (role: string, planet: Planet): VarshaOfficer => ({
+    role,
+    planet,
+    aspectsLagna: TAJIK_ASPECT_HOUSES.includes(((lagna.lagnaSign - signOf(planet) + 12) % 12) + 1),
+    strength: shadbala.find(s => s.planet === planet)!.ratio,
+  });
+  const officers = [
+    officer('Muntha lord', getSignLord(munthaSign)),
+    officer('Janma Lagna lord', getSignLord(natalLagna.lagnaSign)),
+    officer('Varsha Lagna lord', getSignLord(lagna.lagnaSign)),
+    officer('Tri-Rashi lord', TRI_RASHI_LORDS[lagna.lagnaSign - 1][daytime ? 0 : 1]),
+    officer('Dina-Ratri lord', getSignLord(signOf(daytime ? 'Sun' : 'Moon'))),
+  ];
+
+  // An office-bearer without aspect on the Lagna cannot rule the year; if none has one, the strongest rules
+  const eligible = officers.some(o => o.aspectsLagna) ? officers.filter(o => o.aspectsLagna) : officers;
+  const yearLord = eligible.reduce((best, o) => (o.strength > best.strength ? o : best)).planet;
+
+  return {
+    age,
+    start: julianDayToDate(startJd).toISOString(),
+    end: julianDayToDate(endJd).toISOString(),
+    positions,
+    lagna,
+    chart: buildHouseChart(positions, lagna),
+    daytime,
+    munthaSign,
+    munthaHouse,
+    officers,
+    yearLord,
+    mudda: computeMuddaDasha(natalMoon, age, startJd, endJd),
+  };
+};
+
+/**
+ * Compact text summary of an annual chart for AI prompts
+ */
+export const formatVarshaphalContext = (v: VarshaphalResult): string => [
+  `Year ${v.age + 1} of life: solar return ${v.start.slice(0, 16).replace('T', ' ')} UT, running to ${formatDate(v.end)} (${v.daytime ? 'day' : 'night'} return)`,
+  formatPositionsTable(v.positions),
+  `Varsha Lagna: ${getSignName(v.lagna.lagnaLongitude)} ${formatDegree(v.lagna.lagnaLongitude)}`,
+  `Muntha: ${ZODIAC_SIGNS[v.munthaSign - 1].name}, house ${v.munthaHouse} from the Varsha Lagna`,
+  'Office-bearers: ' + v.officers.map(o => `${o.role} ${o.planet} (${(o.strength * 100).toFixed(0)}% strength${o.aspectsLagna ? ', aspects the Lagna' : ''})`).join('; '),
+  `Varsheshwara (year lord): ${v.yearLord}`,
+  'Mudda dasha: ' + v.mudda.map(p => `${p.lord} ${formatDate(p.start)} to ${formatDate(p.end)}`).join('; '),
+].join('\n');
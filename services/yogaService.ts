@@ -0,0 +1,273 @@
+import { GrahaPosition, Planet, YogaCategory, YogaResult } from "../types";
+import { getSignNumber } from "./ephemerisService";
+import { getSignLord, isOwnSign, isExalted, isDebilitated, aspectsSign, EXALTATION_SIGNS } from "./dignityService";
+
+interface ChartContext {
+  lagnaSign: number;
+  signOf: (planet: Planet) => number;
+  houseOf: (planet: Planet) => number; // Whole-sign house from Lagna
+  lordOf: (house: number) => Planet;
+}
+
+interface YogaRule {
+  name: string;
+  category: YogaCategory;
+  description: string;
+  detect: (chart: ChartContext) => { planets: Planet[]; houses: number[] }[];
+}
+
+const KENDRAS = [1, 4, 7, 10];
+const TRIKONAS = [1, 5, 9];
+const DUSTHANAS = [6, 8, 12];
+const TRUE_PLANETS: Planet[] = ['Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+const houseFrom = (sign: number, reference: number) => ((sign - reference + 12) % 12) + 1;
+
+// Conjunction, exchange of signs or mutual aspect between two grahas
+const areConnected = (chart: ChartContext, a: Planet, b: Planet) => {
+  const signA = chart.signOf(a);
+  const signB = chart.signOf(b);
+  return signA === signB
+    || (getSignLord(signA) === b && getSignLord(signB) === a)
+    || (aspectsSign(a, signA, signB) && aspectsSign(b, signB, signA));
+};
+
+// Connected lords across pairs of house groups, one match per distinct pair of planets
+const connectedLords = (chart: ChartContext, ...groups: [number[], number[]][]) => {
+  const matches: { planets: Planet[]; houses: number[] }[] = [];
+  const seen = new Set<string>();
+  groups.forEach(([groupA, groupB]) => groupA.forEach(ha => groupB.forEach(hb => {
+    const a = chart.lordOf(ha);
+    const b = chart.lordOf(hb);
+    const key = [a, b].sort().join('-');
+    if (a === b || seen.has(key) || !areConnected(chart, a, b)) return;
+    seen.add(key);
+    matches.push({ planets: [a, b], houses: [ha, hb] });
+  })));
+  return matches;
+};
+
+const mahapurusha = (name: string, planet: Planet, description: string): YogaRule => ({
+  name,
+  category: 'mahapurusha',
+  description,
+  detect: chart => {
+    const sign = chart.signOf(planet);
+    const house = chart.houseOf(planet);
+    return (isOwnSign(planet, sign) || isExalted(planet, sign)) && KENDRAS.includes(house) ? [{ planets: [planet], houses: [house] }] : [];
+  },
+});
+
+// Grahas other than the Sun, Moon and nodes in a house counted from a reference sign
+const planetsInHouseFrom = (chart: ChartContext, reference: number, house: number) =>
+  TRUE_PLANETS.filter(p => houseFrom(chart.signOf(p), reference) === house);
+
+export const YOGA_RULES: YogaRule[] = [
+  {
+    name: 'Gajakesari Yoga',
+    category: 'lunar',
+    description: 'Jupiter in a kendra from the Moon: wisdom, reputation and lasting prosperity.',
+    detect: chart => {
+      const fromMoon = houseFrom(chart.signOf('Jupiter'), chart.signOf('Moon'));
+      return KENDRAS.includes(fromMoon) ? [{ planets: ['Jupiter', 'Moon'], houses: [chart.houseOf('Jupiter'), chart.houseOf('Moon')] }] : [];
+    },
+  },
+  {
+    name: 'Budhaditya Yoga',
+    category: 'solar',
+    description: 'Sun and Mercury together: sharp intellect and skill in communication.',
+    detect: chart => chart.signOf('Sun') === chart.signOf('Mercury') ? [{ planets: ['Sun', 'Mercury'], houses: [chart.houseOf('Sun')] }] : [],
+  },
+  mahapurusha('Ruchaka Yoga', 'Mars', 'Mars strong in a kendra: courage, leadership and physical vigour.'),
+  mahapurusha('Bhadra Yoga', 'Mercury', 'Mercury strong in a kendra: intelligence, eloquence and commercial skill.'),
+  mahapurusha('Hamsa Yoga', 'Jupiter', 'Jupiter strong in a kendra: righteousness, learning and respect.'),
+  mahapurusha('Malavya Yoga', 'Venus', 'Venus strong in a kendra: comfort, beauty, art and a happy marriage.'),
+  mahapurusha('Shasha Yoga', 'Saturn', 'Saturn strong in a kendra: authority over people, discipline and endurance.'),
+  {
+    name: 'Raja Yoga',
+    category: 'raja',
+    description: 'Lords of a kendra and a trikona connected by conjunction, exchange or mutual aspect: power and status.',
+    detect: chart => connectedLords(chart, [[4, 7, 10], TRIKONAS], [[1], [5, 9]]),
+  },
+  {
+    name: 'Yogakaraka',
+    category: 'raja',
+    description: 'A single graha ruling both a kendra and a trikona becomes a strong benefic for the chart.',
+    detect: chart => TRUE_PLANETS.flatMap(p => {
+      const kendra = [4, 7, 10].find(h => chart.lordOf(h) === p);
+      const trikona = [5, 9].find(h => chart.lordOf(h) === p);
+      return kendra && trikona ? [{ planets: [p], houses: [kendra, trikona] }] : [];
+    }),
+  },
+  {
+    name: 'Dhana Yoga',
+    category: 'dhana',
+    description: 'Lords of the wealth houses (2nd, 11th) connected with trikona lords: accumulation of wealth.',
+    detect: chart => connectedLords(chart, [[2, 11], TRIKONAS]),
+  },
+  {
+    name: 'Viparita Raja Yoga',
+    category: 'raja',
+    description: 'A lord of the 6th, 8th or 12th placed in another dusthana: rise through adversity (Harsha, Sarala, Vimala).',
+    detect: chart => DUSTHANAS.flatMap(h => {
+      const lord = chart.lordOf(h);
+      const placed = chart.houseOf(lord);
+      return DUSTHANAS.includes(placed) && placed !== h ? [{ planets: [lord], houses: [h, placed] }] : [];
+    }),
+  },
+  {
+    name: 'Neechabhanga Raja Yoga',
+    category: 'raja',
+    description: 'A debilitated graha whose debilitation is cancelled by its dispositor or exaltation lord in a kendra.',
+    detect: chart => (['Sun', 'Moon', ...TRUE_PLANETS] as Planet[]).flatMap(p => {
+      const sign = chart.signOf(p);
+      if (!isDebilitated(p, sign)) return [];
+      const cancellers = [getSignLord(sign), getSignLord(EXALTATION_SIGNS[p])].filter(c => {
+        const fromLagna = chart.houseOf(c);
+        const fromMoon = houseFrom(chart.signOf(c), chart.signOf('Moon'));
+        return KENDRAS.includes(fromLagna) || KENDRAS.includes(fromMoon);
+      });
+      return cancellers.length ? [{ planets: [p, ...cancellers.filter(c => c !== p)], houses: [chart.houseOf(p)] }] : [];
+    }),
+  },
+  {
+    name: 'Parivartana Yoga',
+    category: 'other',
+    description: 'Two grahas in each other\'s signs, binding the affairs of both houses together.',
+    detect: chart => {
+      const matches: { planets: Planet[]; houses: number[] }[] = [];
+      const grahas: Planet[] = ['Sun', 'Moon', ...TRUE_PLANETS];
+      grahas.forEach((a, i) => grahas.slice(i + 1).forEach(b => {
+        if (getSignLord(chart.signOf(a)) === b && getSignLord(chart.signOf(b)) === a) {
+          matches.push({ planets: [a, b], houses: [chart.houseOf(a), chart.houseOf(b)] });
+        }
+      }));
+      return matches;
+    },
+  },
+  {
+    name: 'Chandra-Mangala Yoga',
+    category: 'dhana',
+    description: 'Moon and Mars together: enterprise and earning through one\'s own effort.',
+    detect: chart => chart.signOf('Moon') === chart.signOf('Mars') ? [{ planets: ['Moon', 'Mars'], houses: [chart.houseOf('Moon')] }] : [],
+  },
+  {
+    name: 'Adhi Yoga',
+    category: 'lunar',
+    description: 'Benefics in the 6th, 7th and 8th from the Moon: leadership, comfort and victory over rivals.',
+    detect: chart => {
+      const benefics = (['Mercury', 'Jupiter', 'Venus'] as Planet[]).filter(p => [6, 7, 8].includes(houseFrom(chart.signOf(p), chart.signOf('Moon'))));
+      return benefics.length >= 2 ? [{ planets: benefics, houses: benefics.map(chart.houseOf) }] : [];
+    },
+  },
+  {
+    name: 'Amala Yoga',
+    category: 'other',
+    description: 'A natural benefic in the 10th from Lagna or Moon: spotless reputation and ethical conduct.',
+    detect: chart => (['Mercury', 'Jupiter', 'Venus'] as Planet[])
+      .filter(p => chart.houseOf(p) === 10 || houseFrom(chart.signOf(p), chart.signOf('Moon')) === 10)
+      .map(p => ({ planets: [p], houses: [chart.houseOf(p)] })),
+  },
+  {
+    name: 'Sunapha Yoga',
+    category: 'lunar',
+    description: 'Grahas in the 2nd from the Moon (but not the 12th): self-earned wealth and a good name.',
+    detect: chart => {
+      const second = planetsInHouseFrom(chart, chart.signOf('Moon'), 2);
+      const twelfth = planetsInHouseFrom(chart, chart.signOf('Moon'), 12);
+      return second.length && !twelfth.length ? [{ planets: second, houses: [chart.houseOf(second[0])] }] : [];
+    },
+  },
+  {
+    name: 'Anapha Yoga',
+    category: 'lunar',
+    description: 'Grahas in the 12th from the Moon (but not the 2nd): good health, charm and renunciation in later life.',
+    detect: chart => {
+      const second = planetsInHouseFrom(chart, chart.signOf('Moon'), 2);
+      const twelfth = planetsInHouseFrom(chart, chart.signOf('Moon'), 12);
+      return twelfth.length && !second.length ? [{ planets: twelfth, houses: [chart.houseOf(twelfth[0])] }] : [];
+    },
+  },
+  {
+    name: 'Durudhara Yoga',
+    category: 'lunar',
+    description: 'Grahas on both sides of the Moon: wealth, vehicles and generosity.',
+    detect: chart => {
+      const second = planetsInHouseFrom(chart, chart.signOf('Moon'), 2);
+      const twelfth = planetsInHouseFrom(chart, chart.signOf('Moon'), 12);
+      return second.length && twelfth.length ? [{ planets: [...second, ...twelfth], houses: [chart.houseOf(second[0]), chart.houseOf(twelfth[0])] }] : [];
+    },
+  },
+  {
+    name: 'Kemadruma Yoga',
+    category: 'dosha',
+    description: 'No graha with or on either side of the Moon: periods of isolation and financial strain unless cancelled.',
+    detect: chart => {
+      const moon = chart.signOf('Moon');
+      const lonely = [1, 2, 12].every(h => planetsInHouseFrom(chart, moon, h).length === 0);
+      // Cancelled when a graha occupies a kendra from the Lagna
+      const cancelled = TRUE_PLANETS.some(p => KENDRAS.includes(chart.houseOf(p)));
+      return lonely && !cancelled ? [{ planets: ['Moon'], houses: [chart.houseOf('Moon')] }] : [];
+    },
+  },
+  {
+    name: 'Vesi Yoga',
+    category: 'solar',
+    description: 'Grahas in the 2nd from the Sun: truthfulness, balance and steady fortune.',
+    detect: chart => {
+      const second = planetsInHouseFrom(chart, chart.signOf('Sun'), 2);
+      return second.length ? [{ planets: second, houses: [chart.houseOf(second[0])] }] : [];
+    },
+  },
+  {
+    name: 'Vasi Yoga',
+    category: 'solar',
+    description: 'Grahas in the 12th from the Sun: charity, skill and prosperity.',
+    detect: chart => {
+      const twelfth = planetsInHouseFrom(chart, chart.signOf('Sun'), 12);
+      return twelfth.length ? [{ planets: twelfth, houses: [chart.houseOf(twelfth[0])] }] : [];
+    },
+  },
+];
+
+// All seven grahas inside the arc from Rahu to Ketu, or from Ketu to Rahu
+const detectKalaSarpa = (positions: GrahaPosition[], chart: ChartContext): YogaResult | null => {
+  const rahu = positions.find(p => p.planet === 'Rahu')!.longitude;
+  const arc = (lon: number) => (lon - rahu + 360) % 360;
+  const others = positions.filter(p => p.planet !== 'Rahu' && p.planet !== 'Ketu');
+  const hemmed = others.every(p => arc(p.longitude) < 180) || others.every(p => arc(p.longitude) > 180);
+  return hemmed ? {
+    name: 'Kala Sarpa Yoga',
+    category: 'dosha',
+    description: 'All grahas hemmed between Rahu and Ketu: obstacles and sudden reversals until the nodes\' lessons are learned.',
+    planets: ['Rahu', 'Ketu'],
+    houses: [chart.houseOf('Rahu'), chart.houseOf('Ketu')],
+  } : null;
+};
+
+/**
+ * Evaluates the yoga catalog against a chart, with whole-sign houses from the Lagna
+ */
+export const detectYogas = (positions: GrahaPosition[], lagnaLongitude: number): YogaResult[] => {
+  const lagnaSign = getSignNumber(lagnaLongitude);
+  const signOf = (planet: Planet) => getSignNumber(positions.find(p => p.planet === planet)!.longitude);
+  const chart: ChartContext = {
+    lagnaSign,
+    signOf,
+    houseOf: planet => houseFrom(signOf(planet), lagnaSign),
+    lordOf: house => getSignLord(((lagnaSign + house - 2) % 12) + 1),
+  };
+
+  const results: YogaResult[] = YOGA_RULES.flatMap(rule =>
+    rule.detect(chart).map(match => ({ name: rule.name, category: rule.category, description: rule.description, ...match })));
+  const kalaSarpa = detectKalaSarpa(positions, chart);
+  return kalaSarpa ? [...results, kalaSarpa] : results;
+};
+
+/**
+ * Text summary of the detected yogas for AI prompts
+ */
+export const formatYogaContext = (yogas: YogaResult[]): string =>
+  yogas.length
+    ? yogas.map(y => `${y.name}: ${y.planets.join(', ')} (house ${y.houses.join(', ')})`).join('\n')
+    : 'No classical yogas from the catalog are present.';
@@ -6,6 +6,26 @@ export interface BirthDetails {
   location: string;
   latitude?: number;
   longitude?: number;
+  utcOffset?: number; // Hours east of UTC in force at the birthplace
+  timeZone?: string; // Name of the zone or rule the offset came from
+}
+
+export interface Place {
+  name: string;
+  region: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  population: number; // Thousands, used to rank suggestions
+}
+
+export interface TimeZoneInfo {
+  utcOffset: number;
+  zone: string;
+  label: string;
+  isDst: boolean;
+  approximate: boolean; // Local or irregular historical rules the resolver only estimates
+  source: 'resolved' | 'manual';
 }
 
 export interface ChatMessage {
@@ -29,6 +49,65 @@ export type MoonSign =
 
 export type Timeframe = 'daily' | 'weekly' | 'monthly';
 
+export type KootaName = 'Varna' | 'Vashya' | 'Tara' | 'Yoni' | 'Graha Maitri' | 'Gana' | 'Bhakoot' | 'Nadi';
+
+export interface KootaScore {
+  koota: KootaName;
+  score: number;
+  maxScore: number;
+  boy: string; // The boy's attribute for this koota, e.g. his Yoni animal
+  girl: string;
+}
+
+export interface AshtakootProfile {
+  moonLongitude: number; // Sidereal
+  rashi: number; // Moon sign 1-12
+  nakshatra: number; // 0-26
+}
+
+export interface AshtakootResult {
+  boy: AshtakootProfile;
+  girl: AshtakootProfile;
+  kootas: KootaScore[];
+  total: number;
+  maxTotal: number;
+  nadiDosha: boolean;
+  bhakootDosha: boolean;
+  verdict: string;
+}
+
+export type ManglikSeverity = 'none' | 'mild' | 'moderate' | 'high';
+
+export interface ManglikReport {
+  marsSign: number;
+  houses: { from: 'Lagna' | 'Moon' | 'Venus'; house: number; dosha: boolean }[]; // Mars' house from each reference
+  severity: ManglikSeverity; // Before cancellation
+  isManglik: boolean; // After cancellation
+  cancellation: string | null; // Rule that cancelled the dosha
+}
+
+export interface ManglikMatch {
+  boy: ManglikReport;
+  girl: ManglikReport;
+  compatible: boolean;
+  rule: string;
+}
+
+export interface MatchmakingResult {
+  report: string; // AI narrative in Markdown
+  ashtakoot: AshtakootResult;
+  manglik: ManglikMatch;
+}
+
+export type KeyTransitKind = 'ingress' | 'retrograde' | 'direct' | 'nakshatra';
+
+export interface KeyTransit {
+  date: string; // ISO date-time of the event (the period start for the Moon's opening nakshatra)
+  planet: Planet;
+  kind: KeyTransitKind;
+  description: string;
+}
+
 export interface PredictionResult {
   overview: string;
   career: string;
@@ -38,16 +117,349 @@ export interface PredictionResult {
   spirituality: string;
   luckyColor: string;
   luckyNumber: string;
+  keyTransits: KeyTransit[]; // Computed, not AI-generated
 }
 
 export interface KundaliChartData {
   [houseNumber: number]: string[]; // House 1-12 mapped to array of planet names
 }
 
+export type ChartStyle = 'north' | 'south' | 'east';
+
+// Parashari divisional charts (D1 Rasi, D9 Navamsa, ...)
+export type VargaDivision = 1 | 2 | 3 | 7 | 9 | 10 | 12 | 16 | 20 | 24 | 30 | 60;
+
+export type Planet = 
+  | 'Sun' | 'Moon' | 'Mars' | 'Mercury' | 'Jupiter' 
+  | 'Venus' | 'Saturn' | 'Rahu' | 'Ketu';
+
+export type NodeType = 'mean' | 'true';
+
+// Lahiri for the Kundali; Krishnamurti (about 6' less) for KP
+export type AyanamsaType = 'lahiri' | 'krishnamurti';
+
+export interface GrahaPosition {
+  planet: Planet;
+  longitude: number; // Sidereal (Lahiri) longitude, 0-360
+  speed: number; // Degrees per day, negative when retrograde
+}
+
+export type Dignity = 'exalted' | 'moolatrikona' | 'own' | 'friend' | 'neutral' | 'enemy' | 'debilitated';
+
+export interface PlanetPosition {
+  planet: Planet;
+  longitude: number; // Sidereal (Lahiri) longitude, 0-360
+  sign: number; // 1-12
+  degree: number; // Degrees within the sign, 0-30
+  nakshatra: string;
+  pada: number; // 1-4
+  speed: number; // Degrees per day
+  retrograde: boolean; // Never set for Rahu and Ketu, whose mean motion is always retrograde
+  combust: boolean; // Within the classical orb of the Sun
+  dignity: Dignity | null; // null for Rahu and Ketu
+  house: number; // 1-12 under the chart's house system
+}
+
+export type HouseSystem = 'whole-sign' | 'placidus' | 'sripati';
+
+export interface LagnaResult {
+  lagnaSign: number; // 1-12
+  lagnaLongitude: number; // Sidereal longitude of the Ascendant
+  mcLongitude: number; // Sidereal longitude of the Midheaven
+  houseSystem: HouseSystem;
+  cusps: number[]; // Sidereal longitude of cusps 1-12 (bhava madhya for Sripati)
+}
+
+export type DashaLevel = 'mahadasha' | 'antardasha' | 'pratyantardasha';
+
+export interface DashaPeriod {
+  lord: Planet;
+  level: DashaLevel;
+  start: string; // ISO date-time
+  end: string;
+  children?: DashaPeriod[];
+}
+
+export type SaturnTransitPhase = 'rising' | 'peak' | 'setting' | 'kantaka' | 'ashtama';
+
+export interface SaturnTransitPeriod {
+  phase: SaturnTransitPhase;
+  sign: number; // Sidereal sign (1-12) Saturn occupies
+  start: string; // ISO date-time of ingress
+  end: string;
+}
+
+export interface SadeSatiCycle {
+  start: string;
+  end: string;
+  periods: SaturnTransitPeriod[];
+}
+
+export interface SadeSatiReport {
+  moonSign: number;
+  cycles: SadeSatiCycle[];
+  dhaiyyas: SaturnTransitPeriod[];
+}
+
+export interface PanchangSpan {
+  index: number; // Position in the element's list (tithi 0-29, nakshatra 0-26, karana 0-59, ...)
+  end: string; // ISO date-time the element ends
+}
+
+export interface PanchangResult {
+  date: string;
+  latitude: number;
+  longitude: number;
+  utcOffset: number;
+  sunrise: string | null; // Null when the body does not rise or set that day
+  sunset: string | null;
+  moonrise: string | null;
+  moonset: string | null;
+  vara: number; // Weekday, 0 = Sunday
+  tithi: PanchangSpan[]; // Each element running from sunrise to the next sunrise
+  nakshatra: PanchangSpan[];
+  yoga: PanchangSpan[];
+  karana: PanchangSpan[];
+}
+
+export type YogaCategory = 'raja' | 'dhana' | 'mahapurusha' | 'lunar' | 'solar' | 'dosha' | 'other';
+
+export interface YogaResult {
+  name: string;
+  category: YogaCategory;
+  description: string;
+  planets: Planet[]; // Grahas that satisfied the rule
+  houses: number[]; // Houses (from Lagna) involved
+}
+
+export interface AshtakavargaResult {
+  bhinna: { [planet: string]: number[] }; // Bindus per sign (Aries first) for each of the seven planets
+  sarva: number[]; // Sarvashtakavarga, sum of the seven Bhinnashtakavargas per sign
+}
+
+export type MuhurtaEvent = 'marriage' | 'griha-pravesh' | 'vehicle' | 'business';
+
+export interface MuhurtaCheck {
+  rule: string; // e.g. "Tithi", "Tarabala"
+  passed: boolean;
+  detail: string;
+}
+
+export interface MuhurtaWindow {
+  start: string; // ISO date-time (UTC)
+  end: string;
+  utcOffset: number; // In force at the place when the window starts, for showing its times
+  passed: boolean; // Every rule passed
+  score: number; // Higher is better; used for ranking
+  checks: MuhurtaCheck[];
+}
+
+export type LifeEventKind = 'marriage' | 'career' | 'childbirth';
+
+export interface LifeEvent {
+  kind: LifeEventKind;
+  date: string; // YYYY-MM-DD
+}
+
+export interface RectificationCandidate {
+  start: string; // HH:MM, first minute of the stretch
+  end: string; // HH:MM, last minute of the stretch
+  time: string; // HH:MM at the middle, the time scored and offered
+  utcOffset: number; // Offset in force over the stretch
+  lagnaSign: number;
+  navamsaLagnaSign: number;
+  nakshatra: number; // Moon's nakshatra index
+  score: number;
+  hits: string[]; // Dasha and transit matches with the life events
+}
+
+export interface TransitPoint {
+  label: string; // e.g. "Natal Moon", "Mahadasha lord Venus"
+  longitude: number; // Sidereal natal longitude
+}
+
+export interface TransitContact {
+  planet: Planet; // Transiting graha
+  point: TransitPoint;
+  orb: number; // Degrees from exact conjunction
+}
+
+export interface ShadbalaResult {
+  planet: Planet;
+  // The six balas, in rupas (60 virupas)
+  sthana: number;
+  dig: number;
+  kala: number;
+  chesta: number;
+  naisargika: number;
+  drik: number;
+  total: number;
+  required: number; // Minimum total in rupas for the planet to count as strong
+  ratio: number; // total / required; below 1 is weak
+}
+
+export interface BhavaBalaResult {
+  house: number;
+  lord: Planet;
+  // Components and total, in rupas
+  adhipati: number;
+  dig: number;
+  drishti: number;
+  total: number;
+}
+
+export interface VarshaOfficer {
+  role: string; // e.g. "Muntha lord", "Tri-Rashi lord"
+  planet: Planet;
+  aspectsLagna: boolean; // Tajik aspect on the Varsha Lagna, required of a year lord
+  strength: number; // Shadbala in the annual chart as a fraction of the required minimum
+}
+
+export interface MuddaPeriod {
+  lord: Planet;
+  start: string; // ISO date-time
+  end: string;
+}
+
+export interface VarshaphalResult {
+  age: number; // Completed years at this solar return
+  start: string; // ISO moment the Sun returns to its natal sidereal longitude
+  end: string; // The following return
+  positions: GrahaPosition[];
+  lagna: LagnaResult;
+  chart: KundaliChartData;
+  daytime: boolean; // Sun above the horizon at the return
+  munthaSign: number;
+  munthaHouse: number; // House of the Muntha from the Varsha Lagna
+  officers: VarshaOfficer[];
+  yearLord: Planet; // Varsheshwara
+  mudda: MuddaPeriod[];
+}
+
+export interface KpLords {
+  sign: Planet;
+  star: Planet;
+  sub: Planet;
+  subSub: Planet;
+}
+
+export interface KpPoint {
+  label: string; // "Cusp 1".."Cusp 12" or the graha's name
+  longitude: number; // Sidereal longitude
+  lords: KpLords;
+}
+
+export interface KpSignificators {
+  house: number;
+  a: Planet[]; // In the star of an occupant
+  b: Planet[]; // Occupants
+  c: Planet[]; // In the star of the owner
+  d: Planet[]; // Owner, the lord of the cusp sign
+}
+
+export interface KpRulingPlanet {
+  role: string; // e.g. "Day lord", "Moon star lord"
+  planet: Planet;
+}
+
+export interface KpResult {
+  lagna: LagnaResult; // Placidus
+  chart: KundaliChartData;
+  cusps: KpPoint[];
+  planets: KpPoint[];
+  significators: KpSignificators[];
+}
+
+export type NameGender = 'boy' | 'girl' | 'unisex';
+
+export type NameOrigin = 'Sanskrit' | 'Tamil' | 'Bengali' | 'Punjabi';
+
+export interface BabyName {
+  name: string;
+  gender: NameGender;
+  origin: NameOrigin;
+  meaning: string;
+}
+
+export interface NameSuggestion {
+  name: BabyName;
+  syllable: string; // Namakshar the name begins with
+  nameNumber: number; // Chaldean
+  score: number; // Harmony with the Bhagyank and Mulank, 0-6
+}
+
+export type CalendarEventKind = 'festival' | 'ekadashi' | 'purnima' | 'amavasya' | 'sankranti' | 'eclipse';
+
+export type ObservanceTime = 'sunrise' | 'sunset' | 'midnight';
+
+export type EclipseType = 'total' | 'annular' | 'partial' | 'penumbral';
+
+export interface EclipseContact {
+  label: string; // e.g. "Umbra begins", "Greatest"
+  time: string; // ISO date-time (UTC)
+  altitude: number; // Of the eclipsed body above the horizon at the place, degrees
+}
+
+export interface EclipseInfo {
+  body: 'solar' | 'lunar';
+  type: EclipseType; // As seen from wherever on Earth it is greatest
+  localType: EclipseType | null; // As seen from the place; null when no phase is above the horizon. Solar eclipses are only ever 'partial' here, since the ephemeris cannot place the narrow central path
+  magnitude: number; // At the place (umbral for lunar eclipses, approximate for solar); 0 when not seen
+  greatest: string; // ISO date-time (UTC)
+  contacts: EclipseContact[]; // At the place, in time order
+  nakshatra: number; // Moon's nakshatra index at greatest eclipse
+  natalHits: string[]; // "Moon" and/or "Lagna" when the eclipse falls in that natal nakshatra
+}
+
+export interface CalendarEvent {
+  kind: CalendarEventKind;
+  name: string;
+  date: string; // YYYY-MM-DD, local civil day of observance
+  start: string; // ISO date-time the tithi, ingress or eclipse begins
+  end?: string;
+  month?: string; // Amanta lunar month, e.g. "Chaitra" or "Adhika Shravana"
+  utcOffset: number; // In force at the place on the date, for showing its times
+  eclipse?: EclipseInfo;
+}
+
+export interface NatalProfile {
+  name: string;
+  moonNakshatra: number;
+  lagnaNakshatra: number;
+}
+
+export type NumerologySystem = 'chaldean' | 'pythagorean';
+
+export interface PythagoreanNumbers {
+  expression: number; // All letters of the full name
+  soulUrge: number; // Vowels
+  personality: number; // Consonants
+  lifePath: number; // Month, day and year reduced separately, then together
+  birthday: number; // Day of birth
+}
+
+export interface NameCorrection {
+  spelling: string;
+  nameNumber: number; // Chaldean, computed exactly
+  edits: string[]; // Each change from the entered spelling, e.g. 'double "n"'
+  score: number; // Harmony with the Bhagyank and Mulank, 3-6
+}
+
 export interface KundaliResponse {
   report: string;
   chart: KundaliChartData;
-  lagnaSign: number; 
+  positions: GrahaPosition[];
+  ayanamsa: number;
+  lagnaSign: number;
+  lagna: LagnaResult;
+  planets: PlanetPosition[];
+  dasha: DashaPeriod[];
+  sadeSati: SadeSatiReport;
+  manglik: ManglikReport;
+  yogas: YogaResult[];
+  ashtakavarga: AshtakavargaResult;
+  shadbala: ShadbalaResult[];
+  bhavaBala: BhavaBalaResult[];
   varna: string;
   gana: string;
   nakshatra: string;